@@ -1,20 +1,29 @@
-import { ConvexHttpClient } from 'convex/browser'
-import type { BridgeState, LiveSetlist } from './state.js'
+import { ConvexClient } from 'convex/browser'
+import { setlistSongSlides } from '@/lib/live/slides'
+import type { BridgeState, LiveSetlist, LiveSetlistSong } from '../live-state/state.js'
+import type { StageStatus } from '../live-state/stage.js'
+import type { SessionLogEntry } from '../live-state/log.js'
+import { backoffDelay } from '../live-state/sync.js'
+import { DEFAULT_THEME } from '../live-state/theme.js'
 
-let client: ConvexHttpClient | null = null
+let client: ConvexClient | null = null
+let room = ''
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 let _api: any = null
 
-export async function initConvex(url: string): Promise<void> {
-  client = new ConvexHttpClient(url)
+// Everything this bridge reads and writes is scoped to one live room.
+export async function initConvex(url: string, liveRoom: string): Promise<void> {
+  client = new ConvexClient(url)
+  room = liveRoom
   _api = await import('../convex/_generated/api.js')
-  console.log('[convex] Connected to', url)
+  console.log(`[convex] Connected to ${url} (room "${room}")`)
 }
 
-export function pushSession(state: BridgeState): void {
+export function pushSession(state: BridgeState, stage: StageStatus): void {
   if (!client || !_api) return
   client.mutation(_api.api.liveSession.update, {
+    room,
     currentSong:  state.currentSong,
     currentSlide: state.currentSlide,
     queuedSong:   state.queuedSong,
@@ -22,15 +31,88 @@ export function pushSession(state: BridgeState): void {
     mode:         state.mode,
     isBlackout:   state.isBlackout,
     isLive:       state.isLive,
+    songStartedAt: stage.songStartedAt ?? undefined,
+    stageMessage:  stage.message || undefined,
   }).catch((err: Error) => console.error('[convex] session update failed:', err.message))
 }
 
 export async function loadSetlist(): Promise<LiveSetlist | null> {
   if (!client || !_api) return null
   try {
-    return (await client.query(_api.api.liveSetlist.get, {})) as LiveSetlist | null
+    return (await client.query(_api.api.liveSetlist.get, { room })) as LiveSetlist | null
   } catch (err: unknown) {
     console.error('[convex] failed to load setlist:', (err as Error).message)
     return null
   }
 }
+
+// Mirror a mid-service edit so /live and /monitor see the same running order.
+export function pushSetlistSongs(setlist: LiveSetlist): void {
+  if (!client || !_api) return
+  client.mutation(_api.api.liveSetlist.updateSongs, { room, songs: setlist.songs })
+    .catch((err: Error) => console.error('[convex] setlist update failed:', err.message))
+}
+
+// Append to the service history; the report page rebuilds the run from these.
+export function pushLogEntry(setlist: LiveSetlist, entry: SessionLogEntry): void {
+  if (!client || !_api || !setlist.pushedAt) return
+  client.mutation(_api.api.liveSessionLog.append, {
+    setlistId: setlist.setlistId, setlistName: setlist.name, pushedAt: setlist.pushedAt, entry,
+  }).catch((err: Error) => console.error('[convex] session log failed:', err.message))
+}
+
+// Build a library song into projector slides for the live setlist, optionally
+// transposed to `key`: chunked and in the languages the setlist's own songs use.
+export async function loadLibrarySong(songId: string, setlist: LiveSetlist, key?: string): Promise<LiveSetlistSong> {
+  if (!client || !_api) throw new Error('Convex sync disabled — song library unavailable')
+  const [song, source] = await Promise.all([
+    client.query(_api.api.songs.get, { id: songId }),
+    setlist.setlistId ? client.query(_api.api.setlists.get, { id: setlist.setlistId }) : null,
+  ])
+  if (!song) throw new Error(`Song ${songId} not found`)
+  const displayKey = key ?? song.key
+  return {
+    title: song.title, artist: song.artist, ccli: song.ccli, key: displayKey, capo: song.capo,
+    slides: setlistSongSlides(song, { displayKey }, source, setlist.theme ?? DEFAULT_THEME),
+  }
+}
+
+// Live subscription to liveSetlist.get. The client reconnects its WebSocket on
+// its own; a query that errors is resubscribed with exponential backoff.
+export function watchSetlist(
+  onSetlist: (setlist: LiveSetlist | null) => void,
+  onConnection: (connected: boolean) => void,
+): () => void {
+  if (!client || !_api) return () => {}
+  const c = client
+  let attempt = 0
+  let retry: ReturnType<typeof setTimeout> | null = null
+  let unsubscribe = () => {}
+
+  const subscribe = () => {
+    unsubscribe = c.onUpdate(_api.api.liveSetlist.get, { room }, (setlist: LiveSetlist | null) => {
+      attempt = 0
+      onSetlist(setlist)
+    }, (err: Error) => {
+      const delay = backoffDelay(attempt++)
+      console.error(`[convex] setlist subscription failed: ${err.message} — retrying in ${delay / 1000}s`)
+      unsubscribe()
+      retry = setTimeout(subscribe, delay)
+    })
+  }
+  subscribe()
+
+  let wasConnected: boolean | null = null
+  const stopConnection = c.subscribeToConnectionState(({ isWebSocketConnected }) => {
+    if (isWebSocketConnected === wasConnected) return
+    wasConnected = isWebSocketConnected
+    console.log(isWebSocketConnected ? '[convex] Live sync connected' : '[convex] Live sync lost — reconnecting…')
+    onConnection(isWebSocketConnected)
+  })
+
+  return () => {
+    if (retry) clearTimeout(retry)
+    unsubscribe()
+    stopConnection()
+  }
+}
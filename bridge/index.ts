@@ -1,12 +1,21 @@
 import { readFileSync, writeFileSync, existsSync } from 'node:fs'
 import {
-  initialState, applyGo, applyBack, applySelection, applyModeToggle,
-  applyBlackout, applyStandby, buildPayload, EMPTY_SETLIST,
+  initialState, applyEvent, applyJump, applyCue, applyAutoAdvance, advanceDelay, buildPayload, EMPTY_SETLIST,
   type BridgeState, type LiveSetlist,
-} from './state.js'
-import { InputSource, type ButtonEvent } from './midi.js'
+} from '../live-state/state.js'
+import { InputSource, loadEasyMidiDriver, type ButtonEvent } from './midi.js'
 import { createBridgeServer } from './server.js'
-import { initConvex, pushSession, loadSetlist } from './convex.js'
+import { setlistOutline, type ControlCommand } from './protocol.js'
+import {
+  initConvex, pushSession, loadSetlist, pushSetlistSongs, loadLibrarySong, watchSetlist, pushLogEntry,
+} from './convex.js'
+import { applySetlistEdit, type SetlistEdit } from '../live-state/edits.js'
+import {
+  receiveSetlist, acceptPending, dismissPending, INITIAL_SYNC, type SyncStatus, type SyncResult,
+} from '../live-state/sync.js'
+import { trackSongStart, setStageMessage, INITIAL_STAGE, type StageStatus } from '../live-state/stage.js'
+import { logEntry, loggedEvent, type LogEvent } from '../live-state/log.js'
+import { normalizeRoom } from '../live-state/rooms.js'
 
 // Load .env file manually (tsx doesn't auto-load it)
 try {
@@ -23,6 +32,10 @@ try {
 const HTTP_PORT  = 8765
 const STATE_FILE = new URL('bridge-state.json', import.meta.url).pathname.replace(/^\/([A-Z]:)/, '$1')
 const CONVEX_URL = process.env.CONVEX_URL ?? ''
+const BRIDGE_PIN = process.env.BRIDGE_PIN || undefined
+const LIVE_ROOM  = normalizeRoom(process.env.LIVE_ROOM)
+const MIDI_MAP   = process.env.MIDI_MAP
+  ?? new URL('midi-map.json', import.meta.url).pathname.replace(/^\/([A-Z]:)/, '$1')
 
 function loadPersistedState(): BridgeState {
   try {
@@ -46,7 +59,7 @@ async function main() {
   let setlist: LiveSetlist = EMPTY_SETLIST
 
   if (CONVEX_URL) {
-    await initConvex(CONVEX_URL)
+    await initConvex(CONVEX_URL, LIVE_ROOM)
     setlist = (await loadSetlist()) ?? EMPTY_SETLIST
   } else {
     console.warn('[bridge] CONVEX_URL not set — Convex sync disabled, local-only mode')
@@ -59,44 +72,150 @@ async function main() {
   }
 
   let state = loadPersistedState()
-  const { broadcast, listen } = createBridgeServer()
+  let sync: SyncStatus = INITIAL_SYNC
+  let stage: StageStatus = trackSongStart(INITIAL_STAGE, initialState(), state, Date.now())
   const input = new InputSource()
 
-  input.on('button', (event: ButtonEvent) => {
-    const prev = state
-    switch (event.type) {
-      case 'selection': state = applySelection(state, event.index, setlist); break
-      case 'go':        state = applyGo(state, setlist);        break
-      case 'back':      state = applyBack(state, setlist);      break
-      case 'mode':      state = applyModeToggle(state);         break
-      case 'blackout':  state = applyBlackout(state);           break
-      case 'standby':   state = applyStandby(state);            break
+  // The running order goes out first so navigators can mark live and queued slides.
+  let outlined: LiveSetlist | null = null
+  function publish(): void {
+    if (setlist !== outlined) {
+      outlined = setlist
+      publishSetlist(setlistOutline(setlist))
     }
-    if (state !== prev) {
+    broadcast(buildPayload(state, setlist, sync, stage))
+    scheduleAdvance()
+  }
+
+  // Announcement loops step on a timer; any state change restarts it, so GO
+  // (or any other press) takes over.
+  let advanceTimer: ReturnType<typeof setTimeout> | null = null
+  let advanceFrom: BridgeState | null = null
+  function scheduleAdvance(): void {
+    if (state === advanceFrom) return
+    advanceFrom = state
+    if (advanceTimer) clearTimeout(advanceTimer)
+    advanceTimer = null
+    const delay = advanceDelay(state, setlist)
+    if (delay !== null) advanceTimer = setTimeout(() => commit(applyAutoAdvance(state, setlist), null), delay)
+  }
+
+  function commit(next: BridgeState, event: LogEvent | null): void {
+    if (next === state) return
+    stage = trackSongStart(stage, state, next, Date.now())
+    state = next
+    persistState(state)
+    publish()
+    pushSession(state, stage)
+    if (event) pushLogEntry(setlist, logEntry(event, state, setlist, Date.now()))
+  }
+
+  function press(event: ButtonEvent): void {
+    commit(applyEvent(state, event, setlist), loggedEvent(event))
+  }
+
+  // Edits change the setlist and remap the state together; the live slide never moves.
+  function editSetlist(edit: SetlistEdit): void {
+    const result = applySetlistEdit(state, setlist, edit)
+    if (result.setlist === setlist) throw new Error(`Can't apply ${edit.type} here`)
+    setlist = result.setlist
+    state = result.state
+    persistState(state)
+    publish()
+    pushSetlistSongs(setlist)
+    pushSession(state, stage)
+  }
+
+  function adopt(r: SyncResult): void {
+    sync = r.sync
+    setlist = r.setlist
+    state = r.state
+  }
+
+  // Every setlist update (subscription or manual reload) goes through here; a
+  // push that lands mid-service is staged until the operator takes it.
+  function onSetlist(incoming: LiveSetlist | null): void {
+    const before = { setlist, pending: sync.pending }
+    adopt(receiveSetlist(sync, state, setlist, incoming, Date.now()))
+    if (setlist !== before.setlist) {
+      console.log(`[bridge] Setlist updated: "${setlist.name}"`)
       persistState(state)
-      const payload = buildPayload(state, setlist)
-      broadcast(payload)
-      pushSession(state)
     }
-  })
+    if (sync.pending && sync.pending !== before.pending) {
+      console.log(`[bridge] New setlist "${sync.pending.name}" staged — take it from a controller when ready`)
+    }
+    publish()
+  }
+
+  function takeStaged(accept: boolean): void {
+    if (!sync.pending) throw new Error('No staged setlist')
+    if (!accept) {
+      sync = dismissPending(sync)
+      publish()
+      return
+    }
+    const before = state
+    adopt(acceptPending(sync, state, setlist))
+    stage = trackSongStart(stage, before, state, Date.now())
+    console.log(`[bridge] Setlist updated: "${setlist.name}"`)
+    persistState(state)
+    publish()
+    pushSession(state, stage)
+  }
+
+  // Remote controllers (emulator, phones, sound-desk tablet) over the WebSocket.
+  async function onCommand(cmd: ControlCommand): Promise<void> {
+    switch (cmd.type) {
+      case 'button': press(cmd.event); break
+      case 'jump':   commit(applyJump(state, cmd.song, cmd.slide, setlist), 'jump'); break
+      case 'cue':    commit(applyCue(state, cmd.song, cmd.slide, setlist), null); break
+      case 'reload':
+        if (!CONVEX_URL) throw new Error('Convex sync disabled — nothing to reload from')
+        onSetlist(await loadSetlist())
+        break
+      case 'staged':
+        takeStaged(cmd.accept)
+        break
+      case 'stageMessage':
+        stage = setStageMessage(stage, cmd.text)
+        publish()
+        pushSession(state, stage)
+        break
+      case 'edit':
+        if (cmd.edit.type === 'insertSong') {
+          const song = await loadLibrarySong(cmd.edit.songId, setlist, cmd.edit.key)
+          editSetlist({ type: 'insertSong', at: cmd.edit.at, song })
+        } else {
+          editSetlist(cmd.edit)
+        }
+        break
+    }
+  }
+
+  const { broadcast, publishSetlist, listen } = createBridgeServer({ pin: BRIDGE_PIN, onCommand })
+
+  input.on('button', press)
 
-  // Poll Convex every 30s for setlist updates
   if (CONVEX_URL) {
-    setInterval(async () => {
-      const fresh = await loadSetlist()
-      if (fresh && fresh.pushedAt !== setlist.pushedAt) {
-        setlist = fresh
-        console.log(`[bridge] Setlist updated: "${setlist.name}"`)
-        broadcast(buildPayload(state, setlist))
-      }
-    }, 30_000)
+    watchSetlist(onSetlist, (connected) => {
+      sync = { ...sync, connected }
+      publish()
+    })
   }
 
   process.on('uncaughtException', (err: Error) => console.error('[bridge] Uncaught:', err.message))
 
   await listen(HTTP_PORT)
   input.startKeyboard()
-  broadcast(buildPayload(state, setlist))
+
+  // Pedal is additive: keyboard stays live even if MIDI never comes up.
+  const midi = await loadEasyMidiDriver(process.env.MIDI_VIRTUAL || undefined)
+  if (midi) {
+    input.startMidi(midi, { mappingFile: MIDI_MAP, deviceName: process.env.MIDI_DEVICE || undefined })
+    if (!input.connectedDevice) console.log('[midi] No pedal found yet — will connect when plugged in')
+  }
+
+  publish()
 
   console.log('\n[bridge] Ready — keyboard controls active above.')
 }
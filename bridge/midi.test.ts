@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtempSync, readFileSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  InputSource, matchMidi, loadMidiMapping, DEFAULT_MIDI_MAPPING,
+  type ButtonEvent, type MidiDriver, type MidiMessage,
+} from './midi.js'
+
+// Mock device harness: plug/unplug named inputs and press their pedals.
+class MockMidiDriver implements MidiDriver {
+  inputs = new Set<string>()
+  private handlers = new Map<string, (msg: MidiMessage) => void>()
+  opened: string[] = []
+
+  listInputs(): string[] { return [...this.inputs] }
+
+  open(name: string, onMessage: (msg: MidiMessage) => void) {
+    if (!this.inputs.has(name)) throw new Error('no such port')
+    this.handlers.set(name, onMessage)
+    this.opened.push(name)
+    return { close: () => { this.handlers.delete(name) } }
+  }
+
+  plug(name: string)   { this.inputs.add(name) }
+  unplug(name: string) { this.inputs.delete(name); this.handlers.delete(name) }
+
+  note(name: string, note: number, velocity = 127) {
+    this.handlers.get(name)?.({ kind: 'note', channel: 0, number: note, value: velocity })
+  }
+  cc(name: string, controller: number, value = 127) {
+    this.handlers.get(name)?.({ kind: 'cc', channel: 0, number: controller, value })
+  }
+}
+
+const note = (n: number, v = 127): MidiMessage => ({ kind: 'note', channel: 0, number: n, value: v })
+
+describe('matchMidi', () => {
+  it('maps the default pedal layout to button events', () => {
+    expect(matchMidi(note(60), DEFAULT_MIDI_MAPPING)).toEqual({ type: 'selection', index: 0 })
+    expect(matchMidi(note(65), DEFAULT_MIDI_MAPPING)).toEqual({ type: 'selection', index: 5 })
+    expect(matchMidi(note(66), DEFAULT_MIDI_MAPPING)).toEqual({ type: 'go' })
+    expect(matchMidi(note(69), DEFAULT_MIDI_MAPPING)).toEqual({ type: 'mode' })
+  })
+  it('ignores releases (note-off / zero velocity / CC 0)', () => {
+    expect(matchMidi(note(66, 0), DEFAULT_MIDI_MAPPING)).toBeNull()
+    expect(matchMidi({ kind: 'cc', channel: 0, number: 20, value: 0 }, { go: 'cc:20' })).toBeNull()
+  })
+  it('distinguishes notes from CCs with the same number', () => {
+    expect(matchMidi({ kind: 'cc', channel: 0, number: 66, value: 127 }, DEFAULT_MIDI_MAPPING)).toBeNull()
+  })
+  it('is channel-agnostic', () => {
+    expect(matchMidi({ kind: 'note', channel: 9, number: 67, value: 90 }, DEFAULT_MIDI_MAPPING)).toEqual({ type: 'back' })
+  })
+  it('returns null for unmapped messages', () => {
+    expect(matchMidi(note(10), DEFAULT_MIDI_MAPPING)).toBeNull()
+  })
+})
+
+describe('loadMidiMapping', () => {
+  let dir: string
+  beforeEach(() => { dir = mkdtempSync(join(tmpdir(), 'wma-midi-')) })
+
+  it('falls back to the default layout when the file is missing', () => {
+    expect(loadMidiMapping(join(dir, 'missing.json'))).toEqual(DEFAULT_MIDI_MAPPING)
+  })
+  it('falls back to the default layout when the file is corrupt', () => {
+    const file = join(dir, 'map.json')
+    writeFileSync(file, '{ not json')
+    expect(loadMidiMapping(file)).toEqual(DEFAULT_MIDI_MAPPING)
+  })
+  it('keeps only valid action → signature entries', () => {
+    const file = join(dir, 'map.json')
+    writeFileSync(file, JSON.stringify({ go: 'cc:20', back: 'bogus', jump: 'note:1' }))
+    expect(loadMidiMapping(file)).toEqual({ go: 'cc:20' })
+  })
+})
+
+describe('InputSource — MIDI', () => {
+  let driver: MockMidiDriver
+  let input: InputSource
+  let events: ButtonEvent[]
+  let mappingFile: string
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    driver = new MockMidiDriver()
+    input = new InputSource()
+    events = []
+    input.on('button', (e: ButtonEvent) => events.push(e))
+    mappingFile = join(mkdtempSync(join(tmpdir(), 'wma-midi-')), 'midi-map.json')
+  })
+
+  afterEach(() => {
+    input.stopMidi()
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('opens the first input and emits mapped presses', () => {
+    driver.plug('Pro Micro')
+    input.startMidi(driver, { mappingFile })
+    expect(input.connectedDevice).toBe('Pro Micro')
+    driver.note('Pro Micro', 66)
+    driver.note('Pro Micro', 66, 0)
+    driver.note('Pro Micro', 62)
+    expect(events).toEqual([{ type: 'go' }, { type: 'selection', index: 2 }])
+  })
+
+  it('picks the configured device by name', () => {
+    driver.plug('Keyboard Synth')
+    driver.plug('Arduino Pro Micro')
+    input.startMidi(driver, { mappingFile, deviceName: 'pro micro' })
+    expect(input.connectedDevice).toBe('Arduino Pro Micro')
+  })
+
+  it('connects when the pedal is plugged in after start', () => {
+    input.startMidi(driver, { mappingFile, pollMs: 1000 })
+    expect(input.connectedDevice).toBeNull()
+    driver.plug('Pro Micro')
+    vi.advanceTimersByTime(1000)
+    expect(input.connectedDevice).toBe('Pro Micro')
+  })
+
+  it('reconnects after the pedal is unplugged and plugged back in', () => {
+    const status: unknown[] = []
+    input.on('midi-status', s => status.push(s))
+    driver.plug('Pro Micro')
+    input.startMidi(driver, { mappingFile, pollMs: 1000 })
+
+    driver.unplug('Pro Micro')
+    vi.advanceTimersByTime(1000)
+    expect(input.connectedDevice).toBeNull()
+
+    driver.plug('Pro Micro')
+    vi.advanceTimersByTime(1000)
+    expect(input.connectedDevice).toBe('Pro Micro')
+    expect(driver.opened).toEqual(['Pro Micro', 'Pro Micro'])
+    expect(status).toEqual([
+      { connected: true, device: 'Pro Micro' },
+      { connected: false, device: null },
+      { connected: true, device: 'Pro Micro' },
+    ])
+
+    driver.note('Pro Micro', 67)
+    expect(events).toEqual([{ type: 'back' }])
+  })
+
+  it('learn mode records one press per action and saves the mapping', () => {
+    driver.plug('Pedal')
+    input.startMidi(driver, { mappingFile })
+    input.learn(['go', 'back'])
+    expect(input.learning).toBe('go')
+
+    driver.cc('Pedal', 20)
+    driver.cc('Pedal', 20, 0)   // release is ignored
+    expect(input.learning).toBe('back')
+    driver.cc('Pedal', 21)
+    expect(input.learning).toBeNull()
+
+    // Learning doesn't fire actions; afterwards the new mapping does.
+    expect(events).toEqual([])
+    driver.cc('Pedal', 20)
+    driver.cc('Pedal', 21)
+    expect(events).toEqual([{ type: 'go' }, { type: 'back' }])
+
+    const saved = JSON.parse(readFileSync(mappingFile, 'utf8'))
+    expect(saved.go).toBe('cc:20')
+    expect(saved.back).toBe('cc:21')
+  })
+
+  it('learning a signature removes it from any other action', () => {
+    driver.plug('Pedal')
+    input.startMidi(driver, { mappingFile })
+    input.learn(['blackout'])
+    driver.note('Pedal', 66) // was GO in the default layout
+    expect(input.mapping.go).toBeUndefined()
+    expect(input.mapping.blackout).toBe('note:66')
+  })
+
+  it('loads a saved mapping on start', () => {
+    writeFileSync(mappingFile, JSON.stringify({ standby: 'note:40' }))
+    driver.plug('Pedal')
+    input.startMidi(driver, { mappingFile })
+    driver.note('Pedal', 40)
+    driver.note('Pedal', 66)
+    expect(events).toEqual([{ type: 'standby' }])
+  })
+})
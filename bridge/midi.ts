@@ -1,18 +1,132 @@
 import { EventEmitter } from 'node:events'
+import { readFileSync, writeFileSync, existsSync } from 'node:fs'
+import type { ButtonEvent } from '../live-state/state.js'
 
-export type ButtonEvent =
-  | { type: 'selection'; index: number }
-  | { type: 'mode' }
-  | { type: 'blackout' }
-  | { type: 'go' }
-  | { type: 'back' }
-  | { type: 'standby' }
+export type { ButtonEvent }
+
+// Mappable pedal actions. Keys match the desktop app's MIDI Learn ("sel0".."sel5").
+export type MidiAction =
+  | 'sel0' | 'sel1' | 'sel2' | 'sel3' | 'sel4' | 'sel5'
+  | 'go' | 'back' | 'blackout' | 'mode' | 'standby'
+
+// Learn order: top row left→right, then the bottom row.
+export const MIDI_ACTIONS: MidiAction[] = [
+  'sel0', 'sel1', 'sel2', 'sel3', 'sel4', 'sel5', 'go', 'back', 'blackout', 'mode', 'standby',
+]
+
+export interface MidiMessage {
+  kind:    'note' | 'cc'
+  channel: number
+  number:  number   // note number or controller number
+  value:   number   // velocity or CC value; 0 = release
+}
+
+// action → message signature, e.g. { go: 'note:66', back: 'cc:21' }. Channel-agnostic.
+export type MidiMapping = Partial<Record<MidiAction, string>>
+
+// Arduino Control Surface NoteButtons on C4 upward. Standby stays keyboard-only by default.
+export const DEFAULT_MIDI_MAPPING: MidiMapping = {
+  sel0: 'note:60', sel1: 'note:61', sel2: 'note:62', sel3: 'note:63', sel4: 'note:64', sel5: 'note:65',
+  go: 'note:66', back: 'note:67', blackout: 'note:68', mode: 'note:69',
+}
+
+export function midiSignature(msg: MidiMessage): string {
+  return `${msg.kind}:${msg.number}`
+}
+
+export function actionToEvent(action: MidiAction): ButtonEvent {
+  if (action.startsWith('sel')) return { type: 'selection', index: +action.slice(3) }
+  return { type: action as Exclude<MidiAction, `sel${number}`> }
+}
+
+// Presses only: note-on with velocity > 0, or a CC moving off zero.
+export function matchMidi(msg: MidiMessage, mapping: MidiMapping): ButtonEvent | null {
+  if (msg.value <= 0) return null
+  const sig = midiSignature(msg)
+  for (const action of MIDI_ACTIONS) {
+    if (mapping[action] === sig) return actionToEvent(action)
+  }
+  return null
+}
+
+// Missing or corrupt files fall back to the default layout so a bad edit never kills the pedal.
+export function loadMidiMapping(path: string): MidiMapping {
+  try {
+    if (existsSync(path)) {
+      const raw = JSON.parse(readFileSync(path, 'utf8'))
+      if (raw && typeof raw === 'object' && !Array.isArray(raw)) {
+        const mapping: MidiMapping = {}
+        for (const action of MIDI_ACTIONS) {
+          if (typeof raw[action] === 'string' && /^(note|cc):\d+$/.test(raw[action])) mapping[action] = raw[action]
+        }
+        return mapping
+      }
+    }
+  } catch {}
+  return { ...DEFAULT_MIDI_MAPPING }
+}
+
+export function saveMidiMapping(path: string, mapping: MidiMapping): void {
+  try { writeFileSync(path, JSON.stringify(mapping, null, 2)) } catch {}
+}
+
+// ---------- drivers ----------
+
+export interface MidiPort { close(): void }
+
+// Thin seam over the MIDI library so tests (and dev machines without a pedal) can
+// plug in a mock device.
+export interface MidiDriver {
+  listInputs(): string[]
+  open(name: string, onMessage: (msg: MidiMessage) => void): MidiPort
+}
+
+// Real backend via easymidi (native, optional). Returns null if it isn't installed or
+// its binary won't load — the bridge then runs keyboard-only.
+// With `virtualName`, exposes a virtual input port other apps can send to instead of
+// looking for hardware.
+export async function loadEasyMidiDriver(virtualName?: string): Promise<MidiDriver | null> {
+  let easymidi: typeof import('easymidi')
+  try {
+    easymidi = await import('easymidi')
+    easymidi.getInputs()
+  } catch (err: unknown) {
+    console.warn('[midi] easymidi unavailable:', (err as Error).message)
+    return null
+  }
+  return {
+    listInputs: () => virtualName ? [virtualName] : easymidi.getInputs(),
+    open(name, onMessage) {
+      const input = new easymidi.Input(name, !!virtualName)
+      input.on('noteon', n => onMessage({ kind: 'note', channel: n.channel, number: n.note, value: n.velocity }))
+      input.on('noteoff', n => onMessage({ kind: 'note', channel: n.channel, number: n.note, value: 0 }))
+      input.on('cc', c => onMessage({ kind: 'cc', channel: c.channel, number: c.controller, value: c.value }))
+      return { close: () => input.close() }
+    },
+  }
+}
+
+export interface MidiOptions {
+  mappingFile: string
+  deviceName?: string   // case-insensitive substring; default = first input found
+  pollMs?:     number   // hot-plug scan interval
+}
 
 // 10-button controller layout:
 //   Top row (1-6): selection — songs (song mode) or slides (slide mode)
 //   Bottom row:    GO / BACK / BLANK / TOGGLE
 // Keyboard fallback maps to the same actions.
+//
+// Events: 'button' (ButtonEvent), 'midi-status' ({ connected, device }), 'learned' (MidiMapping).
 export class InputSource extends EventEmitter {
+  private driver:      MidiDriver | null = null
+  private options:     MidiOptions | null = null
+  private port:        MidiPort | null = null
+  private portName:    string | null = null
+  private pollTimer:   ReturnType<typeof setInterval> | null = null
+  private learnQueue:  MidiAction[] = []
+  mapping: MidiMapping = { ...DEFAULT_MIDI_MAPPING }
+
   startKeyboard(): void {
     if (!process.stdin.isTTY) {
       console.log('[input] Not a TTY — keyboard fallback unavailable')
@@ -39,8 +153,98 @@ export class InputSource extends EventEmitter {
       else if (k === 't' || k === 'm') this.emit('button', { type: 'mode' })
       else if (k === 'b')              this.emit('button', { type: 'blackout' })
       else if (k === 's')              this.emit('button', { type: 'standby' })
+      else if (k === 'l') {
+        if (this.learning) this.cancelLearn()
+        else this.learn()
+      }
     })
 
-    console.log('[input] Keyboard: 1-6=select  Space/→=GO  Backspace/←=BACK  T=toggle  B=blank  S=standby  Ctrl+C=quit')
+    console.log('[input] Keyboard: 1-6=select  Space/→=GO  Backspace/←=BACK  T=toggle  B=blank  S=standby  L=MIDI learn  Ctrl+C=quit')
+  }
+
+  // Open the pedal and keep watching for it: an unplugged device is closed and
+  // reopened as soon as it shows up again. Keyboard input is unaffected throughout.
+  startMidi(driver: MidiDriver, options: MidiOptions): void {
+    this.stopMidi()
+    this.driver = driver
+    this.options = options
+    this.mapping = loadMidiMapping(options.mappingFile)
+    this.scan()
+    this.pollTimer = setInterval(() => this.scan(), options.pollMs ?? 2000)
+  }
+
+  stopMidi(): void {
+    if (this.pollTimer) clearInterval(this.pollTimer)
+    this.pollTimer = null
+    this.closePort()
+  }
+
+  get connectedDevice(): string | null { return this.portName }
+  get learning(): MidiAction | null { return this.learnQueue[0] ?? null }
+
+  // Record the next pedal press for each action in turn (default: every action).
+  learn(actions: MidiAction[] = MIDI_ACTIONS): void {
+    this.learnQueue = [...actions]
+    this.promptLearn()
+  }
+
+  cancelLearn(): void {
+    if (!this.learnQueue.length) return
+    this.learnQueue = []
+    console.log('[midi] Learn cancelled')
+  }
+
+  handleMidi(msg: MidiMessage): void {
+    if (msg.value <= 0) return
+    const action = this.learnQueue[0]
+    if (action) {
+      const sig = midiSignature(msg)
+      // One pedal drives one action — steal the signature from wherever it was.
+      for (const a of MIDI_ACTIONS) if (this.mapping[a] === sig) delete this.mapping[a]
+      this.mapping[action] = sig
+      console.log(`[midi] ${action} → ${sig}`)
+      this.learnQueue.shift()
+      if (this.options) saveMidiMapping(this.options.mappingFile, this.mapping)
+      if (this.learnQueue.length) this.promptLearn()
+      else { console.log('[midi] Learn complete'); this.emit('learned', { ...this.mapping }) }
+      return
+    }
+    const event = matchMidi(msg, this.mapping)
+    if (event) this.emit('button', event)
+  }
+
+  private promptLearn(): void {
+    console.log(`[midi] Learn: press the pedal for ${this.learnQueue[0]} (L to cancel)`)
+  }
+
+  private scan(): void {
+    if (!this.driver || !this.options) return
+    let inputs: string[]
+    try { inputs = this.driver.listInputs() } catch { inputs = [] }
+
+    if (this.portName !== null) {
+      if (inputs.includes(this.portName)) return
+      console.warn(`[midi] "${this.portName}" disconnected — waiting for it to come back`)
+      this.closePort()
+      this.emit('midi-status', { connected: false, device: null })
+    }
+
+    const want = this.options.deviceName?.toLowerCase()
+    const name = want ? inputs.find(n => n.toLowerCase().includes(want)) : inputs[0]
+    if (!name) return
+    try {
+      this.port = this.driver.open(name, msg => this.handleMidi(msg))
+      this.portName = name
+      console.log(`[midi] Connected: ${name}`)
+      this.emit('midi-status', { connected: true, device: name })
+    } catch (err: unknown) {
+      console.error(`[midi] Failed to open "${name}":`, (err as Error).message)
+    }
+  }
+
+  private closePort(): void {
+    try { this.port?.close() } catch {}
+    this.port = null
+    this.portName = null
   }
 }
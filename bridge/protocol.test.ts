@@ -0,0 +1,252 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { WebSocket } from 'ws'
+import { parseClientMessage, checkPin, setlistOutline, type ControlCommand } from './protocol.js'
+import { createBridgeServer } from './server.js'
+
+const msg = (m: object) => JSON.stringify({ v: 1, ...m })
+
+describe('parseClientMessage', () => {
+  it('accepts every button event', () => {
+    for (const event of [
+      { type: 'go' }, { type: 'back' }, { type: 'mode' },
+      { type: 'blackout' }, { type: 'standby' }, { type: 'selection', index: 3 },
+    ]) {
+      const r = parseClientMessage(msg({ type: 'button', event }))
+      expect(r).toEqual({ ok: true, msg: { v: 1, id: undefined, type: 'button', event } })
+    }
+  })
+  it('accepts jump and reload, echoing the id', () => {
+    expect(parseClientMessage(msg({ type: 'jump', song: 2, slide: 0, id: 'a1' })))
+      .toEqual({ ok: true, msg: { v: 1, id: 'a1', type: 'jump', song: 2, slide: 0 } })
+    expect(parseClientMessage(msg({ type: 'reload' })))
+      .toEqual({ ok: true, msg: { v: 1, id: undefined, type: 'reload' } })
+  })
+  it('accepts cueing a slide into preview', () => {
+    expect(parseClientMessage(msg({ type: 'cue', song: 0, slide: 3 })))
+      .toEqual({ ok: true, msg: { v: 1, id: undefined, type: 'cue', song: 0, slide: 3 } })
+  })
+  it('accepts hello with a role and optional pin', () => {
+    expect(parseClientMessage(msg({ type: 'hello', role: 'controller', pin: '1234' })))
+      .toEqual({ ok: true, msg: { v: 1, id: undefined, type: 'hello', role: 'controller', pin: '1234' } })
+  })
+  it('accepts setlist edits', () => {
+    for (const edit of [
+      { type: 'insertSong', at: 1, songId: 'abc', key: 'G' },
+      { type: 'removeSong', index: 2 },
+      { type: 'moveSong', from: 0, to: 3 },
+      { type: 'repeatSection', song: 0, section: 1, after: undefined },
+    ]) {
+      expect(parseClientMessage(msg({ type: 'edit', edit })))
+        .toEqual({ ok: true, msg: { v: 1, id: undefined, type: 'edit', edit } })
+    }
+  })
+  it('accepts taking or dropping a staged setlist', () => {
+    expect(parseClientMessage(msg({ type: 'staged', accept: true })))
+      .toEqual({ ok: true, msg: { v: 1, id: undefined, type: 'staged', accept: true } })
+  })
+  it('accepts a stage message, including an empty one to clear it', () => {
+    expect(parseClientMessage(msg({ type: 'stageMessage', text: '' })))
+      .toEqual({ ok: true, msg: { v: 1, id: undefined, type: 'stageMessage', text: '' } })
+  })
+  it('rejects invalid JSON', () => {
+    expect(parseClientMessage('{')).toMatchObject({ ok: false, code: 'bad_request' })
+  })
+  it('rejects a missing or different protocol version', () => {
+    expect(parseClientMessage(JSON.stringify({ type: 'reload', id: 'x' })))
+      .toMatchObject({ ok: false, id: 'x', code: 'unsupported_version' })
+    expect(parseClientMessage(JSON.stringify({ v: 2, type: 'reload' })))
+      .toMatchObject({ ok: false, code: 'unsupported_version' })
+  })
+  it('rejects malformed commands', () => {
+    for (const m of [
+      { type: 'button', event: { type: 'explode' } },
+      { type: 'button', event: { type: 'selection' } },
+      { type: 'button', event: { type: 'selection', index: -1 } },
+      { type: 'jump', song: 1 },
+      { type: 'jump', song: 1.5, slide: 0 },
+      { type: 'cue', song: 0, slide: -1 },
+      { type: 'hello', role: 'admin' },
+      { type: 'hello', role: 'controller', pin: 1234 },
+      { type: 'edit', edit: { type: 'insertSong', at: 0 } },
+      { type: 'edit', edit: { type: 'moveSong', from: 0 } },
+      { type: 'edit', edit: { type: 'repeatSection', song: 0, section: 1, after: -1 } },
+      { type: 'edit', edit: { type: 'rename' } },
+      { type: 'staged' },
+      { type: 'stageMessage', text: 42 },
+      { type: 'nope' },
+    ]) {
+      expect(parseClientMessage(msg(m))).toMatchObject({ ok: false, code: 'bad_request' })
+    }
+  })
+})
+
+describe('setlistOutline', () => {
+  it('lists every item with its slides, without chords or themes', () => {
+    const slide = { type: 'verse', label: 'Verse 1', lyrics: 'Amazing grace', chords: 'G', isSectionStart: true, slideInSection: 0, sectionSlideCount: 1 }
+    expect(setlistOutline({
+      name: 'Sunday', pushedAt: 1,
+      songs: [
+        { title: 'Grace', key: 'G', slides: [slide] },
+        { kind: 'announcement', title: 'Picnic', slides: [{ ...slide, label: 'Picnic', lyrics: 'Noon' }] },
+      ],
+    })).toEqual({
+      type: 'setlist', name: 'Sunday',
+      items: [
+        { title: 'Grace', kind: 'song', key: 'G', slides: [{ label: 'Verse 1', lyrics: 'Amazing grace', isSectionStart: true }] },
+        { title: 'Picnic', kind: 'announcement', key: undefined, slides: [{ label: 'Picnic', lyrics: 'Noon', isSectionStart: true }] },
+      ],
+    })
+  })
+})
+
+describe('checkPin', () => {
+  it('allows anything when no PIN is configured', () => {
+    expect(checkPin(undefined, undefined)).toBe(true)
+  })
+  it('requires an exact match when a PIN is configured', () => {
+    expect(checkPin('4321', '4321')).toBe(true)
+    expect(checkPin('4321', '1234')).toBe(false)
+    expect(checkPin('4321', '43210')).toBe(false)
+    expect(checkPin('4321', undefined)).toBe(false)
+  })
+})
+
+describe('bridge server command channel', () => {
+  let server: ReturnType<typeof createBridgeServer>
+  let url: string
+  let received: ControlCommand[]
+  const sockets: WebSocket[] = []
+
+  async function start(pin?: string) {
+    received = []
+    server = createBridgeServer({
+      pin,
+      onCommand: (cmd) => {
+        if (cmd.type === 'reload') throw new Error('no convex')
+        received.push(cmd)
+      },
+    })
+    const port = await server.listen(0)
+    url = `ws://localhost:${port}`
+  }
+
+  // Open a socket and collect every non-state reply.
+  async function open() {
+    const ws = new WebSocket(url)
+    sockets.push(ws)
+    const replies: Record<string, unknown>[] = []
+    ws.on('message', d => { const m = JSON.parse(d.toString()); if (m.type !== 'state') replies.push(m) })
+    await new Promise(r => ws.once('open', r))
+    const next = async () => {
+      await vi.waitFor(() => expect(replies.length).toBeGreaterThan(0))
+      return replies.shift()!
+    }
+    return { ws, next, send: (m: object) => ws.send(msg(m)), pending: () => replies.length }
+  }
+
+  beforeEach(() => { vi.spyOn(console, 'log').mockImplementation(() => {}) })
+  afterEach(async () => {
+    sockets.splice(0).forEach(s => s.terminate())
+    await server.close()
+    vi.restoreAllMocks()
+  })
+
+  it('treats clients as read-only until they say hello as a controller', async () => {
+    await start()
+    const c = await open()
+    c.send({ type: 'button', event: { type: 'go' }, id: '1' })
+    expect(await c.next()).toMatchObject({ type: 'error', id: '1', code: 'forbidden' })
+    expect(received).toEqual([])
+  })
+
+  it('acks commands from a controller and forwards them', async () => {
+    await start()
+    const c = await open()
+    c.send({ type: 'hello', role: 'controller' })
+    expect(await c.next()).toEqual({ type: 'welcome', v: 1, role: 'controller', authRequired: false })
+    c.send({ type: 'jump', song: 1, slide: 2, id: 'j' })
+    expect(await c.next()).toEqual({ type: 'ack', id: 'j', command: 'jump' })
+    expect(received).toEqual([{ v: 1, id: 'j', type: 'jump', song: 1, slide: 2 }])
+  })
+
+  it('reports handler failures as errors', async () => {
+    await start()
+    const c = await open()
+    c.send({ type: 'hello', role: 'controller' })
+    await c.next()
+    c.send({ type: 'reload', id: 'r' })
+    expect(await c.next()).toEqual({ type: 'error', id: 'r', code: 'failed', message: 'no convex' })
+  })
+
+  it('requires the PIN for the controller role but not for displays', async () => {
+    await start('4321')
+    const display = await open()
+    display.send({ type: 'hello', role: 'display' })
+    expect(await display.next()).toMatchObject({ type: 'welcome', role: 'display', authRequired: true })
+
+    const c = await open()
+    c.send({ type: 'hello', role: 'controller', pin: '0000' })
+    expect(await c.next()).toMatchObject({ type: 'error', code: 'unauthorized' })
+    c.send({ type: 'button', event: { type: 'go' } })
+    expect(await c.next()).toMatchObject({ type: 'error', code: 'forbidden' })
+    c.send({ type: 'hello', role: 'controller', pin: '4321' })
+    expect(await c.next()).toMatchObject({ type: 'welcome', role: 'controller' })
+  })
+
+  it('sends controllers the running order on hello and when it changes', async () => {
+    await start()
+    server.publishSetlist({ type: 'setlist', name: 'Sunday', items: [] })
+    const display = await open()
+    display.send({ type: 'hello', role: 'display' })
+    const c = await open()
+    c.send({ type: 'hello', role: 'controller' })
+    expect(await c.next()).toMatchObject({ type: 'welcome' })
+    expect(await c.next()).toEqual({ type: 'setlist', name: 'Sunday', items: [] })
+    server.publishSetlist({ type: 'setlist', name: 'Evening', items: [] })
+    expect(await c.next()).toMatchObject({ type: 'setlist', name: 'Evening' })
+    expect(await display.next()).toMatchObject({ type: 'welcome' })
+    expect(display.pending()).toBe(0)
+  })
+
+  it('drops a connection after too many wrong PINs', async () => {
+    await start('4321')
+    const c = await open()
+    const closed = new Promise<number>(r => c.ws.once('close', code => r(code)))
+    for (let i = 0; i < 5; i++) c.send({ type: 'hello', role: 'controller', pin: 'x' })
+    expect(await closed).toBe(4001)
+  })
+
+  it('keeps counting wrong PINs across reconnects and locks the address out', async () => {
+    await start('4321')
+    for (let i = 0; i < 4; i++) {
+      const c = await open()
+      c.send({ type: 'hello', role: 'controller', pin: 'x' })
+      expect(await c.next()).toMatchObject({ type: 'error', code: 'unauthorized', message: 'Wrong PIN' })
+      c.ws.close()
+    }
+    const fifth = await open()
+    const dropped = new Promise<number>(r => fifth.ws.once('close', code => r(code)))
+    fifth.send({ type: 'hello', role: 'controller', pin: 'x' })
+    expect(await dropped).toBe(4001)
+
+    // Locked out now, even with the right PIN
+    const again = await open()
+    again.send({ type: 'hello', role: 'controller', pin: '4321' })
+    expect(await again.next()).toMatchObject({ type: 'error', code: 'unauthorized', message: expect.stringContaining('Too many') })
+  })
+
+  it('clears the count when the right PIN comes in', async () => {
+    await start('4321')
+    const c = await open()
+    for (let i = 0; i < 4; i++) {
+      c.send({ type: 'hello', role: 'controller', pin: 'x' })
+      await c.next()
+    }
+    c.send({ type: 'hello', role: 'controller', pin: '4321' })
+    expect(await c.next()).toMatchObject({ type: 'welcome' })
+    const d = await open()
+    d.send({ type: 'hello', role: 'controller', pin: 'x' })
+    expect(await d.next()).toMatchObject({ message: 'Wrong PIN' })
+    expect(d.ws.readyState).toBe(WebSocket.OPEN)
+  })
+})
@@ -0,0 +1,164 @@
+import { timingSafeEqual } from 'node:crypto'
+import { itemKind, isSong, type ButtonEvent, type LiveItemKind, type LiveSetlist } from '../live-state/state.js'
+import type { SetlistEdit } from '../live-state/edits.js'
+
+// Client → bridge command protocol. Server → client state still goes out as
+// WSPayload ({ type: 'state' }); commands get an ack or an error back.
+export const PROTOCOL_VERSION = 1
+
+export type ClientRole = 'display' | 'monitor' | 'controller'
+
+// Live setlist edits as sent over the wire: inserts name a library song by id
+// (optionally transposed) and the bridge builds its slides.
+export type RemoteEdit =
+  | Exclude<SetlistEdit, { type: 'insertSong' }>
+  | { type: 'insertSong'; at: number; songId: string; key?: string }
+
+export type ClientMessage =
+  | { v: number; id?: string; type: 'hello';  role: ClientRole; pin?: string }
+  | { v: number; id?: string; type: 'button'; event: ButtonEvent }
+  | { v: number; id?: string; type: 'jump';   song: number; slide: number }
+  // Put a slide in preview; GO takes it live.
+  | { v: number; id?: string; type: 'cue';    song: number; slide: number }
+  | { v: number; id?: string; type: 'reload' }
+  | { v: number; id?: string; type: 'edit';   edit: RemoteEdit }
+  // Take (accept) or drop a setlist push that arrived while live.
+  | { v: number; id?: string; type: 'staged'; accept: boolean }
+  // Message to the band on the stage monitor; '' clears it.
+  | { v: number; id?: string; type: 'stageMessage'; text: string }
+
+// Commands that change the show (everything except hello).
+export type ControlCommand = Exclude<ClientMessage, { type: 'hello' }>
+
+export type ErrorCode =
+  | 'bad_request'          // unparseable or malformed message
+  | 'unsupported_version'  // v !== PROTOCOL_VERSION
+  | 'unauthorized'         // wrong / missing PIN
+  | 'forbidden'            // read-only role sent a command
+  | 'failed'               // the bridge couldn't carry it out
+
+// The running order for controller navigators: sent after a controller's
+// hello and again whenever the setlist changes. Live/queued positions come
+// with every state payload.
+export interface SetlistOutline {
+  type:  'setlist'
+  name:  string
+  items: {
+    title:  string
+    kind:   LiveItemKind
+    key?:   string
+    slides: { label: string; lyrics: string; isSectionStart: boolean }[]
+  }[]
+}
+
+export type ServerMessage =
+  | { type: 'welcome'; v: number; role: ClientRole; authRequired: boolean }
+  | { type: 'ack';     id?: string; command: ClientMessage['type'] }
+  | { type: 'error';   id?: string; code: ErrorCode; message: string }
+  | SetlistOutline
+
+export type ParseResult =
+  | { ok: true;  msg: ClientMessage }
+  | { ok: false; id?: string; code: ErrorCode; message: string }
+
+const ROLES: ClientRole[] = ['display', 'monitor', 'controller']
+const BUTTONS = ['selection', 'mode', 'blackout', 'go', 'back', 'standby']
+
+const isIndex = (n: unknown): n is number => Number.isInteger(n) && (n as number) >= 0
+
+function parseButton(raw: unknown): ButtonEvent | null {
+  if (!raw || typeof raw !== 'object') return null
+  const e = raw as { type?: unknown; index?: unknown }
+  if (typeof e.type !== 'string' || !BUTTONS.includes(e.type)) return null
+  if (e.type === 'selection') return isIndex(e.index) ? { type: 'selection', index: e.index } : null
+  return { type: e.type } as ButtonEvent
+}
+
+function parseEdit(raw: unknown): RemoteEdit | null {
+  if (!raw || typeof raw !== 'object') return null
+  const e = raw as Record<string, unknown>
+  switch (e.type) {
+    case 'insertSong':
+      if (!isIndex(e.at) || typeof e.songId !== 'string' || !e.songId) return null
+      if (e.key !== undefined && typeof e.key !== 'string') return null
+      return { type: 'insertSong', at: e.at, songId: e.songId, key: e.key }
+    case 'removeSong':
+      return isIndex(e.index) ? { type: 'removeSong', index: e.index } : null
+    case 'moveSong':
+      return isIndex(e.from) && isIndex(e.to) ? { type: 'moveSong', from: e.from, to: e.to } : null
+    case 'repeatSection':
+      if (!isIndex(e.song) || !isIndex(e.section)) return null
+      if (e.after !== undefined && !isIndex(e.after)) return null
+      return { type: 'repeatSection', song: e.song, section: e.section, after: e.after }
+  }
+  return null
+}
+
+// Validate one incoming frame. Never throws — bad input becomes an error result.
+export function parseClientMessage(data: string): ParseResult {
+  let raw: unknown
+  try { raw = JSON.parse(data) } catch {
+    return { ok: false, code: 'bad_request', message: 'Message is not valid JSON' }
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { ok: false, code: 'bad_request', message: 'Message must be an object' }
+  }
+  const m = raw as Record<string, unknown>
+  const id = typeof m.id === 'string' ? m.id : undefined
+
+  if (m.v !== PROTOCOL_VERSION) {
+    return { ok: false, id, code: 'unsupported_version', message: `Expected protocol v${PROTOCOL_VERSION}` }
+  }
+
+  switch (m.type) {
+    case 'hello':
+      if (!ROLES.includes(m.role as ClientRole)) break
+      if (m.pin !== undefined && typeof m.pin !== 'string') break
+      return { ok: true, msg: { v: PROTOCOL_VERSION, id, type: 'hello', role: m.role as ClientRole, pin: m.pin } }
+    case 'button': {
+      const event = parseButton(m.event)
+      if (!event) break
+      return { ok: true, msg: { v: PROTOCOL_VERSION, id, type: 'button', event } }
+    }
+    case 'jump':
+    case 'cue':
+      if (!isIndex(m.song) || !isIndex(m.slide)) break
+      return { ok: true, msg: { v: PROTOCOL_VERSION, id, type: m.type, song: m.song, slide: m.slide } }
+    case 'reload':
+      return { ok: true, msg: { v: PROTOCOL_VERSION, id, type: 'reload' } }
+    case 'edit': {
+      const edit = parseEdit(m.edit)
+      if (!edit) break
+      return { ok: true, msg: { v: PROTOCOL_VERSION, id, type: 'edit', edit } }
+    }
+    case 'staged':
+      if (typeof m.accept !== 'boolean') break
+      return { ok: true, msg: { v: PROTOCOL_VERSION, id, type: 'staged', accept: m.accept } }
+    case 'stageMessage':
+      if (typeof m.text !== 'string') break
+      return { ok: true, msg: { v: PROTOCOL_VERSION, id, type: 'stageMessage', text: m.text } }
+  }
+  return { ok: false, id, code: 'bad_request', message: `Malformed or unknown command "${String(m.type)}"` }
+}
+
+export function setlistOutline(setlist: LiveSetlist): SetlistOutline {
+  return {
+    type: 'setlist',
+    name: setlist.name,
+    items: setlist.songs.map(item => ({
+      title:  item.title,
+      kind:   itemKind(item),
+      key:    isSong(item) ? item.key : undefined,
+      slides: item.slides.map(s => ({ label: s.label, lyrics: s.lyrics, isSectionStart: s.isSectionStart })),
+    })),
+  }
+}
+
+// No PIN configured = open venue network, anyone may control.
+export function checkPin(required: string | undefined, given: string | undefined): boolean {
+  if (!required) return true
+  if (given === undefined) return false
+  const a = Buffer.from(required)
+  const b = Buffer.from(given)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
@@ -1,13 +1,41 @@
 import express from 'express'
 import { WebSocketServer, WebSocket } from 'ws'
 import { createServer } from 'node:http'
+import type { AddressInfo } from 'node:net'
 import { fileURLToPath } from 'node:url'
 import { dirname, join } from 'node:path'
-import type { WSPayload } from './state.js'
+import type { WSPayload } from '../live-state/state.js'
+import {
+  parseClientMessage, checkPin, PROTOCOL_VERSION,
+  type ClientRole, type ControlCommand, type ServerMessage, type SetlistOutline,
+} from './protocol.js'
 
 const __dirname = dirname(fileURLToPath(import.meta.url))
 
-export function createBridgeServer() {
+// Wrong PINs allowed from one address before it's locked out, and for how
+// long. Counted per address rather than per socket, so reconnecting doesn't
+// buy more guesses.
+const MAX_PIN_ATTEMPTS = 5
+const PIN_LOCKOUT_MS = 5 * 60_000
+
+export interface BridgeServerOptions {
+  // Controllers must present this PIN in their hello. Unset = no auth.
+  pin?: string
+  // Apply a command from a controller. Throwing turns into an error reply.
+  onCommand?: (cmd: ControlCommand) => void | Promise<void>
+}
+
+interface Client {
+  role:         ClientRole
+  address:      string
+}
+
+interface PinFailures {
+  count:        number
+  lockedUntil:  number  // ms epoch; 0 = not locked
+}
+
+export function createBridgeServer(options: BridgeServerOptions = {}) {
   const app = express()
   const httpServer = createServer(app)
   const wss = new WebSocketServer({ server: httpServer })
@@ -15,11 +43,75 @@ export function createBridgeServer() {
   app.get('/display',  (_, res) => res.sendFile(join(__dirname, 'pages', 'display.html')))
   app.get('/monitor',  (_, res) => res.sendFile(join(__dirname, 'pages', 'monitor.html')))
   app.get('/emulator', (_, res) => res.sendFile(join(__dirname, 'pages', 'emulator.html')))
+  app.get('/stream',   (_, res) => res.sendFile(join(__dirname, 'pages', 'stream.html')))
+  app.get('/control',  (_, res) => res.sendFile(join(__dirname, 'pages', 'control.html')))
 
   let lastPayload: WSPayload | null = null
+  let lastOutline: SetlistOutline | null = null
+  const clients = new Map<WebSocket, Client>()
+  const pinFailures = new Map<string, PinFailures>()
+
+  // A failed PIN from this address; true once it's locked out.
+  function failPin(address: string, now: number): boolean {
+    const prev = pinFailures.get(address)
+    const count = prev && !prev.lockedUntil ? prev.count + 1 : 1
+    const locked = count >= MAX_PIN_ATTEMPTS
+    pinFailures.set(address, { count, lockedUntil: locked ? now + PIN_LOCKOUT_MS : 0 })
+    return locked
+  }
+
+  function send(ws: WebSocket, msg: ServerMessage | WSPayload): void {
+    if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(msg))
+  }
 
-  wss.on('connection', (ws) => {
-    if (lastPayload) ws.send(JSON.stringify(lastPayload))
+  async function handleMessage(ws: WebSocket, client: Client, data: string): Promise<void> {
+    const parsed = parseClientMessage(data)
+    if (!parsed.ok) {
+      send(ws, { type: 'error', id: parsed.id, code: parsed.code, message: parsed.message })
+      return
+    }
+    const msg = parsed.msg
+
+    if (msg.type === 'hello') {
+      if (msg.role === 'controller' && options.pin) {
+        const now = Date.now()
+        if ((pinFailures.get(client.address)?.lockedUntil ?? 0) > now) {
+          send(ws, { type: 'error', id: msg.id, code: 'unauthorized', message: 'Too many PIN attempts — try again later' })
+          ws.close(4001, 'Too many PIN attempts')
+          return
+        }
+        if (!checkPin(options.pin, msg.pin)) {
+          send(ws, { type: 'error', id: msg.id, code: 'unauthorized', message: 'Wrong PIN' })
+          if (failPin(client.address, now)) ws.close(4001, 'Too many PIN attempts')
+          return
+        }
+        pinFailures.delete(client.address)
+      }
+      client.role = msg.role
+      send(ws, { type: 'welcome', v: PROTOCOL_VERSION, role: client.role, authRequired: !!options.pin })
+      if (client.role === 'controller' && lastOutline) send(ws, lastOutline)
+      return
+    }
+
+    if (client.role !== 'controller') {
+      send(ws, { type: 'error', id: msg.id, code: 'forbidden', message: 'Say hello as a controller first' })
+      return
+    }
+    try {
+      await options.onCommand?.(msg)
+      send(ws, { type: 'ack', id: msg.id, command: msg.type })
+    } catch (err: unknown) {
+      send(ws, { type: 'error', id: msg.id, code: 'failed', message: (err as Error).message })
+    }
+  }
+
+  wss.on('connection', (ws, req) => {
+    // Everyone starts read-only; a hello upgrades the role.
+    const client: Client = { role: 'display', address: req.socket.remoteAddress ?? '' }
+    clients.set(ws, client)
+    if (lastPayload) send(ws, lastPayload)
+    ws.on('message', (data) => { handleMessage(ws, client, data.toString()) })
+    ws.on('close', () => { clients.delete(ws) })
   })
 
   function broadcast(payload: WSPayload): void {
@@ -28,7 +120,14 @@ export function createBridgeServer() {
     wss.clients.forEach(c => { if (c.readyState === WebSocket.OPEN) c.send(msg) })
   }
 
-  function listen(port: number): Promise<void> {
+  // Controllers get the running order for their navigator; displays don't need it.
+  function publishSetlist(outline: SetlistOutline): void {
+    lastOutline = outline
+    clients.forEach((client, ws) => { if (client.role === 'controller') send(ws, outline) })
+  }
+
+  // Resolves with the bound port (pass 0 to let the OS pick one).
+  function listen(port: number): Promise<number> {
     return new Promise((resolve, reject) => {
       httpServer.on('error', (err: NodeJS.ErrnoException) => {
         if (err.code === 'EADDRINUSE') {
@@ -38,13 +137,22 @@ export function createBridgeServer() {
         reject(err)
       })
       httpServer.listen(port, () => {
+        port = (httpServer.address() as AddressInfo).port
         console.log(`[server] http://localhost:${port}/display  → open in Chrome → HDMI 1`)
         console.log(`[server] http://localhost:${port}/monitor  → open in Chrome → HDMI 2`)
+        console.log(`[server] http://localhost:${port}/control  → operator panel (iPad / tablet)`)
         console.log(`[server] http://localhost:${port}/emulator → dev window`)
-        resolve()
+        console.log(`[server] http://localhost:${port}/stream   → OBS browser source (transparent lower third)`)
+        if (options.pin) console.log('[server] Remote control requires the BRIDGE_PIN')
+        resolve(port)
       })
     })
   }
 
-  return { broadcast, listen }
+  function close(): Promise<void> {
+    wss.clients.forEach(c => c.terminate())
+    return new Promise(resolve => { wss.close(); httpServer.close(() => resolve()) })
+  }
+
+  return { broadcast, publishSetlist, listen, close }
 }
@@ -1,5 +1,8 @@
 import { defineConfig } from 'vitest/config'
+import { fileURLToPath } from 'node:url'
 
 export default defineConfig({
+  // Same "@" → website src/ alias as tsconfig, for the shared slide builder.
+  resolve: { alias: { '@': fileURLToPath(new URL('../src', import.meta.url)) } },
   test: { environment: 'node' }
 })
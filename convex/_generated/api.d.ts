@@ -12,6 +12,7 @@ import type * as aiRenderCache from "../aiRenderCache.js";
 import type * as carts from "../carts.js";
 import type * as churchOutreach from "../churchOutreach.js";
 import type * as clothing from "../clothing.js";
+import type * as crons from "../crons.js";
 import type * as designs from "../designs.js";
 import type * as donations from "../donations.js";
 import type * as eventChecks from "../eventChecks.js";
@@ -19,7 +20,10 @@ import type * as eventGear from "../eventGear.js";
 import type * as events from "../events.js";
 import type * as gearItems from "../gearItems.js";
 import type * as leadershipInterest from "../leadershipInterest.js";
+import type * as liveFollow from "../liveFollow.js";
+import type * as liveRooms from "../liveRooms.js";
 import type * as liveSession from "../liveSession.js";
+import type * as liveSessionLog from "../liveSessionLog.js";
 import type * as liveSetlist from "../liveSetlist.js";
 import type * as logoVariants from "../logoVariants.js";
 import type * as orders from "../orders.js";
@@ -30,6 +34,7 @@ import type * as setlists from "../setlists.js";
 import type * as settings from "../settings.js";
 import type * as songs from "../songs.js";
 import type * as storage from "../storage.js";
+import type * as themes from "../themes.js";
 
 import type {
   ApiFromModules,
@@ -42,6 +47,7 @@ declare const fullApi: ApiFromModules<{
   carts: typeof carts;
   churchOutreach: typeof churchOutreach;
   clothing: typeof clothing;
+  crons: typeof crons;
   designs: typeof designs;
   donations: typeof donations;
   eventChecks: typeof eventChecks;
@@ -49,7 +55,10 @@ declare const fullApi: ApiFromModules<{
   events: typeof events;
   gearItems: typeof gearItems;
   leadershipInterest: typeof leadershipInterest;
+  liveFollow: typeof liveFollow;
+  liveRooms: typeof liveRooms;
   liveSession: typeof liveSession;
+  liveSessionLog: typeof liveSessionLog;
   liveSetlist: typeof liveSetlist;
   logoVariants: typeof logoVariants;
   orders: typeof orders;
@@ -60,6 +69,7 @@ declare const fullApi: ApiFromModules<{
   settings: typeof settings;
   songs: typeof songs;
   storage: typeof storage;
+  themes: typeof themes;
 }>;
 
 /**
@@ -0,0 +1,8 @@
+import { cronJobs } from 'convex/server'
+import { internal } from './_generated/api'
+
+const crons = cronJobs()
+
+crons.interval('expire stale live rooms', { hours: 1 }, internal.liveRooms.expire, {})
+
+export default crons
@@ -0,0 +1,25 @@
+import { query } from './_generated/server'
+import { v } from 'convex/values'
+import { followSummary, followSong } from '../live-state/follow'
+import { normalizeRoom } from '../live-state/rooms'
+import { roomRow } from './liveRooms'
+
+// Low-bandwidth feeds for the audience follow page. Phones on a weak signal
+// subscribe to these instead of the full liveSetlist document: the summary is
+// a few bytes per slide change, and the song text only re-sends when the
+// running order itself changes.
+
+export const summary = query({
+  args: { room: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const room = normalizeRoom(args.room)
+    const session = await roomRow(ctx, 'liveSession', room)
+    const setlist = await roomRow(ctx, 'liveSetlist', room)
+    return followSummary(session, setlist)
+  }
+})
+
+export const song = query({
+  args: { room: v.optional(v.string()), index: v.number() },
+  handler: async (ctx, args) => followSong(await roomRow(ctx, 'liveSetlist', normalizeRoom(args.room)), args.index)
+})
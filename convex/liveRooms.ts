@@ -0,0 +1,37 @@
+import { internalMutation, type QueryCtx } from './_generated/server'
+import type { Doc } from './_generated/dataModel'
+import { DEFAULT_ROOM, isStaleRoom } from '../live-state/rooms'
+
+// The room's row in a live table. The main room also owns rows written before
+// there were rooms.
+export function roomRow(ctx: QueryCtx, table: 'liveSession', room: string): Promise<Doc<'liveSession'> | null>
+export function roomRow(ctx: QueryCtx, table: 'liveSetlist', room: string): Promise<Doc<'liveSetlist'> | null>
+export async function roomRow(
+  ctx: QueryCtx, table: 'liveSession' | 'liveSetlist', room: string,
+): Promise<Doc<'liveSession'> | Doc<'liveSetlist'> | null> {
+  // Both tables share the `by_room` index; typed as one so the query builder accepts either.
+  const rows = () => ctx.db.query(table as 'liveSession')
+  const row = await rows().withIndex('by_room', q => q.eq('room', room)).first()
+  if (row || room !== DEFAULT_ROOM) return row
+  return rows().withIndex('by_room', q => q.eq('room', undefined)).first()
+}
+
+// Clear out named rooms nobody has used in a while (see crons.ts), so a test
+// run or last month's breakout doesn't linger. The main room stays.
+export const expire = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const sessions = await ctx.db.query('liveSession').collect()
+    const setlists = await ctx.db.query('liveSetlist').collect()
+    const lastActive = new Map<string, number>()
+    const touch = (room: string | undefined, at: number) =>
+      lastActive.set(room ?? DEFAULT_ROOM, Math.max(lastActive.get(room ?? DEFAULT_ROOM) ?? 0, at))
+    sessions.forEach(s => touch(s.room, s.updatedAt))
+    setlists.forEach(s => touch(s.room, Math.max(s.pushedAt, s.startsAt ?? 0)))
+    const now = Date.now()
+    for (const row of [...sessions, ...setlists]) {
+      const room = row.room ?? DEFAULT_ROOM
+      if (isStaleRoom(room, lastActive.get(room)!, now)) await ctx.db.delete(row._id)
+    }
+  },
+})
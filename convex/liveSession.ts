@@ -1,8 +1,11 @@
 import { mutation, query } from './_generated/server'
 import { v } from 'convex/values'
+import { normalizeRoom } from '../live-state/rooms'
+import { roomRow } from './liveRooms'
 
 export const update = mutation({
   args: {
+    room:         v.optional(v.string()),
     currentSong:  v.number(),
     currentSlide: v.number(),
     queuedSong:   v.number(),
@@ -10,16 +13,19 @@ export const update = mutation({
     mode:         v.union(v.literal('song'), v.literal('slide')),
     isBlackout:   v.boolean(),
     isLive:       v.boolean(),
+    songStartedAt: v.optional(v.number()),
+    stageMessage:  v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     // Replace rather than patch so stale fields from older schemas never linger.
-    const existing = await ctx.db.query('liveSession').first()
+    const room = normalizeRoom(args.room)
+    const existing = await roomRow(ctx, 'liveSession', room)
     if (existing) await ctx.db.delete(existing._id)
-    return ctx.db.insert('liveSession', { ...args, updatedAt: Date.now() })
+    return ctx.db.insert('liveSession', { ...args, room, updatedAt: Date.now() })
   }
 })
 
 export const get = query({
-  args: {},
-  handler: async (ctx) => ctx.db.query('liveSession').first()
+  args: { room: v.optional(v.string()) },
+  handler: async (ctx, args) => roomRow(ctx, 'liveSession', normalizeRoom(args.room))
 })
@@ -0,0 +1,43 @@
+import { mutation, query } from './_generated/server'
+import { v } from 'convex/values'
+
+const entryValidator = v.object({
+  at:           v.number(),
+  event: v.union(
+    v.literal('go'), v.literal('back'), v.literal('selection'),
+    v.literal('jump'), v.literal('blackout'), v.literal('standby'),
+  ),
+  song:         v.number(),
+  slide:        v.number(),
+  songTitle:    v.string(),
+  ccli:         v.optional(v.string()),
+  section:      v.string(),
+  sectionStart: v.boolean(),
+  isLive:       v.boolean(),
+  isBlackout:   v.boolean(),
+})
+
+// Record one operator action against the running live setlist. Entries carry
+// their own timestamp so ones queued while offline keep the real time.
+export const append = mutation({
+  args: {
+    setlistId:   v.optional(v.id('setlists')),
+    setlistName: v.string(),
+    pushedAt:    v.number(),
+    entry:       entryValidator,
+  },
+  handler: async (ctx, args) => {
+    const { entry, ...run } = args
+    return ctx.db.insert('liveSessionLog', { ...run, ...entry })
+  },
+})
+
+// Every logged action for a setlist, oldest first; the report groups them by run (pushedAt).
+export const listForSetlist = query({
+  args: { setlistId: v.id('setlists') },
+  handler: async (ctx, args) =>
+    ctx.db
+      .query('liveSessionLog')
+      .withIndex('by_setlist', q => q.eq('setlistId', args.setlistId))
+      .collect(),
+})
@@ -1,35 +1,92 @@
 import { mutation, query } from './_generated/server'
 import { v } from 'convex/values'
+import { themeValidator } from './themes'
+import { roomRow } from './liveRooms'
+import { normalizeRoom } from '../live-state/rooms'
+
+const slidesValidator = v.array(v.object({
+  type:              v.string(),
+  label:             v.string(),
+  lyrics:            v.string(),
+  secondary:         v.optional(v.string()),
+  chords:            v.string(),
+  isSectionStart:    v.boolean(),
+  slideInSection:    v.number(),
+  sectionSlideCount: v.number(),
+}))
+
+// Running order items: songs, readings, announcements and countdowns.
+const songsValidator = v.array(v.union(
+  v.object({
+    kind:   v.optional(v.literal('song')),
+    title:  v.string(),
+    artist: v.optional(v.string()),
+    ccli:   v.optional(v.string()),
+    key:    v.optional(v.string()),
+    notes:  v.optional(v.string()),
+    capo:   v.optional(v.number()),
+    theme:  v.optional(themeValidator),
+    slides: slidesValidator,
+  }),
+  v.object({
+    kind:  v.literal('scripture'), title: v.string(), translation: v.optional(v.string()),
+    theme: v.optional(themeValidator), slides: slidesValidator,
+  }),
+  v.object({
+    kind:  v.literal('announcement'), title: v.string(), imageUrl: v.optional(v.string()),
+    advanceSeconds: v.optional(v.number()),
+    theme: v.optional(themeValidator), slides: slidesValidator,
+  }),
+  v.object({
+    kind:  v.literal('countdown'), title: v.string(), seconds: v.optional(v.number()),
+    theme: v.optional(themeValidator), slides: slidesValidator,
+  }),
+))
 
 export const push = mutation({
   args: {
-    name: v.string(),
-    songs: v.array(v.object({
-      title: v.string(),
-      key:   v.optional(v.string()),
-      slides: v.array(v.object({
-        type:              v.string(),
-        label:             v.string(),
-        lyrics:            v.string(),
-        chords:            v.string(),
-        isSectionStart:    v.boolean(),
-        slideInSection:    v.number(),
-        sectionSlideCount: v.number(),
-      }))
-    }))
+    room:     v.optional(v.string()),
+    name:     v.string(),
+    setlistId: v.optional(v.id('setlists')),
+    startsAt: v.optional(v.number()),
+    theme:    v.optional(themeValidator),
+    languageLayout: v.optional(v.union(v.literal('stacked'), v.literal('sideBySide'))),
+    transition: v.optional(v.object({
+      kind: v.union(v.literal('cut'), v.literal('crossfade'), v.literal('fadeBlack')),
+      ms:   v.number(),
+    })),
+    songs:    songsValidator,
   },
   handler: async (ctx, args) => {
-    const existing = await ctx.db.query('liveSetlist').first()
+    const room = normalizeRoom(args.room)
+    const existing = await roomRow(ctx, 'liveSetlist', room)
     if (existing) await ctx.db.delete(existing._id)
     return ctx.db.insert('liveSetlist', {
+      room,
       name:     args.name,
+      setlistId: args.setlistId,
+      theme:    args.theme,
+      startsAt: args.startsAt,
+      languageLayout: args.languageLayout,
+      transition: args.transition,
       pushedAt: Date.now(),
       songs:    args.songs,
     })
   }
 })
 
+// Mid-service edit of the running setlist. Keeps pushedAt so the bridge doesn't
+// treat its own edit as a fresh push.
+export const updateSongs = mutation({
+  args: { room: v.optional(v.string()), songs: songsValidator },
+  handler: async (ctx, args) => {
+    const existing = await roomRow(ctx, 'liveSetlist', normalizeRoom(args.room))
+    if (!existing) throw new Error('No live setlist to edit')
+    await ctx.db.patch(existing._id, { songs: args.songs })
+  }
+})
+
 export const get = query({
-  args: {},
-  handler: async (ctx) => ctx.db.query('liveSetlist').first()
+  args: { room: v.optional(v.string()) },
+  handler: async (ctx, args) => roomRow(ctx, 'liveSetlist', normalizeRoom(args.room))
 })
@@ -1,6 +1,70 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
+// Projector theme (mirrors LiveTheme in live-state/theme.ts). Stored in the
+// themes table and copied into the live setlist when it's pushed.
+const themeFields = {
+  name: v.string(),
+  background: v.union(
+    v.object({ kind: v.literal('color'), color: v.string() }),
+    v.object({ kind: v.literal('gradient'), from: v.string(), to: v.string(), angle: v.number() }),
+    v.object({ kind: v.literal('image'), url: v.string(), dim: v.number() }),
+    v.object({ kind: v.literal('video'), url: v.string(), dim: v.number() }),
+  ),
+  fontFamily: v.string(),
+  fontSize:   v.number(),
+  textColor:  v.string(),
+  shadow:     v.boolean(),
+  outline:    v.number(),
+  layout:     v.union(v.literal('centered'), v.literal('lowerThird')),
+  safeArea:   v.number(),
+};
+
+// Non-song setlist entries (mirrors PlacedServiceItem in live-state/items.ts).
+// `before` is the index of the song they precede; songs.length = at the end.
+const serviceItem = v.union(
+  v.object({
+    kind: v.literal('scripture'), reference: v.string(), text: v.string(),
+    translation: v.optional(v.string()), before: v.number(),
+  }),
+  v.object({
+    kind: v.literal('announcement'), title: v.string(), body: v.string(),
+    imageUrl: v.optional(v.string()), advanceSeconds: v.optional(v.number()), before: v.number(),
+  }),
+  v.object({
+    kind: v.literal('countdown'), title: v.string(), seconds: v.optional(v.number()), before: v.number(),
+  }),
+);
+
+// How lyrics split into slides (SlideChunking in live-state/slides.ts).
+const chunkingFields = v.object({
+  strategy: v.union(v.literal('words'), v.literal('layout')),
+  maxLines: v.optional(v.number()),
+});
+
+const transitionFields = v.object({
+  kind: v.union(v.literal('cut'), v.literal('crossfade'), v.literal('fadeBlack')),
+  ms:   v.number(),
+});
+
+const languagesFields = v.object({
+  primary:   v.optional(v.string()),
+  secondary: v.optional(v.string()),
+  layout:    v.optional(v.union(v.literal('stacked'), v.literal('sideBySide'))),
+});
+
+// One projector slide of the live setlist (LiveSlide in live-state/state.ts).
+const liveSlide = v.object({
+  type:              v.string(),
+  label:             v.string(),
+  lyrics:            v.string(),
+  secondary:         v.optional(v.string()),
+  chords:            v.string(),
+  isSectionStart:    v.boolean(),
+  slideInSection:    v.number(),
+  sectionSlideCount: v.number(),
+});
+
 export default defineSchema({
   designs: defineTable({
     name: v.string(),
@@ -340,15 +404,29 @@ export default defineSchema({
     title:  v.string(),
     artist: v.string(),
     key:    v.string(),
+    ccli:   v.optional(v.string()),  // CCLI song number, shown in stream attribution
+    tempo:  v.optional(v.number()),  // BPM for rehearsal playback
+    timeSignature: v.optional(v.string()),  // e.g. '6/8', see live-state/rehearsal.ts
+    capo:   v.optional(v.number()),  // fret guitarists put the capo on, see live-state/capo.ts
     sections: v.array(v.object({
       type:  v.string(),
       label: v.string(),
       lines: v.array(v.object({
         lyrics: v.string(),
-        chords: v.array(v.object({ chord: v.string(), position: v.number() })),
+        chords: v.array(v.object({
+          chord: v.string(), position: v.number(), beats: v.optional(v.number()),
+          mark: v.optional(v.union(v.literal('diamond'), v.literal('push'))),
+        })),
       })),
       slideBreaks: v.optional(v.array(v.number())),
+      translations: v.optional(v.array(v.object({ language: v.string(), lines: v.array(v.string()) }))),
     })),
+    chunking: v.optional(chunkingFields),  // overrides the setlist's slide chunking
+    // Named roadmaps over the unique sections above (see live-state/arrangement.ts).
+    arrangements: v.optional(v.array(v.object({
+      name:  v.string(),
+      steps: v.array(v.object({ section: v.string(), repeat: v.optional(v.number()) })),
+    }))),
     createdAt: v.number(),
     updatedAt: v.number(),
   }).index('by_title', ['title']),
@@ -359,34 +437,73 @@ export default defineSchema({
     time:       v.string(),
     location:   v.string(),
     bibleVerse: v.optional(v.string()),
+    themeId:    v.optional(v.id('themes')),
+    languages:  v.optional(languagesFields),  // which lyric languages to project
+    chunking:   v.optional(chunkingFields),   // how lyrics split into slides, default by words
+    transition: v.optional(transitionFields), // slide transition on the displays, default a short crossfade
     songs: v.array(v.object({
       songId:        v.id('songs'),
       transposedKey: v.optional(v.string()),
+      themeId:       v.optional(v.id('themes')),  // overrides the setlist theme
+      notes:         v.optional(v.string()),      // band notes for the stage monitor
+      arrangement:   v.optional(v.string()),      // name of one of the song's arrangements
+      capo:          v.optional(v.number()),      // overrides the song's capo
       order:         v.number(),
     })),
+    items:      v.optional(v.array(serviceItem)),  // readings, announcements, countdowns
     createdAt: v.number(),
     updatedAt: v.number(),
   }).index('by_date', ['date']),
 
+  themes: defineTable({
+    ...themeFields,
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index('by_name', ['name']),
+
+  // Live state, one setlist and one session per room (live-state/rooms.ts).
+  // Rows from before rooms have no room and belong to the main room.
   liveSetlist: defineTable({
+    room:     v.optional(v.string()),
     name:     v.string(),
     pushedAt: v.number(),
-    songs: v.array(v.object({
-      title: v.string(),
-      key:   v.optional(v.string()),
-      slides: v.array(v.object({
-        type:              v.string(),
-        label:             v.string(),
-        lyrics:            v.string(),
-        chords:            v.string(),
-        isSectionStart:    v.boolean(),
-        slideInSection:    v.number(),
-        sectionSlideCount: v.number(),
-      }))
-    }))
-  }),
+    setlistId: v.optional(v.id('setlists')),  // source setlist, for the service report
+    startsAt: v.optional(v.number()),  // service start, ms epoch
+    theme:    v.optional(v.object(themeFields)),
+    languageLayout: v.optional(v.union(v.literal('stacked'), v.literal('sideBySide'))),
+    transition: v.optional(transitionFields),
+    // The running order: songs plus readings, announcements and countdowns
+    // (LiveSetlistItem). Older pushes have songs without a `kind`.
+    songs: v.array(v.union(
+      v.object({
+        kind:   v.optional(v.literal('song')),
+        title:  v.string(),
+        artist: v.optional(v.string()),
+        ccli:   v.optional(v.string()),
+        key:    v.optional(v.string()),
+        notes:  v.optional(v.string()),
+        capo:   v.optional(v.number()),
+        theme:  v.optional(v.object(themeFields)),
+        slides: v.array(liveSlide),
+      }),
+      v.object({
+        kind:  v.literal('scripture'), title: v.string(), translation: v.optional(v.string()),
+        theme: v.optional(v.object(themeFields)), slides: v.array(liveSlide),
+      }),
+      v.object({
+        kind:  v.literal('announcement'), title: v.string(), imageUrl: v.optional(v.string()),
+        advanceSeconds: v.optional(v.number()),
+        theme: v.optional(v.object(themeFields)), slides: v.array(liveSlide),
+      }),
+      v.object({
+        kind:  v.literal('countdown'), title: v.string(), seconds: v.optional(v.number()),
+        theme: v.optional(v.object(themeFields)), slides: v.array(liveSlide),
+      }),
+    )),
+  }).index('by_room', ['room']),
 
   liveSession: defineTable({
+    room:         v.optional(v.string()),
     currentSong:  v.number(),
     currentSlide: v.number(),
     queuedSong:   v.number(),
@@ -394,6 +511,30 @@ export default defineSchema({
     mode:         v.union(v.literal('song'), v.literal('slide')),
     isBlackout:   v.boolean(),
     isLive:       v.boolean(),
+    songStartedAt: v.optional(v.number()),  // stage monitor song clock
+    stageMessage:  v.optional(v.string()),  // operator message to the band
     updatedAt:    v.number(),
-  }),
+  }).index('by_room', ['room']),
+
+  // Append-only service history (mirrors SessionLogEntry in live-state/log.ts).
+  // One run = one push of the live setlist, identified by its pushedAt.
+  liveSessionLog: defineTable({
+    setlistId:    v.optional(v.id('setlists')),
+    setlistName:  v.string(),
+    pushedAt:     v.number(),
+    at:           v.number(),
+    event: v.union(
+      v.literal('go'), v.literal('back'), v.literal('selection'),
+      v.literal('jump'), v.literal('blackout'), v.literal('standby'),
+    ),
+    song:         v.number(),
+    slide:        v.number(),
+    songTitle:    v.string(),
+    ccli:         v.optional(v.string()),
+    section:      v.string(),
+    sectionStart: v.boolean(),
+    isLive:       v.boolean(),
+    isBlackout:   v.boolean(),
+  })
+    .index('by_setlist', ['setlistId', 'at']),
 });
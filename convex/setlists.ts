@@ -1,12 +1,47 @@
 import { mutation, query } from './_generated/server'
-import { v } from 'convex/values'
+import { v, ConvexError } from 'convex/values'
+import { conflict } from '../live-state/offline'
 
 const setlistSongsValidator = v.array(v.object({
   songId:        v.id('songs'),
   transposedKey: v.optional(v.string()),
+  themeId:       v.optional(v.id('themes')),
+  notes:         v.optional(v.string()),
+  arrangement:   v.optional(v.string()),
+  capo:          v.optional(v.number()),
   order:         v.number(),
 }))
 
+const languagesValidator = v.object({
+  primary:   v.optional(v.string()),
+  secondary: v.optional(v.string()),
+  layout:    v.optional(v.union(v.literal('stacked'), v.literal('sideBySide'))),
+})
+
+const chunkingValidator = v.object({
+  strategy: v.union(v.literal('words'), v.literal('layout')),
+  maxLines: v.optional(v.number()),
+})
+
+const transitionValidator = v.object({
+  kind: v.union(v.literal('cut'), v.literal('crossfade'), v.literal('fadeBlack')),
+  ms:   v.number(),
+})
+
+const itemsValidator = v.array(v.union(
+  v.object({
+    kind: v.literal('scripture'), reference: v.string(), text: v.string(),
+    translation: v.optional(v.string()), before: v.number(),
+  }),
+  v.object({
+    kind: v.literal('announcement'), title: v.string(), body: v.string(),
+    imageUrl: v.optional(v.string()), advanceSeconds: v.optional(v.number()), before: v.number(),
+  }),
+  v.object({
+    kind: v.literal('countdown'), title: v.string(), seconds: v.optional(v.number()), before: v.number(),
+  }),
+))
+
 export const list = query({
   args: {},
   handler: async (ctx) => {
@@ -20,7 +55,7 @@ export const get = query({
   handler: async (ctx, args) => ctx.db.get(args.id),
 })
 
-// Setlist plus its songs, ordered, with the per-setlist transposedKey merged in.
+// Setlist plus its songs, ordered, with the per-setlist transposedKey/themeId/notes/arrangement/capo merged in.
 // Skips songs that no longer exist (parity with the old Dexie join).
 export const getWithSongs = query({
   args: { id: v.id('setlists') },
@@ -31,7 +66,13 @@ export const getWithSongs = query({
     const songs = []
     for (const entry of ordered) {
       const song = await ctx.db.get(entry.songId)
-      if (song) songs.push({ ...song, transposedKey: entry.transposedKey })
+      if (song) {
+        songs.push({
+          ...song,
+          transposedKey: entry.transposedKey, themeId: entry.themeId, notes: entry.notes, arrangement: entry.arrangement,
+          capo: entry.capo ?? song.capo,
+        })
+      }
     }
     return { setlist, songs }
   },
@@ -44,7 +85,12 @@ export const create = mutation({
     time:       v.string(),
     location:   v.string(),
     bibleVerse: v.optional(v.string()),
+    themeId:    v.optional(v.id('themes')),
+    languages:  v.optional(languagesValidator),
+    chunking:   v.optional(chunkingValidator),
+    transition: v.optional(transitionValidator),
     songs:      setlistSongsValidator,
+    items:      v.optional(itemsValidator),
   },
   handler: async (ctx, args) => {
     const now = Date.now()
@@ -60,12 +106,26 @@ export const update = mutation({
     time:       v.optional(v.string()),
     location:   v.optional(v.string()),
     bibleVerse: v.optional(v.string()),
+    themeId:    v.optional(v.union(v.id('themes'), v.null())),  // null clears it
+    languages:  v.optional(languagesValidator),
+    chunking:   v.optional(chunkingValidator),
+    transition: v.optional(transitionValidator),
     songs:      v.optional(setlistSongsValidator),
+    items:      v.optional(itemsValidator),
+    baseUpdatedAt: v.optional(v.number()),  // refuse the write if the setlist changed since
   },
   handler: async (ctx, args) => {
-    const { id, ...patch } = args
+    const { id, themeId, baseUpdatedAt, ...patch } = args
+    if (baseUpdatedAt !== undefined) {
+      const current = await ctx.db.get(id)
+      if (!current) throw new ConvexError(conflict('setlist was deleted'))
+      if (current.updatedAt !== baseUpdatedAt) throw new ConvexError(conflict('setlist was changed elsewhere'))
+    }
     const clean = Object.fromEntries(Object.entries(patch).filter(([, val]) => val !== undefined))
-    await ctx.db.patch(id, { ...clean, updatedAt: Date.now() })
+    const theme = themeId === undefined ? {} : { themeId: themeId ?? undefined }
+    const updatedAt = Date.now()
+    await ctx.db.patch(id, { ...clean, ...theme, updatedAt })
+    return updatedAt
   },
 })
 
@@ -1,14 +1,29 @@
 import { mutation, query } from './_generated/server'
-import { v } from 'convex/values'
+import { v, ConvexError } from 'convex/values'
+import { conflict } from '../live-state/offline'
 
 const sectionsValidator = v.array(v.object({
   type:  v.string(),
   label: v.string(),
   lines: v.array(v.object({
     lyrics: v.string(),
-    chords: v.array(v.object({ chord: v.string(), position: v.number() })),
+    chords: v.array(v.object({
+      chord: v.string(), position: v.number(), beats: v.optional(v.number()),
+      mark: v.optional(v.union(v.literal('diamond'), v.literal('push'))),
+    })),
   })),
   slideBreaks: v.optional(v.array(v.number())),
+  translations: v.optional(v.array(v.object({ language: v.string(), lines: v.array(v.string()) }))),
+}))
+
+const chunkingValidator = v.object({
+  strategy: v.union(v.literal('words'), v.literal('layout')),
+  maxLines: v.optional(v.number()),
+})
+
+const arrangementsValidator = v.array(v.object({
+  name:  v.string(),
+  steps: v.array(v.object({ section: v.string(), repeat: v.optional(v.number()) })),
 }))
 
 export const list = query({
@@ -26,7 +41,13 @@ export const create = mutation({
     title:    v.string(),
     artist:   v.string(),
     key:      v.string(),
+    ccli:     v.optional(v.string()),
+    tempo:    v.optional(v.number()),
+    timeSignature: v.optional(v.string()),
+    capo:     v.optional(v.number()),
     sections: sectionsValidator,
+    arrangements: v.optional(arrangementsValidator),
+    chunking: v.optional(chunkingValidator),
   },
   handler: async (ctx, args) => {
     const now = Date.now()
@@ -40,12 +61,29 @@ export const update = mutation({
     title:    v.optional(v.string()),
     artist:   v.optional(v.string()),
     key:      v.optional(v.string()),
+    ccli:     v.optional(v.string()),
+    tempo:    v.optional(v.number()),
+    timeSignature: v.optional(v.string()),
+    capo:     v.optional(v.number()),
     sections: v.optional(sectionsValidator),
+    arrangements: v.optional(arrangementsValidator),
+    chunking: v.optional(v.union(chunkingValidator, v.null())),  // null clears it
+    // The updatedAt the edit was made against (offline desktop edits); the
+    // write is refused if the song has changed since.
+    baseUpdatedAt: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
-    const { id, ...patch } = args
+    const { id, chunking, baseUpdatedAt, ...patch } = args
+    if (baseUpdatedAt !== undefined) {
+      const current = await ctx.db.get(id)
+      if (!current) throw new ConvexError(conflict('song was deleted'))
+      if (current.updatedAt !== baseUpdatedAt) throw new ConvexError(conflict('song was changed elsewhere'))
+    }
     const clean = Object.fromEntries(Object.entries(patch).filter(([, val]) => val !== undefined))
-    await ctx.db.patch(id, { ...clean, updatedAt: Date.now() })
+    const chunk = chunking === undefined ? {} : { chunking: chunking ?? undefined }
+    const updatedAt = Date.now()
+    await ctx.db.patch(id, { ...clean, ...chunk, updatedAt })
+    return updatedAt
   },
 })
 
@@ -0,0 +1,78 @@
+import { mutation, query } from './_generated/server'
+import { v } from 'convex/values'
+
+const backgroundValidator = v.union(
+  v.object({ kind: v.literal('color'),    color: v.string() }),
+  v.object({ kind: v.literal('gradient'), from: v.string(), to: v.string(), angle: v.number() }),
+  v.object({ kind: v.literal('image'),    url: v.string(), dim: v.number() }),
+  v.object({ kind: v.literal('video'),    url: v.string(), dim: v.number() }),
+)
+
+const layoutValidator = v.union(v.literal('centered'), v.literal('lowerThird'))
+
+// A theme as copied into the live setlist (no id / timestamps).
+export const themeValidator = v.object({
+  name:       v.string(),
+  background: backgroundValidator,
+  fontFamily: v.string(),
+  fontSize:   v.number(),
+  textColor:  v.string(),
+  shadow:     v.boolean(),
+  outline:    v.number(),
+  layout:     layoutValidator,
+  safeArea:   v.number(),
+})
+
+export const list = query({
+  args: {},
+  handler: async (ctx) => ctx.db.query('themes').withIndex('by_name').collect(),
+})
+
+export const get = query({
+  args: { id: v.id('themes') },
+  handler: async (ctx, args) => ctx.db.get(args.id),
+})
+
+export const create = mutation({
+  args: themeValidator.fields,
+  handler: async (ctx, args) => {
+    const now = Date.now()
+    return ctx.db.insert('themes', { ...args, createdAt: now, updatedAt: now })
+  },
+})
+
+export const update = mutation({
+  args: {
+    id:         v.id('themes'),
+    name:       v.optional(v.string()),
+    background: v.optional(backgroundValidator),
+    fontFamily: v.optional(v.string()),
+    fontSize:   v.optional(v.number()),
+    textColor:  v.optional(v.string()),
+    shadow:     v.optional(v.boolean()),
+    outline:    v.optional(v.number()),
+    layout:     v.optional(layoutValidator),
+    safeArea:   v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { id, ...patch } = args
+    const clean = Object.fromEntries(Object.entries(patch).filter(([, val]) => val !== undefined))
+    await ctx.db.patch(id, { ...clean, updatedAt: Date.now() })
+  },
+})
+
+// Setlists that used this theme fall back to the default.
+export const remove = mutation({
+  args: { id: v.id('themes') },
+  handler: async (ctx, args) => {
+    for (const setlist of await ctx.db.query('setlists').collect()) {
+      const uses = setlist.themeId === args.id || setlist.songs.some(s => s.themeId === args.id)
+      if (!uses) continue
+      await ctx.db.patch(setlist._id, {
+        themeId: setlist.themeId === args.id ? undefined : setlist.themeId,
+        songs: setlist.songs.map(s => s.themeId === args.id ? { ...s, themeId: undefined } : s),
+      })
+    }
+    await ctx.db.delete(args.id)
+  },
+})
@@ -1,38 +1,99 @@
 import { app, BrowserWindow, ipcMain, screen } from 'electron'
-import { ConvexHttpClient } from 'convex/browser'
+import { ConvexClient } from 'convex/browser'
+import type { FunctionArgs, FunctionReference, FunctionReturnType } from 'convex/server'
+import { ConvexError } from 'convex/values'
 import { readFileSync, writeFileSync, existsSync } from 'node:fs'
 import { join } from 'node:path'
 import { api } from '../../convex/_generated/api'
-import { songToSlides } from '@/lib/live/slides'
+import type { Id } from '../../convex/_generated/dataModel'
+import { setlistSongSlides } from '@/lib/live/slides'
+import { findLiveTheme } from '@/lib/live/theme'
 import {
-  initialState, applyEvent, buildPayload, EMPTY_SETLIST,
-  type BridgeState, type LiveSetlist, type LiveSetlistSong, type ButtonEvent,
-} from './state'
+  initialState, applyEvent, applyCue, applyAutoAdvance, advanceDelay, buildPayload, sectionStarts, isSong, itemKind, EMPTY_SETLIST,
+  type BridgeState, type LiveSetlist, type LiveSetlistItem, type LiveSetlistSong, type ButtonEvent,
+} from '../../live-state/state'
+import { buildRunningOrder, placeAmongKept } from '../../live-state/items'
+import { slideGrid } from '../../live-state/grid'
+import { keyChoices } from '../../live-state/keys'
+import type { LanguageLayout, SlideLanguages } from '../../live-state/languages'
+import type { SlideTransition } from '../../live-state/transition'
+import type { ScreenSize, SlideChunking } from '../../live-state/slides'
+import { DEFAULT_THEME } from '../../live-state/theme'
+import { applySetlistEdit, type SetlistEdit } from '../../live-state/edits'
+import {
+  receiveSetlist, acceptPending, dismissPending, backoffDelay, INITIAL_SYNC,
+  type SyncStatus, type SyncResult,
+} from '../../live-state/sync'
+import type { LiveTheme } from '../../live-state/theme'
+import {
+  trackSongStart, setStageMessage, parseServiceStart, INITIAL_STAGE, type StageStatus,
+} from '../../live-state/stage'
+import { logEntry, loggedEvent, type LogEvent } from '../../live-state/log'
+import {
+  queueEdit, dropEdit, markConflict, rebaseEdit, findEdit, withPendingEdits, withEntryKeys,
+  sectionText, editSectionText, conflict, isConflictData, type PendingEdit, type PendingKind,
+} from '../../live-state/offline'
+import { normalizeRoom } from '../../live-state/rooms'
 
 const CONVEX_URL = process.env.WMA_CONVEX_URL ?? 'https://fearless-dotterel-730.convex.cloud'
 
-// One setlist, pre-built into projector slides, ready to run offline.
+// One setlist, pre-built into projector slides (themes resolved), ready to run offline.
 interface CachedSetlist {
   id: string
   name: string
   date: string
-  songs: LiveSetlistSong[]
+  theme?: LiveTheme
+  startsAt?: number
+  languageLayout?: LanguageLayout
+  transition?: SlideTransition
+  chunking?: SlideChunking   // for songs inserted live, so they split like the planned ones
+  languages?: SlideLanguages
+  songs: LiveSetlistItem[]  // songs plus readings, announcements and countdowns, in running order
 }
 
+// A library song at its own key, for spontaneous mid-service inserts. Its
+// slides are built when it's inserted, with the live setlist's chunking and
+// languages.
+interface CachedSong {
+  id: string
+  title: string
+  artist: string
+  ccli?: string
+  key: string
+  capo?: number
+  chunking?: SlideChunking
+  sections: SongDocs[number]['sections']
+}
+
+// Edits from the control window name a cached library song instead of sending slides.
+type ControlEdit =
+  | Exclude<SetlistEdit, { type: 'insertSong' }>
+  | { type: 'insertSong'; at: number; songId: string }
+
 const RENDERER = join(__dirname, '..', 'renderer')
 
 let controlWin: BrowserWindow | null = null
 let projectorWin: BrowserWindow | null = null
 let monitorWin: BrowserWindow | null = null
 
-let convex: ConvexHttpClient | null = null
+let convex: ConvexClient | null = null
 let library: CachedSetlist[] = []
+let songLibrary: CachedSong[] = []
 let activeSetlist: LiveSetlist = EMPTY_SETLIST
 let state: BridgeState = initialState()
 let broadcast = false
+let sync: SyncStatus = INITIAL_SYNC
+let stage: StageStatus = INITIAL_STAGE
+let raw: RawLibrary | null = null
+let outbox: PendingEdit[] = []
+let room = normalizeRoom(process.env.WMA_ROOM)
 
 const cachePath = () => join(app.getPath('userData'), 'setlists.json')
+const songsPath = () => join(app.getPath('userData'), 'songs.json')
 const statePath = () => join(app.getPath('userData'), 'state.json')
+const rawPath = () => join(app.getPath('userData'), 'library.json')
+const outboxPath = () => join(app.getPath('userData'), 'outbox.json')
+const roomPath = () => join(app.getPath('userData'), 'room.json')
 
 // ---------- persistence ----------
 
@@ -40,10 +101,28 @@ function loadCache(): void {
   try {
     if (existsSync(cachePath())) library = JSON.parse(readFileSync(cachePath(), 'utf8'))
   } catch { library = [] }
+  try {
+    if (existsSync(songsPath())) songLibrary = JSON.parse(readFileSync(songsPath(), 'utf8'))
+  } catch { songLibrary = [] }
+  try {
+    if (existsSync(rawPath())) raw = JSON.parse(readFileSync(rawPath(), 'utf8'))
+  } catch { raw = null }
+  try {
+    if (existsSync(outboxPath())) outbox = JSON.parse(readFileSync(outboxPath(), 'utf8'))
+  } catch { outbox = [] }
 }
 
 function saveCache(): void {
   try { writeFileSync(cachePath(), JSON.stringify(library)) } catch {}
+  try { writeFileSync(songsPath(), JSON.stringify(songLibrary)) } catch {}
+}
+
+function saveRaw(): void {
+  try { writeFileSync(rawPath(), JSON.stringify(raw)) } catch {}
+}
+
+function saveOutbox(): void {
+  try { writeFileSync(outboxPath(), JSON.stringify(outbox)) } catch {}
 }
 
 function loadState(): void {
@@ -53,50 +132,314 @@ function loadState(): void {
       if (s && typeof s.currentSlide === 'number') state = s
     }
   } catch {}
+  stage = trackSongStart(stage, initialState(), state, Date.now())
 }
 
 function saveState(): void {
   try { writeFileSync(statePath(), JSON.stringify(state)) } catch {}
 }
 
+// The live room is chosen once per machine; WMA_ROOM only sets the first default.
+function loadRoom(): void {
+  try {
+    if (existsSync(roomPath())) room = normalizeRoom(JSON.parse(readFileSync(roomPath(), 'utf8')))
+  } catch {}
+}
+
+function saveRoom(): void {
+  try { writeFileSync(roomPath(), JSON.stringify(room)) } catch {}
+}
+
 // ---------- Convex ----------
 
-async function refreshLibrary(): Promise<CachedSetlist[]> {
-  if (!convex) return library
-  const [setlists, songs] = await Promise.all([
-    convex.query(api.setlists.list, {}),
-    convex.query(api.songs.list, {}),
-  ])
+type SetlistDocs = FunctionReturnType<typeof api.setlists.list>
+type SongDocs = FunctionReturnType<typeof api.songs.list>
+type ThemeDocs = FunctionReturnType<typeof api.themes.list>
+
+// The Convex documents as last delivered, so slides can be rebuilt (and songs
+// edited) offline. Queued offline edits are laid over them, never written in.
+interface RawLibrary {
+  setlists: SetlistDocs
+  songs:    SongDocs
+  themes:   ThemeDocs
+}
+
+function buildLibrary(setlists: SetlistDocs, songs: SongDocs, themes: ThemeDocs): void {
   const songById = new Map(songs.map(s => [s._id, s]))
+  const projector = projectorScreen()
   library = setlists.map(setlist => {
+    const setlistTheme = findLiveTheme(themes, setlist.themeId)
     const built: LiveSetlistSong[] = []
+    const kept: boolean[] = []
     for (const entry of [...setlist.songs].sort((a, b) => a.order - b.order)) {
       const song = songById.get(entry.songId)
+      kept.push(!!song)
       if (!song) continue
       const displayKey = entry.transposedKey ?? song.key
+      const theme = findLiveTheme(themes, entry.themeId)
       built.push({
         title: song.title,
+        artist: song.artist,
+        ccli: song.ccli,
         key: displayKey,
-        slides: songToSlides(song.sections, song.key, displayKey),
+        notes: entry.notes,
+        capo: entry.capo ?? song.capo,
+        theme,
+        slides: setlistSongSlides(
+          song, { displayKey, arrangement: entry.arrangement }, setlist, theme ?? setlistTheme ?? DEFAULT_THEME, projector,
+        ),
       })
     }
-    return { id: setlist._id as string, name: setlist.name, date: setlist.date, songs: built }
+    return {
+      id: setlist._id as string, name: setlist.name, date: setlist.date,
+      theme: setlistTheme, startsAt: parseServiceStart(setlist.date, setlist.time),
+      languageLayout: setlist.languages?.layout,
+      transition: setlist.transition,
+      chunking: setlist.chunking,
+      languages: setlist.languages,
+      songs: buildRunningOrder(built, placeAmongKept(setlist.items, kept)),
+    }
   })
+  songLibrary = songs.map(song => ({
+    id: song._id as string,
+    title: song.title,
+    artist: song.artist,
+    ccli: song.ccli,
+    key: song.key,
+    capo: song.capo,
+    chunking: song.chunking,
+    sections: song.sections,
+  }))
   saveCache()
+}
+
+function rebuildLibrary(): void {
+  if (!raw) return
+  const { setlists, songs } = withPendingEdits(raw.setlists, raw.songs, outbox)
+  buildLibrary(setlists, songs, raw.themes)
+}
+
+function adoptRaw(next: RawLibrary): void {
+  raw = next
+  saveRaw()
+  rebuildLibrary()
+}
+
+async function refreshLibrary(): Promise<CachedSetlist[]> {
+  if (!convex) return library
+  const [setlists, songs, themes] = await Promise.all([
+    convex.query(api.setlists.list, {}),
+    convex.query(api.songs.list, {}),
+    convex.query(api.themes.list, {}),
+  ])
+  adoptRaw({ setlists, songs, themes })
+  void flushOutbox()
   return library
 }
 
+// ---------- offline edits ----------
+
+function sendEdit(client: ConvexClient, edit: PendingEdit): Promise<number> {
+  if (edit.kind === 'song') {
+    return client.mutation(api.songs.update, {
+      id: edit.id as Id<'songs'>, sections: edit.sections, baseUpdatedAt: edit.baseUpdatedAt,
+    })
+  }
+  const setlist = raw?.setlists.find(s => s._id === edit.id)
+  if (!setlist) return Promise.reject(new ConvexError(conflict('setlist was deleted')))
+  return client.mutation(api.setlists.update, {
+    id: setlist._id, songs: withEntryKeys(setlist.songs, edit.keys), baseUpdatedAt: edit.baseUpdatedAt,
+  })
+}
+
+// Fold a write the server accepted into the raw cache, so the slides don't
+// flicker back and a follow-up edit starts from the new updatedAt before the
+// subscription catches up.
+function settleEdit(edit: PendingEdit, updatedAt: number): void {
+  if (!raw) return
+  const { setlists, songs } = withPendingEdits(raw.setlists, raw.songs, [edit])
+  raw = {
+    ...raw,
+    setlists: setlists.map(s => (edit.kind === 'setlist' && s._id === edit.id ? { ...s, updatedAt } : s)),
+    songs: songs.map(s => (edit.kind === 'song' && s._id === edit.id ? { ...s, updatedAt } : s)),
+  }
+  saveRaw()
+}
+
+function isConflict(err: unknown): boolean {
+  return err instanceof ConvexError && isConflictData(err.data)
+}
+
+// Replay queued edits in order. A conflict parks that edit for the operator;
+// any other failure means we're offline again, so stop and wait to reconnect.
+let flushing = false
+async function flushOutbox(): Promise<void> {
+  const client = convex
+  if (!client || !sync.connected || flushing || outbox.every(e => e.conflict)) return
+  flushing = true
+  try {
+    for (const edit of outbox.filter(e => !e.conflict)) {
+      try {
+        const updatedAt = await sendEdit(client, edit)
+        settleEdit(edit, updatedAt)
+        // Edited again while the write was in flight: keep the newer edit, now based on our write.
+        outbox = findEdit(outbox, edit.kind, edit.id) === edit
+          ? dropEdit(outbox, edit.kind, edit.id)
+          : rebaseEdit(outbox, edit.kind, edit.id, updatedAt)
+      } catch (err) {
+        if (!isConflict(err)) break
+        outbox = markConflict(outbox, edit.kind, edit.id)
+      }
+    }
+  } finally {
+    flushing = false
+    saveOutbox()
+    notifyOutbox()
+  }
+}
+
+function queueOffline(edit: PendingEdit): void {
+  outbox = queueEdit(outbox, edit)
+  saveOutbox()
+  rebuildLibrary()
+  notifyLibraryUpdated()
+  notifyOutbox()
+  void flushOutbox()
+}
+
+function serverUpdatedAt(kind: PendingKind, id: string): number | undefined {
+  const docs = kind === 'song' ? raw?.songs : raw?.setlists
+  return docs?.find(d => d._id === id)?.updatedAt
+}
+
+function outboxSummary() {
+  return outbox.map(e => ({
+    kind: e.kind, id: e.id, title: e.title, conflict: !!e.conflict,
+    what: e.kind === 'song' ? 'lyrics' : 'keys',
+    theirsAt: e.conflict ? serverUpdatedAt(e.kind, e.id) : undefined,
+  }))
+}
+
+// A setlist's songs as editable text, with any queued edits already applied.
+function editableSongs(setlistId: string) {
+  if (!raw) return null
+  const { setlists, songs } = withPendingEdits(raw.setlists, raw.songs, outbox)
+  const setlist = setlists.find(s => s._id === setlistId)
+  if (!setlist) return null
+  const songById = new Map(songs.map(s => [s._id as string, s]))
+  return [...setlist.songs].sort((a, b) => a.order - b.order).flatMap(entry => {
+    const song = songById.get(entry.songId)
+    return song ? [{
+      songId: song._id as string,
+      title: song.title,
+      songKey: song.key,
+      key: entry.transposedKey ?? song.key,
+      keys: keyChoices(song.key),
+      sections: song.sections.map(s => ({ label: s.label, text: sectionText(s) })),
+    }] : []
+  })
+}
+
+// Keep a query subscribed until the returned stop is called. The client
+// reconnects its WebSocket by itself; a query that errors is resubscribed with
+// exponential backoff.
+function watch<Q extends FunctionReference<'query'>>(
+  query: Q, args: FunctionArgs<Q>, onData: (result: FunctionReturnType<Q>) => void,
+): () => void {
+  const client = convex
+  if (!client) return () => {}
+  let attempt = 0
+  let retry: ReturnType<typeof setTimeout> | null = null
+  let unsubscribe = () => {}
+  const subscribe = () => {
+    unsubscribe = client.onUpdate(query, args, (result) => {
+      attempt = 0
+      onData(result)
+    }, () => {
+      unsubscribe()
+      retry = setTimeout(subscribe, backoffDelay(attempt++))
+    })
+  }
+  subscribe()
+  return () => {
+    if (retry) clearTimeout(retry)
+    unsubscribe()
+  }
+}
+
+function adopt(r: SyncResult): void {
+  const swapped = r.setlist !== activeSetlist || r.state !== state
+  stage = trackSongStart(stage, state, r.state, Date.now())
+  sync = r.sync
+  activeSetlist = r.setlist
+  state = r.state
+  if (swapped) saveState()
+  broadcastPayload()
+}
+
+// Library and live setlist follow Convex as it changes; no refresh click needed.
+function startLiveSync(): void {
+  if (!convex) return
+  let setlists: SetlistDocs | null = null
+  let songs: SongDocs | null = null
+  let themes: ThemeDocs | null = null
+  const rebuild = () => {
+    if (!setlists || !songs || !themes) return
+    adoptRaw({ setlists, songs, themes })
+    sync = { ...sync, connected: true, lastSyncedAt: Date.now() }
+    notifyLibraryUpdated()
+    notifyOutbox()
+    broadcastPayload()
+    void flushOutbox()
+  }
+  watch(api.setlists.list, {}, r => { setlists = r; rebuild() })
+  watch(api.songs.list, {}, r => { songs = r; rebuild() })
+  watch(api.themes.list, {}, r => { themes = r; rebuild() })
+  watchLiveSetlist()
+
+  convex.subscribeToConnectionState(({ isWebSocketConnected }) => {
+    if (isWebSocketConnected === sync.connected) return
+    sync = { ...sync, connected: isWebSocketConnected }
+    broadcastPayload()
+    if (isWebSocketConnected) void flushOutbox()
+  })
+}
+
+// The live setlist of this app's room. Re-subscribed when the room changes.
+let stopLiveSetlist = () => {}
+function watchLiveSetlist(): void {
+  stopLiveSetlist()
+  // While broadcasting, this app is the one pushing, so the echo is ignored.
+  stopLiveSetlist = watch(api.liveSetlist.get, { room }, r => {
+    const incoming = broadcast ? null : (r as LiveSetlist | null)
+    adopt(receiveSetlist(sync, state, activeSetlist, incoming, Date.now()))
+  })
+}
+
 function pushSetlistOnline(): void {
   if (!convex || !broadcast) return
   convex.mutation(api.liveSetlist.push, {
+    room,
     name: activeSetlist.name,
+    setlistId: activeSetlist.setlistId as Id<'setlists'> | undefined,
+    startsAt: activeSetlist.startsAt,
+    theme: activeSetlist.theme,
+    languageLayout: activeSetlist.languageLayout,
+    transition: activeSetlist.transition,
     songs: activeSetlist.songs,
   }).catch(() => {})
 }
 
+// Mid-service edits keep pushedAt so the bridge doesn't reload from scratch.
+function pushSetlistSongsOnline(): void {
+  if (!convex || !broadcast) return
+  convex.mutation(api.liveSetlist.updateSongs, { room, songs: activeSetlist.songs }).catch(() => {})
+}
+
 function pushSessionOnline(): void {
   if (!convex || !broadcast) return
   convex.mutation(api.liveSession.update, {
+    room,
     currentSong:  state.currentSong,
     currentSlide: state.currentSlide,
     queuedSong:   state.queuedSong,
@@ -104,24 +447,75 @@ function pushSessionOnline(): void {
     mode:         state.mode,
     isBlackout:   state.isBlackout,
     isLive:       state.isLive,
+    songStartedAt: stage.songStartedAt ?? undefined,
+    stageMessage:  stage.message || undefined,
+  }).catch(() => {})
+}
+
+// Service history is recorded whether or not this app is broadcasting.
+function logOnline(event: LogEvent): void {
+  if (!convex || !activeSetlist.pushedAt) return
+  convex.mutation(api.liveSessionLog.append, {
+    setlistId: activeSetlist.setlistId as Id<'setlists'> | undefined,
+    setlistName: activeSetlist.name,
+    pushedAt: activeSetlist.pushedAt,
+    entry: logEntry(event, state, activeSetlist, Date.now()),
   }).catch(() => {})
 }
 
 function pushStandbyOnline(): void {
   if (!convex) return
   convex.mutation(api.liveSession.update, {
-    currentSong: -1, currentSlide: -1, queuedSong: 0, queuedSlide: 0,
+    room, currentSong: -1, currentSlide: -1, queuedSong: 0, queuedSlide: 0,
     mode: 'song', isBlackout: false, isLive: false,
   }).catch(() => {})
 }
 
 // ---------- broadcast to local windows ----------
 
+function currentPayload() {
+  return buildPayload(state, activeSetlist, sync, stage)
+}
+
 function broadcastPayload(): void {
-  const payload = buildPayload(state, activeSetlist)
+  const payload = currentPayload()
   for (const w of [controlWin, projectorWin, monitorWin]) {
     if (w && !w.isDestroyed()) w.webContents.send('payload', payload)
   }
+  scheduleAdvance()
+}
+
+// Announcement loops step on a timer. Every state change restarts it, so the
+// operator pressing GO (or anything else) takes over.
+let advanceTimer: ReturnType<typeof setTimeout> | null = null
+let advanceFrom: BridgeState | null = null
+
+function scheduleAdvance(): void {
+  if (state === advanceFrom) return
+  advanceFrom = state
+  if (advanceTimer) clearTimeout(advanceTimer)
+  advanceTimer = null
+  const delay = advanceDelay(state, activeSetlist)
+  if (delay === null) return
+  advanceTimer = setTimeout(() => {
+    const next = applyAutoAdvance(state, activeSetlist)
+    if (next === state) return
+    stage = trackSongStart(stage, state, next, Date.now())
+    state = next
+    saveState()
+    broadcastPayload()
+    pushSessionOnline()
+  }, delay)
+}
+
+function notifyLibraryUpdated(): void {
+  if (controlWin && !controlWin.isDestroyed()) {
+    controlWin.webContents.send('library-updated', library.map(s => ({ id: s.id, name: s.name, date: s.date })))
+  }
+}
+
+function notifyOutbox(): void {
+  if (controlWin && !controlWin.isDestroyed()) controlWin.webContents.send('outbox-updated', outboxSummary())
 }
 
 // ---------- windows ----------
@@ -135,6 +529,16 @@ function createControlWindow(): void {
   controlWin.on('closed', () => { controlWin = null })
 }
 
+// The projector's screen size, for slides fitted to the layout: the open
+// projector window's display, else the first external one.
+function projectorScreen(): ScreenSize {
+  const primary = screen.getPrimaryDisplay()
+  const d = projectorWin
+    ? screen.getDisplayMatching(projectorWin.getBounds())
+    : screen.getAllDisplays().find(x => x.id !== primary.id) ?? primary
+  return d.size
+}
+
 function displayById(id: number) {
   return screen.getAllDisplays().find(d => d.id === id) ?? screen.getPrimaryDisplay()
 }
@@ -152,11 +556,40 @@ function createDisplayWindow(kind: 'projector' | 'monitor', displayId: number):
   win.loadFile(join(RENDERER, `${kind}.html`))
   win.once('ready-to-show', () => { win.setFullScreen(true) })
   win.webContents.on('did-finish-load', () => {
-    win.webContents.send('payload', buildPayload(state, activeSetlist))
+    win.webContents.send('payload', currentPayload())
   })
   return win
 }
 
+// ---------- live setlist edits ----------
+
+function resolveEdit(edit: ControlEdit): SetlistEdit | null {
+  if (edit.type !== 'insertSong') return edit
+  const song = songLibrary.find(s => s.id === edit.songId)
+  if (!song?.sections) return null  // a cache from before songs kept their sections
+  const live = library.find(l => l.id === activeSetlist.setlistId)
+  const slides = setlistSongSlides(
+    song, { displayKey: song.key }, live, activeSetlist.theme ?? DEFAULT_THEME, projectorScreen(),
+  )
+  const { title, artist, ccli, key, capo } = song
+  return { type: 'insertSong', at: edit.at, song: { title, artist, ccli, key, capo, slides } }
+}
+
+// Item titles plus section labels; the live item also says which section is up.
+function liveSetlistSummary() {
+  return activeSetlist.songs.map((song, i) => {
+    const starts = sectionStarts(song)
+    const live = state.isLive && i === state.currentSong
+    return {
+      title: song.title,
+      kind: itemKind(song),
+      key: isSong(song) ? song.key : undefined,
+      sections: starts.map(s => song.slides[s].label),
+      liveSection: live ? starts.filter(s => s <= state.currentSlide).length - 1 : undefined,
+    }
+  })
+}
+
 // ---------- IPC ----------
 
 function registerIpc(): void {
@@ -185,7 +618,12 @@ function registerIpc(): void {
   ipcMain.handle('select-setlist', (_e, id: string) => {
     const found = library.find(s => s.id === id)
     if (!found) return { ok: false }
-    activeSetlist = { name: found.name, pushedAt: Date.now(), songs: found.songs }
+    activeSetlist = {
+      name: found.name, pushedAt: Date.now(), setlistId: found.id,
+      theme: found.theme, startsAt: found.startsAt, languageLayout: found.languageLayout,
+      transition: found.transition, songs: found.songs,
+    }
+    stage = trackSongStart(stage, state, initialState(), Date.now())
     state = initialState()
     saveState()
     pushSetlistOnline()
@@ -197,15 +635,68 @@ function registerIpc(): void {
   ipcMain.handle('action', (_e, event: ButtonEvent) => {
     const next = applyEvent(state, event, activeSetlist)
     if (next !== state) {
+      stage = trackSongStart(stage, state, next, Date.now())
       state = next
       saveState()
       broadcastPayload()
       pushSessionOnline()
+      const logged = loggedEvent(event)
+      if (logged) logOnline(logged)
     }
-    return buildPayload(state, activeSetlist)
+    return currentPayload()
   })
 
-  ipcMain.handle('get-payload', () => buildPayload(state, activeSetlist))
+  ipcMain.handle('get-payload', () => currentPayload())
+
+  // Slide grid: any thumbnail can go to preview, then GO takes it to program.
+  ipcMain.handle('get-slide-grid', () => slideGrid(state, activeSetlist))
+
+  ipcMain.handle('cue', (_e, song: number, slide: number) => {
+    const next = applyCue(state, song, slide, activeSetlist)
+    if (next !== state) {
+      state = next
+      saveState()
+      broadcastPayload()
+      pushSessionOnline()
+    }
+    return currentPayload()
+  })
+
+  ipcMain.handle('take-staged', (_e, accept: boolean) => {
+    if (!sync.pending) return currentPayload()
+    if (accept) {
+      adopt(acceptPending(sync, state, activeSetlist))
+      pushSessionOnline()
+    } else {
+      sync = dismissPending(sync)
+      broadcastPayload()
+    }
+    return currentPayload()
+  })
+
+  ipcMain.handle('stage-message', (_e, text: string) => {
+    stage = setStageMessage(stage, text)
+    broadcastPayload()
+    pushSessionOnline()
+    return currentPayload()
+  })
+
+  ipcMain.handle('list-songs', () => songLibrary.map(s => ({ id: s.id, title: s.title, key: s.key })))
+
+  ipcMain.handle('get-live-setlist', () => liveSetlistSummary())
+
+  ipcMain.handle('edit-setlist', (_e, edit: ControlEdit) => {
+    const resolved = resolveEdit(edit)
+    const result = resolved && applySetlistEdit(state, activeSetlist, resolved)
+    if (!result || result.setlist === activeSetlist) return { ok: false, songs: liveSetlistSummary() }
+    activeSetlist = result.setlist
+    state = result.state
+    saveState()
+    broadcastPayload()
+    pushSetlistSongsOnline()
+    pushSessionOnline()
+    return { ok: true, songs: liveSetlistSummary() }
+  })
 
   ipcMain.handle('open-window', (_e, kind: 'projector' | 'monitor', displayId: number) => {
     if (kind === 'projector') {
@@ -227,7 +718,62 @@ function registerIpc(): void {
     return { broadcast }
   })
 
-  ipcMain.handle('get-config', () => ({ broadcast, convexUrl: CONVEX_URL, connected: convex !== null }))
+  ipcMain.handle('get-config', () => ({ broadcast, room, convexUrl: CONVEX_URL, connected: convex !== null }))
+
+  // Moving rooms while broadcasting leaves the old room in standby and takes
+  // the running setlist along.
+  ipcMain.handle('set-room', (_e, name: string) => {
+    const next = normalizeRoom(name)
+    if (next === room) return { room }
+    if (broadcast) pushStandbyOnline()
+    room = next
+    saveRoom()
+    watchLiveSetlist()
+    if (broadcast) { pushSetlistOnline(); pushSessionOnline() }
+    return { room }
+  })
+
+  // Library edits, offline or not: queued, applied to the cached slides, then
+  // replayed to Convex. The running setlist picks them up when re-selected.
+  ipcMain.handle('get-setlist-songs', (_e, setlistId: string) => ({
+    songs: editableSongs(setlistId),
+  }))
+
+  ipcMain.handle('edit-song', (_e, songId: string, texts: string[]) => {
+    const song = raw?.songs.find(s => s._id === songId)
+    if (!song) return { ok: false, outbox: outboxSummary() }
+    const current = findEdit(outbox, 'song', songId)
+    const sections = current?.kind === 'song' ? current.sections : song.sections
+    queueOffline({
+      kind: 'song', id: songId, title: song.title, baseUpdatedAt: song.updatedAt,
+      sections: sections.map((s, i) => (texts[i] === undefined ? s : editSectionText(s, texts[i]))),
+    })
+    return { ok: true, outbox: outboxSummary() }
+  })
+
+  ipcMain.handle('set-song-key', (_e, setlistId: string, songId: string, key: string | null) => {
+    const setlist = raw?.setlists.find(s => s._id === setlistId)
+    if (!setlist || !setlist.songs.some(e => e.songId === songId)) return { ok: false, outbox: outboxSummary() }
+    queueOffline({
+      kind: 'setlist', id: setlistId, title: setlist.name, baseUpdatedAt: setlist.updatedAt, keys: { [songId]: key },
+    })
+    return { ok: true, outbox: outboxSummary() }
+  })
+
+  ipcMain.handle('list-outbox', () => outboxSummary())
+
+  // Keep mine: rebase onto the server's version and write again. Use theirs:
+  // drop the queued edit. A deleted document can only be let go.
+  ipcMain.handle('resolve-conflict', (_e, kind: PendingKind, id: string, keepMine: boolean) => {
+    const theirs = serverUpdatedAt(kind, id)
+    outbox = keepMine && theirs !== undefined ? rebaseEdit(outbox, kind, id, theirs) : dropEdit(outbox, kind, id)
+    saveOutbox()
+    rebuildLibrary()
+    notifyLibraryUpdated()
+    notifyOutbox()
+    void flushOutbox()
+    return outboxSummary()
+  })
 }
 
 // ---------- lifecycle ----------
@@ -235,16 +781,13 @@ function registerIpc(): void {
 app.whenReady().then(async () => {
   loadCache()
   loadState()
-  try { convex = new ConvexHttpClient(CONVEX_URL) } catch { convex = null }
+  loadRoom()
+  try { convex = new ConvexClient(CONVEX_URL) } catch { convex = null }
   registerIpc()
   createControlWindow()
 
-  // Best-effort online refresh on launch; offline falls back to cache.
-  refreshLibrary().then(() => {
-    if (controlWin && !controlWin.isDestroyed()) {
-      controlWin.webContents.send('library-updated', library.map(s => ({ id: s.id, name: s.name, date: s.date })))
-    }
-  }).catch(() => {})
+  // Offline, the cache stands in until the subscriptions first deliver.
+  startLiveSync()
 
   app.on('activate', () => {
     if (BrowserWindow.getAllWindows().length === 0) createControlWindow()
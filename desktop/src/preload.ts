@@ -1,7 +1,13 @@
 import { contextBridge, ipcRenderer } from 'electron'
 
 type Listed = { id: string; name: string; date: string }
+type LibrarySong = { id: string; title: string; key: string }
+type LiveSong = { title: string; key?: string; sections: string[]; liveSection?: number }
 type DisplayInfo = { id: number; label: string; width: number; height: number; primary: boolean }
+type EditableSong = {
+  songId: string; title: string; songKey: string; key: string; keys: string[]; sections: { label: string; text: string }[]
+}
+type Outbox = { kind: 'song' | 'setlist'; id: string; title: string; conflict: boolean; what: string; theirsAt?: number }[]
 
 contextBridge.exposeInMainWorld('wma', {
   getDisplays: (): Promise<DisplayInfo[]> => ipcRenderer.invoke('get-displays'),
@@ -11,15 +17,36 @@ contextBridge.exposeInMainWorld('wma', {
   selectSetlist: (id: string): Promise<{ ok: boolean }> => ipcRenderer.invoke('select-setlist', id),
   action: (event: unknown): Promise<unknown> => ipcRenderer.invoke('action', event),
   getPayload: (): Promise<unknown> => ipcRenderer.invoke('get-payload'),
+  getSlideGrid: (): Promise<unknown> => ipcRenderer.invoke('get-slide-grid'),
+  cue: (song: number, slide: number): Promise<unknown> => ipcRenderer.invoke('cue', song, slide),
+  takeStaged: (accept: boolean): Promise<unknown> => ipcRenderer.invoke('take-staged', accept),
+  setStageMessage: (text: string): Promise<unknown> => ipcRenderer.invoke('stage-message', text),
+  listSongs: (): Promise<LibrarySong[]> => ipcRenderer.invoke('list-songs'),
+  getLiveSetlist: (): Promise<LiveSong[]> => ipcRenderer.invoke('get-live-setlist'),
+  editSetlist: (edit: unknown): Promise<{ ok: boolean; songs: LiveSong[] }> =>
+    ipcRenderer.invoke('edit-setlist', edit),
   openWindow: (kind: 'projector' | 'monitor', displayId: number): Promise<{ ok: boolean }> =>
     ipcRenderer.invoke('open-window', kind, displayId),
   setBroadcast: (on: boolean): Promise<{ broadcast: boolean }> => ipcRenderer.invoke('set-broadcast', on),
-  getConfig: (): Promise<{ broadcast: boolean; convexUrl: string; connected: boolean }> =>
+  getConfig: (): Promise<{ broadcast: boolean; room: string; convexUrl: string; connected: boolean }> =>
     ipcRenderer.invoke('get-config'),
+  setRoom: (name: string): Promise<{ room: string }> => ipcRenderer.invoke('set-room', name),
+  getSetlistSongs: (setlistId: string): Promise<{ songs: EditableSong[] | null }> =>
+    ipcRenderer.invoke('get-setlist-songs', setlistId),
+  editSong: (songId: string, texts: string[]): Promise<{ ok: boolean; outbox: Outbox }> =>
+    ipcRenderer.invoke('edit-song', songId, texts),
+  setSongKey: (setlistId: string, songId: string, key: string | null): Promise<{ ok: boolean; outbox: Outbox }> =>
+    ipcRenderer.invoke('set-song-key', setlistId, songId, key),
+  listOutbox: (): Promise<Outbox> => ipcRenderer.invoke('list-outbox'),
+  resolveConflict: (kind: 'song' | 'setlist', id: string, keepMine: boolean): Promise<Outbox> =>
+    ipcRenderer.invoke('resolve-conflict', kind, id, keepMine),
   onPayload: (cb: (payload: unknown) => void) => {
     ipcRenderer.on('payload', (_e, payload) => cb(payload))
   },
   onLibraryUpdated: (cb: (setlists: Listed[]) => void) => {
     ipcRenderer.on('library-updated', (_e, setlists) => cb(setlists))
   },
+  onOutboxUpdated: (cb: (outbox: Outbox) => void) => {
+    ipcRenderer.on('outbox-updated', (_e, outbox) => cb(outbox))
+  },
 })
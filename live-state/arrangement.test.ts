@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import {
+  sectionAbbrev, expandArrangement, arrangedSections, formatRoadmap, parseRoadmap, type Arrangement,
+} from './arrangement'
+
+const SECTIONS = [{ label: 'Verse 1' }, { label: 'Chorus' }, { label: 'Verse 2' }, { label: 'Bridge' }]
+const SUNDAY: Arrangement = {
+  name: 'Sunday',
+  steps: [
+    { section: 'Verse 1' }, { section: 'Chorus' }, { section: 'Verse 2' },
+    { section: 'Chorus' }, { section: 'Bridge' }, { section: 'Chorus', repeat: 2 },
+  ],
+}
+
+describe('sectionAbbrev', () => {
+  it('keeps initials and numbers', () => {
+    expect(sectionAbbrev('Verse 1')).toBe('V1')
+    expect(sectionAbbrev('Pre-Chorus')).toBe('PC')
+    expect(sectionAbbrev('chorus')).toBe('C')
+  })
+})
+
+describe('expandArrangement', () => {
+  it('reuses the same section object for every reference and repeat', () => {
+    const out = expandArrangement(SECTIONS, SUNDAY)
+    expect(out.map(s => s.label)).toEqual(['Verse 1', 'Chorus', 'Verse 2', 'Chorus', 'Bridge', 'Chorus', 'Chorus'])
+    expect(out[1]).toBe(SECTIONS[1])
+    expect(out[6]).toBe(SECTIONS[1])
+  })
+  it('skips dangling references and clamps repeats', () => {
+    const out = expandArrangement(SECTIONS, {
+      name: 'x', steps: [{ section: 'Tag' }, { section: 'Bridge', repeat: 0 }, { section: 'Chorus', repeat: 99 }],
+    })
+    expect(out.map(s => s.label)).toEqual(['Bridge', ...Array(8).fill('Chorus')])
+  })
+  it('is the song order without an arrangement', () => {
+    expect(expandArrangement(SECTIONS)).toBe(SECTIONS)
+  })
+})
+
+describe('arrangedSections', () => {
+  it('picks the arrangement by name and falls back to the song order', () => {
+    const song = { sections: SECTIONS, arrangements: [SUNDAY] }
+    expect(arrangedSections(song, 'Sunday')).toHaveLength(7)
+    expect(arrangedSections(song, 'Acoustic')).toBe(SECTIONS)
+    expect(arrangedSections(song)).toBe(SECTIONS)
+  })
+})
+
+describe('roadmaps', () => {
+  const labels = SECTIONS.map(s => s.label)
+  it('parses abbreviations, full labels and repeats', () => {
+    expect(parseRoadmap('V1, c, verse 2\nC, B, C x2', labels)).toEqual({ steps: SUNDAY.steps, unknown: [] })
+  })
+  it('reports tokens it cannot place', () => {
+    expect(parseRoadmap('V1, Tag, V3', labels)).toEqual({ steps: [{ section: 'Verse 1' }], unknown: ['Tag', 'V3'] })
+  })
+  it('round-trips through formatRoadmap', () => {
+    expect(formatRoadmap(SUNDAY.steps)).toBe('Verse 1, Chorus, Verse 2, Chorus, Bridge, Chorus ×2')
+    expect(parseRoadmap(formatRoadmap(SUNDAY.steps), labels).steps).toEqual(SUNDAY.steps)
+  })
+})
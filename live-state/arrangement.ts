@@ -0,0 +1,73 @@
+// Song arrangements (roadmaps): named orderings of a song's unique sections
+// with repeat counts, so "V1 C V2 C B C C" doesn't need duplicated content.
+
+export interface ArrangementStep {
+  section: string   // label of the referenced section ("Chorus")
+  repeat?: number   // times in a row, default 1
+}
+
+export interface Arrangement {
+  name:  string     // "Sunday", "Acoustic"
+  steps: ArrangementStep[]
+}
+
+export const MAX_REPEAT = 8
+
+// Short form of a section label: word initials plus numbers.
+// "Verse 1" → "V1", "Pre-Chorus" → "PC", "Chorus" → "C".
+export function sectionAbbrev(label: string): string {
+  return label.split(/[\s-]+/).filter(Boolean)
+    .map(w => (/^\d+$/.test(w) ? w : w[0].toUpperCase()))
+    .join('')
+}
+
+// The sections in arrangement order, repeats expanded. Steps naming a section
+// that no longer exists are skipped; no arrangement = the song's own order.
+export function expandArrangement<S extends { label: string }>(sections: S[], arrangement?: Arrangement): S[] {
+  if (!arrangement) return sections
+  const out: S[] = []
+  for (const step of arrangement.steps) {
+    const section = sections.find(s => s.label === step.section)
+    if (!section) continue
+    const times = Math.min(Math.max(Math.floor(step.repeat ?? 1), 1), MAX_REPEAT)
+    for (let i = 0; i < times; i++) out.push(section)
+  }
+  return out
+}
+
+// A song's sections as the named arrangement plays them; unknown names fall
+// back to the song's own order.
+export function arrangedSections<S extends { label: string }>(
+  song: { sections: S[]; arrangements?: Arrangement[] },
+  name?: string,
+): S[] {
+  return expandArrangement(song.sections, name ? song.arrangements?.find(a => a.name === name) : undefined)
+}
+
+// "Verse 1, Chorus ×2, Bridge"
+export function formatRoadmap(steps: ArrangementStep[]): string {
+  return steps.map(s => ((s.repeat ?? 1) > 1 ? `${s.section} ×${s.repeat}` : s.section)).join(', ')
+}
+
+// Read a typed roadmap ("V1, C, V2, C x2, B" or full labels, comma or newline
+// separated) against the song's section labels. Labels match case-insensitively,
+// then by abbreviation; tokens matching neither come back in `unknown`.
+export function parseRoadmap(text: string, labels: string[]): { steps: ArrangementStep[]; unknown: string[] } {
+  const steps: ArrangementStep[] = []
+  const unknown: string[] = []
+  for (const raw of text.split(/[,\n]+/)) {
+    const token = raw.trim()
+    if (!token) continue
+    const m = token.match(/^(.*?)\s*[x×*]\s*(\d+)$/i)
+    const name = (m ? m[1] : token).trim().toLowerCase()
+    const repeat = m ? Math.min(Math.max(Number(m[2]), 1), MAX_REPEAT) : 1
+    const label = labels.find(l => l.toLowerCase() === name)
+      ?? labels.find(l => sectionAbbrev(l).toLowerCase() === name)
+    if (!label) {
+      unknown.push(token)
+      continue
+    }
+    steps.push(repeat > 1 ? { section: label, repeat } : { section: label })
+  }
+  return { steps, unknown }
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import { normalizeCapo, capoShapeKey, capoSoundingKey, capoNote } from './capo'
+import { shiftKey } from './keys'
+
+describe('normalizeCapo', () => {
+  it('keeps frets 1–9 and treats anything else as no capo', () => {
+    expect(normalizeCapo(2)).toBe(2)
+    expect(normalizeCapo(3.4)).toBe(3)
+    expect(normalizeCapo()).toBe(0)
+    expect(normalizeCapo(-1)).toBe(0)
+    expect(normalizeCapo(12)).toBe(0)
+  })
+})
+
+describe('capo keys', () => {
+  it('finds the shapes under the sounding key and back', () => {
+    expect(capoShapeKey('A', 2)).toBe('G')
+    expect(capoShapeKey('Bb', 3)).toBe('G')
+    expect(capoShapeKey('F#m', 2)).toBe('Em')
+    expect(capoShapeKey('Eb', 1)).toBe('D')
+    expect(capoShapeKey('A', 0)).toBe('A')
+    expect(capoSoundingKey('G', 2)).toBe('A')
+    expect(capoSoundingKey('C', 1)).toBe('Db')
+  })
+
+  it('spells shifted keys the usual way and leaves unreadable ones', () => {
+    expect(shiftKey('E', 1)).toBe('F')
+    expect(shiftKey('Am', 1)).toBe('Bbm')
+    expect(shiftKey('D Dorian', -2)).toBe('C Dorian')
+    expect(shiftKey('?', 3)).toBe('?')
+  })
+
+  it('writes a note for the band', () => {
+    expect(capoNote('A', 2)).toBe('Capo 2 (G shapes)')
+    expect(capoNote('A')).toBe('')
+  })
+})
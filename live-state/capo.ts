@@ -0,0 +1,30 @@
+// Capo: the song sounds in its key while guitarists finger chord shapes from
+// a lower one (a song in A with capo 2 is played with G shapes). Songs are
+// stored at sounding pitch; the capo only changes what a guitarist reads.
+
+import { shiftKey } from './keys'
+
+export const MAX_CAPO = 9
+
+// A fret from 1 to MAX_CAPO, or 0 for no capo.
+export function normalizeCapo(fret?: number): number {
+  if (!Number.isFinite(fret)) return 0
+  const n = Math.round(fret!)
+  return n >= 1 && n <= MAX_CAPO ? n : 0
+}
+
+// The key whose shapes are played: the sounding key `capo` frets down.
+export function capoShapeKey(soundingKey: string, capo?: number): string {
+  return shiftKey(soundingKey, -normalizeCapo(capo))
+}
+
+// The sounding key of shapes played with a capo, e.g. from a tab written in shapes.
+export function capoSoundingKey(shapeKey: string, capo?: number): string {
+  return shiftKey(shapeKey, normalizeCapo(capo))
+}
+
+// "Capo 2 (G shapes)" for the stage monitor and chart headers; '' without a capo.
+export function capoNote(soundingKey: string, capo?: number): string {
+  const fret = normalizeCapo(capo)
+  return fret ? `Capo ${fret} (${capoShapeKey(soundingKey, fret)} shapes)` : ''
+}
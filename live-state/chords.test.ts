@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest'
+import { parseChord, isChord, isChordLine, formatChord, chordIntervals, pitchClass, type ParsedChord } from './chords'
+
+type Shape = Partial<Omit<ParsedChord, 'descriptor'>>
+
+// symbol, expected fields (others default to a plain major triad), canonical spelling
+const CORPUS: [string, Shape, string][] = [
+  ['C',         {},                                                                                   'C'],
+  ['Am',        { root: 'A', quality: 'minor' },                                                      'Am'],
+  ['F#m',       { root: 'F#', quality: 'minor' },                                                     'F#m'],
+  ['Bb',        { root: 'Bb' },                                                                       'Bb'],
+  ['E♭',        { root: 'Eb' },                                                                       'Eb'],
+  ['Cmin',      { quality: 'minor' },                                                                 'Cm'],
+  ['C-7',       { quality: 'minor', extension: { degree: 7, seventh: 'minor' } },                     'Cm7'],
+  ['CM',        {},                                                                                   'C'],
+  ['G7',        { root: 'G', extension: { degree: 7, seventh: 'minor' } },                            'G7'],
+  ['Cmaj7',     { extension: { degree: 7, seventh: 'major' } },                                       'Cmaj7'],
+  ['CM7',       { extension: { degree: 7, seventh: 'major' } },                                       'Cmaj7'],
+  ['CΔ',        { extension: { degree: 7, seventh: 'major' } },                                       'Cmaj7'],
+  ['Cmaj9#11',  { extension: { degree: 9, seventh: 'major' }, alterations: [{ degree: 11, accidental: '#' }] }, 'Cmaj9#11'],
+  ['Cmaj7(#11)', { extension: { degree: 7, seventh: 'major' }, alterations: [{ degree: 11, accidental: '#' }] }, 'Cmaj7#11'],
+  ['Bm7b5',     { root: 'B', quality: 'minor', extension: { degree: 7, seventh: 'minor' }, alterations: [{ degree: 5, accidental: 'b' }] }, 'Bm7b5'],
+  ['Bø',        { root: 'B', quality: 'halfDiminished', extension: { degree: 7, seventh: 'minor' } }, 'Bø7'],
+  ['E7#9',      { root: 'E', extension: { degree: 7, seventh: 'minor' }, alterations: [{ degree: 9, accidental: '#' }] }, 'E7#9'],
+  ['C7(b9,#5)', { extension: { degree: 7, seventh: 'minor' }, alterations: [{ degree: 9, accidental: 'b' }, { degree: 5, accidental: '#' }] }, 'C7b9#5'],
+  ['C7+',       { extension: { degree: 7, seventh: 'minor' }, alterations: [{ degree: 5, accidental: '#' }] }, 'C7#5'],
+  ['C13b9',     { extension: { degree: 13, seventh: 'minor' }, alterations: [{ degree: 9, accidental: 'b' }] }, 'C13b9'],
+  ['C6',        { extension: { degree: 6, seventh: null } },                                          'C6'],
+  ['C6/9',      { extension: { degree: 6, seventh: null }, adds: [9] },                               'C6/9'],
+  ['C69',       { extension: { degree: 6, seventh: null }, adds: [9] },                               'C6/9'],
+  ['Am6',       { root: 'A', quality: 'minor', extension: { degree: 6, seventh: null } },             'Am6'],
+  ['Dsus2sus4', { root: 'D', suspensions: [2, 4] },                                                   'Dsus2sus4'],
+  ['Dsus',      { root: 'D', suspensions: [4] },                                                      'Dsus4'],
+  ['D2',        { root: 'D', suspensions: [2] },                                                      'Dsus2'],
+  ['G7sus4',    { root: 'G', extension: { degree: 7, seventh: 'minor' }, suspensions: [4] },          'G7sus4'],
+  ['Gadd4',     { root: 'G', adds: [4] },                                                             'Gadd4'],
+  ['C(add9)',   { adds: [9] },                                                                        'Cadd9'],
+  ['Emadd9',    { root: 'E', quality: 'minor', adds: [9] },                                           'Emadd9'],
+  ['Cm(add9)',  { quality: 'minor', adds: [9] },                                                      'Cmadd9'],
+  ['Cmadd2',    { quality: 'minor', adds: [2] },                                                      'Cmadd2'],
+  ['Cdim',      { quality: 'diminished' },                                                            'Cdim'],
+  ['C°7',       { quality: 'diminished', extension: { degree: 7, seventh: 'diminished' } },           'Cdim7'],
+  ['Co7',       { quality: 'diminished', extension: { degree: 7, seventh: 'diminished' } },           'Cdim7'],
+  ['C+',        { quality: 'augmented' },                                                             'Caug'],
+  ['Caug7',     { quality: 'augmented', extension: { degree: 7, seventh: 'minor' } },                 'Caug7'],
+  ['CmMaj7',    { quality: 'minor', extension: { degree: 7, seventh: 'major' } },                     'CmMaj7'],
+  ['Cm(maj7)',  { quality: 'minor', extension: { degree: 7, seventh: 'major' } },                     'CmMaj7'],
+  ['C5',        { quality: 'power' },                                                                 'C5'],
+  ['C(no3)',    { omits: [3] },                                                                       'Cno3'],
+  ['G/B',       { root: 'G', bass: 'B' },                                                             'G/B'],
+  ['F#m7/A',    { root: 'F#', quality: 'minor', extension: { degree: 7, seventh: 'minor' }, bass: 'A' }, 'F#m7/A'],
+  ['Db6/9/F',   { root: 'Db', extension: { degree: 6, seventh: null }, adds: [9], bass: 'F' },        'Db6/9/F'],
+]
+
+const NOT_CHORDS = [
+  '', 'H', 'a', 'am', 'Cx', 'Cmm', 'Cm5', 'C7#', 'Cadd', 'Csus3', 'Am!', 'C/', 'C/H',
+  'Amazing', 'Chorus', 'Do', 'Go', 'Add', 'Be', 'N.C.', 'Cadd9x',
+]
+
+describe('parseChord', () => {
+  it.each(CORPUS)('reads %s', (symbol, shape) => {
+    expect(parseChord(symbol)).toEqual({
+      root: 'C', quality: 'major', extension: null, alterations: [], adds: [], suspensions: [], omits: [], bass: null,
+      descriptor: expect.any(String),
+      ...shape,
+    })
+  })
+  it.each(CORPUS)('spells %s canonically', (symbol, _, canonical) => {
+    expect(formatChord(parseChord(symbol)!)).toBe(canonical)
+    expect(formatChord(parseChord(canonical)!)).toBe(canonical)
+  })
+  it.each(CORPUS)('reads back what it writes for %s', symbol => {
+    const { descriptor: _, ...parsed } = parseChord(symbol)!
+    const { descriptor: __, ...again } = parseChord(formatChord(parseChord(symbol)!))!
+    expect(again).toEqual(parsed)
+  })
+  it.each(NOT_CHORDS)('rejects %j', text => {
+    expect(parseChord(text)).toBeNull()
+  })
+  it('keeps the descriptor as written, without the bass', () => {
+    expect(parseChord('CΔ7/E')!.descriptor).toBe('Δ7')
+    expect(parseChord('Cmaj9#11')!.descriptor).toBe('maj9#11')
+  })
+})
+
+describe('isChord and isChordLine', () => {
+  it('has no length cap', () => {
+    expect(isChord('C#m7b5(add11)/G#')).toBe(true)
+  })
+  it('reads chord lines, ignoring bar lines and repeats', () => {
+    expect(isChordLine('G    D/F#   Em7   Cmaj9#11')).toBe(true)
+    expect(isChordLine('| G  | D  | Em | C | x2')).toBe(true)
+    expect(isChordLine('Amazing grace how sweet the sound')).toBe(false)
+    expect(isChordLine('A mighty fortress')).toBe(false)
+    expect(isChordLine('| % |')).toBe(false)
+  })
+})
+
+describe('chordIntervals', () => {
+  it.each([
+    ['C',        [0, 4, 7]],
+    ['Am',       [0, 3, 7]],
+    ['G7',       [0, 4, 7, 10]],
+    ['Cmaj7',    [0, 4, 7, 11]],
+    ['Bm7b5',    [0, 3, 6, 10]],
+    ['Bø7',      [0, 3, 6, 10]],
+    ['Cdim7',    [0, 3, 6, 9]],
+    ['Caug',     [0, 4, 8]],
+    ['Dsus2sus4', [0, 2, 5, 7]],
+    ['C6/9',     [0, 4, 7, 9, 14]],
+    ['E7#9',     [0, 4, 7, 10, 15]],
+    ['Cmaj9#11', [0, 4, 7, 11, 14, 18]],
+    ['C5',       [0, 7]],
+    ['C(no3)',   [0, 7]],
+  ] as [string, number[]][])('voices %s', (symbol, intervals) => {
+    expect(chordIntervals(parseChord(symbol)!)).toEqual(intervals)
+  })
+})
+
+describe('pitchClass', () => {
+  it('counts from C and spells either way', () => {
+    expect(pitchClass('C')).toBe(0)
+    expect(pitchClass('F#')).toBe(6)
+    expect(pitchClass('Gb')).toBe(6)
+    expect(pitchClass('Cb')).toBe(11)
+    expect(pitchClass('B♭')).toBe(10)
+    expect(pitchClass('H')).toBe(-1)
+  })
+})
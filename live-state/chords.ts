@@ -0,0 +1,237 @@
+// Chord symbol grammar. Everything that reads a chord (transposition, Roman
+// numerals, chord-line detection, the chord picker, rehearsal playback) parses
+// it here, so a symbol is either understood everywhere or nowhere.
+//
+//   chord      = note descriptor ['/' note]
+//   note       = A–G ['#' | 'b' | '♯' | '♭']
+//   descriptor = [quality] [extension] {modifier}
+//   quality    = m | min | mi | - | M | maj | ma | Δ | ^ | dim | ° | o7 | ø | aug | +
+//   extension  = 5 | 2 | 4 | 6 | 6/9 | 69 | 7 | 9 | 11 | 13
+//   modifier   = sus [2|4] | add N | (#|b|+|-) N | no N | omit N | 9 | 11 | 13
+//
+// Modifiers may be wrapped in parentheses and separated by commas: C7(b9,#5).
+// Roots are upper-case only, so lyric words like "a" or "be" never read as chords.
+
+export type ChordQuality = 'major' | 'minor' | 'diminished' | 'halfDiminished' | 'augmented' | 'power'
+
+export interface ChordExtension {
+  degree:  6 | 7 | 9 | 11 | 13
+  seventh: 'minor' | 'major' | 'diminished' | null  // the 7th under a 7/9/11/13; null for a 6
+}
+
+export interface ChordAlteration {
+  degree:     5 | 9 | 11 | 13
+  accidental: '#' | 'b'
+}
+
+export interface ParsedChord {
+  root:        string         // ♯/♭ written as #/b
+  quality:     ChordQuality
+  extension:   ChordExtension | null
+  alterations: ChordAlteration[]
+  adds:        number[]       // add2, add4, add9…; the 9 of a 6/9 lands here
+  suspensions: (2 | 4)[]
+  omits:       number[]       // no3, no5
+  bass:        string | null
+  descriptor:  string         // the text between root and bass, as written
+}
+
+const NOTE = /^[A-G][#b♯♭]?/
+const BASS = /\/([A-G][#b♯♭]?)$/
+
+function normalizeNote(note: string): string {
+  return note.replace('♯', '#').replace('♭', 'b')
+}
+
+const PITCH_CLASSES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 }
+
+// 0–11 from C, or -1 for anything that isn't a note name.
+export function pitchClass(note: string): number {
+  const n = normalizeNote(note)
+  if (!/^[A-G][#b]?$/.test(n)) return -1
+  const shift = n[1] === '#' ? 1 : n[1] === 'b' ? -1 : 0
+  return (PITCH_CLASSES[n[0]] + shift + 12) % 12
+}
+
+export function parseChord(text: string): ParsedChord | null {
+  const s = text.trim()
+  const root = s.match(NOTE)
+  if (!root) return null
+  let descriptor = s.slice(root[0].length)
+  let bass: string | null = null
+  const slash = descriptor.match(BASS)
+  if (slash) {
+    bass = normalizeNote(slash[1])
+    descriptor = descriptor.slice(0, slash.index)
+  }
+  const body = parseDescriptor(descriptor)
+  return body && { root: normalizeNote(root[0]), ...body, bass, descriptor }
+}
+
+type Descriptor = Omit<ParsedChord, 'root' | 'bass' | 'descriptor'>
+
+function parseDescriptor(d: string): Descriptor | null {
+  let i = 0
+  const eat = (re: RegExp): string | null => {
+    re.lastIndex = i
+    const m = re.exec(d)
+    if (!m) return null
+    i += m[0].length
+    return m[0]
+  }
+
+  let quality: ChordQuality = 'major'
+  // `ma` but not the m-add of Emadd9
+  let major = eat(/maj|Maj|MAJ|ma(?!dd)|M|Δ|\^/y)  // the 7th, if any, is a major 7th
+  if (!major) {
+    if (eat(/min|mi|m|-/y)) {
+      quality = 'minor'
+      major = eat(/\(?(?:maj|Maj|ma|M|Δ|\^)/y)  // Cm(maj7), CmM7
+    } else if (eat(/dim|°|o(?=7)/y)) quality = 'diminished'
+    else if (eat(/ø|Ø/y)) quality = 'halfDiminished'
+    else if (eat(/aug|\+/y)) quality = 'augmented'
+  }
+
+  let extension: ChordExtension | null = null
+  const alterations: ChordAlteration[] = []
+  const adds: number[] = []
+  const suspensions: (2 | 4)[] = []
+  const omits: number[] = []
+
+  const degree = eat(/13|11|9|7|69|6|5|2|4/y)
+  if (degree === '5') {
+    if (quality !== 'major' || major) return null
+    quality = 'power'
+  } else if (degree === '2' || degree === '4') {
+    // D2, E4: the worship-chart shorthand for sus2/sus4
+    if (quality !== 'major' || major) return null
+    suspensions.push(degree === '2' ? 2 : 4)
+  } else if (degree === '6' || degree === '69') {
+    extension = { degree: 6, seventh: null }
+    if (degree === '69' || eat(/\/9/y)) adds.push(9)
+  } else if (degree) {
+    const seventh = major ? 'major' : quality === 'diminished' ? 'diminished' : 'minor'
+    extension = { degree: Number(degree) as ChordExtension['degree'], seventh }
+  } else if (major && /^[(]?(Δ|\^)$/.test(major)) {
+    extension = { degree: 7, seventh: 'major' }  // a bare triangle is a maj7
+  }
+  if (!extension && quality === 'halfDiminished') extension = { degree: 7, seventh: 'minor' }
+
+  while (i < d.length) {
+    if (eat(/[(),]/y)) continue
+    if (eat(/sus/y)) {
+      suspensions.push(eat(/[24]/y) === '2' ? 2 : 4)  // bare sus is sus4
+      continue
+    }
+    if (eat(/add/y)) {
+      const accidental = eat(/[#b♯♭+-]/y)
+      const n = eat(/13|11|9|6|4|2/y)
+      if (!n) return null
+      if (accidental) {
+        if (n === '6' || n === '4' || n === '2') return null
+        alterations.push(alteration(accidental, n))
+      } else adds.push(Number(n))
+      continue
+    }
+    if (eat(/no|omit/y)) {
+      const n = eat(/3|5/y)
+      if (!n) return null
+      omits.push(Number(n))
+      continue
+    }
+    const accidental = eat(/[#b♯♭+-]/y)
+    if (accidental) {
+      const n = eat(/13|11|9|5/y)
+      if (!n && accidental !== '+') return null
+      alterations.push(alteration(accidental, n ?? '5'))  // C7+ = C7#5
+      continue
+    }
+    const added = eat(/13|11|9/y)  // C7(13)
+    if (added) {
+      adds.push(Number(added))
+      continue
+    }
+    return null
+  }
+
+  return { quality, extension, alterations, adds, suspensions, omits }
+}
+
+function alteration(accidental: string, degree: string): ChordAlteration {
+  return {
+    degree:     Number(degree) as ChordAlteration['degree'],
+    accidental: accidental === '#' || accidental === '♯' || accidental === '+' ? '#' : 'b',
+  }
+}
+
+export function isChord(text: string): boolean {
+  return parseChord(text) !== null
+}
+
+// Bar lines, repeat counts and "no chord" marks sit on chord lines without
+// being chords; they don't count either way.
+const NEUTRAL_TOKEN = /^(\|+:?|:?\|+|\/|%|-|x\d+|\(x\d+\)|N\.?C\.?)$/i
+
+// A line reads as chords when at least half of its meaningful tokens are.
+export function isChordLine(line: string): boolean {
+  const tokens = line.trim().split(/\s+/).filter(t => t && !NEUTRAL_TOKEN.test(t))
+  if (tokens.length === 0) return false
+  const chords = tokens.filter(isChord).length
+  return chords > 0 && chords / tokens.length >= 0.5
+}
+
+const QUALITY_PREFIX: Record<ChordQuality, string> = {
+  major: '', minor: 'm', diminished: 'dim', halfDiminished: 'ø', augmented: 'aug', power: '5',
+}
+
+// Everything after the quality, in a fixed order: 7sus4add9b5no3. Roman
+// numerals put their own quality marks in front of this.
+export function chordTail(chord: ParsedChord): string {
+  const { extension: ext, adds } = chord
+  let tail = ''
+  if (ext) tail += ext.seventh === 'major' ? `maj${ext.degree}` : ext.degree === 6 && adds.includes(9) ? '6/9' : String(ext.degree)
+  tail += chord.suspensions.map(n => `sus${n}`).join('')
+  tail += adds.filter(n => !(ext?.degree === 6 && n === 9)).map(n => `add${n}`).join('')
+  tail += chord.alterations.map(a => `${a.accidental}${a.degree}`).join('')
+  tail += chord.omits.map(n => `no${n}`).join('')
+  return tail
+}
+
+// Canonical spelling, e.g. "C-7" → "Cm7", "CΔ" → "Cmaj7", "F#m(maj7)" → "F#mMaj7".
+export function formatChord(chord: ParsedChord): string {
+  const tail = chordTail(chord)
+  const body = chord.quality === 'minor' && tail.startsWith('maj') ? `mM${tail.slice(1)}` : QUALITY_PREFIX[chord.quality] + tail
+  return chord.root + body + (chord.bass ? `/${chord.bass}` : '')
+}
+
+const ADD_INTERVALS: Record<number, number> = { 2: 2, 4: 5, 6: 9, 9: 14, 11: 17, 13: 21 }
+
+// Semitones above the root of each chord tone, lowest first. The bass of a
+// slash chord is not included; voice it separately.
+export function chordIntervals(chord: ParsedChord): number[] {
+  const { quality, extension: ext } = chord
+  const tones = new Set([0])
+  const flatFifth = quality === 'diminished' || quality === 'halfDiminished'
+  if (quality !== 'power' && chord.suspensions.length === 0) {
+    tones.add(quality === 'major' || quality === 'augmented' ? 4 : 3)
+  }
+  for (const s of chord.suspensions) tones.add(s === 2 ? 2 : 5)
+  tones.add(flatFifth ? 6 : quality === 'augmented' ? 8 : 7)
+  if (ext?.degree === 6) tones.add(9)
+  if (ext && ext.degree >= 7) {
+    tones.add(ext.seventh === 'major' ? 11 : ext.seventh === 'diminished' ? 9 : 10)
+    if (ext.degree >= 9) tones.add(14)
+    if (ext.degree === 11 || (ext.degree === 13 && quality === 'minor')) tones.add(17)
+    if (ext.degree === 13) tones.add(21)
+  }
+  for (const n of chord.adds) tones.add(ADD_INTERVALS[n])
+  for (const { degree, accidental } of chord.alterations) {
+    const natural = { 5: 7, 9: 14, 11: 17, 13: 21 }[degree]
+    for (const t of degree === 5 ? [6, 7, 8] : [natural]) tones.delete(t)
+    tones.add(natural + (accidental === '#' ? 1 : -1))
+  }
+  for (const n of chord.omits) {
+    for (const t of n === 3 ? [3, 4] : [6, 7, 8]) tones.delete(t)
+  }
+  return [...tones].sort((a, b) => a - b)
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest'
+import { applySetlistEdit } from './edits'
+import {
+  initialState, applyGo, applySelection, applyJump, buildPayload,
+  type BridgeState, type LiveSetlist, type LiveSetlistSong, type LiveSlide,
+} from './state'
+import { slide } from './test-helpers'
+
+function song(title: string, ...slides: LiveSlide[]): LiveSetlistSong {
+  return { title, slides }
+}
+
+// A: Verse 1 (2 slides), Chorus (1). B: Verse (1). C: Verse (1).
+const SETLIST: LiveSetlist = {
+  name: 'Sunday', pushedAt: 1000,
+  songs: [
+    song('A', slide('Verse 1', 'a1', 0, 2), slide('Verse 1', 'a2', 1, 2), slide('Chorus', 'ac')),
+    song('B', slide('Verse', 'b1')),
+    song('C', slide('Verse', 'c1')),
+  ],
+}
+
+const SPONTANEOUS = song('Spontaneous', slide('Chorus', 's1'))
+
+const liveAt = (songIdx: number, slideIdx: number): BridgeState =>
+  applyJump(initialState(), songIdx, slideIdx, SETLIST)
+
+const lyricsOf = (r: { state: BridgeState; setlist: LiveSetlist }) => {
+  const p = buildPayload(r.state, r.setlist)
+  return [p.currentLyrics, p.nextLyrics]
+}
+
+describe('applySetlistEdit — insertSong', () => {
+  it('keeps the live slide and plays the inserted song next', () => {
+    const r = applySetlistEdit(liveAt(0, 2), SETLIST, { type: 'insertSong', at: 1, song: SPONTANEOUS })
+    expect(r.setlist.songs.map(s => s.title)).toEqual(['A', 'Spontaneous', 'B', 'C'])
+    expect(r.state.currentSong).toBe(0)
+    expect(r.state.currentSlide).toBe(2)
+    expect(lyricsOf(r)).toEqual(['ac', 's1'])
+  })
+  it('shifts the live song when inserting before it', () => {
+    const r = applySetlistEdit(liveAt(1, 0), SETLIST, { type: 'insertSong', at: 0, song: SPONTANEOUS })
+    expect(r.state.currentSong).toBe(2)
+    expect(lyricsOf(r)).toEqual(['b1', 'c1'])
+  })
+  it('keeps a hand-picked queue on the same slide', () => {
+    const picked = applySelection(liveAt(0, 0), 2, SETLIST) // queue song C
+    const r = applySetlistEdit(picked, SETLIST, { type: 'insertSong', at: 1, song: SPONTANEOUS })
+    expect(lyricsOf(r)).toEqual(['a1', 'c1'])
+  })
+  it('no-op for an out-of-range position or an empty song', () => {
+    const s = liveAt(0, 0)
+    expect(applySetlistEdit(s, SETLIST, { type: 'insertSong', at: 9, song: SPONTANEOUS }).setlist).toBe(SETLIST)
+    expect(applySetlistEdit(s, SETLIST, { type: 'insertSong', at: 0, song: song('Empty') }).setlist).toBe(SETLIST)
+  })
+})
+
+describe('applySetlistEdit — removeSong', () => {
+  it('refuses to remove the live song', () => {
+    const s = liveAt(1, 0)
+    const r = applySetlistEdit(s, SETLIST, { type: 'removeSong', index: 1 })
+    expect(r.setlist).toBe(SETLIST)
+    expect(r.state).toBe(s)
+  })
+  it('removes an upcoming song and re-queues past it', () => {
+    const r = applySetlistEdit(liveAt(0, 2), SETLIST, { type: 'removeSong', index: 1 })
+    expect(r.setlist.songs.map(s => s.title)).toEqual(['A', 'C'])
+    expect(lyricsOf(r)).toEqual(['ac', 'c1'])
+  })
+  it('shifts the live song down when removing an earlier one', () => {
+    const r = applySetlistEdit(liveAt(2, 0), SETLIST, { type: 'removeSong', index: 0 })
+    expect(r.state.currentSong).toBe(1)
+    expect(lyricsOf(r)).toEqual(['c1', null])
+  })
+  it('falls back to the natural next slide when the queued song is removed', () => {
+    const picked = applySelection(liveAt(0, 0), 2, SETLIST) // queue song C
+    const r = applySetlistEdit(picked, SETLIST, { type: 'removeSong', index: 2 })
+    expect(lyricsOf(r)).toEqual(['a1', 'a2'])
+  })
+  it('in standby, falls back to the top when the queued song is removed', () => {
+    const s = applySelection(initialState(), 1, SETLIST)
+    const r = applySetlistEdit(s, SETLIST, { type: 'removeSong', index: 1 })
+    expect(r.state.queuedSong).toBe(0)
+    expect(r.state.queuedSlide).toBe(0)
+    expect(r.state.isLive).toBe(false)
+  })
+})
+
+describe('applySetlistEdit — moveSong', () => {
+  it('follows the live song to its new index', () => {
+    const r = applySetlistEdit(liveAt(0, 1), SETLIST, { type: 'moveSong', from: 0, to: 2 })
+    expect(r.setlist.songs.map(s => s.title)).toEqual(['B', 'C', 'A'])
+    expect(r.state.currentSong).toBe(2)
+    expect(r.state.currentSlide).toBe(1)
+    expect(lyricsOf(r)).toEqual(['a2', 'ac'])
+  })
+  it('re-queues to whatever now follows the live song', () => {
+    const r = applySetlistEdit(liveAt(0, 2), SETLIST, { type: 'moveSong', from: 2, to: 1 })
+    expect(r.setlist.songs.map(s => s.title)).toEqual(['A', 'C', 'B'])
+    expect(lyricsOf(r)).toEqual(['ac', 'c1'])
+  })
+  it('no-op for out-of-range or identical indices', () => {
+    expect(applySetlistEdit(liveAt(0, 0), SETLIST, { type: 'moveSong', from: 0, to: 3 }).setlist).toBe(SETLIST)
+    expect(applySetlistEdit(liveAt(0, 0), SETLIST, { type: 'moveSong', from: 1, to: 1 }).setlist).toBe(SETLIST)
+  })
+})
+
+describe('applySetlistEdit — repeatSection', () => {
+  it('repeats the chorus right after itself and queues the repeat', () => {
+    const r = applySetlistEdit(liveAt(0, 2), SETLIST, { type: 'repeatSection', song: 0, section: 1 })
+    expect(r.setlist.songs[0].slides.map(s => s.lyrics)).toEqual(['a1', 'a2', 'ac', 'ac'])
+    expect(r.state.currentSlide).toBe(2)
+    expect(r.state.queuedSong).toBe(0)
+    expect(r.state.queuedSlide).toBe(3)
+  })
+  it('shifts the live slide when the copy lands before it', () => {
+    // Copy the chorus after Verse 1 while the chorus itself is live.
+    const r = applySetlistEdit(liveAt(0, 2), SETLIST, { type: 'repeatSection', song: 0, section: 1, after: 0 })
+    expect(r.setlist.songs[0].slides.map(s => s.lyrics)).toEqual(['a1', 'a2', 'ac', 'ac'])
+    expect(r.state.currentSlide).toBe(3)
+    expect(lyricsOf(r)).toEqual(['ac', 'b1'])
+  })
+  it('duplicates a multi-slide section with its section markers', () => {
+    const r = applySetlistEdit(liveAt(0, 0), SETLIST, { type: 'repeatSection', song: 0, section: 0 })
+    const slides = r.setlist.songs[0].slides
+    expect(slides.map(s => s.lyrics)).toEqual(['a1', 'a2', 'a1', 'a2', 'ac'])
+    expect(slides[2].isSectionStart).toBe(true)
+    expect(lyricsOf(r)).toEqual(['a1', 'a2'])
+  })
+  it('does not touch other songs or the original setlist', () => {
+    const r = applySetlistEdit(liveAt(1, 0), SETLIST, { type: 'repeatSection', song: 0, section: 1 })
+    expect(r.state.currentSong).toBe(1)
+    expect(SETLIST.songs[0].slides).toHaveLength(3)
+  })
+  it('no-op for unknown sections', () => {
+    expect(applySetlistEdit(liveAt(0, 0), SETLIST, { type: 'repeatSection', song: 0, section: 2 }).setlist).toBe(SETLIST)
+    expect(applySetlistEdit(liveAt(0, 0), SETLIST, { type: 'repeatSection', song: 5, section: 0 }).setlist).toBe(SETLIST)
+  })
+})
+
+describe('applySetlistEdit — standby', () => {
+  it('keeps the queue on the same song after edits', () => {
+    const r = applySetlistEdit(initialState(), SETLIST, { type: 'insertSong', at: 0, song: SPONTANEOUS })
+    expect(r.state.queuedSong).toBe(1) // still pointing at song A
+    expect(r.state.currentSong).toBe(-1)
+    const g = applyGo(r.state, r.setlist)
+    expect(buildPayload(g, r.setlist).currentLyrics).toBe('a1')
+  })
+})
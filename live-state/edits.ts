@@ -0,0 +1,114 @@
+// Mid-service edits to the live setlist (spontaneous song, chorus repeat, reorder).
+// Every edit also remaps BridgeState so the projected slide stays live.
+
+import {
+  nextPos, sectionStarts,
+  type BridgeState, type LiveSetlist, type LiveSetlistItem, type LiveSetlistSong, type Pos,
+} from './state'
+
+export type SetlistEdit =
+  | { type: 'insertSong';    at: number; song: LiveSetlistSong }
+  | { type: 'removeSong';    index: number }
+  | { type: 'moveSong';      from: number; to: number }
+  // Copy section `section` of `song` and insert it after section `after` (default: right after itself).
+  | { type: 'repeatSection'; song: number; section: number; after?: number }
+
+export interface EditResult {
+  setlist: LiveSetlist
+  state:   BridgeState
+}
+
+// Old position → new position, or null if the edit deletes it.
+type PosMap = (pos: Pos) => Pos | null
+
+function sectionRange(song: LiveSetlistItem, section: number): [number, number] | null {
+  const starts = sectionStarts(song)
+  if (section < 0 || section >= starts.length) return null
+  return [starts[section], starts[section + 1] ?? song.slides.length]
+}
+
+// Apply the edit to the songs array and describe how positions move.
+function planEdit(setlist: LiveSetlist, edit: SetlistEdit): { songs: LiveSetlistItem[]; map: PosMap } | null {
+  const songs = setlist.songs
+  switch (edit.type) {
+    case 'insertSong': {
+      if (edit.at < 0 || edit.at > songs.length || edit.song.slides.length === 0) return null
+      return {
+        songs: [...songs.slice(0, edit.at), edit.song, ...songs.slice(edit.at)],
+        map: p => p.song >= edit.at ? { ...p, song: p.song + 1 } : p,
+      }
+    }
+    case 'removeSong': {
+      if (edit.index < 0 || edit.index >= songs.length) return null
+      return {
+        songs: songs.filter((_, i) => i !== edit.index),
+        map: p => p.song === edit.index ? null : p.song > edit.index ? { ...p, song: p.song - 1 } : p,
+      }
+    }
+    case 'moveSong': {
+      const { from, to } = edit
+      if (from < 0 || from >= songs.length || to < 0 || to >= songs.length || from === to) return null
+      const order = songs.map((_, i) => i)
+      order.splice(to, 0, ...order.splice(from, 1))
+      return {
+        songs: order.map(i => songs[i]),
+        map: p => ({ ...p, song: order.indexOf(p.song) }),
+      }
+    }
+    case 'repeatSection': {
+      const song = songs[edit.song]
+      if (!song) return null
+      const copy = sectionRange(song, edit.section)
+      const anchor = sectionRange(song, edit.after ?? edit.section)
+      if (!copy || !anchor) return null
+      const [start, end] = copy
+      const at = anchor[1]
+      const count = end - start
+      const slides = [...song.slides.slice(0, at), ...song.slides.slice(start, end), ...song.slides.slice(at)]
+      return {
+        songs: songs.map((s, i) => i === edit.song ? { ...s, slides } : s),
+        map: p => p.song === edit.song && p.slide >= at ? { ...p, slide: p.slide + count } : p,
+      }
+    }
+  }
+}
+
+const samePos = (a: Pos | null, b: Pos | null) =>
+  a === null || b === null ? a === b : a.song === b.song && a.slide === b.slide
+
+// Returns the inputs unchanged for out-of-range edits and for removing the song
+// that's live right now (cut away from it first).
+export function applySetlistEdit(state: BridgeState, setlist: LiveSetlist, edit: SetlistEdit): EditResult {
+  const plan = planEdit(setlist, edit)
+  if (!plan) return { setlist, state }
+  const next: LiveSetlist = { ...setlist, songs: plan.songs }
+
+  const queued: Pos | null = state.queuedSong >= 0 ? { song: state.queuedSong, slide: state.queuedSlide } : null
+
+  if (state.currentSong < 0) {
+    // Standby: keep an explicit queue pointing at the same slide; fall back to the top.
+    const q = queued ? plan.map(queued) : null
+    const fallback = next.songs.length ? { song: 0, slide: 0 } : null
+    const nq = q ?? fallback
+    return { setlist: next, state: { ...state, queuedSong: nq?.song ?? -1, queuedSlide: nq?.slide ?? -1 } }
+  }
+
+  const current = plan.map({ song: state.currentSong, slide: state.currentSlide })
+  if (!current) return { setlist, state }
+
+  // An auto-queued "next slide" follows the new order (so an inserted song plays
+  // next); a hand-picked queue follows its slide.
+  const wasNatural = samePos(queued, nextPos(state.currentSong, state.currentSlide, setlist))
+  const mapped = queued && !wasNatural ? plan.map(queued) : null
+  const nq = mapped ?? nextPos(current.song, current.slide, next)
+
+  return {
+    setlist: next,
+    state: {
+      ...state,
+      currentSong: current.song, currentSlide: current.slide,
+      queuedSong: nq ? nq.song : -1,
+      queuedSlide: nq ? nq.slide : -1,
+    },
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import { followSummary, followSong, stepFollowSize, FOLLOW_SIZES } from './follow'
+import { initialState, applyGo, applyBlackout, type LiveSetlist } from './state'
+
+const SETLIST: LiveSetlist = {
+  name: 'Sunday', pushedAt: 1,
+  songs: [
+    {
+      title: 'Grace', artist: 'Newton',
+      slides: [
+        { type: 'verse', label: 'Verse 1', lyrics: 'Amazing grace', secondary: 'Sublime gracia', chords: 'G C', isSectionStart: true, slideInSection: 0, sectionSlideCount: 1 },
+        { type: 'chorus', label: 'Chorus', lyrics: 'My chains are gone', chords: 'D', isSectionStart: true, slideInSection: 0, sectionSlideCount: 1 },
+      ],
+    },
+    { kind: 'scripture', title: 'Psalm 23', slides: [{ type: 'scripture', label: 'Psalm 23', lyrics: 'The Lord is my shepherd', chords: '', isSectionStart: true, slideInSection: 0, sectionSlideCount: 1 }] },
+  ],
+}
+
+describe('followSummary', () => {
+  it('is null without a session and standby before GO', () => {
+    expect(followSummary(null, SETLIST)).toBeNull()
+    expect(followSummary(initialState(), SETLIST)).toEqual({
+      setlistName: 'Sunday', isLive: false, isBlackout: false, song: -1, slide: -1, title: '', kind: null,
+    })
+  })
+  it('names the live item and carries blackout', () => {
+    const live = applyBlackout(applyGo(initialState(), SETLIST))
+    expect(followSummary(live, SETLIST)).toMatchObject({ isLive: true, isBlackout: true, song: 0, slide: 0, title: 'Grace', kind: 'song' })
+  })
+  it('treats a session pointing past the setlist as standby', () => {
+    expect(followSummary({ ...initialState(), isLive: true, currentSong: 5, currentSlide: 0 }, SETLIST))
+      .toMatchObject({ isLive: false, song: -1 })
+  })
+})
+
+describe('followSong', () => {
+  it('keeps just the text of one item', () => {
+    expect(followSong(SETLIST, 0)).toEqual({
+      index: 0, title: 'Grace', artist: 'Newton', kind: 'song',
+      slides: [
+        { label: 'Verse 1', lyrics: 'Amazing grace', secondary: 'Sublime gracia', isSectionStart: true },
+        { label: 'Chorus', lyrics: 'My chains are gone', secondary: '', isSectionStart: true },
+      ],
+    })
+    expect(followSong(SETLIST, 1)).toMatchObject({ kind: 'scripture', artist: '' })
+    expect(followSong(SETLIST, 2)).toBeNull()
+  })
+})
+
+describe('stepFollowSize', () => {
+  it('stays within the size steps', () => {
+    expect(stepFollowSize(0, -1)).toBe(0)
+    expect(stepFollowSize(FOLLOW_SIZES.length - 1, 1)).toBe(FOLLOW_SIZES.length - 1)
+    expect(stepFollowSize(1, 1)).toBe(2)
+  })
+})
@@ -0,0 +1,71 @@
+// Audience lyric follow-along (phones in the crowd). The page either derives
+// these from the full live documents, or, in low-bandwidth mode, subscribes to
+// them directly: a summary that changes every slide but stays a few bytes, and
+// the current item's text, which only changes with the item.
+
+import { itemKind, type BridgeState, type LiveItemKind, type LiveSetlist } from './state'
+
+export interface FollowSummary {
+  setlistName: string
+  isLive:      boolean
+  isBlackout:  boolean
+  song:        number  // live item index, -1 = standby
+  slide:       number
+  title:       string  // live item title, '' in standby
+  kind:        LiveItemKind | null
+}
+
+export interface FollowSlide {
+  label:     string
+  lyrics:    string
+  secondary: string
+  isSectionStart: boolean
+}
+
+export interface FollowSong {
+  index:  number
+  title:  string
+  artist: string
+  kind:   LiveItemKind
+  slides: FollowSlide[]
+}
+
+type Session = Pick<BridgeState, 'isLive' | 'isBlackout' | 'currentSong' | 'currentSlide'>
+
+// null = no service running.
+export function followSummary(session: Session | null, setlist: LiveSetlist | null): FollowSummary | null {
+  if (!session) return null
+  const item = session.isLive ? setlist?.songs[session.currentSong] : undefined
+  return {
+    setlistName: setlist?.name ?? '',
+    isLive:      !!item,
+    isBlackout:  session.isBlackout,
+    song:        item ? session.currentSong : -1,
+    slide:       item ? session.currentSlide : -1,
+    title:       item?.title ?? '',
+    kind:        item ? itemKind(item) : null,
+  }
+}
+
+// Just the text of one item: no chords, themes or slide bookkeeping.
+export function followSong(setlist: LiveSetlist | null, index: number): FollowSong | null {
+  const item = setlist?.songs[index]
+  if (!item) return null
+  return {
+    index,
+    title:  item.title,
+    artist: item.kind === undefined || item.kind === 'song' ? (item.artist ?? '') : '',
+    kind:   itemKind(item),
+    slides: item.slides.map(s => ({
+      label: s.label, lyrics: s.lyrics, secondary: s.secondary ?? '', isSectionStart: s.isSectionStart,
+    })),
+  }
+}
+
+// Reader text sizes, in rem; the page steps through these.
+export const FOLLOW_SIZES = [1, 1.15, 1.3, 1.5, 1.75, 2]
+export const DEFAULT_FOLLOW_SIZE = 1  // index into FOLLOW_SIZES
+
+export function stepFollowSize(index: number, delta: number): number {
+  return Math.min(FOLLOW_SIZES.length - 1, Math.max(0, index + delta))
+}
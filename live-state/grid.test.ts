@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest'
+import { slideGrid } from './grid'
+import { initialState, applyGo, applyCue, type LiveSetlist } from './state'
+import { DEFAULT_THEME } from './theme'
+import { slide } from './test-helpers'
+
+const DARK = { ...DEFAULT_THEME, name: 'Dark', fontSize: 5 }
+
+const SETLIST: LiveSetlist = {
+  name: 'Sunday', pushedAt: 1, theme: DARK,
+  songs: [
+    { title: 'Grace', slides: [slide('Verse 1', 'Amazing grace'), slide('Chorus', 'My chains are gone')] },
+    { kind: 'announcement', title: 'Picnic', imageUrl: 'https://x/p.png', theme: DEFAULT_THEME, slides: [slide('Picnic', 'Sunday noon')] },
+  ],
+}
+
+describe('slideGrid', () => {
+  it('lists every slide with its item theme in container units', () => {
+    const grid = slideGrid(initialState(), SETLIST)
+    expect(grid.items.map(i => [i.kind, i.theme.name, i.slides.length])).toEqual([
+      ['song', 'Dark', 2], ['announcement', DEFAULT_THEME.name, 1],
+    ])
+    expect(grid.items[0].themeVars['--theme-size']).toBe('5cqw')
+    expect(grid.items[1].imageUrl).toBe('https://x/p.png')
+    expect(grid.items[0].slides[1]).toEqual({ label: 'Chorus', lyrics: 'My chains are gone', secondary: '', isSectionStart: true })
+  })
+  it('marks program and preview', () => {
+    expect(slideGrid(initialState(), SETLIST)).toMatchObject({ program: null, preview: { song: 0, slide: 0 } })
+    const cued = applyCue(applyGo(initialState(), SETLIST), 1, 0, SETLIST)
+    expect(slideGrid(cued, SETLIST)).toMatchObject({ program: { song: 0, slide: 0 }, preview: { song: 1, slide: 0 } })
+    const end = applyGo(cued, SETLIST)
+    expect(slideGrid(end, SETLIST).preview).toBeNull()
+  })
+})
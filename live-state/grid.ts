@@ -0,0 +1,55 @@
+// The operator's slide grid: every slide of the running order as a themed
+// thumbnail, plus which one is on program (live) and which is in preview
+// (queued), like a video switcher.
+
+import { itemKind, type BridgeState, type LiveItemKind, type LiveSetlist, type Pos } from './state'
+import { resolveTheme, themeVars, type LiveTheme } from './theme'
+import type { LanguageLayout } from './languages'
+
+export interface GridSlide {
+  label:     string
+  lyrics:    string
+  secondary: string
+  isSectionStart: boolean
+}
+
+export interface GridItem {
+  title: string
+  kind:  LiveItemKind
+  theme: LiveTheme
+  themeVars: Record<string, string>  // sized in container units, for thumbnails of any size
+  imageUrl:  string | null
+  slides: GridSlide[]
+}
+
+export interface SlideGrid {
+  items:   GridItem[]
+  program: Pos | null  // null = standby
+  preview: Pos | null  // null = nothing queued
+  isBlackout:     boolean
+  languageLayout: LanguageLayout
+}
+
+export function slideGrid(state: BridgeState, setlist: LiveSetlist): SlideGrid {
+  const at = (song: number, slide: number): Pos | null =>
+    setlist.songs[song]?.slides[slide] ? { song, slide } : null
+  return {
+    items: setlist.songs.map((item, i) => {
+      const theme = resolveTheme(setlist, i)
+      return {
+        title: item.title,
+        kind:  itemKind(item),
+        theme,
+        themeVars: themeVars(theme, { x: 'cqw', y: 'cqh' }),
+        imageUrl: item.kind === 'announcement' ? (item.imageUrl ?? null) : null,
+        slides: item.slides.map(s => ({
+          label: s.label, lyrics: s.lyrics, secondary: s.secondary ?? '', isSectionStart: s.isSectionStart,
+        })),
+      }
+    }),
+    program: state.isLive ? at(state.currentSong, state.currentSlide) : null,
+    preview: at(state.queuedSong, state.queuedSlide),
+    isBlackout: state.isBlackout,
+    languageLayout: setlist.languageLayout ?? 'stacked',
+  }
+}
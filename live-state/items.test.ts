@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest'
+import { scriptureSlides, serviceItemToLive, buildRunningOrder, placeAmongKept, reanchorItems, movedOrder } from './items'
+import {
+  initialState, applyGo, applySelection, buildPayload, isSong, itemKind, type LiveSetlist, type LiveSetlistSong,
+} from './state'
+import { upcomingSongIndex } from './stage'
+import { slide } from './test-helpers'
+
+const song = (title: string, key = 'G'): LiveSetlistSong => ({ title, key, slides: [slide()] })
+
+describe('scriptureSlides', () => {
+  it('chunks by sentence and labels every slide with the reference', () => {
+    const text = 'In the beginning was the Word, and the Word was with God, and the Word was God. '
+      + 'He was in the beginning with God. All things were made through him.'
+    const slides = scriptureSlides('John 1:1-3', text, 20)
+    expect(slides.map(s => s.lyrics)).toEqual([
+      'In the beginning was the Word, and the Word was with God, and the Word was God.',
+      'He was in the beginning with God. All things were made through him.',
+    ])
+    expect(slides.every(s => s.label === 'John 1:1-3' && s.type === 'scripture')).toBe(true)
+    expect(slides[1]).toMatchObject({ isSectionStart: false, slideInSection: 1, sectionSlideCount: 2 })
+  })
+  it('always yields a slide', () => {
+    expect(scriptureSlides('Ps 23', '  ')).toHaveLength(1)
+  })
+})
+
+describe('serviceItemToLive', () => {
+  it('builds one slide for announcements and countdowns', () => {
+    expect(serviceItemToLive({ kind: 'announcement', title: 'Welcome', body: 'Coffee after!\n', imageUrl: 'https://x/y.png' }))
+      .toMatchObject({ kind: 'announcement', title: 'Welcome', imageUrl: 'https://x/y.png', slides: [{ lyrics: 'Coffee after!' }] })
+    const cd = serviceItemToLive({ kind: 'countdown', title: 'Starting soon', seconds: 300 })
+    expect(cd).toMatchObject({ kind: 'countdown', seconds: 300 })
+    expect(cd.slides).toHaveLength(1)
+  })
+})
+
+describe('buildRunningOrder', () => {
+  it('places items before their song, clamping out-of-range positions to the end', () => {
+    const order = buildRunningOrder([song('A'), song('B')], [
+      { kind: 'countdown', title: 'Soon', before: 0 },
+      { kind: 'scripture', reference: 'Ps 1', text: 'Blessed is the man.', before: 1 },
+      { kind: 'announcement', title: 'Bye', body: '', before: 9 },
+    ])
+    expect(order.map(i => `${itemKind(i)}:${i.title}`))
+      .toEqual(['countdown:Soon', 'song:A', 'scripture:Ps 1', 'song:B', 'announcement:Bye'])
+  })
+})
+
+describe('placeAmongKept', () => {
+  it('keeps items next to the songs around them when an earlier song is missing', () => {
+    // Entries A, (deleted), B, C; the reading sat before C
+    const items = placeAmongKept([
+      { kind: 'scripture', reference: 'Ps 1', text: 'Blessed.', before: 3 },
+      { kind: 'countdown', title: 'Soon', before: 0 },
+      { kind: 'announcement', title: 'Bye', body: '', before: 4 },
+    ], [true, false, true, true])
+    expect(items.map(i => i.before)).toEqual([2, 0, 3])
+    const order = buildRunningOrder([song('A'), song('B'), song('C')], items)
+    expect(order.map(i => i.title)).toEqual(['Soon', 'A', 'B', 'Ps 1', 'C', 'Bye'])
+  })
+})
+
+describe('reanchorItems', () => {
+  const items = [
+    { kind: 'countdown' as const, title: 'Soon', before: 0 },
+    { kind: 'scripture' as const, reference: 'Ps 1', text: 'Blessed.', before: 2 },
+    { kind: 'announcement' as const, title: 'Bye', body: '', before: 9 },
+  ]
+
+  it('shifts items up when a song above them is removed', () => {
+    // Songs A, B, C, D; B removed
+    expect(reanchorItems(items, [0, 2, 3], 4).map(i => i.before)).toEqual([0, 1, 3])
+  })
+  it('moves an item whose song was removed onto the next song', () => {
+    expect(reanchorItems(items, [0, 1, 3], 4).map(i => i.before)).toEqual([0, 2, 3])
+    expect(reanchorItems(items, [0, 1], 4).map(i => i.before)).toEqual([0, 2, 2])
+  })
+  it('follows the song an item sits before when songs are reordered', () => {
+    // C moves to the top: C, A, B, D
+    expect(movedOrder(4, 2, 0)).toEqual([2, 0, 1, 3])
+    expect(reanchorItems(items, movedOrder(4, 2, 0), 4).map(i => i.before)).toEqual([1, 0, 4])
+  })
+})
+
+describe('live items in the state machine', () => {
+  const SETLIST: LiveSetlist = {
+    name: 'Night', pushedAt: 1, startsAt: 50_000,
+    songs: buildRunningOrder([song('A', 'G'), song('B', 'D')], [
+      { kind: 'countdown', title: 'Soon', before: 0 },
+      { kind: 'announcement', title: 'Welcome', body: 'Hi', imageUrl: 'https://x/y.png', before: 1 },
+    ]),
+  }
+
+  it('labels buttons with every item title', () => {
+    expect(buildPayload(initialState(), SETLIST).buttonLabels.slice(0, 4)).toEqual(['Soon', 'A', 'Welcome', 'B'])
+  })
+  it('counts down to the service start, or from when the item went live', () => {
+    const live = applyGo(initialState(), SETLIST)
+    const p = buildPayload(live, SETLIST)
+    expect(p.currentKind).toBe('countdown')
+    expect(p.countdownTo).toBe(50_000)
+    const timed = { ...SETLIST, songs: [serviceItemToLive({ kind: 'countdown', title: 'Go', seconds: 60 })] }
+    expect(buildPayload(applyGo(initialState(), timed), timed, undefined, { songStartedAt: 1_000, message: '' }).countdownTo)
+      .toBe(61_000)
+  })
+  it('carries the announcement image and no song details', () => {
+    const s = applyGo(applySelection(initialState(), 2, SETLIST), SETLIST)
+    const p = buildPayload(s, SETLIST)
+    expect(p.currentKind).toBe('announcement')
+    expect(p.currentImageUrl).toBe('https://x/y.png')
+    expect(p.currentSongTitle).toBe('Welcome')
+    expect(p.currentKey).toBe('')
+    expect(p.countdownTo).toBeNull()
+  })
+  it('skips non-song items when looking for the next song', () => {
+    const onA = applyGo(applyGo(initialState(), SETLIST), SETLIST)
+    expect(upcomingSongIndex(onA, SETLIST)).toBe(3)
+    const p = buildPayload(onA, SETLIST)
+    expect(p.upcomingSongTitle).toBe('B')
+    expect(p.keyChange).toBe(true)
+    expect(isSong(SETLIST.songs[1])).toBe(true)
+    expect(isSong(SETLIST.songs[2])).toBe(false)
+  })
+})
@@ -0,0 +1,92 @@
+// Non-song service items (readings, announcements, countdowns) as stored on a
+// setlist, and how they become live setlist items with slides.
+
+import { chunkLineIndices } from './slides'
+import type { LiveSetlistItem, LiveSlide } from './state'
+
+export type ServiceItem =
+  | { kind: 'scripture';    reference: string; text: string; translation?: string }
+  | { kind: 'announcement'; title: string; body: string; imageUrl?: string; advanceSeconds?: number }
+  | { kind: 'countdown';    title: string; seconds?: number }   // no seconds = count to the service start
+
+// Where a service item sits in the running order: before song `before`
+// (songs.length = after the last song).
+export type PlacedServiceItem = ServiceItem & { before: number }
+
+// Readings read as prose, so they chunk by sentence with more words per slide than lyrics.
+export const SCRIPTURE_TARGET_WORDS = 24
+
+function single(type: string, label: string, lyrics: string): LiveSlide[] {
+  return [{ type, label, lyrics, chords: '', isSectionStart: true, slideInSection: 0, sectionSlideCount: 1 }]
+}
+
+export function scriptureSlides(reference: string, text: string, targetWords = SCRIPTURE_TARGET_WORDS): LiveSlide[] {
+  const sentences = text.replace(/\s+/g, ' ').trim().split(/(?<=[.;:!?”"])\s+/).filter(Boolean)
+  if (sentences.length === 0) return single('scripture', reference, '')
+  const groups = chunkLineIndices(sentences, undefined, targetWords)
+  return groups.map((group, i) => ({
+    type: 'scripture', label: reference,
+    lyrics: group.map(j => sentences[j]).join(' '),
+    chords: '',
+    isSectionStart: i === 0, slideInSection: i, sectionSlideCount: groups.length,
+  }))
+}
+
+export function serviceItemToLive(item: ServiceItem): LiveSetlistItem {
+  switch (item.kind) {
+    case 'scripture':
+      return {
+        kind: 'scripture', title: item.reference, translation: item.translation,
+        slides: scriptureSlides(item.reference, item.text),
+      }
+    case 'announcement':
+      return {
+        kind: 'announcement', title: item.title, imageUrl: item.imageUrl, advanceSeconds: item.advanceSeconds,
+        slides: single('announcement', item.title, item.body.trim()),
+      }
+    case 'countdown':
+      // The clock is drawn by the display; the slide itself carries no text.
+      return { kind: 'countdown', title: item.title, seconds: item.seconds, slides: single('countdown', item.title, '') }
+  }
+}
+
+// Merge built songs and placed service items into one running order. Items
+// placed before the same song keep their stored order.
+export function buildRunningOrder(songs: LiveSetlistItem[], items: PlacedServiceItem[] = []): LiveSetlistItem[] {
+  const out: LiveSetlistItem[] = []
+  for (let i = 0; i <= songs.length; i++) {
+    for (const item of items) {
+      if (Math.min(Math.max(item.before, 0), songs.length) === i) out.push(serviceItemToLive(item))
+    }
+    if (i < songs.length) out.push(songs[i])
+  }
+  return out
+}
+
+// Re-point placed items at the songs that were actually built. `kept[i]` says
+// whether the setlist's i-th song entry (in running order) made it; missing or
+// deleted songs are skipped when building, so without this every item after
+// one would land a slot early.
+export function placeAmongKept(items: PlacedServiceItem[] = [], kept: boolean[]): PlacedServiceItem[] {
+  return items.map(item => ({ ...item, before: kept.slice(0, Math.max(item.before, 0)).filter(Boolean).length }))
+}
+
+// Keep placed items with their song when the setlist's songs are removed or
+// reordered. `order` lists, for each song now in the setlist, the index it had
+// before. An item follows the song it sat before; one whose song was removed
+// moves to the next song still there, and one after the last song stays there.
+export function reanchorItems<T extends { before: number }>(items: T[], order: number[], oldCount: number): T[] {
+  return items.map(item => {
+    let next = -1
+    for (let old = Math.max(item.before, 0); old < oldCount && next < 0; old++) next = order.indexOf(old)
+    return { ...item, before: next < 0 ? order.length : next }
+  })
+}
+
+// The `order` for reanchorItems after moving one song from `from` to `to`.
+export function movedOrder(count: number, from: number, to: number): number[] {
+  const order = Array.from({ length: count }, (_, i) => i)
+  const [song] = order.splice(from, 1)
+  order.splice(to, 0, song)
+  return order
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { parseKey, formatKey, keyTonic, keyUsesFlats, keysInMode, keyChoices, diatonicChords } from './keys'
+
+describe('parseKey and formatKey', () => {
+  it.each([
+    ['E',            { tonic: 'E', mode: 'major' },      'E'],
+    ['Em',           { tonic: 'E', mode: 'minor' },      'Em'],
+    ['F#m',          { tonic: 'F#', mode: 'minor' },     'F#m'],
+    ['B♭ minor',     { tonic: 'Bb', mode: 'minor' },     'Bbm'],
+    ['D Dorian',     { tonic: 'D', mode: 'dorian' },     'D Dorian'],
+    ['G mixolydian', { tonic: 'G', mode: 'mixolydian' }, 'G Mixolydian'],
+    ['A aeolian',    { tonic: 'A', mode: 'minor' },      'Am'],
+  ] as const)('reads %s', (text, key, formatted) => {
+    expect(parseKey(text)).toEqual(key)
+    expect(formatKey(parseKey(text)!)).toBe(formatted)
+  })
+  it('rejects what is not a key', () => {
+    expect(parseKey('H')).toBeNull()
+    expect(parseKey('C blues')).toBeNull()
+    expect(keyTonic('')).toBe(-1)
+  })
+})
+
+describe('keyUsesFlats', () => {
+  it('follows the signature of the real tonic', () => {
+    expect(['F', 'Bb', 'Db', 'Dm', 'Gm', 'Cm', 'Fm', 'Bbm', 'Ebm', 'G Dorian', 'F Locrian'].filter(k => !keyUsesFlats(k))).toEqual([])
+    expect(['C', 'G', 'F#', 'Am', 'Em', 'Bm', 'F#m', 'C#m', 'G#m', 'D Dorian', 'A Mixolydian'].filter(keyUsesFlats)).toEqual([])
+  })
+})
+
+describe('key lists', () => {
+  it('spells each mode the usual way', () => {
+    expect(keysInMode('major')).toEqual(['C', 'Db', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'])
+    expect(keysInMode('minor')).toEqual(['Cm', 'C#m', 'Dm', 'Ebm', 'Em', 'Fm', 'F#m', 'Gm', 'G#m', 'Am', 'Bbm', 'Bm'])
+    expect(keyChoices('E Dorian')).toContain('C# Dorian')
+  })
+  it('builds the diatonic triads of the key', () => {
+    expect(diatonicChords('G')).toEqual(['G', 'Am', 'Bm', 'C', 'D', 'Em', 'F#dim'])
+    expect(diatonicChords('Em')).toEqual(['Em', 'F#dim', 'G', 'Am', 'Bm', 'C', 'D'])
+    expect(diatonicChords('Dm')).toEqual(['Dm', 'Edim', 'F', 'Gm', 'Am', 'Bb', 'C'])
+    expect(diatonicChords('D Mixolydian')).toEqual(['D', 'Em', 'F#dim', 'G', 'Am', 'Bm', 'C'])
+  })
+})
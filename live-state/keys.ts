@@ -0,0 +1,134 @@
+// Song and setlist keys: a tonic and a mode, written "E", "Em" or "D Dorian".
+// Chord spelling, Roman numerals and the chord picker's palette all follow the
+// key's own scale and signature instead of assuming major.
+
+import { pitchClass } from './chords'
+
+export type KeyMode = 'major' | 'minor' | 'dorian' | 'phrygian' | 'lydian' | 'mixolydian' | 'locrian'
+
+export interface MusicalKey {
+  tonic: string
+  mode:  KeyMode
+}
+
+export const KEY_MODES: { mode: KeyMode; name: string }[] = [
+  { mode: 'major',      name: 'Major' },
+  { mode: 'minor',      name: 'Minor' },
+  { mode: 'dorian',     name: 'Dorian' },
+  { mode: 'mixolydian', name: 'Mixolydian' },
+  { mode: 'lydian',     name: 'Lydian' },
+  { mode: 'phrygian',   name: 'Phrygian' },
+  { mode: 'locrian',    name: 'Locrian' },
+]
+
+// Semitones of each scale degree above the tonic.
+export const MODE_SCALES: Record<KeyMode, number[]> = {
+  major:      [0, 2, 4, 5, 7, 9, 11],
+  dorian:     [0, 2, 3, 5, 7, 9, 10],
+  phrygian:   [0, 1, 3, 5, 7, 8, 10],
+  lydian:     [0, 2, 4, 6, 7, 9, 11],
+  mixolydian: [0, 2, 4, 5, 7, 9, 10],
+  minor:      [0, 2, 3, 5, 7, 8, 10],
+  locrian:    [0, 1, 3, 5, 6, 8, 10],
+}
+
+// How far above the tonic its relative major sits; the key signature is that major's.
+const RELATIVE_MAJOR: Record<KeyMode, number> = {
+  major: 0, dorian: 10, phrygian: 8, lydian: 7, mixolydian: 5, minor: 3, locrian: 1,
+}
+
+const SHARP_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B']
+const FLAT_NAMES = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B']
+
+// Major keys whose signature has flats (by tonic pitch class): F Bb Eb Ab Db Gb.
+const FLAT_MAJORS = new Set([5, 10, 3, 8, 1, 6])
+
+const MODE_WORDS: Record<string, KeyMode> = {
+  '': 'major', maj: 'major', major: 'major', ionian: 'major',
+  m: 'minor', min: 'minor', minor: 'minor', aeolian: 'minor',
+  dorian: 'dorian', phrygian: 'phrygian', lydian: 'lydian', mixolydian: 'mixolydian', locrian: 'locrian',
+}
+
+export function parseKey(text: string): MusicalKey | null {
+  const m = text.trim().match(/^([A-G][#b♯♭]?)\s*([A-Za-z]*)$/)
+  if (!m) return null
+  const mode = MODE_WORDS[m[2].toLowerCase()]
+  return mode ? { tonic: m[1].replace('♯', '#').replace('♭', 'b'), mode } : null
+}
+
+export function formatKey({ tonic, mode }: MusicalKey): string {
+  if (mode === 'major') return tonic
+  if (mode === 'minor') return `${tonic}m`
+  return `${tonic} ${KEY_MODES.find(m => m.mode === mode)!.name}`
+}
+
+// Tonic pitch class, or -1 for an unreadable key.
+export function keyTonic(key: string): number {
+  const k = parseKey(key)
+  return k ? pitchClass(k.tonic) : -1
+}
+
+export function keyScale(key: string): number[] {
+  return MODE_SCALES[parseKey(key)?.mode ?? 'major']
+}
+
+// Sharps or flats, from the key signature: a written accidental on the tonic
+// decides (F#m is sharps, Bbm flats), otherwise the relative major's
+// signature does (Dm and G Dorian are flat keys, Em and A Mixolydian sharp).
+export function keyUsesFlats(key: string): boolean {
+  const k = parseKey(key)
+  if (!k) return false
+  if (k.tonic.length > 1) return k.tonic[1] === 'b'
+  return FLAT_MAJORS.has((pitchClass(k.tonic) + RELATIVE_MAJOR[k.mode]) % 12)
+}
+
+// The twelve note names from C, spelled with sharps or with flats.
+export function noteNames(flats: boolean): string[] {
+  return flats ? FLAT_NAMES : SHARP_NAMES
+}
+
+// Note names as the key spells them.
+export function keyNoteNames(key: string): string[] {
+  return noteNames(keyUsesFlats(key))
+}
+
+// The usual spelling of a tonic in a mode: whichever side has the simpler
+// signature, flats on a tie except for F# major (so Ebm, not D#m).
+function spellTonic(pc: number, mode: KeyMode): string {
+  const relative = (pc + RELATIVE_MAJOR[mode]) % 12
+  const flats = relative === 6 ? mode !== 'major' : FLAT_MAJORS.has(relative)
+  return (flats ? FLAT_NAMES : SHARP_NAMES)[pc]
+}
+
+// The twelve keys of one mode, from C.
+export function keysInMode(mode: KeyMode): string[] {
+  return SHARP_NAMES.map((_, pc) => formatKey({ tonic: spellTonic(pc, mode), mode }))
+}
+
+// The key `semitones` higher (lower when negative), spelled the usual way:
+// A shifted down 2 is G, Em shifted up 1 is Fm.
+export function shiftKey(key: string, semitones: number): string {
+  const k = parseKey(key)
+  if (!k || pitchClass(k.tonic) === -1) return key
+  const pc = (((pitchClass(k.tonic) + semitones) % 12) + 12) % 12
+  return formatKey({ tonic: spellTonic(pc, k.mode), mode: k.mode })
+}
+
+// Transposition targets for a song: every key in the same mode.
+export function keyChoices(songKey: string): string[] {
+  return keysInMode(parseKey(songKey)?.mode ?? 'major')
+}
+
+// Triads on each scale degree, spelled in the key: Em → Em F#dim G Am Bm C D.
+export function diatonicChords(key: string): string[] {
+  const tonic = keyTonic(key)
+  if (tonic === -1) return []
+  const scale = keyScale(key)
+  const names = keyNoteNames(key)
+  return scale.map((degree, i) => {
+    const third = (scale[(i + 2) % 7] - degree + 12) % 12
+    const fifth = (scale[(i + 4) % 7] - degree + 12) % 12
+    const quality = third === 4 ? (fifth === 8 ? 'aug' : '') : fifth === 6 ? 'dim' : 'm'
+    return names[(tonic + degree) % 12] + quality
+  })
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import {
+  sectionLanguageLines, availableLanguages, setSectionTranslation, languageName, ORIGINAL,
+} from './languages'
+import { initialState, applyGo, buildPayload, type LiveSetlist } from './state'
+
+const SECTION = {
+  lines: [{ lyrics: 'Amazing grace' }, { lyrics: 'How sweet the sound' }],
+  translations: [{ language: 'es', lines: [' Sublime gracia '] }],
+}
+
+describe('sectionLanguageLines', () => {
+  it('lines up translations with the original lines', () => {
+    expect(sectionLanguageLines(SECTION, 'es')).toEqual(['Sublime gracia', ''])
+    expect(sectionLanguageLines(SECTION, ORIGINAL)).toEqual(['Amazing grace', 'How sweet the sound'])
+    expect(sectionLanguageLines(SECTION)).toEqual(['Amazing grace', 'How sweet the sound'])
+  })
+  it('is null for a language the section lacks', () => {
+    expect(sectionLanguageLines(SECTION, 'pt')).toBeNull()
+  })
+})
+
+describe('availableLanguages', () => {
+  it('collects languages in first-seen order', () => {
+    expect(availableLanguages([
+      {}, { translations: [{ language: 'pt', lines: [] }] }, SECTION, { translations: [{ language: 'pt', lines: [] }] },
+    ])).toEqual(['pt', 'es'])
+  })
+})
+
+describe('setSectionTranslation', () => {
+  it('replaces in place, appends new languages and clears blank text', () => {
+    const two = setSectionTranslation(SECTION.translations, 'pt', 'Graça sublime\n')
+    expect(two).toEqual([...SECTION.translations, { language: 'pt', lines: ['Graça sublime', ''] }])
+    expect(setSectionTranslation(two, 'es', 'Gracia ')?.map(t => t.language)).toEqual(['es', 'pt'])
+    expect(setSectionTranslation(two, 'es', ' \n ')).toEqual([{ language: 'pt', lines: ['Graça sublime', ''] }])
+    expect(setSectionTranslation(SECTION.translations, 'es', '')).toBeUndefined()
+  })
+})
+
+describe('languageName', () => {
+  it('names known codes and shouts unknown ones', () => {
+    expect(languageName('es')).toBe('Español')
+    expect(languageName('sw')).toBe('SW')
+    expect(languageName(ORIGINAL)).toBe('Original')
+  })
+})
+
+describe('bilingual payload', () => {
+  it('carries the secondary lyrics and the setlist layout', () => {
+    const setlist: LiveSetlist = {
+      name: 'Noche', pushedAt: 1, languageLayout: 'sideBySide',
+      songs: [{ title: 'Grace', slides: [{
+        type: 'verse', label: 'Verse 1', lyrics: 'Amazing grace', secondary: 'Sublime gracia', chords: '',
+        isSectionStart: true, slideInSection: 0, sectionSlideCount: 1,
+      }] }],
+    }
+    const p = buildPayload(applyGo(initialState(), setlist), setlist)
+    expect(p).toMatchObject({ currentLyrics: 'Amazing grace', currentSecondary: 'Sublime gracia', languageLayout: 'sideBySide' })
+    expect(buildPayload(initialState(), { ...setlist, languageLayout: undefined })).toMatchObject({
+      currentSecondary: '', languageLayout: 'stacked',
+    })
+  })
+})
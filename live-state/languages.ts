@@ -0,0 +1,73 @@
+// Bilingual lyrics: per-section translation lines kept parallel to the original
+// lyric lines, and which languages a setlist projects.
+
+export interface SectionTranslation {
+  language: string   // short code, e.g. "es", "pt"
+  lines:    string[] // one per lyric line of the section, same order
+}
+
+export type LanguageLayout = 'stacked' | 'sideBySide'
+
+// What a setlist projects. An unset language means the song's own lyrics;
+// no secondary = single-language slides.
+export interface SlideLanguages {
+  primary?:   string
+  secondary?: string
+  layout?:    LanguageLayout
+}
+
+// Pseudo-code for "the lyrics as written" in pickers.
+export const ORIGINAL = ''
+
+const NAMES: Record<string, string> = {
+  en: 'English', es: 'Español', pt: 'Português', fr: 'Français', de: 'Deutsch',
+  it: 'Italiano', ko: '한국어', zh: '中文', ja: '日本語', tl: 'Tagalog', ht: 'Kreyòl',
+}
+
+export function languageName(code: string): string {
+  return code === ORIGINAL ? 'Original' : NAMES[code.toLowerCase()] ?? code.toUpperCase()
+}
+
+export function normalizeLanguage(code: string): string {
+  return code.trim().toLowerCase()
+}
+
+// A section's lines in `language`, one per original line. Missing translated
+// lines are ''. null when the section has no translation in that language.
+export function sectionLanguageLines(
+  section: { lines: { lyrics: string }[]; translations?: SectionTranslation[] },
+  language?: string,
+): string[] | null {
+  if (!language) return section.lines.map(l => l.lyrics)
+  const t = section.translations?.find(x => x.language === language)
+  if (!t) return null
+  return section.lines.map((_, i) => t.lines[i]?.trim() ?? '')
+}
+
+// Every translation language used in the given sections, in first-seen order.
+export function availableLanguages(sections: { translations?: SectionTranslation[] }[]): string[] {
+  const out: string[] = []
+  for (const s of sections) {
+    for (const t of s.translations ?? []) if (!out.includes(t.language)) out.push(t.language)
+  }
+  return out
+}
+
+// Set (or clear, with an all-blank text) one section's translation from a
+// textarea, one line per lyric line. Lines are kept as typed so editing stays
+// natural; slides trim them.
+export function setSectionTranslation(
+  translations: SectionTranslation[] | undefined,
+  language: string,
+  text: string,
+): SectionTranslation[] | undefined {
+  const lines = text.split('\n')
+  const list = translations ?? []
+  if (lines.every(l => !l.trim())) {
+    const rest = list.filter(t => t.language !== language)
+    return rest.length ? rest : undefined
+  }
+  return list.some(t => t.language === language)
+    ? list.map(t => (t.language === language ? { language, lines } : t))
+    : [...list, { language, lines }]
+}
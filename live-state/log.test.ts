@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import { logEntry, loggedEvent, summarizeSession, type SessionLogEntry } from './log'
+import { initialState, applyGo, applyBlackout, applyStandby, type LiveSetlist, type LiveSlide } from './state'
+
+function section(label: string, slides = 1): LiveSlide[] {
+  return Array.from({ length: slides }, (_, i) => ({
+    type: 'verse', label, lyrics: `${label} ${i}`, chords: '',
+    isSectionStart: i === 0, slideInSection: i, sectionSlideCount: slides,
+  }))
+}
+
+const SETLIST: LiveSetlist = {
+  name: 'Sun', pushedAt: 1,
+  songs: [
+    { title: 'A', ccli: '111', slides: [...section('Verse 1', 2), ...section('Chorus')] },
+    { title: 'B', slides: section('Verse 1') },
+  ],
+}
+
+// Entry shorthand for summary tests: [at, song, section, slide, sectionStart?]
+function e(at: number, song: number, sectionLabel = '', slide = 0, sectionStart = true): SessionLogEntry {
+  const live = song >= 0
+  return {
+    at, event: live ? 'go' : 'standby', song, slide: live ? slide : -1,
+    songTitle: live ? ['A', 'B', 'C'][song] : '', section: sectionLabel, sectionStart,
+    isLive: live, isBlackout: false,
+  }
+}
+
+describe('logEntry', () => {
+  it('snapshots the live slide', () => {
+    const s = applyGo(initialState(), SETLIST)
+    expect(logEntry('go', s, SETLIST, 42)).toEqual({
+      at: 42, event: 'go', song: 0, slide: 0, songTitle: 'A', ccli: '111',
+      section: 'Verse 1', sectionStart: true, isLive: true, isBlackout: false,
+    })
+  })
+  it('records standby and blackout', () => {
+    const live = applyGo(initialState(), SETLIST)
+    expect(logEntry('blackout', applyBlackout(live), SETLIST, 1).isBlackout).toBe(true)
+    expect(logEntry('standby', applyStandby(live), SETLIST, 2)).toMatchObject({ song: -1, isLive: false, songTitle: '' })
+  })
+})
+
+describe('loggedEvent', () => {
+  it('skips mode toggles', () => {
+    expect(loggedEvent({ type: 'mode' })).toBeNull()
+    expect(loggedEvent({ type: 'selection', index: 2 })).toBe('selection')
+  })
+})
+
+describe('summarizeSession', () => {
+  it('orders songs as played with their durations and the total run time', () => {
+    const r = summarizeSession([
+      { ...e(1_000, 0, 'Verse 1'), ccli: '111' },
+      e(5_000, 0, 'Verse 1', 1, false),
+      e(10_000, 0, 'Chorus', 2),
+      e(70_000, 1, 'Verse 1'),
+      e(100_000, -1),
+    ], ['A', 'B'])!
+    expect(r.songs.map(s => [s.title, s.durationMs])).toEqual([['A', 69_000], ['B', 30_000]])
+    expect(r.songs[0].ccli).toBe('111')
+    expect(r.totalMs).toBe(99_000)
+    expect(r.skipped).toEqual([])
+  })
+  it('reports skipped songs and repeated sections', () => {
+    const r = summarizeSession([
+      e(0, 0, 'Verse 1'),
+      e(10, 0, 'Chorus', 2),
+      e(20, 0, 'Verse 1'),
+      e(30, 0, 'Chorus', 2),
+      e(35, 0, 'Chorus', 3),   // a repeated chorus straight after the first
+      e(40, -1),
+    ], ['A', 'B', 'C'])!
+    expect(r.songs[0].sections).toEqual([{ label: 'Verse 1', visits: 2 }, { label: 'Chorus', visits: 3 }])
+    expect(r.songs[0].repeated).toEqual(['Verse 1', 'Chorus'])
+    expect(r.skipped).toEqual(['B', 'C'])
+  })
+  it('does not count a selection or blackout as entering a section again', () => {
+    const r = summarizeSession([
+      e(0, 0, 'Verse 1'),
+      { ...e(5, 0, 'Verse 1'), event: 'selection' },
+      { ...e(6, 0, 'Verse 1'), event: 'blackout', isBlackout: true },
+    ])!
+    expect(r.songs[0].sections).toEqual([{ label: 'Verse 1', visits: 1 }])
+    expect(r.endedAt).toBe(6)
+  })
+  it('starts a new play when a song comes back after standby', () => {
+    const r = summarizeSession([e(0, 0, 'Verse 1'), e(10, -1), e(20, 0, 'Verse 1'), e(25, 1, 'Verse 1')])!
+    expect(r.songs.map(s => [s.title, s.durationMs])).toEqual([['A', 10], ['A', 5], ['B', 0]])
+  })
+  it('is null when nothing went live', () => {
+    expect(summarizeSession([e(0, -1)])).toBeNull()
+    expect(summarizeSession([])).toBeNull()
+  })
+})
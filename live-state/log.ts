@@ -0,0 +1,111 @@
+// Service history: one entry per operator action, and the post-service report
+// (song order, durations, skips, repeats) rebuilt from those entries.
+
+import { isSong, type BridgeState, type ButtonEvent, type LiveSetlist } from './state'
+
+export type LogEvent = 'go' | 'back' | 'selection' | 'jump' | 'blackout' | 'standby'
+
+// What the projector showed after the action, with enough song detail for
+// CCLI usage reports even if the song is later edited or deleted.
+export interface SessionLogEntry {
+  at:           number   // ms epoch
+  event:        LogEvent
+  song:         number   // live song index, -1 = standby
+  slide:        number
+  songTitle:    string
+  ccli?:        string
+  section:      string   // section label of the live slide
+  sectionStart: boolean  // live slide opens its section
+  isLive:       boolean
+  isBlackout:   boolean
+}
+
+// Mode toggles only change what the buttons select, so they aren't logged.
+export function loggedEvent(event: ButtonEvent): LogEvent | null {
+  return event.type === 'mode' ? null : event.type
+}
+
+export function logEntry(event: LogEvent, state: BridgeState, setlist: LiveSetlist, now: number): SessionLogEntry {
+  const song  = state.isLive ? setlist.songs[state.currentSong] : undefined
+  const slide = song?.slides[state.currentSlide]
+  // Readings and announcements are logged too (for run time) but never carry a CCLI number.
+  return {
+    at: now, event,
+    song:         song ? state.currentSong : -1,
+    slide:        slide ? state.currentSlide : -1,
+    songTitle:    song?.title ?? '',
+    ccli:         isSong(song) ? song.ccli : undefined,
+    section:      slide?.label ?? '',
+    sectionStart: slide?.isSectionStart ?? false,
+    isLive:       !!song,
+    isBlackout:   state.isBlackout,
+  }
+}
+
+export interface SongPlay {
+  title:      string
+  ccli?:      string
+  startedAt:  number
+  durationMs: number
+  sections:   { label: string; visits: number }[]  // in first-played order
+  repeated:   string[]                             // sections sung more than once
+}
+
+export interface SessionReport {
+  startedAt: number
+  endedAt:   number
+  totalMs:   number
+  songs:     SongPlay[]  // in the order they were actually played
+  skipped:   string[]    // planned titles that never went live
+}
+
+// Rebuild what happened from a run's log. A song's time runs until the next
+// song goes up or the service goes to standby; a run that never reached
+// standby ends at its last entry. Returns null if nothing ever went live.
+export function summarizeSession(entries: SessionLogEntry[], planned: string[] = []): SessionReport | null {
+  const sorted = [...entries].sort((a, b) => a.at - b.at)
+  const songs: SongPlay[] = []
+  let play: SongPlay | null = null
+  let prev: SessionLogEntry | null = null
+  let startedAt: number | null = null
+  let endedAt = 0
+
+  const close = (at: number) => {
+    if (play) play.durationMs = at - play.startedAt
+    play = null
+  }
+
+  for (const e of sorted) {
+    endedAt = e.at
+    if (!e.isLive) {
+      close(e.at)
+      prev = e
+      continue
+    }
+    startedAt ??= e.at
+    if (!play || prev?.song !== e.song || !prev.isLive) {
+      close(e.at)
+      play = { title: e.songTitle, ccli: e.ccli, startedAt: e.at, durationMs: 0, sections: [], repeated: [] }
+      songs.push(play)
+    }
+    const entered = !prev || !prev.isLive || prev.song !== e.song || prev.section !== e.section
+      || (e.sectionStart && prev.slide !== e.slide)
+    if (entered && e.section) {
+      const seen = play.sections.find(s => s.label === e.section)
+      if (seen) seen.visits++
+      else play.sections.push({ label: e.section, visits: 1 })
+    }
+    prev = e
+  }
+  if (startedAt === null) return null
+  close(endedAt)
+
+  for (const s of songs) s.repeated = s.sections.filter(x => x.visits > 1).map(x => x.label)
+  const played = new Set(songs.map(s => s.title))
+  return {
+    startedAt, endedAt,
+    totalMs: endedAt - startedAt,
+    songs,
+    skipped: planned.filter(t => !played.has(t)),
+  }
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest'
+import { chordToNumber, numberToChord, scaleDegree, markNumber, numberChart, barText, type ChartSource } from './numbers'
+import { diatonicChords } from './keys'
+import { parseTimeSignature } from './rehearsal'
+
+// key, chord as the key spells it, number
+const CORPUS: [string, string, string][] = [
+  ['C',  'C',        '1'],
+  ['C',  'F',        '4'],
+  ['C',  'G/B',      '5/7'],
+  ['C',  'Dm7',      '2m7'],
+  ['C',  'Am',       '6m'],
+  ['C',  'Bdim',     '7°'],
+  ['C',  'Bø7',      '7ø7'],
+  ['C',  'Bb',       'b7'],
+  ['C',  'Ab/C',     'b6/1'],
+  ['C',  'Eb',       'b3'],
+  ['C',  'E7#9',     '37#9'],
+  ['C',  'Csus4',    '1sus4'],
+  ['C',  'Cmaj7',    '1maj7'],
+  ['C',  'C6/9',     '16/9'],
+  ['C',  'Gaug',     '5+'],
+  ['C',  'G5',       '55'],
+  ['C',  'AmMaj7',   '6mMaj7'],
+  ['C',  'F/G',      '4/5'],
+  ['C',  'C/Bb',     '1/b7'],
+  ['G',  'D/F#',     '5/7'],
+  ['G',  'Em7',      '6m7'],
+  ['G',  'F',        'b7'],
+  ['G',  'Cadd9',    '4add9'],
+  ['D',  'Bb',       'b6'],
+  ['Eb', 'Ab',       '4'],
+  ['Eb', 'Cm7',      '6m7'],
+  ['Eb', 'Bb/D',     '5/7'],
+  ['F#', 'D#m',      '6m'],
+  ['F#', 'C#7',      '57'],
+  ['Em', 'Em',       '1m'],
+  ['Em', 'G',        '3'],
+  ['Em', 'D',        '7'],
+  ['Em', 'C',        '6'],
+  ['Em', 'B7',       '57'],
+  ['Em', 'F#ø7',     '2ø7'],
+  ['Dm', 'Bb',       '6'],
+  ['Dm', 'C#dim',    '#7°'],
+  ['D Dorian', 'G',  '4'],
+  ['D Dorian', 'C',  '7'],
+  ['A Mixolydian', 'G', '7'],
+]
+
+describe('chordToNumber and numberToChord', () => {
+  it.each(CORPUS)('in %s, %s is %s', (key, chord, number) => {
+    expect(chordToNumber(chord, key)).toBe(number)
+    expect(numberToChord(number, key)).toBe(chord)
+  })
+
+  it.each(['C', 'G', 'Bb', 'F#', 'Am', 'Ebm', 'D Dorian', 'E Phrygian', 'F Lydian', 'G Mixolydian', 'B Locrian'])(
+    'round-trips the diatonic chords of %s', key => {
+      const chords = diatonicChords(key)
+      const numbers = chords.map(c => chordToNumber(c, key)!)
+      expect(numbers.map(n => n.replace(/\D+$/, ''))).toEqual(['1', '2', '3', '4', '5', '6', '7'])
+      expect(numbers.map(n => numberToChord(n, key))).toEqual(chords)
+    })
+
+  it('reads numbers written the Roman way round', () => {
+    expect(numberToChord('2-7', 'C')).toBe('D-7')
+    expect(numberToChord('7°7', 'C')).toBe('Bdim7')
+    expect(numberToChord('b7/1', 'G')).toBe('F/G')
+  })
+
+  it('leaves what is not a chord or not a number', () => {
+    expect(chordToNumber('Chorus', 'C')).toBeNull()
+    expect(chordToNumber('C', 'H')).toBeNull()
+    expect(numberToChord('8', 'C')).toBeNull()
+    expect(numberToChord('1x', 'C')).toBeNull()
+    expect(numberToChord('1', 'blues')).toBeNull()
+  })
+})
+
+describe('scaleDegree', () => {
+  it('flattens the degree above, except the tonic', () => {
+    expect(scaleDegree('F#', 'C')).toEqual({ degree: 5, accidental: 'b' })
+    expect(scaleDegree('C#', 'Dm')).toEqual({ degree: 7, accidental: '#' })
+    expect(scaleDegree('A', 'Am')).toEqual({ degree: 1, accidental: '' })
+  })
+})
+
+const line = (lyrics: string, ...chords: [string, number, number?, ('diamond' | 'push')?][]) =>
+  ({ lyrics, chords: chords.map(([chord, position, beats, mark]) => ({ chord, position, beats, mark })) })
+
+describe('numberChart', () => {
+  const sections: ChartSource[] = [
+    { label: 'Verse', lines: [
+      line('Amazing grace how sweet', ['G', 0], ['C', 8, 2], ['G', 12, 2]),
+      line('the sound', ['D', 0, 6]),
+      line('that saved'),
+      line('a wretch', ['Em', 0, 2], ['C', 5, 1, 'push'], ['D', 7, 1]),
+    ] },
+    { label: 'Tag', lines: [line('', ['C', 0, undefined, 'diamond'])] },
+  ]
+  const chart = numberChart(sections, 'G', parseTimeSignature('4/4'))
+  const text = chart.map(s => ({ label: s.label, rows: s.rows.map(r => r.map(b => barText(b, 4))) }))
+
+  it('lays the song out in bars, four to a row', () => {
+    expect(text).toEqual([
+      { label: 'Verse', rows: [['1', '4 1', '5', '5'], ['5 6m', '^4. 5.']] },
+      { label: 'Tag', rows: [['<4>']] },
+    ])
+  })
+
+  it('keeps where each chord came from, for following playback', () => {
+    const [first, second] = chart[0].rows[0]
+    expect(first.chords).toEqual([{ text: '1', beats: 4, line: 0, chord: 0 }])
+    expect(second.chords.map(c => c.chord)).toEqual([1, 2])
+    expect(chart[0].rows[0][3].chords).toEqual([{ text: '5', beats: 4, line: 1, chord: 0 }])
+    expect(chart[0].rows[1][0].chords.map(c => [c.line, c.chord])).toEqual([[2, -1], [3, 0]])
+  })
+
+  it('dots the beats of a short bar', () => {
+    const short = numberChart([{ label: 'Intro', lines: [line('', ['C', 0, 6])] }], 'C', parseTimeSignature('4/4'))
+    expect(short[0].rows[0].map(b => barText(b, 4))).toEqual(['1', '1..'])
+  })
+})
+
+describe('markNumber', () => {
+  it('writes diamonds and pushes', () => {
+    expect(markNumber('4', 'diamond')).toBe('<4>')
+    expect(markNumber('5/7', 'push')).toBe('^5/7')
+    expect(markNumber('1')).toBe('1')
+  })
+})
@@ -0,0 +1,153 @@
+// Nashville Number System: chords written as degrees of the key's scale
+// (1, 4, 5/7, 2m, b7), and charts written as rows of bars, one number per bar
+// and split bars for more. Numbers follow the key's own scale like the Roman
+// numerals do, so in Em the G is a 3 and the D a 7.
+
+import { parseChord, isChord, pitchClass, chordTail, type ChordQuality } from './chords'
+import { keyScale, keyTonic, keyNoteNames, noteNames } from './keys'
+import { rehearsalTimeline, type RehearsalSection, type TimeSignature } from './rehearsal'
+
+export interface ScaleDegree {
+  degree:     number  // 1–7
+  accidental: '' | 'b' | '#'
+}
+
+// Where a note sits in the key: on the scale, or the degree above it
+// flattened. Never a flat 1, though: a minor key's leading tone is a #7.
+export function scaleDegree(note: string, key: string): ScaleDegree | null {
+  const tonic = keyTonic(key)
+  const pc = pitchClass(note)
+  if (tonic === -1 || pc === -1) return null
+  const scale = keyScale(key)
+  const interval = (pc - tonic + 12) % 12
+  if (scale.includes(interval)) return { degree: scale.indexOf(interval) + 1, accidental: '' }
+  const above = scale.indexOf((interval + 1) % 12)
+  if (above > 0) return { degree: above + 1, accidental: 'b' }
+  const below = scale.indexOf((interval + 11) % 12)
+  return below !== -1 ? { degree: below + 1, accidental: '#' } : null
+}
+
+// The note on a degree, spelled as the key spells it; a flattened degree is
+// spelled with flats and a sharpened one with sharps (b6 in D is Bb, not A#).
+function degreeNote({ degree, accidental }: ScaleDegree, key: string): string {
+  const pc = keyTonic(key) + keyScale(key)[degree - 1] + (accidental === '#' ? 1 : accidental === 'b' ? 11 : 0)
+  const names = accidental ? noteNames(accidental === 'b') : keyNoteNames(key)
+  return names[pc % 12]
+}
+
+const spellDegree = ({ degree, accidental }: ScaleDegree) => accidental + degree
+
+// Quality marks after the number; unlike Roman numerals, minor needs its own.
+const QUALITY_MARKS: Record<ChordQuality, string> = {
+  major: '', minor: 'm', diminished: '°', halfDiminished: 'ø', augmented: '+', power: '5',
+}
+
+// "Bm7" in G → "3m7", "D/F#" in G → "5/7". Null for anything that isn't a chord.
+export function chordToNumber(chord: string, key: string): string | null {
+  const parsed = parseChord(chord)
+  const root = parsed && scaleDegree(parsed.root, key)
+  if (!parsed || !root) return null
+  const tail = chordTail(parsed)
+  const body = parsed.quality === 'minor' && tail.startsWith('maj') ? `mM${tail.slice(1)}` : QUALITY_MARKS[parsed.quality] + tail
+  const bass = parsed.bass ? scaleDegree(parsed.bass, key) : null
+  return spellDegree(root) + body + (bass ? `/${spellDegree(bass)}` : '')
+}
+
+const NUMBER = /^([#b]?)([1-7])(.*?)(?:\/([#b]?)([1-7]))?$/
+
+// "5/7" in G → "D/F#". Null when the number doesn't make a chord.
+export function numberToChord(number: string, key: string): string | null {
+  const m = number.trim().match(NUMBER)
+  if (!m || keyTonic(key) === -1) return null
+  const [, accidental, degree, rest, bassAccidental, bassDegree] = m
+  const note = (a: string, d: string) => degreeNote({ degree: Number(d), accidental: a as ScaleDegree['accidental'] }, key)
+  const chord = note(accidental, degree)
+    + rest.replace(/^°/, 'dim').replace(/^\+/, 'aug')
+    + (bassDegree ? `/${note(bassAccidental, bassDegree)}` : '')
+  return isChord(chord) ? chord : null
+}
+
+// Rhythm marks on a chord: a diamond lets it ring for the bar, a push hits it
+// ahead of the beat. Typed on charts as <4> and ^4.
+export type RhythmMark = 'diamond' | 'push'
+
+export function markNumber(number: string, mark?: RhythmMark): string {
+  if (mark === 'diamond') return `<${number}>`
+  if (mark === 'push') return `^${number}`
+  return number
+}
+
+export interface ChartChord {
+  text:  string  // the number with its rhythm mark
+  beats: number  // how much of the bar it takes
+  line:  number
+  chord: number  // index into the line's chords; -1 for a bar riding the previous chord
+}
+
+// One bar; more than one chord makes it a split bar.
+export interface ChartBar {
+  chords: ChartChord[]
+}
+
+export interface ChartSection {
+  label: string
+  rows:  ChartBar[][]
+}
+
+export interface ChartSource extends RehearsalSection {
+  label: string
+  lines: { lyrics: string; chords: { chord: string; position: number; beats?: number; mark?: RhythmMark }[] }[]
+}
+
+export const BARS_PER_ROW = 4
+
+// The song as a number chart: each section a few rows of bars, with chords
+// laid out in time the way rehearsal playback plays them. A chord longer than
+// a bar repeats its number in the next; each section starts on a fresh bar.
+export function numberChart(sections: ChartSource[], key: string, signature: TimeSignature): ChartSection[] {
+  const { steps, beatsPerBar: bar } = rehearsalTimeline(sections, signature)
+  let previous = '-'
+  return sections.map((section, s) => {
+    const bars: ChartBar[] = []
+    let current: ChartChord[] = []
+    let filled = 0
+    for (const step of steps.filter(st => st.section === s)) {
+      const source = step.chord === -1 ? null : section.lines[step.line].chords[step.chord]
+      const number = step.symbol ? chordToNumber(step.symbol, key) ?? step.symbol : previous
+      let text = source ? markNumber(number, source.mark) : number
+      let remaining = step.beats
+      while (remaining > 0) {
+        const beats = Math.min(remaining, bar - filled)
+        const last = current[current.length - 1]
+        // A held bar that starts mid-bar just lengthens the chord before it
+        if (step.chord === -1 && last) last.beats += beats
+        else current.push({ text, beats, line: step.line, chord: step.chord })
+        filled += beats
+        remaining -= beats
+        if (filled === bar) {
+          bars.push({ chords: current })
+          current = []
+          filled = 0
+          text = number  // the mark belongs to the first hit only
+        }
+      }
+      previous = number
+    }
+    if (current.length) bars.push({ chords: current })
+    const rows: ChartBar[][] = []
+    for (let i = 0; i < bars.length; i += BARS_PER_ROW) rows.push(bars.slice(i, i + BARS_PER_ROW))
+    return { label: section.label, rows }
+  })
+}
+
+// Each chord of a bar as written: an evenly split bar is just its numbers
+// ("1 4"); an uneven split, or a short bar, dots each chord's beats ("1... 4.").
+export function barChords(bar: ChartBar, beatsPerBar: number): string[] {
+  const { chords } = bar
+  const even = chords.every(c => c.beats === chords[0].beats) && chords[0].beats * chords.length === beatsPerBar
+  return chords.map(c => even ? c.text : c.text + '.'.repeat(c.beats))
+}
+
+export function barText(bar: ChartBar, beatsPerBar: number): string {
+  return barChords(bar, beatsPerBar).join(' ')
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import {
+  queueEdit, dropEdit, markConflict, rebaseEdit, withPendingEdits, sectionText, editSectionText, matchLines, conflict, isConflictData,
+  type PendingEdit, type RawSection,
+} from './offline'
+
+const VERSE: RawSection = {
+  type: 'verse', label: 'Verse 1',
+  lines: [
+    { lyrics: 'Amazing grace', chords: [{ chord: 'G', position: 0 }] },
+    { lyrics: 'How sweet the sond', chords: [{ chord: 'C', position: 14 }] },
+    { lyrics: 'That saved a wretch', chords: [] },
+  ],
+  slideBreaks: [2],
+}
+
+const SONG_EDIT: PendingEdit = { kind: 'song', id: 's1', title: 'Grace', baseUpdatedAt: 100, sections: [VERSE] }
+const KEY_EDIT: PendingEdit = { kind: 'setlist', id: 'l1', title: 'Sunday', baseUpdatedAt: 50, keys: { s1: 'A' } }
+
+describe('queueEdit', () => {
+  it('folds a second edit to the same document into the first, keeping its base', () => {
+    const q = queueEdit([SONG_EDIT, KEY_EDIT], { ...SONG_EDIT, baseUpdatedAt: 300, sections: [] })
+    expect(q).toHaveLength(2)
+    expect(q[0]).toMatchObject({ baseUpdatedAt: 100, sections: [] })
+  })
+  it('merges setlist key changes', () => {
+    const q = queueEdit([KEY_EDIT], { ...KEY_EDIT, keys: { s2: null } })
+    expect(q).toEqual([{ ...KEY_EDIT, keys: { s1: 'A', s2: null } }])
+  })
+})
+
+describe('conflicts', () => {
+  it('marks, rebases and drops by document', () => {
+    const marked = markConflict([SONG_EDIT, KEY_EDIT], 'song', 's1')
+    expect(marked[0].conflict).toBe(true)
+    expect(marked[1].conflict).toBeUndefined()
+    expect(rebaseEdit(marked, 'song', 's1', 900)[0]).toMatchObject({ baseUpdatedAt: 900, conflict: undefined })
+    expect(dropEdit(marked, 'song', 's1')).toEqual([KEY_EDIT])
+  })
+  it('recognises the server refusing a stale write', () => {
+    expect(isConflictData(conflict('song was changed elsewhere'))).toBe(true)
+    expect(isConflictData({ kind: 'other' })).toBe(false)
+    expect(isConflictData('Server Error')).toBe(false)
+  })
+})
+
+describe('withPendingEdits', () => {
+  it('lays queued edits over the cached documents', () => {
+    const setlists = [{ _id: 'l1', songs: [{ songId: 's1', order: 0 }, { songId: 's2', transposedKey: 'D', order: 1 }] }]
+    const songs = [{ _id: 's1', title: 'Grace', sections: [] as RawSection[] }, { _id: 's2', title: 'Other', sections: [] }]
+    const edits = queueEdit([SONG_EDIT], { ...KEY_EDIT, keys: { s1: 'A', s2: null } })
+    const out = withPendingEdits(setlists, songs, edits)
+    expect(out.setlists[0].songs).toEqual([
+      { songId: 's1', transposedKey: 'A', order: 0 },
+      { songId: 's2', transposedKey: undefined, order: 1 },
+    ])
+    expect(out.songs[0]).toEqual({ _id: 's1', title: 'Grace', sections: [VERSE] })
+    expect(out.songs[1]).toBe(songs[1])
+  })
+})
+
+describe('section text', () => {
+  it('shows manual slide breaks as blank lines', () => {
+    expect(sectionText(VERSE)).toBe('Amazing grace\nHow sweet the sond\n\nThat saved a wretch')
+  })
+  it('reads a typo fix back, keeping chords and breaks', () => {
+    const fixed = editSectionText(VERSE, 'Amazing grace\nHow sweet the sound\n\nThat saved a wretch')
+    expect(fixed.lines[1]).toEqual({ lyrics: 'How sweet the sound', chords: [{ chord: 'C', position: 14 }] })
+    expect(fixed.slideBreaks).toEqual([2])
+  })
+  it('moves breaks and clamps chords on shortened lines', () => {
+    const out = editSectionText(VERSE, '\nAmazing grace\n\n\nHow sweet\nThat saved a wretch\n')
+    expect(out.slideBreaks).toEqual([1])
+    expect(out.lines[1].chords).toEqual([{ chord: 'C', position: 9 }])
+    expect(editSectionText(VERSE, 'Amazing grace\nHow sweet').slideBreaks).toBeUndefined()
+  })
+
+  const TRANSLATED: RawSection = {
+    ...VERSE,
+    slideBreaks: undefined,
+    translations: [{ language: 'es', lines: ['Sublime gracia', 'Qué dulce es', 'Que salvó a un pecador'] }],
+  }
+
+  it('keeps chords and translations with their lines when one is inserted mid-section', () => {
+    const out = editSectionText(TRANSLATED, 'Amazing grace\nNew line\nHow sweet the sond\nThat saved a wretch')
+    expect(out.lines.map(l => l.chords)).toEqual([
+      [{ chord: 'G', position: 0 }], [], [{ chord: 'C', position: 14 }], [],
+    ])
+    expect(out.translations).toEqual([
+      { language: 'es', lines: ['Sublime gracia', '', 'Qué dulce es', 'Que salvó a un pecador'] },
+    ])
+  })
+  it('drops the chords and translation of a line deleted mid-section', () => {
+    const out = editSectionText(TRANSLATED, 'Amazing grace\nThat saved a wretch')
+    expect(out.lines).toEqual([
+      { lyrics: 'Amazing grace', chords: [{ chord: 'G', position: 0 }] },
+      { lyrics: 'That saved a wretch', chords: [] },
+    ])
+    expect(out.translations?.[0].lines).toEqual(['Sublime gracia', 'Que salvó a un pecador'])
+  })
+})
+
+describe('matchLines', () => {
+  it('matches unchanged lines by content and pairs edited ones in order', () => {
+    expect(matchLines(['a', 'b', 'c', 'd'], ['a', 'B', 'x', 'd'])).toEqual([0, 1, 2, 3])
+    expect(matchLines(['a', 'b', 'c'], ['x', 'a', 'c'])).toEqual([null, 0, 2])
+    expect(matchLines(['a', 'b'], [])).toEqual([])
+  })
+})
@@ -0,0 +1,175 @@
+// Offline library edits from the desktop app: lyric fixes, slide breaks and
+// transposed keys made without a connection. They're queued, applied over the
+// cached Convex documents so slides rebuild straight away, and replayed once
+// the connection is back. Each queued edit remembers the updatedAt it was made
+// against; if the document moved on in the meantime the server refuses the
+// write and the operator picks which version wins.
+
+import type { SectionTranslation } from './languages'
+import type { RhythmMark } from './numbers'
+
+export interface RawLine {
+  lyrics: string
+  chords: { chord: string; position: number; beats?: number; mark?: RhythmMark }[]
+}
+
+export interface RawSection {
+  type:  string
+  label: string
+  lines: RawLine[]
+  slideBreaks?:  number[]
+  translations?: SectionTranslation[]
+}
+
+export type PendingEdit =
+  | { kind: 'song'; id: string; title: string; baseUpdatedAt: number; conflict?: boolean; sections: RawSection[] }
+  // Setlist entry keys by songId; null goes back to the song's own key.
+  | { kind: 'setlist'; id: string; title: string; baseUpdatedAt: number; conflict?: boolean; keys: Record<string, string | null> }
+
+export type PendingKind = PendingEdit['kind']
+
+// What Convex throws, as ConvexError data, when the base updatedAt is stale.
+// It has to be a ConvexError: a production deployment redacts the message of
+// any other error to "Server Error", which would read as being offline.
+// (A type, not an interface, so it passes as a Convex Value.)
+export type ConflictData = { kind: 'conflict'; message: string }
+
+export function conflict(message: string): ConflictData {
+  return { kind: 'conflict', message }
+}
+
+export function isConflictData(data: unknown): data is ConflictData {
+  return typeof data === 'object' && data !== null && (data as { kind?: unknown }).kind === 'conflict'
+}
+
+const sameDoc = (e: PendingEdit, kind: PendingKind, id: string) => e.kind === kind && e.id === id
+
+export function findEdit(queue: PendingEdit[], kind: PendingKind, id: string): PendingEdit | undefined {
+  return queue.find(e => sameDoc(e, kind, id))
+}
+
+// Queue an edit. A second edit to the same document folds into the first and
+// keeps its base, so one document never has two writes racing each other.
+export function queueEdit(queue: PendingEdit[], edit: PendingEdit): PendingEdit[] {
+  const prev = findEdit(queue, edit.kind, edit.id)
+  if (!prev) return [...queue, edit]
+  const merged: PendingEdit = prev.kind === 'setlist' && edit.kind === 'setlist'
+    ? { ...prev, title: edit.title, keys: { ...prev.keys, ...edit.keys } }
+    : { ...edit, baseUpdatedAt: prev.baseUpdatedAt, conflict: prev.conflict }
+  return queue.map(e => (e === prev ? merged : e))
+}
+
+export function dropEdit(queue: PendingEdit[], kind: PendingKind, id: string): PendingEdit[] {
+  return queue.filter(e => !sameDoc(e, kind, id))
+}
+
+export function markConflict(queue: PendingEdit[], kind: PendingKind, id: string): PendingEdit[] {
+  return queue.map(e => (sameDoc(e, kind, id) ? { ...e, conflict: true } : e))
+}
+
+// "Keep mine": rebase the edit on the server's current version so the next
+// replay goes through.
+export function rebaseEdit(queue: PendingEdit[], kind: PendingKind, id: string, updatedAt: number): PendingEdit[] {
+  return queue.map(e => (sameDoc(e, kind, id) ? { ...e, baseUpdatedAt: updatedAt, conflict: undefined } : e))
+}
+
+export function withEntryKeys<E extends { songId: string; transposedKey?: string }>(
+  entries: E[], keys: Record<string, string | null>,
+): E[] {
+  return entries.map(e => (e.songId in keys ? { ...e, transposedKey: keys[e.songId] ?? undefined } : e))
+}
+
+// The cached documents as the operator sees them: server copies with every
+// queued edit laid over the top.
+export function withPendingEdits<
+  L extends { _id: string; songs: { songId: string; transposedKey?: string }[] },
+  S extends { _id: string; sections: RawSection[] },
+>(setlists: L[], songs: S[], queue: PendingEdit[]): { setlists: L[]; songs: S[] } {
+  if (!queue.length) return { setlists, songs }
+  return {
+    setlists: setlists.map(l => {
+      const e = findEdit(queue, 'setlist', l._id)
+      return e?.kind === 'setlist' ? { ...l, songs: withEntryKeys(l.songs, e.keys) } : l
+    }),
+    songs: songs.map(s => {
+      const e = findEdit(queue, 'song', s._id)
+      return e?.kind === 'song' ? { ...s, sections: e.sections } : s
+    }),
+  }
+}
+
+// A section as editable text: one lyric line per line, a blank line where a
+// manual slide break sits.
+export function sectionText(section: RawSection): string {
+  const breaks = new Set(section.slideBreaks ?? [])
+  return section.lines.map((l, i) => (i > 0 && breaks.has(i) ? `\n${l.lyrics}` : l.lyrics)).join('\n')
+}
+
+// Which old line each edited line came from, or null for a new one. Lines
+// left as they were are matched by content (a longest common subsequence), so
+// inserting or deleting a line doesn't shift the rest; between two matches,
+// changed lines pair up in order with the old lines they replaced.
+export function matchLines(before: string[], after: string[]): (number | null)[] {
+  const same = (a: string, b: string) => a.trim() === b.trim()
+  // common[i][j]: longest common run of before[i..] and after[j..]
+  const common = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0))
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      common[i][j] = same(before[i], after[j])
+        ? common[i + 1][j + 1] + 1
+        : Math.max(common[i + 1][j], common[i][j + 1])
+    }
+  }
+  const origin: (number | null)[] = new Array(after.length).fill(null)
+  let i = 0, j = 0, gapOld = 0, gapNew = 0
+  const pairGap = () => {
+    for (let k = 0; k < Math.min(i - gapOld, j - gapNew); k++) origin[gapNew + k] = gapOld + k
+  }
+  while (i < before.length && j < after.length) {
+    if (same(before[i], after[j])) {
+      pairGap()
+      origin[j] = i
+      gapOld = ++i
+      gapNew = ++j
+    } else if (common[i + 1][j] >= common[i][j + 1]) i++
+    else j++
+  }
+  i = before.length
+  j = after.length
+  pairGap()
+  return origin
+}
+
+// Read the text back. Each line keeps the chords and translations of the old
+// line it came from (see matchLines), with chord positions pulled in to the
+// end of a shortened line; new lines start bare and removed lines take their
+// translations with them. Blank lines become slide breaks; none at all leaves
+// the splitting to the slide builder.
+export function editSectionText(section: RawSection, text: string): RawSection {
+  const lyrics: string[] = []
+  const breaks: number[] = []
+  let gap = false
+  for (const raw of text.split('\n')) {
+    const line = raw.trimEnd()
+    if (!line.trim()) { gap = lyrics.length > 0; continue }
+    if (gap && !breaks.includes(lyrics.length)) breaks.push(lyrics.length)
+    gap = false
+    lyrics.push(line)
+  }
+  const origin = matchLines(section.lines.map(l => l.lyrics), lyrics)
+  const lines = lyrics.map((line, i): RawLine => {
+    const from = origin[i]
+    const chords = from === null ? [] : section.lines[from].chords
+    return { lyrics: line, chords: chords.map(c => ({ ...c, position: Math.min(c.position, line.length) })) }
+  })
+  const translations = section.translations?.map(t => ({
+    ...t,
+    lines: origin.map(o => (o === null ? '' : t.lines[o] ?? '')),
+  }))
+  return {
+    ...section,
+    lines,
+    slideBreaks: breaks.length ? breaks : undefined,
+    ...(translations ? { translations } : {}),
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { parseTimeSignature, normalizeTempo, rehearsalTimeline, stepAt, chordMidi, DEFAULT_TEMPO } from './rehearsal'
+import { parseChord } from './chords'
+
+const line = (lyrics: string, ...chords: [string, number, number?][]) =>
+  ({ lyrics, chords: chords.map(([chord, position, beats]) => ({ chord, position, beats })) })
+
+describe('parseTimeSignature and normalizeTempo', () => {
+  it('reads common signatures and falls back to 4/4', () => {
+    expect(parseTimeSignature('6/8')).toEqual({ beats: 6, unit: 8 })
+    expect(parseTimeSignature(' 3/4 ')).toEqual({ beats: 3, unit: 4 })
+    expect(parseTimeSignature('4/5')).toEqual({ beats: 4, unit: 4 })
+    expect(parseTimeSignature()).toEqual({ beats: 4, unit: 4 })
+  })
+  it('clamps the tempo', () => {
+    expect(normalizeTempo()).toBe(DEFAULT_TEMPO)
+    expect(normalizeTempo(500)).toBe(240)
+    expect(normalizeTempo(98.6)).toBe(99)
+  })
+})
+
+describe('rehearsalTimeline', () => {
+  const sections = [
+    { lines: [
+      line('Amazing grace', ['G', 0], ['C', 8, 2], ['G', 12, 2]),
+      line('how sweet the sound'),
+      line(''),
+    ] },
+    { lines: [line('', ['Em', 0], ['D', 2], ['C', 4])] },
+  ]
+  const timeline = rehearsalTimeline(sections, { beats: 4, unit: 4 })
+
+  it('gives unmarked chords a bar, holds through chordless lines and skips blank ones', () => {
+    expect(timeline.steps.map(s => [s.section, s.line, s.chord, s.symbol, s.start, s.beats])).toEqual([
+      [0, 0, 0, 'G', 0, 4],
+      [0, 0, 1, 'C', 4, 2],
+      [0, 0, 2, 'G', 6, 2],
+      [0, 1, -1, null, 8, 4],
+      [1, 0, 0, 'Em', 12, 2],
+      [1, 0, 1, 'D', 14, 2],
+      [1, 0, 2, 'C', 16, 4],
+    ])
+    expect(timeline.totalBeats).toBe(20)
+  })
+  it('keeps chord indices when positions are stored out of order', () => {
+    const t = rehearsalTimeline([{ lines: [line('x y', ['D', 2], ['A', 0])] }], { beats: 3, unit: 4 })
+    expect(t.steps.map(s => [s.chord, s.symbol, s.start])).toEqual([[1, 'A', 0], [0, 'D', 3]])
+  })
+  it('finds the step at a beat', () => {
+    expect(stepAt(timeline, -1)).toBe(-1)
+    expect(stepAt(timeline, 0)).toBe(0)
+    expect(stepAt(timeline, 5.5)).toBe(1)
+    expect(stepAt(timeline, 12)).toBe(4)
+    expect(stepAt(timeline, 19.9)).toBe(6)
+    expect(stepAt(timeline, 20)).toBe(-1)
+  })
+})
+
+describe('chordMidi', () => {
+  it('voices the bass low and the chord above', () => {
+    expect(chordMidi(parseChord('C')!)).toEqual([36, 48, 52, 55])
+    expect(chordMidi(parseChord('D/F#')!)).toEqual([42, 50, 54, 57])
+    expect(chordMidi(parseChord('Am7')!)).toEqual([45, 57, 60, 64, 67])
+  })
+})
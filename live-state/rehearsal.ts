@@ -0,0 +1,103 @@
+// Rehearsal mode on the perform page: where each chord of a chart falls in
+// time, from the song's tempo and time signature and each chord's beat count,
+// and which notes to strike for it.
+
+import { chordIntervals, pitchClass, type ParsedChord } from './chords'
+
+export interface TimeSignature {
+  beats: number  // per bar
+  unit:  number  // note value that gets the beat (and the click)
+}
+
+export const TIME_SIGNATURES = ['4/4', '3/4', '6/8', '2/4', '12/8', '5/4']
+export const DEFAULT_TIME_SIGNATURE: TimeSignature = { beats: 4, unit: 4 }
+
+export const DEFAULT_TEMPO = 72
+export const MIN_TEMPO = 30
+export const MAX_TEMPO = 240
+
+// Unset or unreadable means 4/4.
+export function parseTimeSignature(text?: string): TimeSignature {
+  const m = text?.trim().match(/^(\d{1,2})\/(1|2|4|8|16)$/)
+  const beats = m ? Number(m[1]) : 0
+  return m && beats > 0 ? { beats, unit: Number(m[2]) } : DEFAULT_TIME_SIGNATURE
+}
+
+export function normalizeTempo(bpm?: number): number {
+  return Number.isFinite(bpm) ? Math.min(MAX_TEMPO, Math.max(MIN_TEMPO, Math.round(bpm!))) : DEFAULT_TEMPO
+}
+
+interface TimedChord {
+  chord:    string
+  position: number  // character in the lyrics, or beat for a lyric-less (instrumental) line
+  beats?:   number
+}
+
+export interface RehearsalSection {
+  lines: { lyrics: string; chords: TimedChord[] }[]
+}
+
+export interface RehearsalStep {
+  section: number
+  line:    number
+  chord:   number         // index into the line's chords; -1 while a chordless line rides the previous chord
+  symbol:  string | null  // null while holding
+  start:   number         // beats from the top
+  beats:   number
+}
+
+export interface RehearsalTimeline {
+  steps:       RehearsalStep[]
+  beatsPerBar: number
+  totalBeats:  number
+}
+
+// A chord without a beat count lasts a bar, except on instrumental lines,
+// where chords sit on beats and run to the next one (the last to its barline).
+// A lyric line with no chords gets a bar under whatever was already playing.
+export function rehearsalTimeline(sections: RehearsalSection[], signature: TimeSignature): RehearsalTimeline {
+  const bar = signature.beats
+  const steps: RehearsalStep[] = []
+  let start = 0
+  sections.forEach((section, s) => section.lines.forEach((line, l) => {
+    const chords = line.chords.map((c, i) => ({ ...c, i })).sort((a, b) => a.position - b.position)
+    if (chords.length === 0) {
+      if (!line.lyrics.trim()) return
+      steps.push({ section: s, line: l, chord: -1, symbol: null, start, beats: bar })
+      start += bar
+      return
+    }
+    const onBeats = !line.lyrics.trim()
+    chords.forEach((c, k) => {
+      let beats = c.beats && c.beats > 0 ? c.beats : bar
+      if (!(c.beats && c.beats > 0) && onBeats) {
+        const next = chords[k + 1]?.position ?? Math.ceil((c.position + 1) / bar) * bar
+        beats = Math.max(1, next - c.position)
+      }
+      steps.push({ section: s, line: l, chord: c.i, symbol: c.chord, start, beats })
+      start += beats
+    })
+  }))
+  return { steps, beatsPerBar: bar, totalBeats: start }
+}
+
+// The step sounding at `beat`, or -1 before the top and after the end.
+export function stepAt(timeline: RehearsalTimeline, beat: number): number {
+  if (beat < 0 || beat >= timeline.totalBeats) return -1
+  let lo = 0
+  let hi = timeline.steps.length - 1
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1
+    if (timeline.steps[mid].start <= beat) lo = mid
+    else hi = mid - 1
+  }
+  return lo
+}
+
+// A plain piano voicing as MIDI notes: the bass (or root) up from C2, the
+// chord tones stacked on the root up from C3.
+export function chordMidi(chord: ParsedChord): number[] {
+  const root = pitchClass(chord.root)
+  const bass = chord.bass ? pitchClass(chord.bass) : root
+  return [36 + bass, ...chordIntervals(chord).map(n => 48 + root + n)]
+}
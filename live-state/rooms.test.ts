@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest'
+import { normalizeRoom, isStaleRoom, DEFAULT_ROOM, MAX_ROOM_LENGTH, ROOM_TTL_MS } from './rooms'
+
+describe('normalizeRoom', () => {
+  it('slugs names and falls back to the main room', () => {
+    expect(normalizeRoom('Youth Breakout!')).toBe('youth-breakout')
+    expect(normalizeRoom('  --Main--  ')).toBe('main')
+    expect(normalizeRoom('')).toBe(DEFAULT_ROOM)
+    expect(normalizeRoom(null)).toBe(DEFAULT_ROOM)
+    expect(normalizeRoom('???')).toBe(DEFAULT_ROOM)
+  })
+  it('caps the length without leaving a trailing dash', () => {
+    const long = normalizeRoom(`${'a'.repeat(MAX_ROOM_LENGTH - 1)} b`)
+    expect(long).toBe('a'.repeat(MAX_ROOM_LENGTH - 1))
+  })
+})
+
+describe('isStaleRoom', () => {
+  it('expires named rooms idle past the TTL', () => {
+    expect(isStaleRoom('youth', 0, ROOM_TTL_MS)).toBe(false)
+    expect(isStaleRoom('youth', 0, ROOM_TTL_MS + 1)).toBe(true)
+  })
+  it('never expires the main room', () => {
+    expect(isStaleRoom(DEFAULT_ROOM, 0, 7 * ROOM_TTL_MS)).toBe(false)
+  })
+})
@@ -0,0 +1,28 @@
+// Live rooms: each running service (main hall, a breakout, a rehearsal) keeps
+// its own live setlist and session, keyed by a short room id that appears in
+// URLs like /live?room=youth. Rows without a room belong to the main room.
+
+export const DEFAULT_ROOM = 'main'
+export const MAX_ROOM_LENGTH = 32
+
+// A named room nobody has used for this long is cleared out. The main room
+// never is: a setlist pushed days ahead for Sunday has to still be there.
+export const ROOM_TTL_MS = 12 * 60 * 60 * 1000
+
+// Lowercase letters, digits and dashes, so a room reads the same in a URL, an
+// env var and the desktop settings. Blank means the main room.
+export function normalizeRoom(raw?: string | null): string {
+  const room = (raw ?? '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_ROOM_LENGTH)
+    .replace(/-+$/, '')
+  return room || DEFAULT_ROOM
+}
+
+// Last sign of life: a setlist push, a session update or the start of the
+// service its setlist is for, whichever is latest.
+export function isStaleRoom(room: string, lastActiveAt: number, now: number): boolean {
+  return room !== DEFAULT_ROOM && now - lastActiveAt > ROOM_TTL_MS
+}
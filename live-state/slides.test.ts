@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest'
+import {
+  chunkLineIndices, measureLayout, resolveChunking, DEFAULT_TARGET_WORDS, type ChunkLayout,
+} from './slides.js'
+import { DEFAULT_THEME } from './theme.js'
+
+describe('chunkLineIndices — auto by words', () => {
+  it('returns empty for no lines', () => {
+    expect(chunkLineIndices([])).toEqual([])
+  })
+
+  it('keeps lines together under the word target', () => {
+    // 6 + 5 = 11 words > 10 → split after first line
+    expect(chunkLineIndices([
+      'Amazing grace how sweet the sound',   // 6
+      'That saved a wretch like me',         // 5
+    ], undefined, 10)).toEqual([[0], [1]])
+  })
+
+  it('packs short lines together up to the target', () => {
+    // 2 + 2 + 2 = 6 ≤ 10 → one slide
+    expect(chunkLineIndices(['a b', 'c d', 'e f'], undefined, 10)).toEqual([[0, 1, 2]])
+  })
+
+  it('starts a new slide when the next line would exceed the target', () => {
+    // 6 + 6 = 12 > 10
+    expect(chunkLineIndices([
+      'one two three four five six',
+      'seven eight nine ten eleven twelve',
+    ], undefined, 10)).toEqual([[0], [1]])
+  })
+
+  it('gives an over-long single line its own slide without splitting it', () => {
+    expect(chunkLineIndices([
+      'word word word word word word word word word word word word', // 12 words
+      'short line',
+    ], undefined, 10)).toEqual([[0], [1]])
+  })
+
+  it('keeps blank lines attached to the current slide', () => {
+    expect(chunkLineIndices(['a b c', '', 'd e f'], undefined, 10)).toEqual([[0, 1, 2]])
+  })
+})
+
+describe('chunkLineIndices — manual breaks', () => {
+  it('splits exactly at the given break indices', () => {
+    expect(chunkLineIndices(['l0', 'l1', 'l2', 'l3'], [2])).toEqual([[0, 1], [2, 3]])
+  })
+
+  it('supports multiple breaks', () => {
+    expect(chunkLineIndices(['l0', 'l1', 'l2', 'l3'], [1, 3])).toEqual([[0], [1, 2], [3]])
+  })
+
+  it('ignores out-of-range and zero breaks', () => {
+    expect(chunkLineIndices(['l0', 'l1', 'l2'], [0, 2, 99])).toEqual([[0, 1], [2]])
+  })
+
+  it('manual breaks override the word target entirely', () => {
+    // would auto-pack into one slide, but a manual break forces two
+    expect(chunkLineIndices(['a', 'b'], [1], 10)).toEqual([[0], [1]])
+  })
+})
+
+describe('chunkLineIndices — fitted to the layout', () => {
+  const layout = (rowsPerSlide: number, maxLines?: number): ChunkLayout => ({ charsPerLine: 20, rowsPerSlide, maxLines })
+
+  it('uses the fewest slides that fit and balances them', () => {
+    // 5 one-row lines, 4 rows per slide: 3 + 2 rather than 4 + 1
+    expect(chunkLineIndices(['a', 'b', 'c', 'd', 'e'], undefined, layout(4))).toEqual([[0, 1, 2], [3, 4]])
+    expect(chunkLineIndices(['a', 'b', 'c', 'd', 'e', 'f'], undefined, layout(4))).toEqual([[0, 1, 2], [3, 4, 5]])
+  })
+
+  it('counts wrapped lines by the rows they take on screen', () => {
+    const long = 'x'.repeat(35)  // wraps to 2 rows at 20 characters
+    expect(chunkLineIndices([long, long, 'a', 'b'], undefined, layout(4))).toEqual([[0, 1], [2, 3]])
+  })
+
+  it('avoids leaving a short line alone when another split fits', () => {
+    const long = 'x'.repeat(55)  // 3 rows
+    // [long, a] [b] would orphan b; [long] [a, b] keeps both slides meaningful
+    expect(chunkLineIndices([long, 'a', 'b'], undefined, layout(4))).toEqual([[0], [1, 2]])
+  })
+
+  it('respects the max-lines cap', () => {
+    expect(chunkLineIndices(['a', 'b', 'c', 'd'], undefined, layout(6, 2))).toEqual([[0, 1], [2, 3]])
+  })
+
+  it('still gives a line taller than the slide its own slide', () => {
+    expect(chunkLineIndices(['x'.repeat(100), 'a'], undefined, layout(2))).toEqual([[0], [1]])
+  })
+
+  it('lets manual breaks win', () => {
+    expect(chunkLineIndices(['a', 'b', 'c'], [1], layout(4))).toEqual([[0], [1, 2]])
+  })
+
+  it('makes room for a stacked second language', () => {
+    const lines = ['a', 'b', 'c', 'd']
+    // Each translated line adds 0.6 of a row: 1.6 per line, two to a slide
+    expect(chunkLineIndices(lines, undefined, layout(4), ['uno', 'dos', 'tres', 'cuatro'])).toEqual([[0, 1], [2, 3]])
+    expect(chunkLineIndices(lines, undefined, layout(4))).toEqual([[0, 1, 2, 3]])
+    // Lines without a translation take no extra room
+    expect(chunkLineIndices(lines, undefined, layout(4), ['', '', '', ''])).toEqual([[0, 1, 2, 3]])
+  })
+})
+
+describe('measureLayout', () => {
+  it('fits fewer characters and rows as the font grows', () => {
+    const small = measureLayout({ ...DEFAULT_THEME, fontSize: 4 })
+    const big   = measureLayout({ ...DEFAULT_THEME, fontSize: 8 })
+    expect(small.charsPerLine).toBeGreaterThan(big.charsPerLine)
+    expect(small.rowsPerSlide).toBeGreaterThan(big.rowsPerSlide)
+  })
+
+  it('measures the default theme on a 1080p projector', () => {
+    expect(measureLayout(DEFAULT_THEME)).toEqual({ charsPerLine: 28, rowsPerSlide: 3 })
+  })
+
+  it('gives lower thirds fewer rows, and taller screens more', () => {
+    const theme = { ...DEFAULT_THEME, fontSize: 4 }
+    expect(measureLayout({ ...theme, layout: 'lowerThird' }).rowsPerSlide)
+      .toBeLessThan(measureLayout(theme).rowsPerSlide)
+    expect(measureLayout(theme, { width: 1024, height: 768 }).rowsPerSlide)
+      .toBeGreaterThan(measureLayout(theme).rowsPerSlide)
+  })
+})
+
+describe('resolveChunking', () => {
+  it('is the word target unless layout chunking is picked', () => {
+    expect(resolveChunking(undefined, DEFAULT_THEME)).toBe(DEFAULT_TARGET_WORDS)
+    expect(resolveChunking({ strategy: 'words' }, DEFAULT_THEME)).toBe(DEFAULT_TARGET_WORDS)
+    expect(resolveChunking({ strategy: 'layout', maxLines: 2 }, DEFAULT_THEME)).toEqual({ charsPerLine: 28, rowsPerSlide: 3, maxLines: 2 })
+  })
+})
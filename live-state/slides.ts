@@ -0,0 +1,161 @@
+// Canonical, tested slide-chunking logic. The website's songToSlides
+// (src/lib/live/slides.ts) builds on this; the desktop app reuses it from there.
+
+import type { LiveTheme } from './theme'
+
+export const DEFAULT_TARGET_WORDS = 10
+
+// How a song's lines are packed into slides: greedily by word count, or fitted
+// to what the projector can show at the theme's font size.
+export type ChunkStrategy = 'words' | 'layout'
+
+export interface SlideChunking {
+  strategy:  ChunkStrategy
+  maxLines?: number  // layout only: cap on lyric lines per slide
+}
+
+// What fits on one slide, measured for a theme and screen.
+export interface ChunkLayout {
+  charsPerLine: number  // characters across before a lyric line wraps
+  rowsPerSlide: number  // screen rows down the slide (wrapped lines count per row)
+  maxLines?:    number  // cap on lyric lines per slide
+}
+
+export interface ScreenSize { width: number; height: number }
+
+export const DEFAULT_SCREEN: ScreenSize = { width: 1920, height: 1080 }
+
+// Average glyph width in em for the theme fonts; unknown fonts use AVG_CHAR_EM.
+const CHAR_EM: Record<string, number> = {
+  'Cormorant Garamond': 0.42, 'Playfair Display': 0.5, 'Lora': 0.5, 'Inter': 0.52,
+  'Montserrat': 0.56, 'Lato': 0.48, 'Oswald': 0.4,
+}
+const AVG_CHAR_EM = 0.5
+
+// Display geometry, in vw, matching the projector renderers.
+const LINE_HEIGHT   = 1.45  // × font size
+const SLIDE_PADDING = 4     // around the slide text, each side
+const TITLE_CHROME  = 9     // song title + section label above the lyrics
+const LOWER_THIRD   = 0.4   // share of the usable height a lower third may take
+const STACKED_SCALE = 0.6   // stacked second-language lines, × font size
+
+function wordCount(line: string): number {
+  const t = line.trim()
+  return t ? t.split(/\s+/).length : 0
+}
+
+// Measure what fits on a slide for a theme on a screen of the given size.
+export function measureLayout(theme: LiveTheme, screen: ScreenSize = DEFAULT_SCREEN, maxLines?: number): ChunkLayout {
+  const heightVw = 100 * screen.height / screen.width
+  const widthVw  = 100 - 2 * theme.safeArea - 2 * SLIDE_PADDING
+  const usableH  = heightVw * (1 - 2 * theme.safeArea / 100) - 2 * SLIDE_PADDING
+  const lyricsH  = theme.layout === 'lowerThird' ? usableH * LOWER_THIRD : usableH - TITLE_CHROME
+  const em = CHAR_EM[theme.fontFamily] ?? AVG_CHAR_EM
+  return {
+    charsPerLine: Math.max(1, Math.floor(widthVw / (theme.fontSize * em))),
+    rowsPerSlide: Math.max(1, Math.floor(lyricsH / (theme.fontSize * LINE_HEIGHT))),
+    ...(maxLines && maxLines > 0 ? { maxLines } : {}),
+  }
+}
+
+// The chunking argument for chunkLineIndices: a word target, or a measured layout.
+export function resolveChunking(
+  chunking: SlideChunking | undefined,
+  theme: LiveTheme,
+  screen: ScreenSize = DEFAULT_SCREEN,
+): number | ChunkLayout {
+  return chunking?.strategy === 'layout' ? measureLayout(theme, screen, chunking.maxLines) : DEFAULT_TARGET_WORDS
+}
+
+function rowsOf(line: string, charsPerLine: number): number {
+  return Math.max(1, Math.ceil(line.trim().length / charsPerLine))
+}
+
+// Fewest slides that fit, then fewest single-line orphans, then the most even
+// line counts. A line too tall for any slide still gets a slide of its own.
+// A stacked second language adds its lines under the lyrics in smaller type:
+// more characters to a row, and shorter rows.
+function stackedRows(line: string | undefined, charsPerLine: number): number {
+  if (!line?.trim()) return 0
+  return STACKED_SCALE * rowsOf(line, Math.floor(charsPerLine / STACKED_SCALE))
+}
+
+function chunkByLayout(lines: string[], layout: ChunkLayout, stacked?: string[]): number[][] {
+  const n = lines.length
+  const rows = lines.map((l, i) => rowsOf(l, layout.charsPerLine) + stackedRows(stacked?.[i], layout.charsPerLine))
+  const maxLines = layout.maxLines ?? Infinity
+  const fits = (from: number, to: number) => {   // lines [from, to)
+    if (to - from === 1) return true
+    if (to - from > maxLines) return false
+    let total = 0
+    for (let i = from; i < to; i++) total += rows[i]
+    return total <= layout.rowsPerSlide
+  }
+  // An orphan is a lone line on a slide it doesn't come close to filling.
+  const orphan = (from: number, to: number) => n > 1 && to - from === 1 && rows[from] * 2 <= layout.rowsPerSlide
+
+  type Cost = [slides: number, orphans: number, spread: number]
+  const better = (a: Cost, b: Cost) => a[0] - b[0] || a[1] - b[1] || a[2] - b[2]
+  const best: (Cost | null)[] = Array(n + 1).fill(null)
+  const cut: number[] = Array(n + 1).fill(0)
+  best[0] = [0, 0, 0]
+  for (let to = 1; to <= n; to++) {
+    for (let from = to - 1; from >= 0; from--) {
+      if (!fits(from, to)) break
+      const prev = best[from]
+      if (!prev) continue
+      const size = to - from
+      const cost: Cost = [prev[0] + 1, prev[1] + (orphan(from, to) ? 1 : 0), prev[2] + size * size]
+      if (!best[to] || better(cost, best[to]!) < 0) { best[to] = cost; cut[to] = from }
+    }
+  }
+
+  const groups: number[][] = []
+  for (let to = n; to > 0; to = cut[to]) {
+    groups.unshift(Array.from({ length: to - cut[to] }, (_, i) => cut[to] + i))
+  }
+  return groups
+}
+
+// Group whole-line indices into slides.
+// - If `breaks` is given, a new slide starts at each listed line index.
+// - With a word target, lines are packed until adding the next would exceed it.
+// - With a ChunkLayout, lines are fitted to the screen (see chunkByLayout),
+//   counting any `stacked` second-language lines shown under them.
+// Lines are never split mid-line; a single over-long line gets its own slide.
+export function chunkLineIndices(
+  lines: string[],
+  breaks?: number[],
+  by: number | ChunkLayout = DEFAULT_TARGET_WORDS,
+  stacked?: string[],
+): number[][] {
+  if (lines.length === 0) return []
+
+  if (breaks && breaks.length) {
+    const breakSet = new Set(breaks.filter(b => b > 0 && b < lines.length))
+    const groups: number[][] = []
+    let cur: number[] = []
+    for (let i = 0; i < lines.length; i++) {
+      if (breakSet.has(i) && cur.length) { groups.push(cur); cur = [] }
+      cur.push(i)
+    }
+    if (cur.length) groups.push(cur)
+    return groups
+  }
+
+  if (typeof by !== 'number') return chunkByLayout(lines, by, stacked)
+
+  const targetWords = by
+  const groups: number[][] = []
+  let cur: number[] = []
+  let curWords = 0
+  for (let i = 0; i < lines.length; i++) {
+    const w = wordCount(lines[i])
+    if (cur.length && curWords + w > targetWords) {
+      groups.push(cur); cur = []; curWords = 0
+    }
+    cur.push(i); curWords += w
+  }
+  if (cur.length) groups.push(cur)
+  return groups
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest'
+import {
+  trackSongStart, setStageMessage, parseServiceStart, formatDuration, upcomingSongIndex, isKeyChange,
+  INITIAL_STAGE, MAX_STAGE_MESSAGE,
+} from './stage'
+import { initialState, applyGo, applyStandby, applySelection, buildPayload, type LiveSetlist } from './state'
+import { slide } from './test-helpers'
+
+const SETLIST: LiveSetlist = {
+  name: 'Sun', pushedAt: 1, startsAt: 1_000,
+  songs: [
+    { title: 'A', key: 'G', slides: [slide(), slide()], notes: 'drums out on V2' },
+    { title: 'B', key: 'G', slides: [slide()], capo: 2 },
+    { title: 'C', key: 'Bb', slides: [slide()], notes: 'capo 1' },
+  ],
+}
+
+describe('trackSongStart', () => {
+  it('starts the clock when a song goes live and keeps it across slides', () => {
+    const s0 = initialState()
+    const s1 = applyGo(s0, SETLIST)
+    const started = trackSongStart(INITIAL_STAGE, s0, s1, 100)
+    expect(started.songStartedAt).toBe(100)
+    const s2 = applyGo(s1, SETLIST)
+    expect(trackSongStart(started, s1, s2, 200)).toBe(started)
+  })
+  it('restarts on a new song and stops in standby', () => {
+    let s = applyGo(applyGo(initialState(), SETLIST), SETLIST)
+    const stage = { ...INITIAL_STAGE, songStartedAt: 100 }
+    const next = applyGo(s, SETLIST)
+    expect(trackSongStart(stage, s, next, 300).songStartedAt).toBe(300)
+    s = applyStandby(next)
+    expect(trackSongStart(stage, next, s, 400).songStartedAt).toBeNull()
+  })
+})
+
+describe('setStageMessage', () => {
+  it('trims and caps the message', () => {
+    expect(setStageMessage(INITIAL_STAGE, '  Watch me  ').message).toBe('Watch me')
+    expect(setStageMessage(INITIAL_STAGE, 'x'.repeat(500)).message).toHaveLength(MAX_STAGE_MESSAGE)
+  })
+})
+
+describe('parseServiceStart', () => {
+  it('reads 12- and 24-hour times in local time', () => {
+    const at = (h: number, m = 0) => new Date(2026, 4, 24, h, m).getTime()
+    expect(parseServiceStart('2026-05-24', '8:00 PM')).toBe(at(20))
+    expect(parseServiceStart('2026-05-24', '7pm')).toBe(at(19))
+    expect(parseServiceStart('2026-05-24', '10:30 a.m.')).toBe(at(10, 30))
+    expect(parseServiceStart('2026-05-24', '12:15 AM')).toBe(at(0, 15))
+    expect(parseServiceStart('2026-05-24', '19:30')).toBe(at(19, 30))
+  })
+  it('gives up on anything else', () => {
+    expect(parseServiceStart('2026-05-24', '')).toBeUndefined()
+    expect(parseServiceStart('2026-05-24', 'after lunch')).toBeUndefined()
+    expect(parseServiceStart('2026-05-24', '13pm')).toBeUndefined()
+    expect(parseServiceStart('May 24', '8pm')).toBeUndefined()
+  })
+})
+
+describe('formatDuration', () => {
+  it('formats minutes and hours', () => {
+    expect(formatDuration(0)).toBe('0:00')
+    expect(formatDuration(245_900)).toBe('4:05')
+    expect(formatDuration(3_723_000)).toBe('1:02:03')
+    expect(formatDuration(-61_000)).toBe('-1:01')
+  })
+})
+
+describe('upcomingSongIndex', () => {
+  it('is the song after the live one unless another song is queued', () => {
+    const live = applyGo(initialState(), SETLIST)
+    expect(upcomingSongIndex(live, SETLIST)).toBe(1)
+    expect(upcomingSongIndex(applySelection(live, 2, SETLIST), SETLIST)).toBe(2)
+    expect(upcomingSongIndex(initialState(), SETLIST)).toBe(0)
+    expect(upcomingSongIndex({ ...live, currentSong: 2, queuedSong: -1 }, SETLIST)).toBe(-1)
+  })
+})
+
+describe('isKeyChange', () => {
+  it('compares tonics, not spellings', () => {
+    expect(isKeyChange('G', 'Bb')).toBe(true)
+    expect(isKeyChange('Bb', 'A#')).toBe(false)
+    expect(isKeyChange('Em', 'E')).toBe(false)
+    expect(isKeyChange('G', undefined)).toBe(false)
+    expect(isKeyChange('G', '?')).toBe(false)
+    expect(isKeyChange('B♭', 'A#m')).toBe(false)
+    expect(isKeyChange('D Dorian', 'Dm')).toBe(false)
+    expect(isKeyChange('F♯', 'G')).toBe(true)
+  })
+})
+
+describe('buildPayload stage fields', () => {
+  it('reports notes, capos, the upcoming key and the clocks', () => {
+    let s = applyGo(initialState(), SETLIST)
+    let p = buildPayload(s, SETLIST, undefined, { songStartedAt: 50, message: 'Watch me' })
+    expect(p.currentNotes).toBe('drums out on V2')
+    expect(p.currentCapo).toBe('')
+    expect(p.upcomingSongTitle).toBe('B')
+    expect(p.upcomingSongCapo).toBe('Capo 2 (F shapes)')
+    expect(p.keyChange).toBe(false)
+    expect(p.serviceStartsAt).toBe(1_000)
+    expect(p.songStartedAt).toBe(50)
+    expect(p.stageMessage).toBe('Watch me')
+
+    s = applyGo(applyGo(s, SETLIST), SETLIST)
+    p = buildPayload(s, SETLIST)
+    expect(p.upcomingSongKey).toBe('Bb')
+    expect(p.upcomingSongNotes).toBe('capo 1')
+    expect(p.upcomingSongCapo).toBeNull()
+    expect(p.keyChange).toBe(true)
+    expect(p.songStartedAt).toBeNull()
+  })
+})
@@ -0,0 +1,71 @@
+// Stage confidence monitor: song timing, operator messages to the band, the
+// service countdown and key-change warnings.
+
+import type { BridgeState, LiveSetlist } from './state'
+import { keyTonic } from './keys'
+
+export interface StageStatus {
+  songStartedAt: number | null  // ms epoch the live song first went up, null = standby
+  message:       string         // operator → stage, '' = none
+}
+
+export const INITIAL_STAGE: StageStatus = { songStartedAt: null, message: '' }
+
+export const MAX_STAGE_MESSAGE = 140
+
+// Restart the song clock whenever a different song goes live; stop it in standby.
+export function trackSongStart(stage: StageStatus, prev: BridgeState, next: BridgeState, now: number): StageStatus {
+  if (!next.isLive) return stage.songStartedAt === null ? stage : { ...stage, songStartedAt: null }
+  if (prev.isLive && prev.currentSong === next.currentSong && stage.songStartedAt !== null) return stage
+  return { ...stage, songStartedAt: now }
+}
+
+export function setStageMessage(stage: StageStatus, text: string): StageStatus {
+  return { ...stage, message: text.trim().slice(0, MAX_STAGE_MESSAGE) }
+}
+
+// The setlist's date ("2026-05-24") and free-text time ("8:00 PM", "19:30",
+// "7pm") as a local-time epoch, or undefined when the time can't be read.
+export function parseServiceStart(date: string, time: string): number | undefined {
+  const d = date.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  const t = time.trim().toLowerCase().match(/^(\d{1,2})(?:[:.](\d{2}))?\s*([ap])?\.?m?\.?$/)
+  if (!d || !t) return undefined
+  let hour = Number(t[1])
+  const minute = Number(t[2] ?? 0)
+  if (t[3]) {
+    if (hour < 1 || hour > 12) return undefined
+    hour = hour % 12 + (t[3] === 'p' ? 12 : 0)
+  }
+  if (hour > 23 || minute > 59) return undefined
+  return new Date(Number(d[1]), Number(d[2]) - 1, Number(d[3]), hour, minute).getTime()
+}
+
+// "4:05", "1:02:03"; negative durations get a leading "-".
+export function formatDuration(ms: number): string {
+  const sign = ms < 0 ? '-' : ''
+  const total = Math.floor(Math.abs(ms) / 1000)
+  const h = Math.floor(total / 3600)
+  const m = Math.floor(total / 60) % 60
+  const s = String(total % 60).padStart(2, '0')
+  return h ? `${sign}${h}:${String(m).padStart(2, '0')}:${s}` : `${sign}${m}:${s}`
+}
+
+// The next song the band will play: from the queued item if the operator has
+// picked another one, otherwise from the item after the live one, skipping
+// readings, announcements and countdowns. -1 = none.
+export function upcomingSongIndex(state: BridgeState, setlist: LiveSetlist): number {
+  let next = state.queuedSong >= 0 && state.queuedSong !== state.currentSong
+    ? state.queuedSong
+    : state.currentSong + 1
+  while (next < setlist.songs.length && (setlist.songs[next].kind ?? 'song') !== 'song') next++
+  return next < setlist.songs.length ? next : -1
+}
+
+// True when moving between the two songs needs a different tonic; the mode
+// alone changing doesn't warn (Em to E), and neither do unknown keys.
+export function isKeyChange(from?: string, to?: string): boolean {
+  if (!from || !to) return false
+  const a = keyTonic(from)
+  const b = keyTonic(to)
+  return a >= 0 && b >= 0 && a !== b
+}
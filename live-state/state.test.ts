@@ -1,16 +1,11 @@
 import { describe, it, expect } from 'vitest'
 import {
   initialState, applyGo, applyBack, applySelection, applyModeToggle,
-  applyBlackout, applyStandby, buildPayload,
-  EMPTY_SETLIST, type LiveSetlist, type LiveSlide,
+  applyBlackout, applyStandby, applyEvent, applyJump, applyCue, buildPayload, slideLabel,
+  loopRange, advanceDelay, applyAutoAdvance,
+  EMPTY_SETLIST, type LiveSetlist, type LiveSetlistItem,
 } from './state.js'
-
-function slide(label: string, lyrics: string, inSec = 0, count = 1): LiveSlide {
-  return {
-    type: 'verse', label, lyrics, chords: '',
-    isSectionStart: inSec === 0, slideInSection: inSec, sectionSlideCount: count,
-  }
-}
+import { slide } from './test-helpers.js'
 
 // Song A: 3 slides (Verse 1 split into 2, Chorus 1). Song B: 1 slide.
 const SETLIST: LiveSetlist = {
@@ -120,6 +115,88 @@ describe('applyBack', () => {
   })
 })
 
+describe('applyCue', () => {
+  it('queues any slide without touching the live one', () => {
+    const live = applyGo(initialState(), SETLIST)
+    const s = applyCue(live, 1, 0, SETLIST)
+    expect([s.currentSong, s.currentSlide]).toEqual([live.currentSong, live.currentSlide])
+    expect([s.queuedSong, s.queuedSlide]).toEqual([1, 0])
+    expect(applyGo(s, SETLIST)).toMatchObject({ currentSong: 1, currentSlide: 0 })
+  })
+  it('no-op for out-of-range targets', () => {
+    const s = initialState()
+    expect(applyCue(s, 2, 0, SETLIST)).toBe(s)
+    expect(applyCue(s, 0, 3, SETLIST)).toBe(s)
+  })
+})
+
+describe('auto-advance', () => {
+  const ad = (title: string, advanceSeconds?: number, slides = 1): LiveSetlistItem => ({
+    kind: 'announcement', title, advanceSeconds,
+    slides: Array.from({ length: slides }, (_, i) => slide(title, `${title} ${i}`)),
+  })
+  const LOOP: LiveSetlist = {
+    name: 'Pre-service', pushedAt: 1,
+    songs: [ad('Welcome', 5, 2), ad('Picnic', 5), ad('Notes'), SETLIST.songs[0]],
+  }
+
+  it('groups neighbouring auto-advancing announcements into one loop', () => {
+    expect(loopRange(LOOP, 1)).toEqual([0, 1])
+    expect(loopRange(LOOP, 2)).toBeNull()
+    expect(loopRange(LOOP, 3)).toBeNull()
+  })
+  it('steps through the loop on a timer and wraps', () => {
+    let s = applyGo(initialState(), LOOP)
+    expect(advanceDelay(s, LOOP)).toBe(5000)
+    expect([s.queuedSong, s.queuedSlide]).toEqual([2, 0])
+    const seen: number[][] = []
+    for (let i = 0; i < 4; i++) { s = applyAutoAdvance(s, LOOP); seen.push([s.currentSong, s.currentSlide]) }
+    expect(seen).toEqual([[0, 1], [1, 0], [0, 0], [0, 1]])
+    expect([s.queuedSong, s.queuedSlide]).toEqual([2, 0])
+  })
+  it('stops when GO leaves the loop, and pauses in blackout', () => {
+    const s = applyAutoAdvance(applyGo(initialState(), LOOP), LOOP)
+    const out = applyGo(s, LOOP)
+    expect(out.currentSong).toBe(2)
+    expect(advanceDelay(out, LOOP)).toBeNull()
+    expect(applyAutoAdvance(out, LOOP)).toBe(out)
+    expect(advanceDelay(applyBlackout(s), LOOP)).toBeNull()
+    expect(advanceDelay(initialState(), LOOP)).toBeNull()
+  })
+  it('never steps faster than the minimum', () => {
+    const fast = { ...LOOP, songs: [ad('Quick', 0.5)] }
+    expect(advanceDelay(applyGo(initialState(), fast), fast)).toBe(2000)
+  })
+})
+
+describe('applyJump', () => {
+  it('cuts live to the target slide from standby and queues the next', () => {
+    const s = applyJump(initialState(), 0, 2, SETLIST)
+    expect(s.isLive).toBe(true)
+    expect(s.currentSong).toBe(0)
+    expect(s.currentSlide).toBe(2)
+    expect(s.queuedSong).toBe(1)
+    expect(s.queuedSlide).toBe(0)
+  })
+  it('queues -1 when jumping to the last slide', () => {
+    const s = applyJump(initialState(), 1, 0, SETLIST)
+    expect(s.queuedSong).toBe(-1)
+    expect(s.queuedSlide).toBe(-1)
+  })
+  it('keeps blackout as-is', () => {
+    const s = applyJump(applyBlackout(initialState()), 0, 1, SETLIST)
+    expect(s.isBlackout).toBe(true)
+    expect(s.currentSlide).toBe(1)
+  })
+  it('no-op for out-of-range targets', () => {
+    const s = initialState()
+    expect(applyJump(s, 2, 0, SETLIST)).toEqual(s)
+    expect(applyJump(s, 0, 3, SETLIST)).toEqual(s)
+    expect(applyJump(s, 0, -1, SETLIST)).toEqual(s)
+    expect(applyJump(s, 0, 0, EMPTY_SETLIST)).toEqual(s)
+  })
+})
+
 describe('applySelection — song mode', () => {
   it('queues a specific song at slide 0', () => {
     const s = applySelection(initialState(), 1, SETLIST)
@@ -177,6 +254,25 @@ describe('applyStandby', () => {
   })
 })
 
+describe('applyEvent', () => {
+  it('dispatches each button event to its transition', () => {
+    const live = applyGo(initialState(), SETLIST)
+    expect(applyEvent(initialState(), { type: 'go' }, SETLIST)).toEqual(live)
+    expect(applyEvent(live, { type: 'back' }, SETLIST)).toEqual(applyBack(live, SETLIST))
+    expect(applyEvent(live, { type: 'selection', index: 1 }, SETLIST)).toEqual(applySelection(live, 1, SETLIST))
+    expect(applyEvent(live, { type: 'mode' }, SETLIST).mode).toBe('slide')
+    expect(applyEvent(live, { type: 'blackout' }, SETLIST).isBlackout).toBe(true)
+    expect(applyEvent(live, { type: 'standby' }, SETLIST).isLive).toBe(false)
+  })
+})
+
+describe('slideLabel', () => {
+  it('adds a counter only for multi-slide sections', () => {
+    expect(slideLabel({ label: 'Chorus', slideInSection: 0, sectionSlideCount: 1 })).toBe('Chorus')
+    expect(slideLabel({ label: 'Verse 1', slideInSection: 1, sectionSlideCount: 3 })).toBe('Verse 1 · 2/3')
+  })
+})
+
 describe('buildPayload', () => {
   it('empty lyrics before going live', () => {
     const p = buildPayload(initialState(), SETLIST)
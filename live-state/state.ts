@@ -0,0 +1,416 @@
+// Pure live-control state machine + WebSocket payload, shared by the bridge,
+// the desktop app and the website (/live, /monitor).
+
+import type { SyncStatus } from './sync'
+import { upcomingSongIndex, isKeyChange, type StageStatus } from './stage'
+import { resolveTheme, themeVars, type LiveTheme } from './theme'
+import type { LanguageLayout } from './languages'
+import { normalizeTransition, type SlideTransition } from './transition'
+import { capoNote } from './capo'
+
+export type Mode = 'song' | 'slide'
+
+export interface LiveSlide {
+  type:              string   // section type (verse/chorus/...)
+  label:             string   // section label, e.g. "Verse 1"
+  lyrics:            string
+  secondary?:        string   // second-language lyrics, line for line with `lyrics`
+  chords:            string
+  isSectionStart:    boolean  // first slide of its section
+  slideInSection:    number   // 0-based index within the section
+  sectionSlideCount: number   // total slides in the section
+}
+
+// Everything in the running order projects as slides; the kind only changes how
+// displays dress them up.
+interface LiveItemBase {
+  title:  string
+  slides: LiveSlide[]
+  theme?: LiveTheme  // overrides the setlist theme for this item
+}
+
+export interface LiveSetlistSong extends LiveItemBase {
+  kind?:   'song'   // absent on setlists pushed before other item kinds existed
+  artist?: string
+  ccli?:   string   // CCLI song number
+  key?:    string
+  notes?:  string   // arrangement notes for the band, e.g. "drums out on V2"
+  capo?:   number   // fret, see capo.ts
+}
+
+// Bible reading: title is the reference, slides are the chunked text.
+export interface LiveScripture extends LiveItemBase {
+  kind: 'scripture'
+  translation?: string
+}
+
+// With advanceSeconds, a run of announcements loops on a timer until GO.
+export interface LiveAnnouncement extends LiveItemBase {
+  kind: 'announcement'
+  imageUrl?: string
+  advanceSeconds?: number
+}
+
+// Counts down `seconds` from when it goes live, or to the service start if unset.
+export interface LiveCountdown extends LiveItemBase {
+  kind: 'countdown'
+  seconds?: number
+}
+
+export type LiveSetlistItem = LiveSetlistSong | LiveScripture | LiveAnnouncement | LiveCountdown
+
+export type LiveItemKind = NonNullable<LiveSetlistItem['kind']>
+
+export function itemKind(item: LiveSetlistItem): LiveItemKind {
+  return item.kind ?? 'song'
+}
+
+export function isSong(item: LiveSetlistItem | null | undefined): item is LiveSetlistSong {
+  return !!item && (item.kind === undefined || item.kind === 'song')
+}
+
+export interface LiveSetlist {
+  name: string
+  pushedAt: number
+  songs: LiveSetlistItem[]  // the running order; named for the stored shape, holds every item kind
+  theme?: LiveTheme
+  startsAt?: number  // ms epoch the service is due to start, from the setlist date/time
+  setlistId?: string // source setlist document, for the service log
+  languageLayout?: LanguageLayout  // how bilingual slides are drawn, default stacked
+  transition?: SlideTransition     // how displays move between slides, default a short crossfade
+}
+
+export interface BridgeState {
+  mode:         Mode
+  currentSong:  number  // -1 = standby
+  currentSlide: number  // -1 = standby
+  queuedSong:   number  // -1 = end of setlist / no queue
+  queuedSlide:  number  // -1 = no queue
+  isBlackout:   boolean
+  isLive:       boolean
+}
+
+export interface WSPayload {
+  type: 'state'
+  state: BridgeState
+  currentLyrics:    string
+  currentChords:    string
+  currentLabel:     string
+  currentSongTitle: string
+  currentArtist:    string
+  currentCcli:      string
+  currentKind:      LiveItemKind | null    // null = standby
+  currentImageUrl:  string | null          // announcement image
+  countdownTo:      number | null          // ms epoch a live countdown item reaches zero
+  currentSecondary: string                 // second-language lyrics, '' = single language
+  languageLayout:   LanguageLayout
+  transition:       SlideTransition          // every display animates slide changes the same way
+  nextLyrics:       string | null
+  nextChords:       string | null
+  nextLabel:        string | null
+  nextSongTitle:    string | null
+  buttonLabels:     string[]
+  currentButton:    number   // which of the 6 buttons is live (-1 = none)
+  queuedButton:     number   // which of the 6 buttons is queued (-1 = none)
+  setlistName:      string
+  songCount:        number
+  slideCount:       number   // slides in the current song
+  songNumber:       number   // 1-based, 0 = standby
+  slideNumber:      number   // 1-based within current song, 0 = standby
+  syncConnected:    boolean        // live link to Convex is up
+  lastSyncedAt:     number | null  // ms epoch of the last setlist sync, null = never / offline
+  pendingSetlist:   { name: string; songCount: number } | null  // staged push awaiting the operator
+  theme:            LiveTheme                // for the live song (or the setlist in standby)
+  themeVars:        Record<string, string>   // theme as CSS custom properties
+  // Stage confidence monitor
+  serviceStartsAt:   number | null   // ms epoch, null = no time on the setlist
+  songStartedAt:     number | null   // ms epoch the live song went up
+  stageMessage:      string          // operator message to the band, '' = none
+  currentKey:        string
+  currentNotes:      string
+  currentCapo:       string          // "Capo 2 (G shapes)", '' = no capo
+  upcomingSongTitle: string | null   // next song (not slide) the band will play
+  upcomingSongKey:   string | null
+  upcomingSongNotes: string | null
+  upcomingSongCapo:  string | null
+  keyChange:         boolean         // upcoming song is in a different key
+}
+
+export const EMPTY_SETLIST: LiveSetlist = { name: '', pushedAt: 0, songs: [] }
+
+export type Pos = { song: number; slide: number }
+
+export function nextPos(song: number, slide: number, setlist: LiveSetlist): Pos | null {
+  const s = setlist.songs[song]
+  if (!s) return null
+  if (slide + 1 < s.slides.length) return { song, slide: slide + 1 }
+  if (song + 1 < setlist.songs.length) return { song: song + 1, slide: 0 }
+  return null
+}
+
+function prevPos(song: number, slide: number, setlist: LiveSetlist): Pos | null {
+  if (slide - 1 >= 0) return { song, slide: slide - 1 }
+  if (song - 1 >= 0) {
+    const ps = setlist.songs[song - 1]
+    if (ps && ps.slides.length > 0) return { song: song - 1, slide: ps.slides.length - 1 }
+  }
+  return null
+}
+
+// An auto-advancing announcement and its auto-advancing neighbours loop as one
+// slideshow: the first and last item index of that run, or null.
+export function loopRange(setlist: LiveSetlist, song: number): [number, number] | null {
+  const loops = (i: number) => {
+    const item = setlist.songs[i]
+    return item?.kind === 'announcement' && !!item.advanceSeconds
+  }
+  if (!loops(song)) return null
+  let first = song
+  let last = song
+  while (loops(first - 1)) first--
+  while (loops(last + 1)) last++
+  return [first, last]
+}
+
+// What GO takes after a slide: the next one, or whatever follows a slideshow loop.
+function queueAfter(song: number, slide: number, setlist: LiveSetlist): Pos | null {
+  const loop = loopRange(setlist, song)
+  if (!loop) return nextPos(song, slide, setlist)
+  return nextPos(loop[1], setlist.songs[loop[1]].slides.length - 1, setlist)
+}
+
+// Slide indices that begin each section of a song (selection buttons map to these).
+export function sectionStarts(song: LiveSetlistItem): number[] {
+  const starts = song.slides.map((s, i) => (s.isSectionStart ? i : -1)).filter(i => i >= 0)
+  if (song.slides.length > 0 && (starts.length === 0 || starts[0] !== 0)) starts.unshift(0)
+  return starts
+}
+
+// Which section (0-based) a slide belongs to.
+function sectionIndexOf(song: LiveSetlistItem, slideIndex: number): number {
+  const starts = sectionStarts(song)
+  let idx = -1
+  for (let k = 0; k < starts.length; k++) if (starts[k] <= slideIndex) idx = k
+  return idx
+}
+
+export function initialState(): BridgeState {
+  return {
+    mode: 'song', currentSong: -1, currentSlide: -1,
+    queuedSong: 0, queuedSlide: 0, isBlackout: false, isLive: false,
+  }
+}
+
+export function applyGo(state: BridgeState, setlist: LiveSetlist): BridgeState {
+  if (setlist.songs.length === 0) return state
+  if (state.isBlackout) return { ...state, isBlackout: false }
+  if (state.queuedSong === -1) return state
+
+  const newSong = state.queuedSong
+  const newSlide = state.queuedSlide
+  const nx = queueAfter(newSong, newSlide, setlist)
+
+  return {
+    ...state, isLive: true,
+    currentSong: newSong, currentSlide: newSlide,
+    queuedSong: nx ? nx.song : -1,
+    queuedSlide: nx ? nx.slide : -1,
+  }
+}
+
+// Step the live projector back one slide, immediately.
+export function applyBack(state: BridgeState, setlist: LiveSetlist): BridgeState {
+  if (!state.isLive || state.currentSong < 0) return state
+  const pv = prevPos(state.currentSong, state.currentSlide, setlist)
+  if (!pv) return state
+  const nx = nextPos(pv.song, pv.slide, setlist) // == the slide we just left
+  return {
+    ...state,
+    currentSong: pv.song, currentSlide: pv.slide,
+    queuedSong: nx ? nx.song : -1,
+    queuedSlide: nx ? nx.slide : -1,
+  }
+}
+
+// Cut straight to a slide (remote "jump to song X slide Y"), bypassing the queue.
+// Out-of-range targets are a no-op, like the selection buttons.
+export function applyJump(state: BridgeState, song: number, slide: number, setlist: LiveSetlist): BridgeState {
+  const target = setlist.songs[song]
+  if (!target || slide < 0 || slide >= target.slides.length) return state
+  const nx = queueAfter(song, slide, setlist)
+  return {
+    ...state, isLive: true,
+    currentSong: song, currentSlide: slide,
+    queuedSong: nx ? nx.song : -1,
+    queuedSlide: nx ? nx.slide : -1,
+  }
+}
+
+// Put any slide in preview (the operator's slide grid); GO takes it live.
+// Out-of-range targets are a no-op.
+export function applyCue(state: BridgeState, song: number, slide: number, setlist: LiveSetlist): BridgeState {
+  const target = setlist.songs[song]
+  if (!target || slide < 0 || slide >= target.slides.length) return state
+  return { ...state, queuedSong: song, queuedSlide: slide }
+}
+
+// Auto-advance: while an announcement loop is live (and not blacked out), how
+// long until the next slide. Slideshows never step faster than every 2s.
+export const MIN_ADVANCE_SECONDS = 2
+
+export function advanceDelay(state: BridgeState, setlist: LiveSetlist): number | null {
+  if (!state.isLive || state.isBlackout || !loopRange(setlist, state.currentSong)) return null
+  const item = setlist.songs[state.currentSong] as LiveAnnouncement
+  return Math.max(MIN_ADVANCE_SECONDS, item.advanceSeconds ?? 0) * 1000
+}
+
+// The timer fired: step to the next slide of the loop, wrapping to its first.
+// The queue is left alone, so GO still leaves the loop.
+export function applyAutoAdvance(state: BridgeState, setlist: LiveSetlist): BridgeState {
+  if (advanceDelay(state, setlist) === null) return state
+  const [first, last] = loopRange(setlist, state.currentSong)!
+  const nx = nextPos(state.currentSong, state.currentSlide, setlist)
+  const to = nx && nx.song <= last ? nx : { song: first, slide: 0 }
+  if (to.song === state.currentSong && to.slide === state.currentSlide) return state
+  return { ...state, currentSong: to.song, currentSlide: to.slide }
+}
+
+export function applySelection(state: BridgeState, buttonIndex: number, setlist: LiveSetlist): BridgeState {
+  if (setlist.songs.length === 0) return state
+  if (state.mode === 'song') {
+    if (buttonIndex >= setlist.songs.length) return state
+    return { ...state, queuedSong: buttonIndex, queuedSlide: 0 }
+  }
+  // slide mode — jump to a section of the current song (one button per section)
+  if (state.currentSong === -1) return state
+  const currentSong = setlist.songs[state.currentSong]
+  if (!currentSong) return state
+  const starts = sectionStarts(currentSong)
+  if (buttonIndex >= starts.length) return state
+  return { ...state, queuedSong: state.currentSong, queuedSlide: starts[buttonIndex] }
+}
+
+export function applyModeToggle(state: BridgeState): BridgeState {
+  return { ...state, mode: state.mode === 'song' ? 'slide' : 'song' }
+}
+
+export function applyBlackout(state: BridgeState): BridgeState {
+  return { ...state, isBlackout: !state.isBlackout }
+}
+
+export function applyStandby(state: BridgeState): BridgeState {
+  return { ...state, isLive: false, currentSong: -1, currentSlide: -1 }
+}
+
+export function buildPayload(
+  state: BridgeState, setlist: LiveSetlist, sync?: SyncStatus, stage?: StageStatus,
+): WSPayload {
+  const curItem  = state.currentSong >= 0 ? (setlist.songs[state.currentSong] ?? null) : null
+  const curSong  = isSong(curItem) ? curItem : null
+  const curSlide = curItem && state.currentSlide >= 0 ? curItem.slides[state.currentSlide] : null
+  const nxtSong  = state.queuedSong >= 0 ? (setlist.songs[state.queuedSong] ?? null) : null
+  const nxtSlide = nxtSong && state.queuedSlide >= 0 ? (nxtSong.slides[state.queuedSlide] ?? null) : null
+
+  const theme    = resolveTheme(setlist, state.currentSong)
+  const upcoming = setlist.songs[upcomingSongIndex(state, setlist)] as LiveSetlistSong | undefined
+
+  const curStarts = curItem ? sectionStarts(curItem) : []
+  const buttonLabels = state.mode === 'song'
+    ? Array.from({ length: 6 }, (_, i) => setlist.songs[i]?.title.slice(0, 14) ?? '')
+    : Array.from({ length: 6 }, (_, i) => {
+        const start = curStarts[i]
+        if (start === undefined || !curItem) return ''
+        return curItem.slides[start].label.slice(0, 14).trimEnd()
+      })
+
+  let currentButton = -1
+  let queuedButton = -1
+  if (state.mode === 'song') {
+    currentButton = state.currentSong >= 0 && state.currentSong < 6 ? state.currentSong : -1
+    queuedButton  = state.queuedSong  >= 0 && state.queuedSong  < 6 ? state.queuedSong  : -1
+  } else if (curItem) {
+    if (state.currentSlide >= 0) {
+      const b = sectionIndexOf(curItem, state.currentSlide)
+      currentButton = b >= 0 && b < 6 ? b : -1
+    }
+    if (state.queuedSong === state.currentSong && state.queuedSlide >= 0) {
+      const b = sectionIndexOf(curItem, state.queuedSlide)
+      queuedButton = b >= 0 && b < 6 ? b : -1
+    }
+  }
+
+  return {
+    type: 'state', state,
+    currentLyrics:    curSlide?.lyrics ?? '',
+    currentChords:    curSlide?.chords ?? '',
+    currentLabel:     curSlide ? slideLabel(curSlide) : '',
+    currentSongTitle: curItem?.title ?? '',
+    currentArtist:    curSong?.artist ?? '',
+    currentCcli:      curSong?.ccli ?? '',
+    currentKind:      curItem ? itemKind(curItem) : null,
+    currentImageUrl:  curItem?.kind === 'announcement' ? (curItem.imageUrl ?? null) : null,
+    countdownTo:      curItem?.kind === 'countdown' ? countdownTarget(curItem, setlist, stage) : null,
+    currentSecondary: curSlide?.secondary ?? '',
+    languageLayout:   setlist.languageLayout ?? 'stacked',
+    transition:       normalizeTransition(setlist.transition),
+    nextLyrics:       nxtSlide?.lyrics ?? null,
+    nextChords:       nxtSlide?.chords ?? null,
+    nextLabel:        nxtSlide ? slideLabel(nxtSlide) : null,
+    nextSongTitle:    nxtSong?.title ?? null,
+    buttonLabels,
+    currentButton,
+    queuedButton,
+    setlistName:  setlist.name,
+    songCount:    setlist.songs.length,
+    slideCount:   curItem?.slides.length ?? 0,
+    songNumber:   state.currentSong  >= 0 ? state.currentSong  + 1 : 0,
+    slideNumber:  state.currentSlide >= 0 ? state.currentSlide + 1 : 0,
+    syncConnected:  sync?.connected ?? false,
+    lastSyncedAt:   sync?.lastSyncedAt ?? null,
+    pendingSetlist: sync?.pending ? { name: sync.pending.name, songCount: sync.pending.songs.length } : null,
+    theme,
+    themeVars: themeVars(theme),
+    serviceStartsAt:   setlist.startsAt ?? null,
+    songStartedAt:     stage?.songStartedAt ?? null,
+    stageMessage:      stage?.message ?? '',
+    currentKey:        curSong?.key ?? '',
+    currentNotes:      curSong?.notes ?? '',
+    currentCapo:       curSong?.key ? capoNote(curSong.key, curSong.capo) : '',
+    upcomingSongTitle: upcoming?.title ?? null,
+    upcomingSongKey:   upcoming?.key ?? null,
+    upcomingSongNotes: upcoming?.notes ?? null,
+    upcomingSongCapo:  upcoming?.key ? capoNote(upcoming.key, upcoming.capo) || null : null,
+    keyChange:         !!curSong && isKeyChange(curSong.key, upcoming?.key),
+  }
+}
+
+// When a countdown item reaches zero: the service start, or `seconds` after it went live.
+export function countdownTarget(item: LiveCountdown, setlist: LiveSetlist, stage?: Pick<StageStatus, 'songStartedAt'>): number | null {
+  if (item.seconds === undefined) return setlist.startsAt ?? null
+  return stage?.songStartedAt != null ? stage.songStartedAt + item.seconds * 1000 : null
+}
+
+// "Verse 1" for single-slide sections, "Verse 1 · 2/3" for multi-slide ones.
+export function slideLabel(slide: Pick<LiveSlide, 'label' | 'slideInSection' | 'sectionSlideCount'>): string {
+  if (slide.sectionSlideCount <= 1) return slide.label
+  return `${slide.label} · ${slide.slideInSection + 1}/${slide.sectionSlideCount}`
+}
+
+export type ButtonEvent =
+  | { type: 'selection'; index: number }
+  | { type: 'mode' }
+  | { type: 'blackout' }
+  | { type: 'go' }
+  | { type: 'back' }
+  | { type: 'standby' }
+
+export function applyEvent(state: BridgeState, event: ButtonEvent, setlist: LiveSetlist): BridgeState {
+  switch (event.type) {
+    case 'selection': return applySelection(state, event.index, setlist)
+    case 'go':        return applyGo(state, setlist)
+    case 'back':      return applyBack(state, setlist)
+    case 'mode':      return applyModeToggle(state)
+    case 'blackout':  return applyBlackout(state)
+    case 'standby':   return applyStandby(state)
+  }
+}
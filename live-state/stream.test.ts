@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { fitLines, attribution, parseStreamOptions } from './stream'
+import { initialState, applyGo, buildPayload, type LiveSetlist } from './state'
+import { slide } from './test-helpers'
+
+describe('fitLines', () => {
+  it('keeps short slides as they are, minus blanks', () => {
+    expect(fitLines('Amazing grace\n\nhow sweet', 2)).toEqual(['Amazing grace', 'how sweet'])
+  })
+  it('joins neighbours evenly to fit the line count', () => {
+    expect(fitLines('a\nb\nc\nd', 2)).toEqual(['a b', 'c d'])
+    expect(fitLines('a\nb\nc', 2)).toEqual(['a b', 'c'])
+    expect(fitLines('a\nb\nc\nd', 1)).toEqual(['a b c d'])
+  })
+  it('treats nonsense line counts as one', () => {
+    expect(fitLines('a\nb', 0)).toEqual(['a b'])
+  })
+  it('returns nothing for an empty slide', () => {
+    expect(fitLines('  \n', 2)).toEqual([])
+  })
+})
+
+describe('attribution', () => {
+  it('includes whatever is known', () => {
+    expect(attribution('Amazing Grace', 'John Newton', '4768151', '11223344'))
+      .toBe('Amazing Grace — John Newton · CCLI Song # 4768151 · CCLI License # 11223344')
+    expect(attribution('Amazing Grace')).toBe('Amazing Grace')
+    expect(attribution('Amazing Grace', '', '', '99')).toBe('Amazing Grace · CCLI License # 99')
+  })
+  it('is empty without a title', () => {
+    expect(attribution('', 'Someone')).toBe('')
+  })
+})
+
+describe('parseStreamOptions', () => {
+  it('defaults to two lines and clamps', () => {
+    expect(parseStreamOptions(new URLSearchParams(''))).toEqual({ lines: 2, license: '' })
+    expect(parseStreamOptions(new URLSearchParams('lines=3&license=%2012%20'))).toEqual({ lines: 3, license: '12' })
+    expect(parseStreamOptions(new URLSearchParams('lines=40')).lines).toBe(6)
+    expect(parseStreamOptions(new URLSearchParams('lines=x')).lines).toBe(2)
+  })
+})
+
+describe('buildPayload attribution fields', () => {
+  it('carries the live song artist and CCLI number', () => {
+    const setlist: LiveSetlist = {
+      name: 'Sun', pushedAt: 1,
+      songs: [{ title: 'Amazing Grace', artist: 'John Newton', ccli: '4768151', slides: [slide()] }],
+    }
+    const p = buildPayload(applyGo(initialState(), setlist), setlist)
+    expect(p.currentArtist).toBe('John Newton')
+    expect(p.currentCcli).toBe('4768151')
+    expect(buildPayload(initialState(), { ...setlist, songs: [] }).currentCcli).toBe('')
+  })
+})
@@ -0,0 +1,35 @@
+// Livestream lower third: the current slide squeezed into a fixed number of
+// lines over a transparent background, with song attribution on first slides.
+
+export const DEFAULT_STREAM_LINES = 2
+
+// Fit lyric lines into at most maxLines by joining neighbours evenly, so a
+// four-line slide becomes two lines of two rather than 3 + 1.
+export function fitLines(lyrics: string, maxLines: number = DEFAULT_STREAM_LINES): string[] {
+  const lines = lyrics.split('\n').map(l => l.trim()).filter(Boolean)
+  const max = Math.max(1, Math.floor(maxLines))
+  if (lines.length <= max) return lines
+  const per = Math.ceil(lines.length / max)
+  const out: string[] = []
+  for (let i = 0; i < lines.length; i += per) out.push(lines.slice(i, i + per).join(' '))
+  return out
+}
+
+// "Title — Artist · CCLI Song # 123 · CCLI License # 456". Parts that are
+// unknown are left out; no title means nothing to attribute.
+export function attribution(title: string, artist = '', ccli = '', license = ''): string {
+  if (!title) return ''
+  const parts = [artist ? `${title} — ${artist}` : title]
+  if (ccli)    parts.push(`CCLI Song # ${ccli}`)
+  if (license) parts.push(`CCLI License # ${license}`)
+  return parts.join(' · ')
+}
+
+// Query-string options shared by /live/stream and the bridge /stream page.
+export function parseStreamOptions(params: URLSearchParams): { lines: number; license: string } {
+  const lines = parseInt(params.get('lines') ?? '', 10)
+  return {
+    lines:   lines > 0 ? Math.min(lines, 6) : DEFAULT_STREAM_LINES,
+    license: params.get('license')?.trim() ?? '',
+  }
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import { receiveSetlist, acceptPending, dismissPending, backoffDelay, INITIAL_SYNC } from './sync'
+import { initialState, applyGo, applyModeToggle, buildPayload, type LiveSetlist } from './state'
+
+function setlist(name: string, pushedAt: number): LiveSetlist {
+  return {
+    name, pushedAt,
+    songs: [{
+      title: `${name} song`,
+      slides: [{ type: 'verse', label: 'Verse', lyrics: name, chords: '', isSectionStart: true, slideInSection: 0, sectionSlideCount: 1 }],
+    }],
+  }
+}
+
+const OLD = setlist('Old', 1000)
+const NEW = setlist('New', 2000)
+
+describe('receiveSetlist', () => {
+  it('swaps in a new push while in standby', () => {
+    const r = receiveSetlist(INITIAL_SYNC, initialState(), OLD, NEW, 5000)
+    expect(r.setlist).toBe(NEW)
+    expect(r.sync).toEqual({ connected: true, lastSyncedAt: 5000, pending: null })
+  })
+  it('re-queues the top of a swapped-in setlist', () => {
+    const standby = { ...initialState(), queuedSong: 4, queuedSlide: 2 }
+    const r = receiveSetlist(INITIAL_SYNC, standby, OLD, NEW, 5000)
+    expect([r.state.queuedSong, r.state.queuedSlide]).toEqual([0, 0])
+  })
+  it('stages a new push while live instead of replacing the setlist', () => {
+    const live = applyGo(initialState(), OLD)
+    const r = receiveSetlist(INITIAL_SYNC, live, OLD, NEW, 5000)
+    expect(r.setlist).toBe(OLD)
+    expect(r.state).toBe(live)
+    expect(r.sync.pending).toBe(NEW)
+    expect(buildPayload(r.state, r.setlist, r.sync).pendingSetlist).toEqual({ name: 'New', songCount: 1 })
+  })
+  it('ignores an update with the same pushedAt but still marks the sync time', () => {
+    const edited = { ...OLD, songs: [] }
+    const r = receiveSetlist(INITIAL_SYNC, initialState(), OLD, edited, 7000)
+    expect(r.setlist).toBe(OLD)
+    expect(r.sync.lastSyncedAt).toBe(7000)
+  })
+  it('keeps the current setlist when nothing is live in Convex', () => {
+    expect(receiveSetlist(INITIAL_SYNC, initialState(), OLD, null, 1).setlist).toBe(OLD)
+  })
+})
+
+describe('acceptPending / dismissPending', () => {
+  const live = applyModeToggle(applyGo(initialState(), OLD))
+  const staged = receiveSetlist(INITIAL_SYNC, live, OLD, NEW, 5000)
+
+  it('swaps in the staged setlist and parks in standby, keeping the mode', () => {
+    const r = acceptPending(staged.sync, staged.state, staged.setlist)
+    expect(r.setlist).toBe(NEW)
+    expect(r.sync.pending).toBeNull()
+    expect(r.state).toEqual({ ...initialState(), mode: 'slide' })
+  })
+  it('is a no-op with nothing staged', () => {
+    const r = acceptPending(INITIAL_SYNC, live, OLD)
+    expect(r.setlist).toBe(OLD)
+    expect(r.state).toBe(live)
+  })
+  it('dismiss drops the staged setlist', () => {
+    expect(dismissPending(staged.sync).pending).toBeNull()
+    expect(dismissPending(INITIAL_SYNC)).toBe(INITIAL_SYNC)
+  })
+})
+
+describe('backoffDelay', () => {
+  it('doubles up to the cap', () => {
+    expect([0, 1, 2, 3, 10].map(n => backoffDelay(n))).toEqual([1000, 2000, 4000, 8000, 30_000])
+  })
+})
+
+describe('buildPayload sync fields', () => {
+  it('defaults to never synced', () => {
+    const p = buildPayload(initialState(), OLD)
+    expect(p.syncConnected).toBe(false)
+    expect(p.lastSyncedAt).toBeNull()
+    expect(p.pendingSetlist).toBeNull()
+  })
+})
@@ -0,0 +1,46 @@
+// Reactive setlist sync: what to do when a subscription delivers a new push,
+// plus the "last synced" status the operator screens show.
+
+import { initialState, type BridgeState, type LiveSetlist } from './state'
+
+export interface SyncStatus {
+  connected:    boolean
+  lastSyncedAt: number | null       // ms epoch of the last subscription update
+  pending:      LiveSetlist | null  // push that arrived mid-service, awaiting confirmation
+}
+
+export const INITIAL_SYNC: SyncStatus = { connected: false, lastSyncedAt: null, pending: null }
+
+export interface SyncResult {
+  sync:    SyncStatus
+  setlist: LiveSetlist
+  state:   BridgeState
+}
+
+// A subscription update. Same pushedAt = our own mid-service edit echoing back
+// (or nothing new), so the running setlist stays put. While live, a new push is
+// staged rather than swapped in under the projector.
+export function receiveSetlist(
+  sync: SyncStatus, state: BridgeState, setlist: LiveSetlist,
+  incoming: LiveSetlist | null, now: number,
+): SyncResult {
+  const synced = { ...sync, connected: true, lastSyncedAt: now }
+  if (!incoming || incoming.pushedAt === setlist.pushedAt) return { sync: synced, setlist, state }
+  if (state.isLive) return { sync: { ...synced, pending: incoming }, setlist, state }
+  return { sync: { ...synced, pending: null }, setlist: incoming, state: { ...state, queuedSong: 0, queuedSlide: 0 } }
+}
+
+// Operator took the staged setlist: swap it in and park at the top in standby.
+export function acceptPending(sync: SyncStatus, state: BridgeState, setlist: LiveSetlist): SyncResult {
+  if (!sync.pending) return { sync, setlist, state }
+  return { sync: { ...sync, pending: null }, setlist: sync.pending, state: { ...initialState(), mode: state.mode } }
+}
+
+export function dismissPending(sync: SyncStatus): SyncStatus {
+  return sync.pending ? { ...sync, pending: null } : sync
+}
+
+// Exponential resubscribe delay: 1s, 2s, 4s … capped at 30s.
+export function backoffDelay(attempt: number, baseMs = 1000, maxMs = 30_000): number {
+  return Math.min(maxMs, baseMs * 2 ** Math.max(0, attempt))
+}
@@ -0,0 +1,11 @@
+// Fixtures shared by the test files.
+
+import type { LiveSlide } from './state'
+
+// A verse slide; `inSec` and `count` place it within a split section.
+export function slide(label = 'Verse', lyrics = 'x', inSec = 0, count = 1): LiveSlide {
+  return {
+    type: 'verse', label, lyrics, chords: '',
+    isSectionStart: inSec === 0, slideInSection: inSec, sectionSlideCount: count,
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { resolveTheme, themeVars, fontUrl, DEFAULT_THEME, type LiveTheme } from './theme'
+import { initialState, applyGo, buildPayload, type LiveSetlist } from './state'
+import { slide } from './test-helpers'
+
+const LAWN: LiveTheme = {
+  ...DEFAULT_THEME,
+  name: 'HUB Lawn',
+  background: { kind: 'video', url: 'https://cdn.example/stars.mp4', dim: 0.4 },
+  fontFamily: 'Montserrat', fontSize: 5, shadow: true, outline: 2, layout: 'lowerThird', safeArea: 6,
+}
+const WARM: LiveTheme = { ...DEFAULT_THEME, name: 'Warm', background: { kind: 'gradient', from: '#301', to: '#000', angle: 180 } }
+
+const SETLIST: LiveSetlist = {
+  name: 'Lawn night', pushedAt: 1, theme: LAWN,
+  songs: [{ title: 'A', slides: [slide()] }, { title: 'B', slides: [slide()], theme: WARM }],
+}
+
+describe('resolveTheme', () => {
+  it('prefers the song theme, then the setlist theme, then the default', () => {
+    expect(resolveTheme(SETLIST, 1)).toBe(WARM)
+    expect(resolveTheme(SETLIST, 0)).toBe(LAWN)
+    expect(resolveTheme(SETLIST, -1)).toBe(LAWN)
+    expect(resolveTheme({ ...SETLIST, theme: undefined }, 0)).toBe(DEFAULT_THEME)
+  })
+})
+
+describe('themeVars', () => {
+  it('renders the default as the original look', () => {
+    const vars = themeVars(DEFAULT_THEME)
+    expect(vars['--theme-bg']).toBe('#0a0a0a')
+    expect(vars['--theme-font']).toBe("'Cormorant Garamond', Georgia, serif")
+    expect(vars['--theme-size']).toBe('7vw')
+    expect(vars['--theme-shadow']).toBe('none')
+  })
+  it('layers a dimming veil over image backgrounds', () => {
+    const vars = themeVars({ ...DEFAULT_THEME, background: { kind: 'image', url: 'https://x/y.jpg', dim: 0.5 } })
+    expect(vars['--theme-bg']).toContain('rgba(0,0,0,0.5)')
+    expect(vars['--theme-bg']).toContain('url("https://x/y.jpg")')
+  })
+  it('leaves video dimming to the overlay variable', () => {
+    const vars = themeVars(LAWN)
+    expect(vars['--theme-bg']).toBe('#000')
+    expect(vars['--theme-bg-dim']).toBe('0.4')
+    expect(vars['--theme-stroke']).toBe('2px rgba(0,0,0,0.9)')
+    expect(vars['--theme-safe-x']).toBe('6vw')
+  })
+  it('can size in container units for previews', () => {
+    const vars = themeVars(LAWN, { x: 'cqw', y: 'cqh' })
+    expect(vars['--theme-size']).toBe('5cqw')
+    expect(vars['--theme-safe-y']).toBe('6cqh')
+  })
+  it('builds gradients from the angle and stops', () => {
+    expect(themeVars(WARM)['--theme-bg']).toBe('linear-gradient(180deg, #301, #000)')
+  })
+})
+
+describe('fontUrl', () => {
+  it('encodes the family name', () => {
+    expect(fontUrl('Playfair Display')).toContain('family=Playfair%20Display')
+  })
+})
+
+describe('buildPayload theme', () => {
+  it('follows the live song', () => {
+    expect(buildPayload(initialState(), SETLIST).theme).toBe(LAWN)
+    let s = applyGo(initialState(), SETLIST)
+    s = applyGo(s, SETLIST)
+    const p = buildPayload(s, SETLIST)
+    expect(p.theme).toBe(WARM)
+    expect(p.themeVars['--theme-bg']).toBe('linear-gradient(180deg, #301, #000)')
+  })
+})
@@ -0,0 +1,83 @@
+// Projector themes: background, typography and layout. Every display surface
+// (/live, the bridge display, the desktop projector) renders from these.
+
+import type { LiveSetlist } from './state'
+
+export type ThemeBackground =
+  | { kind: 'color';    color: string }
+  | { kind: 'gradient'; from: string; to: string; angle: number }
+  | { kind: 'image';    url: string; dim: number }   // dim: 0–1 black overlay for legibility
+  | { kind: 'video';    url: string; dim: number }   // looped, muted
+
+export type ThemeLayout = 'centered' | 'lowerThird'
+
+export interface LiveTheme {
+  name:       string
+  background: ThemeBackground
+  fontFamily: string   // Google Fonts family name, e.g. "Montserrat"
+  fontSize:   number   // lyric size in vw
+  textColor:  string
+  shadow:     boolean
+  outline:    number   // text stroke in px, 0 = none
+  layout:     ThemeLayout
+  safeArea:   number   // margin on every edge, % of the screen
+}
+
+// The original hardcoded look.
+export const DEFAULT_THEME: LiveTheme = {
+  name:       'Default',
+  background: { kind: 'color', color: '#0a0a0a' },
+  fontFamily: 'Cormorant Garamond',
+  fontSize:   7,
+  textColor:  '#f5f5f0',
+  shadow:     false,
+  outline:    0,
+  layout:     'centered',
+  safeArea:   4,
+}
+
+export const THEME_FONTS = [
+  'Cormorant Garamond', 'Playfair Display', 'Lora', 'Inter', 'Montserrat', 'Lato', 'Oswald',
+]
+
+export function fontUrl(family: string): string {
+  return `https://fonts.googleapis.com/css2?family=${encodeURIComponent(family)}:wght@300;400;600&display=swap`
+}
+
+// A song's own theme wins, then the setlist's, then the default.
+export function resolveTheme(setlist: LiveSetlist, songIndex: number): LiveTheme {
+  return setlist.songs[songIndex]?.theme ?? setlist.theme ?? DEFAULT_THEME
+}
+
+function backgroundCss(bg: ThemeBackground): string {
+  switch (bg.kind) {
+    case 'color':    return bg.color
+    case 'gradient': return `linear-gradient(${bg.angle}deg, ${bg.from}, ${bg.to})`
+    case 'image': {
+      const veil = `rgba(0,0,0,${bg.dim})`
+      return `linear-gradient(${veil}, ${veil}), url("${bg.url}") center / cover no-repeat, #000`
+    }
+    case 'video':    return '#000'
+  }
+}
+
+// Units the sizes are expressed in: the viewport for real screens, container
+// query units (cqw/cqh) for scaled-down previews.
+export type ThemeUnits = { x: string; y: string }
+
+// CSS custom properties for a theme. Surfaces set these on :root and style
+// from var(--…); a video background additionally needs a <video> element.
+export function themeVars(theme: LiveTheme, units: ThemeUnits = { x: 'vw', y: 'vh' }): Record<string, string> {
+  const bg = theme.background
+  return {
+    '--theme-bg':        backgroundCss(bg),
+    '--theme-bg-dim':    bg.kind === 'video' ? String(bg.dim) : '0',
+    '--theme-font':      `'${theme.fontFamily}', Georgia, serif`,
+    '--theme-size':      `${theme.fontSize}${units.x}`,
+    '--theme-color':     theme.textColor,
+    '--theme-shadow':    theme.shadow ? '0 0.06em 0.3em rgba(0,0,0,0.85)' : 'none',
+    '--theme-stroke':    theme.outline > 0 ? `${theme.outline}px rgba(0,0,0,0.9)` : '0 transparent',
+    '--theme-safe-y':    `${theme.safeArea}${units.y}`,
+    '--theme-safe-x':    `${theme.safeArea}${units.x}`,
+  }
+}
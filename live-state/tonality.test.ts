@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { estimateKey, keyMismatch, type ChordSource } from './tonality'
+
+// One section per string, one line of chords each
+const song = (...sections: string[]): ChordSource[] =>
+  sections.map(s => ({ lines: [{ chords: s.split(' ').map((chord, position) => ({ chord, position })) }] }))
+
+describe('estimateKey', () => {
+  it.each([
+    ['G',   ['G D Em C', 'G D C G']],
+    ['D',   ['D A/C# Bm G', 'G D/F# A D']],
+    ['Bb',  ['Bb F Gm Eb', 'Eb F Bb']],
+    ['Em',  ['Em C G D', 'Em C D Em']],
+    ['Am',  ['Am Dm E7 Am', 'F G E Am']],
+    ['F#m', ['F#m D A E', 'F#m D E F#m']],
+    ['E',   ['E7 A7 E7 B7 A7 E7']],
+  ])('hears %s', (key, sections) => {
+    const [best] = estimateKey(song(...sections))
+    expect(best.key).toBe(key)
+    expect(best.confidence).toBeGreaterThan(0.6)
+  })
+
+  it('tells relative keys apart by where the song starts and ends', () => {
+    expect(estimateKey(song('G C D G'))[0].key).toBe('G')
+    expect(estimateKey(song('Em C D Em'))[0].key).toBe('Em')
+  })
+
+  it('is unsure when the chords could go either way', () => {
+    const [first, second] = estimateKey(song('Am F C G', 'Am F C G'))
+    expect(first.confidence).toBeLessThan(0.5)
+    expect([first.key, second.key].sort()).toEqual(['Am', 'C'])
+  })
+
+  it('skips what is not a chord, and has nothing to say without chords', () => {
+    expect(estimateKey(song('N.C. G C D G'))[0].key).toBe('G')
+    expect(estimateKey(song('N.C.'))).toEqual([])
+    expect(estimateKey([])).toEqual([])
+  })
+})
+
+describe('keyMismatch', () => {
+  it('suggests the key the chords point at', () => {
+    expect(keyMismatch('C', song('G D Em C', 'G D C G'))?.key).toBe('G')
+    expect(keyMismatch('C', song('Em C G D', 'Em C D Em'))?.key).toBe('Em')
+  })
+
+  it('keeps quiet when the stored key fits, or the chords are unsure', () => {
+    expect(keyMismatch('G', song('G D Em C', 'G D C G'))).toBeNull()
+    expect(keyMismatch('Gb', song('F# C# D#m B', 'F# C# B F#'))).toBeNull()
+    expect(keyMismatch('Am', song('Am F C G', 'Am F C G'))).toBeNull()
+    expect(keyMismatch('C', song('C Bb F C', 'Am F G C'))).toBeNull()
+  })
+
+  it('leaves modal keys alone', () => {
+    expect(keyMismatch('D Dorian', song('Dm G Dm G'))).toBeNull()
+  })
+})
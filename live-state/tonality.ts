@@ -0,0 +1,97 @@
+// Key estimation from a song's chords, for imports that arrive without a key
+// and stored keys that don't match the chart. Every major and minor key is
+// scored on how well the chords sit in it, with the chords a song or section
+// starts and ends on counting extra, since those are the ones that sound home.
+
+import { parseChord, pitchClass, type ParsedChord } from './chords'
+import { diatonicChords, keysInMode, parseKey } from './keys'
+import { scaleDegree } from './numbers'
+
+export interface KeyEstimate {
+  key:        string
+  confidence: number  // 0–1: how far this key stands out from the rest
+}
+
+export interface ChordSource {
+  lines: { chords: { chord: string; position: number }[] }[]
+}
+
+// How strongly a chord on each scale degree (1–7) points at the key
+const DEGREE_FIT: Record<'major' | 'minor', number[]> = {
+  major: [1, 0.6, 0.5, 0.8, 0.8, 0.6, 0.2],
+  minor: [1, 0.3, 0.6, 0.8, 0.8, 0.7, 0.6],
+}
+
+const SONG_EDGE = 2      // extra weight on the first and last chord of the song
+const SECTION_EDGE = 0.5 // and of each section
+const SHARPNESS = 10     // how quickly confidence falls away from the best score
+
+// The song's chords in order, each with its weight.
+function weightedChords(sections: ChordSource[]): { chord: ParsedChord; weight: number }[] {
+  const bySection = sections.map(section => section.lines
+    .flatMap(line => [...line.chords].sort((a, b) => a.position - b.position))
+    .map(c => parseChord(c.chord))
+    .filter((c): c is ParsedChord => c !== null))
+  const all = bySection.flatMap((chords, s) => chords.map((chord, i) => ({
+    chord,
+    weight: 1 + (i === 0 || i === chords.length - 1 ? SECTION_EDGE : 0) + (s === 0 && i === 0 ? SONG_EDGE : 0),
+  })))
+  if (all.length) all[all.length - 1].weight += SONG_EDGE
+  return all
+}
+
+// How well one chord sits in a key: best on the tonic, well on the primary
+// chords, a little for a borrowed flat-side major (bVII in major), and
+// against for anything else off the scale. A major V counts in minor.
+function fit(chord: ParsedChord, key: string, mode: 'major' | 'minor', triads: (ParsedChord | null)[]): number {
+  const degree = scaleDegree(chord.root, key)
+  if (!degree) return 0
+  if (degree.accidental) return degree.accidental === 'b' && chord.quality === 'major' ? 0.1 : -0.5
+  const base = DEGREE_FIT[mode][degree.degree - 1]
+  const expected = triads[degree.degree - 1]?.quality
+  const quality = chord.quality === 'halfDiminished' ? 'diminished' : chord.quality
+  if (quality === 'power' || chord.suspensions.length > 0) return base * 0.9
+  if (quality === expected || (mode === 'minor' && degree.degree === 5 && quality === 'major')) return base
+  return 0
+}
+
+// Every major and minor key, best first; empty when the song has no chords.
+export function estimateKey(sections: ChordSource[]): KeyEstimate[] {
+  const chords = weightedChords(sections)
+  const total = chords.reduce((sum, c) => sum + c.weight, 0)
+  if (total === 0) return []
+  const scored = (['major', 'minor'] as const).flatMap(mode => keysInMode(mode).map(key => {
+    const triads = diatonicChords(key).map(c => parseChord(c))
+    const score = chords.reduce((sum, c) => sum + c.weight * fit(c.chord, key, mode, triads), 0) / total
+    return { key, score }
+  }))
+  const best = Math.max(...scored.map(s => s.score))
+  const odds = scored.map(s => Math.exp(SHARPNESS * (s.score - best)))
+  const sum = odds.reduce((a, b) => a + b, 0)
+  return scored
+    .map((s, i) => ({ key: s.key, confidence: odds[i] / sum }))
+    .sort((a, b) => b.confidence - a.confidence)
+}
+
+// Whether two keys are the same, however spelled (F# and Gb).
+export function sameKey(a: string, b: string): boolean {
+  const ka = parseKey(a)
+  const kb = parseKey(b)
+  return !!ka && !!kb && ka.mode === kb.mode && pitchClass(ka.tonic) === pitchClass(kb.tonic)
+}
+
+const CONFIDENT = 0.6
+const UNLIKELY = 0.15
+
+// The key to suggest instead of `stored`, when the chords clearly point
+// elsewhere; null when they agree, are unsure, or the stored key is modal
+// (only major and minor are estimated).
+export function keyMismatch(stored: string, sections: ChordSource[]): KeyEstimate | null {
+  const mode = parseKey(stored)?.mode
+  if (mode !== 'major' && mode !== 'minor') return null
+  const estimates = estimateKey(sections)
+  const [best] = estimates
+  if (!best || best.confidence < CONFIDENT || sameKey(best.key, stored)) return null
+  const current = estimates.find(e => sameKey(e.key, stored))
+  return !current || current.confidence < UNLIKELY ? best : null
+}
@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest'
+import { normalizeTransition, DEFAULT_TRANSITION } from './transition'
+import { initialState, buildPayload, EMPTY_SETLIST } from './state'
+
+describe('normalizeTransition', () => {
+  it('defaults, drops the duration of a cut and clamps the rest', () => {
+    expect(normalizeTransition()).toEqual(DEFAULT_TRANSITION)
+    expect(normalizeTransition({ kind: 'cut', ms: 800 })).toEqual({ kind: 'cut', ms: 0 })
+    expect(normalizeTransition({ kind: 'fadeBlack', ms: 9000 })).toEqual({ kind: 'fadeBlack', ms: 3000 })
+    expect(normalizeTransition({ kind: 'crossfade', ms: -5 })).toEqual({ kind: 'crossfade', ms: 0 })
+  })
+  it('rides along in every payload', () => {
+    expect(buildPayload(initialState(), EMPTY_SETLIST).transition).toEqual(DEFAULT_TRANSITION)
+    expect(buildPayload(initialState(), { ...EMPTY_SETLIST, transition: { kind: 'fadeBlack', ms: 1000 } }).transition)
+      .toEqual({ kind: 'fadeBlack', ms: 1000 })
+  })
+})
@@ -0,0 +1,26 @@
+// How displays move from one slide to the next. Carried in every payload so
+// the projector, bridge display and /live animate the same way.
+
+export type TransitionKind = 'cut' | 'crossfade' | 'fadeBlack'
+
+export interface SlideTransition {
+  kind: TransitionKind
+  ms:   number  // whole transition; fade-through-black spends half going down, half coming up
+}
+
+export const TRANSITION_KINDS: { kind: TransitionKind; name: string }[] = [
+  { kind: 'cut',       name: 'Cut' },
+  { kind: 'crossfade', name: 'Crossfade' },
+  { kind: 'fadeBlack', name: 'Fade through black' },
+]
+
+export const DEFAULT_TRANSITION: SlideTransition = { kind: 'crossfade', ms: 300 }
+export const MAX_TRANSITION_MS = 3000
+
+// Unset means the default; a cut has no duration and others stay within 0–3s.
+export function normalizeTransition(t?: Partial<SlideTransition>): SlideTransition {
+  const kind = t?.kind ?? DEFAULT_TRANSITION.kind
+  if (kind === 'cut') return { kind, ms: 0 }
+  const ms = Number.isFinite(t?.ms) ? Math.round(t!.ms!) : DEFAULT_TRANSITION.ms
+  return { kind, ms: Math.min(MAX_TRANSITION_MS, Math.max(0, ms)) }
+}
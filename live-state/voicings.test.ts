@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { fretVoicing, pianoVoicing, GUITAR, UKULELE, type Instrument } from './voicings'
+import { parseChord } from './chords'
+
+const shape = (chord: string, instrument: Instrument) => {
+  const voicing = fretVoicing(parseChord(chord)!, instrument)
+  return voicing && voicing.frets.map(f => f === -1 ? 'x' : f).join('')
+}
+
+describe('fretVoicing', () => {
+  it('finds the open guitar shapes', () => {
+    expect(shape('C', GUITAR)).toBe('x32010')
+    expect(shape('G', GUITAR)).toBe('320003')
+    expect(shape('D', GUITAR)).toBe('xx0232')
+    expect(shape('Am', GUITAR)).toBe('x02210')
+    expect(shape('E', GUITAR)).toBe('022100')
+    expect(shape('Cmaj7', GUITAR)).toBe('x32000')
+  })
+
+  it('barres when it has to', () => {
+    expect(shape('F', GUITAR)).toBe('133211')
+    expect(shape('Ab', GUITAR)).toBe('431114')
+  })
+
+  it('puts the bass of a slash chord on the lowest string', () => {
+    expect(shape('G/B', GUITAR)).toBe('x20003')
+    expect(shape('D/F#', GUITAR)).toBe('200232')
+    expect(shape('F#m7/A', GUITAR)).toBe('x02222')
+  })
+
+  it('plays every string of a ukulele', () => {
+    expect(shape('C', UKULELE)).toBe('0003')
+    expect(shape('G', UKULELE)).toBe('0232')
+    expect(shape('Am', UKULELE)).toBe('2000')
+    expect(shape('F', UKULELE)).toBe('2010')
+  })
+
+  it('leaves out the fifth before giving up, and gives up past four strings', () => {
+    expect(shape('C9', UKULELE)).not.toBeNull()
+    expect(shape('C7#9#11', UKULELE)).toBeNull()
+  })
+
+  it('starts the diagram where the hand is', () => {
+    expect(fretVoicing(parseChord('C')!, GUITAR)!.baseFret).toBe(1)
+    expect(fretVoicing(parseChord('Ddim')!, UKULELE)).toEqual({ frets: [7, 5, 4, 5], baseFret: 4 })
+  })
+})
+
+describe('pianoVoicing', () => {
+  it('puts the bass in the left hand and the chord in close position', () => {
+    expect(pianoVoicing(parseChord('C')!)).toEqual([48, 60, 64, 67])
+    expect(pianoVoicing(parseChord('F#m7/A')!)).toEqual([57, 66, 69, 73, 76])
+    expect(pianoVoicing(parseChord('Cadd9')!)).toEqual([48, 60, 62, 64, 67])
+  })
+})
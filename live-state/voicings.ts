@@ -0,0 +1,128 @@
+// Chord voicings for the diagrams shown on charts and printed with exports:
+// fingerings for fretted instruments, found by searching the neck for the
+// easiest shape that sounds the chord, and a two-hand piano voicing.
+
+import { pitchClass, chordIntervals, type ParsedChord } from './chords'
+
+export interface Instrument {
+  name:   string
+  tuning: number[]  // MIDI note of each open string, low string first
+  mutes:  number    // how many low strings a shape may leave unplayed
+  bass:   boolean   // whether the lowest string carries the bass; not on a re-entrant ukulele
+}
+
+export const GUITAR: Instrument  = { name: 'Guitar',  tuning: [40, 45, 50, 55, 59, 64], mutes: 2, bass: true }
+export const UKULELE: Instrument = { name: 'Ukulele', tuning: [67, 60, 64, 69],         mutes: 0, bass: false }
+
+export interface FretVoicing {
+  frets:    number[]  // per string, low string first: -1 unplayed, 0 open
+  baseFret: number    // the fret at the top of the diagram
+}
+
+const SPAN = 4       // frets one hand covers
+const MAX_FRET = 12
+const FINGERS = 4
+
+// The tones a chord can't do without, and those a shape may leave out: the
+// fifth (unless it's the bass), and the 9th and 11th under an 11th or 13th.
+function chordTones(chord: ParsedChord): { required: Set<number>; optional: Set<number>; bass: number } {
+  const root = pitchClass(chord.root)
+  const bass = chord.bass ? pitchClass(chord.bass) : root
+  const intervals = chordIntervals(chord)
+  const skippable = new Set<number>()
+  if (chord.quality !== 'power') skippable.add(7)
+  if ((chord.extension?.degree ?? 0) >= 11) skippable.add(14)
+  if (chord.extension?.degree === 13) skippable.add(17)
+  const required = new Set([bass])
+  const optional = new Set<number>()
+  for (const n of intervals) {
+    const pc = (root + n) % 12
+    if (skippable.has(n) && pc !== bass) optional.add(pc)
+    else required.add(pc)
+  }
+  return { required, optional, bass }
+}
+
+// Fingers a shape needs: one per fretted string, except that strings sharing
+// the lowest fret can be barred when nothing above them rings open.
+function fingersFor(frets: number[]): number {
+  const fretted = frets.filter(f => f > 0)
+  if (fretted.length === 0) return 0
+  const low = Math.min(...fretted)
+  const first = frets.indexOf(low)
+  const barred = frets.filter(f => f === low).length
+  const canBarre = barred > 1 && frets.slice(first).every(f => f >= low)
+  return canBarre ? fretted.length - barred + 1 : fretted.length
+}
+
+// Lower is easier: near the nut, every string ringing, every chord tone in,
+// a small stretch and few fingers. Open strings ringing above a string
+// stopped far up the neck make for odd shapes, so they count against it.
+function difficulty(frets: number[], missing: number): number {
+  const fretted = frets.filter(f => f > 0)
+  const low = fretted.length ? Math.min(...fretted) : 0
+  const high = fretted.length ? Math.max(...fretted) : 0
+  const mutes = frets.filter(f => f === -1).length
+  const reach = frets.findIndex(f => f >= SPAN)
+  const strayOpen = reach === -1 ? 0 : frets.slice(reach).filter(f => f === 0).length
+  return low * 2 + mutes * 1.5 + missing * 3 + (high - low) + fingersFor(frets) * 0.5 + strayOpen
+}
+
+// The easiest fingering of a chord, or null when no shape within reach
+// sounds it (slash chords on a ukulele keep the bass note but not underneath).
+export function fretVoicing(chord: ParsedChord, instrument: Instrument): FretVoicing | null {
+  const { required, optional, bass } = chordTones(chord)
+  const { tuning } = instrument
+  const best = { frets: null as number[] | null, score: Infinity }
+
+  for (let window = 1; window + SPAN - 1 <= MAX_FRET; window++) {
+    // What each string can play in this window: open, a fret, or nothing
+    const choices = tuning.map((open, s) => {
+      const options: number[] = s < instrument.mutes ? [-1] : []
+      for (const fret of [0, ...Array.from({ length: SPAN }, (_, i) => window + i)]) {
+        const pc = (open + fret) % 12
+        if (required.has(pc) || optional.has(pc)) options.push(fret)
+      }
+      return options
+    })
+
+    const frets: number[] = []
+    const search = (s: number) => {
+      if (s === tuning.length) {
+        const sounding = frets.map((f, i) => f === -1 ? null : tuning[i] + f).filter((n): n is number => n !== null)
+        if (sounding.length < tuning.length - instrument.mutes) return
+        const pcs = new Set(sounding.map(n => n % 12))
+        if ([...required].some(pc => !pcs.has(pc))) return
+        if (instrument.bass && Math.min(...sounding) % 12 !== bass) return
+        if (fingersFor(frets) > FINGERS) return
+        const missing = [...optional].filter(pc => !pcs.has(pc)).length
+        const score = difficulty(frets, missing)
+        if (score < best.score) Object.assign(best, { frets: [...frets], score })
+        return
+      }
+      for (const fret of choices[s]) {
+        // Only the low strings go unplayed, and only from the bottom up
+        if (fret === -1 && s > 0 && frets[s - 1] !== -1) continue
+        frets.push(fret)
+        search(s + 1)
+        frets.pop()
+      }
+    }
+    search(0)
+  }
+
+  const { frets } = best
+  if (!frets) return null
+  const high = Math.max(0, ...frets)
+  const low = Math.min(...frets.filter(f => f > 0))
+  return { frets, baseFret: high <= SPAN ? 1 : low }
+}
+
+// Piano: the bass in the left hand below middle C, the chord tones in close
+// position in the right hand from the root above it.
+export function pianoVoicing(chord: ParsedChord): number[] {
+  const root = pitchClass(chord.root)
+  const bass = chord.bass ? pitchClass(chord.bass) : root
+  const right = [...new Set(chordIntervals(chord).map(n => n % 12))].sort((a, b) => a - b)
+  return [48 + bass, ...right.map(n => 60 + root + n)]
+}
@@ -3,7 +3,7 @@ import { NextRequest, NextResponse } from 'next/server';
 interface TabData {
   title: string;
   artist: string;
-  key: string;
+  key: string; // '' when the tab doesn't say; the parser works it out from the chords
   capo: number;
   content: string;
 }
@@ -56,7 +56,7 @@ async function fetchUltimateGuitar(url: string): Promise<TabData> {
   return {
     title: tab?.song_name || 'Unknown Title',
     artist: tab?.artist_name || 'Unknown Artist',
-    key: tabView?.meta?.tonality || 'C',
+    key: tabView?.meta?.tonality || '',
     capo: tabView?.meta?.capo || 0,
     content: tabView.wiki_tab.content,
   };
@@ -0,0 +1,143 @@
+'use client'
+
+import { use, useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { useConvexConnectionState, useQuery } from 'convex/react'
+import { api } from '../../../../convex/_generated/api'
+import {
+  followSummary, followSong, stepFollowSize, FOLLOW_SIZES, DEFAULT_FOLLOW_SIZE,
+  type FollowSong, type FollowSummary,
+} from '../../../../live-state/follow'
+import { normalizeRoom, DEFAULT_ROOM } from '../../../../live-state/rooms'
+import { useStoredNumber } from '@/lib/live/useStored'
+import { toSearchParams, type SearchParams } from '@/lib/live/params'
+
+// Audience lyric follow-along, for phones. `?lite=1` switches to the compact
+// feeds in convex/liveFollow.ts for congregations on a weak signal; `?room=`
+// picks the live room as on /live.
+export default function FollowPage({ searchParams }: { searchParams: SearchParams }) {
+  const params = toSearchParams(use(searchParams))
+  const room = normalizeRoom(params.get('room'))
+  return params.get('lite') === '1' ? <LiteFeed room={room} /> : <FullFeed room={room} />
+}
+
+// Derives everything from the same documents the projector page reads.
+function FullFeed({ room }: { room: string }) {
+  const session = useQuery(api.liveSession.get, { room })
+  const setlist = useQuery(api.liveSetlist.get, { room })
+  if (session === undefined || setlist === undefined) {
+    return <FollowView room={room} summary={undefined} song={null} lite={false} />
+  }
+  const summary = followSummary(session, setlist)
+  const song = summary?.isLive ? followSong(setlist, summary.song) : null
+  return <FollowView room={room} summary={summary} song={song} lite={false} />
+}
+
+// Subscribes to the slide summary, and to the text of the live item only.
+function LiteFeed({ room }: { room: string }) {
+  const summary = useQuery(api.liveFollow.summary, { room })
+  const fresh = useQuery(api.liveFollow.song, summary?.isLive ? { room, index: summary.song } : 'skip')
+  // Hold on to the last song while the next one loads, so the page never blanks.
+  const [kept, setKept] = useState<FollowSong | null>(null)
+  if (fresh !== undefined && fresh !== kept) setKept(fresh)
+  return <FollowView room={room} summary={summary} song={kept} lite />
+}
+
+interface FollowViewProps {
+  room:    string
+  summary: FollowSummary | null | undefined  // undefined = loading
+  song:    FollowSong | null
+  lite:    boolean
+}
+
+function FollowView({ room, summary, song, lite }: FollowViewProps) {
+  const { isWebSocketConnected, hasEverConnected } = useConvexConnectionState()
+  const [stored, setSize] = useStoredNumber('wma-follow-size', DEFAULT_FOLLOW_SIZE)
+  const size = stepFollowSize(stored, 0)
+  const currentRef = useRef<HTMLDivElement>(null)
+  // Only highlight once the loaded text matches the live item.
+  const current = summary?.isLive && song?.index === summary.song ? summary.slide : -1
+
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' })
+  }, [song?.index, current])
+
+  return (
+    <div className="min-h-screen bg-[#111] text-[#f0ede8] flex flex-col">
+      <header className="sticky top-0 z-10 bg-[#1a1a1a]/95 backdrop-blur border-b border-[#2a2a2a] px-4 py-2 flex items-center gap-3 text-xs">
+        <span className="font-semibold truncate">{summary?.setlistName || 'WM&A'}</span>
+        {hasEverConnected && !isWebSocketConnected && (
+          <span className="px-2 py-0.5 rounded text-[10px] font-bold uppercase bg-[#5f4a1e] text-[#f0c060] animate-pulse">Reconnecting…</span>
+        )}
+        <div className="ml-auto flex items-center gap-1">
+          <button
+            onClick={() => setSize(stepFollowSize(size, -1))}
+            disabled={size === 0}
+            className="w-8 h-8 rounded bg-[#252525] disabled:opacity-30"
+            aria-label="Smaller text"
+          >
+            A−
+          </button>
+          <button
+            onClick={() => setSize(stepFollowSize(size, 1))}
+            disabled={size === FOLLOW_SIZES.length - 1}
+            className="w-8 h-8 rounded bg-[#252525] text-base disabled:opacity-30"
+            aria-label="Larger text"
+          >
+            A+
+          </button>
+          <Link
+            href={{ pathname: '/live/follow', query: { ...(room !== DEFAULT_ROOM && { room }), ...(!lite && { lite: '1' }) } }}
+            replace
+            className={`ml-2 px-2 py-1 rounded text-[10px] font-bold uppercase tracking-wide ${lite ? 'bg-[#1e3a5f] text-[#7eb8f7]' : 'bg-[#252525] text-[#888]'}`}
+          >
+            Low data
+          </Link>
+        </div>
+      </header>
+
+      {summary === undefined ? null
+        : summary === null ? (
+          <Notice title="Service not active" detail="Lyrics will appear here when the service begins." />
+        ) : !summary.isLive ? (
+          <Notice title="Starting soon" detail="Lyrics will follow along once worship begins." />
+        ) : (
+          <main className="flex-1 px-5 pb-[40vh]" style={{ fontSize: `${FOLLOW_SIZES[size]}rem` }}>
+            {summary.isBlackout && (
+              <div className="sticky top-12 z-10 mt-3 rounded-lg bg-[#252525] px-3 py-2 text-center text-xs uppercase tracking-widest text-[#888]">
+                Screen paused
+              </div>
+            )}
+            <div className={`transition-opacity duration-500 ${summary.isBlackout ? 'opacity-40' : ''}`}>
+              <h1 className="pt-6 text-[1.4em] font-semibold leading-tight">{song?.title ?? summary.title}</h1>
+              {song?.artist && <p className="text-[0.75em] text-[#888]">{song.artist}</p>}
+              {song?.kind === 'countdown' ? (
+                <p className="mt-6 text-[#888]">The service is about to begin.</p>
+              ) : song?.slides.map((slide, i) => (
+                <div
+                  key={i}
+                  ref={i === current ? currentRef : undefined}
+                  className={`rounded-lg px-3 py-2 -mx-3 transition-colors duration-300 ${slide.isSectionStart ? 'mt-5' : 'mt-1'} ${i === current ? 'bg-[#1e3a5f]/60 text-white' : 'text-[#f0ede8]/50'}`}
+                >
+                  {slide.isSectionStart && song.kind === 'song' && (
+                    <div className="text-[0.6em] font-bold uppercase tracking-widest text-[#888] mb-1">{slide.label}</div>
+                  )}
+                  <p className="whitespace-pre-line leading-snug">{slide.lyrics}</p>
+                  {slide.secondary && <p className="mt-1 whitespace-pre-line leading-snug italic opacity-70">{slide.secondary}</p>}
+                </div>
+              ))}
+            </div>
+          </main>
+        )}
+    </div>
+  )
+}
+
+function Notice({ title, detail }: { title: string; detail: string }) {
+  return (
+    <div className="flex-1 flex flex-col items-center justify-center gap-3 px-8 text-center">
+      <p className="text-white/40 text-sm uppercase tracking-[0.3em]">{title}</p>
+      <p className="text-white/25 text-sm">{detail}</p>
+    </div>
+  )
+}
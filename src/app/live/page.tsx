@@ -1,11 +1,24 @@
 'use client'
 
+import { use, type CSSProperties } from 'react'
 import { useQuery } from 'convex/react'
 import { api } from '../../../convex/_generated/api'
+import { EMPTY_SETLIST, countdownTarget } from '../../../live-state/state'
+import { formatDuration } from '../../../live-state/stage'
+import { resolveTheme, themeVars } from '../../../live-state/theme'
+import { normalizeTransition } from '../../../live-state/transition'
+import { normalizeRoom } from '../../../live-state/rooms'
+import ThemedSlide from '@/components/setlist/ThemedSlide'
+import SlideTransition from '@/components/setlist/SlideTransition'
+import { useNow } from '@/lib/live/useNow'
+import { toSearchParams, type SearchParams } from '@/lib/live/params'
 
-export default function LivePage() {
-  const session = useQuery(api.liveSession.get)
-  const setlist = useQuery(api.liveSetlist.get)
+// Projector view of a live room: /live?room=youth, default main.
+export default function LivePage({ searchParams }: { searchParams: SearchParams }) {
+  const room = normalizeRoom(toSearchParams(use(searchParams)).get('room'))
+  const session = useQuery(api.liveSession.get, { room })
+  const setlist = useQuery(api.liveSetlist.get, { room })
+  const now = useNow()
 
   if (session === undefined || setlist === undefined) {
     return <div className="min-h-screen bg-black" />
@@ -19,9 +32,14 @@ export default function LivePage() {
     )
   }
 
+  const theme = resolveTheme(setlist ?? EMPTY_SETLIST, session.isLive ? session.currentSong : -1)
+
   if (!session.isLive) {
     return (
-      <div className="min-h-screen bg-[#0a0a0a] flex items-center justify-center">
+      <div
+        className="min-h-screen flex items-center justify-center"
+        style={{ ...(themeVars(theme) as CSSProperties), background: 'var(--theme-bg)' }}
+      >
         <p className="text-white/15 text-3xl tracking-[0.5em] uppercase" style={{ fontFamily: 'var(--font-cormorant), Georgia, serif' }}>
           WM&amp;A
         </p>
@@ -29,25 +47,34 @@ export default function LivePage() {
     )
   }
 
-  const song  = setlist?.songs[session.currentSong]
-  const slide = song?.slides[session.currentSlide]
+  const item  = setlist?.songs[session.currentSong]
+  const slide = item?.slides[session.currentSlide]
+  // Countdowns carry no text; the clock is drawn here from the target time.
+  const target = item?.kind === 'countdown' ? countdownTarget(item, setlist!, { songStartedAt: session.songStartedAt ?? null }) : null
+  const lyrics = item?.kind === 'countdown'
+    ? (target !== null ? formatDuration(Math.max(0, target - now)) : '')
+    : slide?.lyrics ?? ''
 
   return (
-    <div
-      className="min-h-screen bg-[#0a0a0a] flex items-center justify-center transition-opacity duration-500"
-      style={{ opacity: session.isBlackout ? 0 : 1 }}
-    >
-      <div className="text-center px-8 max-w-5xl w-full">
-        <p className="text-white/30 text-sm uppercase tracking-[0.25em] mb-8 font-light">
-          {song?.title}
-        </p>
-        <p
-          className="text-white font-light leading-relaxed whitespace-pre-line"
-          style={{ fontFamily: 'var(--font-cormorant), Georgia, serif', fontSize: 'clamp(1.5rem, 5vw, 4rem)' }}
-        >
-          {slide?.lyrics ?? ''}
-        </p>
-      </div>
+    <div className="min-h-screen bg-black">
+      <SlideTransition
+        slideKey={`${session.currentSong}:${session.currentSlide}`}
+        transition={normalizeTransition(setlist?.transition)}
+      >
+        <ThemedSlide
+          theme={theme}
+          title={item?.title}
+          lyrics={lyrics}
+          imageUrl={item?.kind === 'announcement' ? item.imageUrl : undefined}
+          secondary={slide?.secondary}
+          languageLayout={setlist?.languageLayout}
+          className="min-h-screen"
+        />
+      </SlideTransition>
+      <div
+        className="fixed inset-0 bg-black pointer-events-none transition-opacity duration-500"
+        style={{ opacity: session.isBlackout ? 1 : 0 }}
+      />
     </div>
   )
 }
@@ -0,0 +1,57 @@
+'use client'
+
+import { use, type CSSProperties } from 'react'
+import { useQuery } from 'convex/react'
+import { api } from '../../../../convex/_generated/api'
+import { EMPTY_SETLIST, isSong } from '../../../../live-state/state'
+import { resolveTheme, themeVars, fontUrl } from '../../../../live-state/theme'
+import { fitLines, attribution, parseStreamOptions } from '../../../../live-state/stream'
+import { normalizeRoom } from '../../../../live-state/rooms'
+import { toSearchParams, type SearchParams } from '@/lib/live/params'
+
+// Transparent lower third for OBS / vMix browser sources.
+// Options: ?lines=2 (max lyric lines) &license=… (church CCLI licence number)
+// &room=… (live room, default main).
+export default function StreamPage({ searchParams }: { searchParams: SearchParams }) {
+  const params = toSearchParams(use(searchParams))
+  const { lines, license } = parseStreamOptions(params)
+  const room = normalizeRoom(params.get('room'))
+  const session = useQuery(api.liveSession.get, { room })
+  const setlist = useQuery(api.liveSetlist.get, { room }) ?? EMPTY_SETLIST
+
+  const live  = !!session?.isLive && !session.isBlackout
+  const song  = live ? setlist.songs[session.currentSong] : undefined
+  const slide = song?.slides[session!.currentSlide]
+  const theme = resolveTheme(setlist, session?.currentSong ?? -1)
+  const credit = isSong(song) && session!.currentSlide === 0 ? attribution(song.title, song.artist, song.ccli, license) : ''
+
+  return (
+    <div className="fixed inset-0 flex items-end justify-center" style={themeVars(theme) as CSSProperties}>
+      <style>{`
+        html, body { background: transparent !important; }
+        @keyframes stream-fade { from { opacity: 0 } to { opacity: 1 } }
+      `}</style>
+      <link rel="stylesheet" href={fontUrl(theme.fontFamily)} precedence="default" />
+      {slide && (
+        <div
+          key={`${session!.currentSong}-${session!.currentSlide}`}
+          className="text-center bg-black/60 rounded-[0.4em] px-[1em] py-[0.35em] mb-[6vh] mx-[5vw]"
+          style={{
+            animation: 'stream-fade 400ms ease-out',
+            color: 'var(--theme-color)',
+            fontFamily: 'var(--theme-font)',
+            textShadow: '0 0.05em 0.2em rgba(0,0,0,0.9)',
+            fontSize: '3.6vw',
+          }}
+        >
+          {fitLines(slide.lyrics, lines).map((line, i) => (
+            <p key={i} className="leading-[1.3]">{line}</p>
+          ))}
+          {credit && (
+            <p className="mt-[0.4em] opacity-70" style={{ fontSize: '0.4em' }}>{credit}</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
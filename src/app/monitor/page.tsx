@@ -1,25 +1,29 @@
 'use client'
 
+import { use } from 'react'
 import { useQuery } from 'convex/react'
 import { api } from '../../../convex/_generated/api'
+import { isSong, slideLabel } from '../../../live-state/state'
+import { formatDuration, isKeyChange, upcomingSongIndex } from '../../../live-state/stage'
+import { normalizeRoom } from '../../../live-state/rooms'
+import { useNow } from '@/lib/live/useNow'
+import { toSearchParams, type SearchParams } from '@/lib/live/params'
 
-type Slide = {
-  label: string
-  lyrics: string
-  chords: string
-  slideInSection: number
-  sectionSlideCount: number
-}
-
-function slideLabel(s: Slide | null | undefined): string {
-  if (!s) return ''
-  if (s.sectionSlideCount <= 1) return s.label
-  return `${s.label} · ${s.slideInSection + 1}/${s.sectionSlideCount}`
+function Timer({ label, value, late = false }: { label: string; value: string; late?: boolean }) {
+  return (
+    <div className="flex-1 bg-[#1a1a1a] border border-[#252525] rounded-lg px-3 py-1.5">
+      <div className="text-[10px] font-bold uppercase tracking-widest text-[#888]">{label}</div>
+      <div className={`text-3xl font-semibold tabular-nums ${late ? 'text-[#f07a7a]' : ''}`}>{value}</div>
+    </div>
+  )
 }
 
-export default function OnlineMonitorPage() {
-  const session = useQuery(api.liveSession.get)
-  const setlist = useQuery(api.liveSetlist.get)
+// Band cue view of a live room: /monitor?room=youth, default main.
+export default function OnlineMonitorPage({ searchParams }: { searchParams: SearchParams }) {
+  const room = normalizeRoom(toSearchParams(use(searchParams)).get('room'))
+  const session = useQuery(api.liveSession.get, { room })
+  const setlist = useQuery(api.liveSetlist.get, { room })
+  const now = useNow()
 
   if (session === undefined || setlist === undefined) {
     return <div className="min-h-screen bg-[#111]" />
@@ -33,10 +37,16 @@ export default function OnlineMonitorPage() {
     )
   }
 
-  const curSong  = session.currentSong >= 0 ? setlist?.songs[session.currentSong] : null
-  const curSlide = curSong && session.currentSlide >= 0 ? curSong.slides[session.currentSlide] ?? null : null
+  const curItem  = session.currentSong >= 0 ? setlist?.songs[session.currentSong] : null
+  const curSong  = isSong(curItem) ? curItem : null
+  const curSlide = curItem && session.currentSlide >= 0 ? curItem.slides[session.currentSlide] ?? null : null
   const nxtSong  = session.queuedSong >= 0 ? setlist?.songs[session.queuedSong] ?? null : null
   const nxtSlide = nxtSong && session.queuedSlide >= 0 ? nxtSong.slides[session.queuedSlide] ?? null : null
+  const next     = setlist ? setlist.songs[upcomingSongIndex(session, setlist)] : null
+  const upcoming = isSong(next) ? next : null
+  const keyChange = !!curSong && isKeyChange(curSong.key, upcoming?.key)
+  const startsAt = setlist?.startsAt
+  const started  = startsAt !== undefined && now >= startsAt
 
   return (
     <div className="min-h-screen bg-[#111] text-[#f0ede8] flex flex-col">
@@ -47,14 +57,41 @@ export default function OnlineMonitorPage() {
         </span>
         {session.isLive && <span className="px-2 py-0.5 rounded text-[10px] font-bold uppercase bg-[#1e4a1e] text-[#7af07a]">LIVE</span>}
         {session.isBlackout && <span className="px-2 py-0.5 rounded text-[10px] font-bold uppercase bg-[#5f1e1e] text-[#f07a7a]">BLACKOUT</span>}
-        <span className="font-semibold">{curSong?.title ?? '—'}</span>
+        <span className="font-semibold">{curItem ? `${curItem.title}${curSong?.key ? ` · ${curSong.key}` : ''}` : '—'}</span>
         <span className="ml-auto opacity-50">
-          {session.isLive && curSong
-            ? `Song ${session.currentSong + 1}/${setlist?.songs.length} · Slide ${session.currentSlide + 1}/${curSong.slides.length}`
+          {session.isLive && curItem
+            ? `Song ${session.currentSong + 1}/${setlist?.songs.length} · Slide ${session.currentSlide + 1}/${curItem.slides.length}`
             : 'Standby'}
         </span>
       </header>
 
+      {/* Confidence strip */}
+      <div className="flex gap-3 px-3 pt-3">
+        <Timer label="Time" value={new Date(now).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })} />
+        <Timer
+          label={started ? 'Since start' : 'Starts in'}
+          value={startsAt !== undefined ? formatDuration(Math.abs(startsAt - now)) : '—'}
+          late={started && !session.isLive}
+        />
+        <Timer label="Song time" value={session.songStartedAt ? formatDuration(now - session.songStartedAt) : '—'} />
+        <div className="flex-[2] min-w-0 bg-[#1a1a1a] border border-[#252525] rounded-lg px-3 py-1.5">
+          <div className="text-[10px] font-bold uppercase tracking-widest text-[#888]">Next song</div>
+          <div className="text-xl font-semibold truncate">
+            {upcoming ? `${upcoming.title}${upcoming.key ? ` (${upcoming.key})` : ''}` : 'End of setlist'}
+            {keyChange && (
+              <span className="ml-2 px-2 py-0.5 rounded bg-[#f0c060] text-[#111] text-sm font-bold uppercase animate-pulse">Key change!</span>
+            )}
+          </div>
+          {upcoming?.notes && <div className="text-sm text-[#7af07a] truncate">{upcoming.notes}</div>}
+        </div>
+      </div>
+
+      {session.stageMessage && (
+        <div className="mx-3 mt-3 px-4 py-2 rounded-lg bg-[#f0c060] text-[#111] text-2xl font-semibold text-center">
+          {session.stageMessage}
+        </div>
+      )}
+
       <main className="flex-1 p-3 flex flex-col gap-3 overflow-hidden">
         {!session.isLive ? (
           <div className="flex-1 flex items-center justify-center opacity-20 text-sm tracking-widest uppercase">
@@ -64,9 +101,14 @@ export default function OnlineMonitorPage() {
           <>
             {/* Current slide */}
             <div className="flex-[3] bg-[#1a1a1a] border border-[#252525] rounded-lg p-4 overflow-auto">
-              <div className="text-[10px] font-bold uppercase tracking-widest text-[#7eb8f7] mb-2">{slideLabel(curSlide)}</div>
+              <div className="text-[10px] font-bold uppercase tracking-widest text-[#7eb8f7] mb-2">{curSlide ? slideLabel(curSlide) : ''}</div>
               <pre className="font-mono text-sm text-[#f0c060] whitespace-pre-wrap mb-2">{curSlide?.chords ?? ''}</pre>
               <pre className="text-xl whitespace-pre-wrap leading-relaxed" style={{ fontFamily: 'var(--font-cormorant), Georgia, serif' }}>{curSlide?.lyrics ?? ''}</pre>
+              {curSong?.notes && (
+                <div className="mt-2 text-sm text-[#7af07a]">
+                  <span className="text-[10px] font-bold uppercase tracking-widest text-[#888] mr-2">Notes</span>{curSong.notes}
+                </div>
+              )}
             </div>
 
             {/* Next slide */}
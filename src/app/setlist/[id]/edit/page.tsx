@@ -6,8 +6,18 @@ import { useRouter } from 'next/navigation';
 import { useQuery, useMutation } from 'convex/react';
 import { api } from '../../../../../convex/_generated/api';
 import Logo from '@/components/Logo';
-import { type SetlistSong, type Id } from '@/lib/db';
-import { ALL_KEYS } from '@/lib/chords/transposition';
+import { type SetlistSong, type ServiceItemEntry, type Id } from '@/lib/db';
+import KeySelect from '@/components/setlist/KeySelect';
+import CapoSelect from '@/components/setlist/CapoSelect';
+import ChunkingPicker from '@/components/setlist/ChunkingPicker';
+import type { SlideChunking } from '../../../../../live-state/slides';
+import { reanchorItems, movedOrder } from '../../../../../live-state/items';
+import {
+  TRANSITION_KINDS, normalizeTransition, type SlideTransition, type TransitionKind,
+} from '../../../../../live-state/transition';
+import {
+  availableLanguages, languageName, ORIGINAL, type SlideLanguages, type LanguageLayout,
+} from '../../../../../live-state/languages';
 
 interface PageProps {
   params: Promise<{ id: string }>;
@@ -18,6 +28,7 @@ export default function EditSetlistPage({ params }: PageProps) {
   const router = useRouter();
   const songs = useQuery(api.songs.list);
   const setlist = useQuery(api.setlists.get, { id: id as Id<'setlists'> });
+  const themes = useQuery(api.themes.list);
   const updateSetlist = useMutation(api.setlists.update);
   const [saving, setSaving] = useState(false);
   const [populated, setPopulated] = useState(false);
@@ -28,7 +39,12 @@ export default function EditSetlistPage({ params }: PageProps) {
   const [time, setTime] = useState('');
   const [location, setLocation] = useState('');
   const [bibleVerse, setBibleVerse] = useState('');
+  const [themeId, setThemeId] = useState<Id<'themes'> | ''>('');
   const [selectedSongs, setSelectedSongs] = useState<SetlistSong[]>([]);
+  const [items, setItems] = useState<ServiceItemEntry[]>([]);
+  const [languages, setLanguages] = useState<SlideLanguages>({});
+  const [chunking, setChunking] = useState<SlideChunking | undefined>(undefined);
+  const [transition, setTransition] = useState<SlideTransition | undefined>(undefined);
   const [search, setSearch] = useState('');
 
   const loading = songs === undefined || setlist === undefined;
@@ -40,7 +56,12 @@ export default function EditSetlistPage({ params }: PageProps) {
       setTime(setlist.time || '');
       setLocation(setlist.location || '');
       setBibleVerse(setlist.bibleVerse || '');
+      setThemeId(setlist.themeId ?? '');
       setSelectedSongs(setlist.songs || []);
+      setItems(setlist.items || []);
+      setLanguages(setlist.languages ?? {});
+      setChunking(setlist.chunking);
+      setTransition(setlist.transition);
       setPopulated(true);
     }
   }, [setlist, populated]);
@@ -53,7 +74,10 @@ export default function EditSetlistPage({ params }: PageProps) {
     ]);
   };
 
+  // Service items stay with the song they sit before (see reanchorItems).
   const removeSongFromSetlist = (songId: Id<'songs'>) => {
+    const order = selectedSongs.flatMap((s, i) => (s.songId === songId ? [] : [i]));
+    setItems(reanchorItems(items, order, selectedSongs.length));
     setSelectedSongs(
       selectedSongs
         .filter(s => s.songId !== songId)
@@ -69,13 +93,70 @@ export default function EditSetlistPage({ params }: PageProps) {
     );
   };
 
+  const updateSongCapo = (songId: Id<'songs'>, capo: number) => {
+    setSelectedSongs(
+      selectedSongs.map(s =>
+        s.songId === songId ? { ...s, capo } : s
+      )
+    );
+  };
+
+  const updateSongTheme = (songId: Id<'songs'>, theme: Id<'themes'> | '') => {
+    setSelectedSongs(
+      selectedSongs.map(s =>
+        s.songId === songId ? { ...s, themeId: theme || undefined } : s
+      )
+    );
+  };
+
+  const updateSongNotes = (songId: Id<'songs'>, notes: string) => {
+    setSelectedSongs(
+      selectedSongs.map(s =>
+        s.songId === songId ? { ...s, notes: notes || undefined } : s
+      )
+    );
+  };
+
+  const updateSongArrangement = (songId: Id<'songs'>, arrangement: string) => {
+    setSelectedSongs(
+      selectedSongs.map(s =>
+        s.songId === songId ? { ...s, arrangement: arrangement || undefined } : s
+      )
+    );
+  };
+
   const moveSong = (fromIndex: number, toIndex: number) => {
     const newSongs = [...selectedSongs];
     const [removed] = newSongs.splice(fromIndex, 1);
     newSongs.splice(toIndex, 0, removed);
+    setItems(reanchorItems(items, movedOrder(selectedSongs.length, fromIndex, toIndex), selectedSongs.length));
     setSelectedSongs(newSongs.map((s, i) => ({ ...s, order: i })));
   };
 
+  // Service items sit before a song by index; new ones go at the end of the service.
+  const addItem = (kind: ServiceItemEntry['kind']) => {
+    const before = selectedSongs.length;
+    if (kind === 'scripture') {
+      // Prefill from the pamphlet verse ("John 3:16 - For God so loved...")
+      const dash = bibleVerse.indexOf(' - ');
+      const reference = dash >= 0 ? bibleVerse.slice(0, dash).trim() : '';
+      const text = (dash >= 0 ? bibleVerse.slice(dash + 3) : bibleVerse).trim();
+      setItems([...items, { kind, reference, text, before }]);
+    } else if (kind === 'announcement') {
+      setItems([...items, { kind, title: '', body: '', before }]);
+    } else {
+      setItems([...items, { kind, title: 'Starting soon', before: 0 }]);
+    }
+  };
+
+  const updateItem = (index: number, patch: Partial<ServiceItemEntry>) => {
+    setItems(items.map((item, i) => (i === index ? { ...item, ...patch } as ServiceItemEntry : item)));
+  };
+
+  const removeItem = (index: number) => {
+    setItems(items.filter((_, i) => i !== index));
+  };
+
   const handleSave = async () => {
     if (!name.trim() || !setlist) return;
 
@@ -88,7 +169,12 @@ export default function EditSetlistPage({ params }: PageProps) {
         time,
         location,
         bibleVerse: bibleVerse.trim() || undefined,
+        themeId: themeId || null,
         songs: selectedSongs,
+        items,
+        languages,
+        chunking,
+        transition,
       });
 
       router.push(`/setlist/${id}`);
@@ -107,6 +193,10 @@ export default function EditSetlistPage({ params }: PageProps) {
 
   const getSongById = (songId: Id<'songs'>) => (songs ?? []).find(s => s._id === songId);
 
+  // Languages any song in the setlist has translations for.
+  const translated = availableLanguages(selectedSongs.flatMap(s => getSongById(s.songId)?.sections ?? []));
+  const languageOptions = [ORIGINAL, ...translated.filter(l => l !== ORIGINAL)];
+
   if (loading) {
     return (
       <div className="setlist-page min-h-screen p-4 flex items-center justify-center">
@@ -192,6 +282,92 @@ export default function EditSetlistPage({ params }: PageProps) {
               className="w-full bg-white border border-primary/20 rounded-lg px-3 py-2 resize-none"
             />
           </div>
+          {(translated.length > 0 || languages.primary || languages.secondary !== undefined) && (
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium mb-1">Projected Languages</label>
+              <div className="flex flex-wrap gap-3 items-center">
+                <select
+                  value={languages.primary ?? ORIGINAL}
+                  onChange={(e) => setLanguages({ ...languages, primary: e.target.value || undefined })}
+                  className="bg-white border border-primary/20 rounded-lg px-3 py-2"
+                  title="Main lyrics"
+                >
+                  {languageOptions.map(l => <option key={l} value={l}>{languageName(l)}</option>)}
+                </select>
+                <span className="text-sm opacity-60">with</span>
+                <select
+                  value={languages.secondary ?? '-'}
+                  onChange={(e) => setLanguages({ ...languages, secondary: e.target.value === '-' ? undefined : e.target.value })}
+                  className="bg-white border border-primary/20 rounded-lg px-3 py-2"
+                  title="Second language under or beside the lyrics"
+                >
+                  <option value="-">No second language</option>
+                  {languageOptions.filter(l => l !== (languages.primary ?? ORIGINAL)).map(l => (
+                    <option key={l} value={l}>{languageName(l)}</option>
+                  ))}
+                </select>
+                {languages.secondary !== undefined && (
+                  <select
+                    value={languages.layout ?? 'stacked'}
+                    onChange={(e) => setLanguages({ ...languages, layout: e.target.value as LanguageLayout })}
+                    className="bg-white border border-primary/20 rounded-lg px-3 py-2"
+                  >
+                    <option value="stacked">Stacked</option>
+                    <option value="sideBySide">Side by side</option>
+                  </select>
+                )}
+              </div>
+            </div>
+          )}
+          <div className="sm:col-span-2">
+            <label className="block text-sm font-medium mb-1">Projector Slides</label>
+            <ChunkingPicker value={chunking} onChange={setChunking} />
+          </div>
+          <div className="sm:col-span-2">
+            <label className="block text-sm font-medium mb-1">Slide Transition</label>
+            <div className="flex flex-wrap gap-3 items-center">
+              <select
+                value={normalizeTransition(transition).kind}
+                onChange={(e) => setTransition(normalizeTransition({ ...transition, kind: e.target.value as TransitionKind }))}
+                className="bg-white border border-primary/20 rounded-lg px-3 py-2"
+              >
+                {TRANSITION_KINDS.map(t => <option key={t.kind} value={t.kind}>{t.name}</option>)}
+              </select>
+              {normalizeTransition(transition).kind !== 'cut' && (
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={normalizeTransition(transition).ms / 1000}
+                    onChange={(e) => setTransition(normalizeTransition({
+                      ...normalizeTransition(transition), ms: Number(e.target.value) * 1000,
+                    }))}
+                    className="w-20 bg-white border border-primary/20 rounded px-2 py-1"
+                  />
+                  seconds
+                </label>
+              )}
+            </div>
+          </div>
+          <div className="sm:col-span-2">
+            <label className="block text-sm font-medium mb-1">Projector Theme</label>
+            <div className="flex gap-3 items-center">
+              <select
+                value={themeId}
+                onChange={(e) => setThemeId(e.target.value as Id<'themes'> | '')}
+                className="flex-1 bg-white border border-primary/20 rounded-lg px-3 py-2"
+              >
+                <option value="">Default</option>
+                {(themes ?? []).map(t => (
+                  <option key={t._id} value={t._id}>{t.name}</option>
+                ))}
+              </select>
+              <Link href="/setlist/themes" className="text-sm text-primary hover:underline">
+                Manage themes
+              </Link>
+            </div>
+          </div>
         </div>
       </div>
 
@@ -237,22 +413,60 @@ export default function EditSetlistPage({ params }: PageProps) {
                     </button>
                   </div>
 
-                  {/* Song Info */}
-                  <div className="flex-1">
+                  {/* Song Info + arrangement notes for the stage monitor */}
+                  <div className="flex-1 min-w-0">
                     <div className="font-medium">{song.title}</div>
                     <div className="text-sm opacity-60">{song.artist}</div>
+                    <input
+                      type="text"
+                      value={setlistSong.notes ?? ''}
+                      onChange={(e) => updateSongNotes(song._id, e.target.value)}
+                      placeholder="Band notes, e.g. drums out on V2"
+                      className="mt-1 w-full bg-white border border-primary/20 rounded px-2 py-1 text-sm"
+                    />
                   </div>
 
                   {/* Key Selector */}
-                  <select
+                  <KeySelect
                     value={setlistSong.transposedKey || song.key}
-                    onChange={(e) => updateSongKey(song._id, e.target.value)}
-                    className="bg-white border border-primary/20 rounded px-2 py-1 text-sm font-mono"
+                    onChange={(key) => updateSongKey(song._id, key)}
+                    original={song.key}
+                    className="rounded px-2 py-1 text-sm"
+                  />
+
+                  {/* Capo Selector */}
+                  <CapoSelect
+                    value={setlistSong.capo ?? song.capo ?? 0}
+                    onChange={(capo) => updateSongCapo(song._id, capo)}
+                    soundingKey={setlistSong.transposedKey || song.key}
+                    className="rounded px-2 py-1 text-sm"
+                  />
+
+                  {/* Arrangement */}
+                  {(song.arrangements?.length ?? 0) > 0 && (
+                    <select
+                      value={setlistSong.arrangement ?? ''}
+                      onChange={(e) => updateSongArrangement(song._id, e.target.value)}
+                      className="bg-white border border-primary/20 rounded px-2 py-1 text-sm max-w-[9rem]"
+                      title="Arrangement for this song"
+                    >
+                      <option value="">Section order</option>
+                      {song.arrangements!.map(a => (
+                        <option key={a.name} value={a.name}>{a.name}</option>
+                      ))}
+                    </select>
+                  )}
+
+                  {/* Theme override */}
+                  <select
+                    value={setlistSong.themeId ?? ''}
+                    onChange={(e) => updateSongTheme(song._id, e.target.value as Id<'themes'> | '')}
+                    className="bg-white border border-primary/20 rounded px-2 py-1 text-sm max-w-[9rem]"
+                    title="Projector theme for this song"
                   >
-                    {ALL_KEYS.map(k => (
-                      <option key={k} value={k}>
-                        {k} {k === song.key && '(orig)'}
-                      </option>
+                    <option value="">Setlist theme</option>
+                    {(themes ?? []).map(t => (
+                      <option key={t._id} value={t._id}>{t.name}</option>
                     ))}
                   </select>
 
@@ -270,6 +484,137 @@ export default function EditSetlistPage({ params }: PageProps) {
         )}
       </div>
 
+      {/* Service Items */}
+      <div className="mb-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="font-semibold">Service Items ({items.length})</h2>
+          <div className="flex gap-2 text-sm">
+            <button onClick={() => addItem('scripture')} className="px-2 py-1 border border-primary/20 rounded hover:bg-primary/5">+ Scripture</button>
+            <button onClick={() => addItem('announcement')} className="px-2 py-1 border border-primary/20 rounded hover:bg-primary/5">+ Announcement</button>
+            <button onClick={() => addItem('countdown')} className="px-2 py-1 border border-primary/20 rounded hover:bg-primary/5">+ Countdown</button>
+          </div>
+        </div>
+
+        {items.length > 0 && (
+          <div className="bg-primary/5 rounded-lg divide-y divide-primary/10">
+            {items.map((item, index) => (
+              <div key={index} className="p-3 flex items-start gap-3">
+                <span className="text-xs font-bold uppercase tracking-wide opacity-60 w-24 pt-2">{item.kind}</span>
+
+                <div className="flex-1 min-w-0 grid gap-2">
+                  {item.kind === 'scripture' && (
+                    <>
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          value={item.reference}
+                          onChange={(e) => updateItem(index, { reference: e.target.value })}
+                          placeholder="Reference, e.g. John 3:16-17"
+                          className="flex-1 bg-white border border-primary/20 rounded px-2 py-1 text-sm"
+                        />
+                        <input
+                          type="text"
+                          value={item.translation ?? ''}
+                          onChange={(e) => updateItem(index, { translation: e.target.value || undefined })}
+                          placeholder="ESV"
+                          className="w-20 bg-white border border-primary/20 rounded px-2 py-1 text-sm"
+                        />
+                      </div>
+                      <textarea
+                        value={item.text}
+                        onChange={(e) => updateItem(index, { text: e.target.value })}
+                        placeholder="Passage text"
+                        rows={3}
+                        className="bg-white border border-primary/20 rounded px-2 py-1 text-sm resize-none"
+                      />
+                    </>
+                  )}
+                  {item.kind === 'announcement' && (
+                    <>
+                      <input
+                        type="text"
+                        value={item.title}
+                        onChange={(e) => updateItem(index, { title: e.target.value })}
+                        placeholder="Title"
+                        className="bg-white border border-primary/20 rounded px-2 py-1 text-sm"
+                      />
+                      <textarea
+                        value={item.body}
+                        onChange={(e) => updateItem(index, { body: e.target.value })}
+                        placeholder="Body text"
+                        rows={2}
+                        className="bg-white border border-primary/20 rounded px-2 py-1 text-sm resize-none"
+                      />
+                      <input
+                        type="url"
+                        value={item.imageUrl ?? ''}
+                        onChange={(e) => updateItem(index, { imageUrl: e.target.value || undefined })}
+                        placeholder="Image URL (optional)"
+                        className="bg-white border border-primary/20 rounded px-2 py-1 text-sm"
+                      />
+                      <label className="flex items-center gap-2 text-sm">
+                        Auto-advance every
+                        <input
+                          type="number"
+                          min={2}
+                          value={item.advanceSeconds ?? ''}
+                          onChange={(e) => updateItem(index, {
+                            advanceSeconds: Number(e.target.value) > 0 ? Math.round(Number(e.target.value)) : undefined,
+                          })}
+                          placeholder="off"
+                          title="Seconds. Neighbouring auto-advancing announcements loop as a slideshow until GO."
+                          className="w-20 bg-white border border-primary/20 rounded px-2 py-1 text-sm"
+                        />
+                        s
+                      </label>
+                    </>
+                  )}
+                  {item.kind === 'countdown' && (
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={item.title}
+                        onChange={(e) => updateItem(index, { title: e.target.value })}
+                        placeholder="Title"
+                        className="flex-1 bg-white border border-primary/20 rounded px-2 py-1 text-sm"
+                      />
+                      <input
+                        type="number"
+                        min={1}
+                        value={item.seconds ? item.seconds / 60 : ''}
+                        onChange={(e) => updateItem(index, { seconds: Number(e.target.value) > 0 ? Math.round(Number(e.target.value) * 60) : undefined })}
+                        placeholder="To start"
+                        title="Minutes; leave empty to count down to the service time"
+                        className="w-24 bg-white border border-primary/20 rounded px-2 py-1 text-sm"
+                      />
+                    </div>
+                  )}
+                </div>
+
+                {/* Position in the running order */}
+                <select
+                  value={Math.min(item.before, selectedSongs.length)}
+                  onChange={(e) => updateItem(index, { before: Number(e.target.value) })}
+                  className="bg-white border border-primary/20 rounded px-2 py-1 text-sm max-w-[10rem]"
+                >
+                  {selectedSongs.map((s, i) => (
+                    <option key={s.songId} value={i}>Before {getSongById(s.songId)?.title ?? `song ${i + 1}`}</option>
+                  ))}
+                  <option value={selectedSongs.length}>After last song</option>
+                </select>
+
+                <button
+                  onClick={() => removeItem(index)}
+                  className="text-red-600 opacity-60 hover:opacity-100 pt-1"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Add Songs */}
       <div className="mb-6">
         <h2 className="font-semibold mb-4">Add Songs</h2>
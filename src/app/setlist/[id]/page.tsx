@@ -10,8 +10,16 @@ import ChordChart from '@/components/setlist/ChordChart';
 import SlidePreview from '@/components/setlist/SlidePreview';
 import ExportModal from '@/components/setlist/ExportModal';
 import { type SongWithKey, type Section, type Id } from '@/lib/db';
-import { ALL_KEYS } from '@/lib/chords/transposition';
-import { songToSlides, sectionSlideGroups } from '@/lib/live/slides';
+import KeySelect from '@/components/setlist/KeySelect';
+import CapoSelect from '@/components/setlist/CapoSelect';
+import { setlistSongSlides, sectionSlideGroups } from '@/lib/live/slides';
+import { findLiveTheme } from '@/lib/live/theme';
+import { parseServiceStart } from '../../../../live-state/stage';
+import { buildRunningOrder, placeAmongKept, reanchorItems, movedOrder } from '../../../../live-state/items';
+import { arrangedSections } from '../../../../live-state/arrangement';
+import { resolveChunking } from '../../../../live-state/slides';
+import { DEFAULT_THEME } from '../../../../live-state/theme';
+import { DEFAULT_ROOM, normalizeRoom } from '../../../../live-state/rooms';
 
 interface PageProps {
   params: Promise<{ id: string }>;
@@ -21,6 +29,7 @@ export default function SetlistDetailPage({ params }: PageProps) {
   const { id } = use(params);
   const router = useRouter();
   const data = useQuery(api.setlists.getWithSongs, { id: id as Id<'setlists'> });
+  const themes = useQuery(api.themes.list);
   const updateSetlist = useMutation(api.setlists.update);
   const updateSong = useMutation(api.songs.update);
   const deleteSetlist = useMutation(api.setlists.remove);
@@ -31,23 +40,46 @@ export default function SetlistDetailPage({ params }: PageProps) {
   const [songView, setSongView] = useState<'slides' | 'chords'>('slides');
   const [pushing, setPushing] = useState(false);
   const [pushStatus, setPushStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [room, setRoom] = useState(DEFAULT_ROOM);
 
-  const loading = data === undefined;
+  const loading = data === undefined || themes === undefined;
   const setlist = data?.setlist ?? null;
   const songs: SongWithKey[] = data?.songs ?? [];
 
+  // The theme a song projects with, and its slide chunking as it will be
+  // pushed: its own setting over the setlist's, measured against that theme.
+  const themeFor = (song: SongWithKey) =>
+    findLiveTheme(themes ?? [], song.themeId) ?? findLiveTheme(themes ?? [], setlist?.themeId) ?? DEFAULT_THEME;
+  const chunkingFor = (song: SongWithKey) => resolveChunking(song.chunking ?? setlist?.chunking, themeFor(song));
+
   const handlePushToLive = async () => {
     if (!setlist || songs.length === 0) return;
     setPushing(true);
     setPushStatus('idle');
+    // getWithSongs skips songs that were deleted; items are placed by entry
+    const found = new Set(songs.map(s => s._id));
+    const kept = [...setlist.songs].sort((a, b) => a.order - b.order).map(e => found.has(e.songId));
     try {
       await pushLive({
-        name: setlist.name,
-        songs: songs.map(song => ({
-          title: song.title,
-          key:   song.transposedKey ?? song.key,
-          slides: songToSlides(song.sections, song.key, song.transposedKey ?? song.key),
-        }))
+        room:     normalizeRoom(room),
+        name:     setlist.name,
+        setlistId: setlist._id,
+        startsAt: parseServiceStart(setlist.date, setlist.time),
+        theme:    findLiveTheme(themes ?? [], setlist.themeId),
+        languageLayout: setlist.languages?.layout,
+        transition: setlist.transition,
+        songs: buildRunningOrder(songs.map(song => ({
+          title:  song.title,
+          artist: song.artist,
+          ccli:   song.ccli,
+          key:    song.transposedKey ?? song.key,
+          notes:  song.notes,
+          capo:   song.capo,
+          theme: findLiveTheme(themes ?? [], song.themeId),
+          slides: setlistSongSlides(
+            song, { displayKey: song.transposedKey ?? song.key, arrangement: song.arrangement }, setlist, themeFor(song),
+          ),
+        })), placeAmongKept(setlist.items, kept)),
       });
       setPushStatus('success');
       setTimeout(() => setPushStatus('idle'), 3000);
@@ -67,6 +99,15 @@ export default function SetlistDetailPage({ params }: PageProps) {
     await updateSetlist({ id: setlist._id, songs: updatedSongs });
   };
 
+  // Stored even when 0, so a setlist can drop the capo a song normally uses
+  const handleUpdateCapo = async (songId: Id<'songs'>, capo: number) => {
+    if (!setlist) return;
+    const updatedSongs = setlist.songs.map(s =>
+      s.songId === songId ? { ...s, capo } : s
+    );
+    await updateSetlist({ id: setlist._id, songs: updatedSongs });
+  };
+
   const handleToggleBreak = async (
     song: SongWithKey,
     sectionIndex: number,
@@ -74,7 +115,7 @@ export default function SetlistDetailPage({ params }: PageProps) {
   ) => {
     const sections = JSON.parse(JSON.stringify(song.sections)) as Section[];
     const section = sections[sectionIndex];
-    const groups = sectionSlideGroups(section);
+    const groups = sectionSlideGroups(section, chunkingFor(song), setlist?.languages);
     const boundaries = new Set<number>();
     groups.forEach((g, gi) => { if (gi > 0) boundaries.add(g[0]); });
     if (boundaries.has(lineIndex)) boundaries.delete(lineIndex);
@@ -90,7 +131,11 @@ export default function SetlistDetailPage({ params }: PageProps) {
     const updatedSongs = setlist.songs
       .filter(s => s.songId !== songId)
       .map((s, i) => ({ ...s, order: i }));
-    await updateSetlist({ id: setlist._id, songs: updatedSongs });
+    const order = setlist.songs.flatMap((s, i) => (s.songId === songId ? [] : [i]));
+    await updateSetlist({
+      id: setlist._id, songs: updatedSongs,
+      items: setlist.items && reanchorItems(setlist.items, order, setlist.songs.length),
+    });
   };
 
   const handleDelete = async () => {
@@ -106,7 +151,10 @@ export default function SetlistDetailPage({ params }: PageProps) {
     const [removed] = newSongs.splice(fromIndex, 1);
     newSongs.splice(toIndex, 0, removed);
     const updatedSongs = newSongs.map((s, i) => ({ ...s, order: i }));
-    await updateSetlist({ id: setlist._id, songs: updatedSongs });
+    await updateSetlist({
+      id: setlist._id, songs: updatedSongs,
+      items: setlist.items && reanchorItems(setlist.items, movedOrder(setlist.songs.length, fromIndex, toIndex), setlist.songs.length),
+    });
   };
 
   if (loading) {
@@ -153,6 +201,12 @@ export default function SetlistDetailPage({ params }: PageProps) {
           >
             Perform
           </Link>
+          <Link
+            href={`/setlist/${id}/report`}
+            className="text-sm font-semibold text-primary hover:underline"
+          >
+            Report
+          </Link>
           <button
             onClick={handleDelete}
             className="text-sm text-red-600 opacity-60 hover:opacity-100"
@@ -196,6 +250,15 @@ export default function SetlistDetailPage({ params }: PageProps) {
            pushStatus === 'error'   ? 'Failed' :
            '▶ Go Live'}
         </button>
+        <input
+          value={room}
+          onChange={(e) => setRoom(e.target.value)}
+          onBlur={() => setRoom(normalizeRoom(room))}
+          aria-label="Live room"
+          title="Live room — /live?room=…"
+          spellCheck={false}
+          className="w-24 px-3 py-3 rounded-lg bg-primary/5 border border-primary/20 text-sm"
+        />
         <Link
           href={`/setlist/${id}/edit`}
           className="px-6 py-3 border border-primary/20 rounded-lg hover:bg-primary/5 transition-colors"
@@ -258,21 +321,26 @@ export default function SetlistDetailPage({ params }: PageProps) {
                       className="flex-1 text-left"
                     >
                       <div className="font-semibold">{song.title}</div>
-                      <div className="text-sm opacity-60">{song.artist}</div>
+                      <div className="text-sm opacity-60">
+                        {song.artist}{song.arrangement && ` · ${song.arrangement} arrangement`}
+                      </div>
                     </button>
 
                     {/* Key Selector */}
-                    <select
+                    <KeySelect
                       value={displayKey}
-                      onChange={(e) => handleUpdateKey(song._id, e.target.value)}
-                      className="bg-white border border-primary/20 rounded px-2 py-1 text-sm font-mono"
-                    >
-                      {ALL_KEYS.map(k => (
-                        <option key={k} value={k}>
-                          {k}
-                        </option>
-                      ))}
-                    </select>
+                      onChange={(key) => handleUpdateKey(song._id, key)}
+                      original={song.key}
+                      className="rounded px-2 py-1 text-sm"
+                    />
+
+                    {/* Capo Selector */}
+                    <CapoSelect
+                      value={song.capo ?? 0}
+                      onChange={(capo) => handleUpdateCapo(song._id, capo)}
+                      soundingKey={displayKey}
+                      className="rounded px-2 py-1 text-sm"
+                    />
 
                     {/* Remove */}
                     <button
@@ -311,11 +379,13 @@ export default function SetlistDetailPage({ params }: PageProps) {
                       {songView === 'slides' ? (
                         <SlidePreview
                           sections={song.sections}
+                          chunking={chunkingFor(song)}
+                          languages={setlist.languages}
                           onToggleBreak={(secIdx, lineIdx) => handleToggleBreak(song, secIdx, lineIdx)}
                         />
                       ) : (
                         <ChordChart
-                          sections={song.sections}
+                          sections={arrangedSections(song, song.arrangement)}
                           songKey={song.key}
                           displayKey={displayKey}
                           displayMode="letters"
@@ -1,11 +1,19 @@
 'use client';
 
-import { useState, useEffect, use } from 'react';
+import { useState, useEffect, useMemo, useRef, use } from 'react';
 import Link from 'next/link';
 import { useQuery } from 'convex/react';
 import { api } from '../../../../../convex/_generated/api';
 import { type SongWithKey, type Id } from '@/lib/db';
-import ChordChart from '@/components/setlist/ChordChart';
+import ChordChart, { type ChordDisplayMode } from '@/components/setlist/ChordChart';
+import { arrangedSections } from '../../../../../live-state/arrangement';
+import {
+  rehearsalTimeline, stepAt, parseTimeSignature, normalizeTempo, MIN_TEMPO, MAX_TEMPO,
+} from '../../../../../live-state/rehearsal';
+import { capoNote } from '../../../../../live-state/capo';
+import { transposeChordToKey } from '@/lib/chords/transposition';
+import { getPianoPlayer } from '@/lib/audio/piano';
+import { startRehearsal, type RehearsalPlayback } from '@/lib/audio/rehearsal';
 
 interface PageProps {
   params: Promise<{ id: string }>;
@@ -15,12 +23,76 @@ export default function PerformPage({ params }: PageProps) {
   const { id } = use(params);
   const data = useQuery(api.setlists.getWithSongs, { id: id as Id<'setlists'> });
   const [currentIndex, setCurrentIndex] = useState(0);
-  const [displayMode, setDisplayMode] = useState<'letters' | 'numerals'>('letters');
+  const [displayMode, setDisplayMode] = useState<ChordDisplayMode>('letters');
   const [showControls, setShowControls] = useState(true);
 
+  // Rehearsal mode: click track, chart following the beat, optional piano chords
+  const [rehearsing, setRehearsing] = useState(false);
+  const [withChords, setWithChords] = useState(false);
+  const [tempos, setTempos] = useState<Record<string, number>>({}); // per-song tempo nudges for this run-through
+  const [playing, setPlaying] = useState(false);
+  const [position, setPosition] = useState<{ step: number; beat: number } | null>(null);
+  const playbackRef = useRef<RehearsalPlayback | null>(null);
+
   const loading = data === undefined;
   const setlist = data?.setlist ?? null;
   const songs: SongWithKey[] = data?.songs ?? [];
+  const song = songs[currentIndex] as SongWithKey | undefined;
+
+  const sections = useMemo(() => song ? arrangedSections(song, song.arrangement) : [], [song]);
+  const signature = useMemo(() => parseTimeSignature(song?.timeSignature), [song?.timeSignature]);
+  const timeline = useMemo(() => rehearsalTimeline(sections, signature), [sections, signature]);
+  const tempo = song ? tempos[song._id] ?? normalizeTempo(song.tempo) : normalizeTempo();
+
+  const stopPlayback = () => {
+    playbackRef.current?.stop();
+    playbackRef.current = null;
+    setPlaying(false);
+    setPosition(null);
+  };
+
+  const startPlayback = async () => {
+    if (!song || timeline.totalBeats === 0) return;
+    const displayKey = song.transposedKey || song.key;
+    playbackRef.current = await startRehearsal(timeline, {
+      tempo,
+      withChords,
+      spell: chord => transposeChordToKey(chord, song.key, displayKey),
+    });
+    setPlaying(true);
+  };
+
+  // Follow the audio clock while playing
+  useEffect(() => {
+    if (!playing) return;
+    let frame = 0;
+    const tick = () => {
+      const beat = playbackRef.current?.beat() ?? Infinity;
+      if (beat >= timeline.totalBeats) {
+        playbackRef.current?.stop();
+        playbackRef.current = null;
+        setPlaying(false);
+        setPosition(null);
+        return;
+      }
+      const next = { step: stepAt(timeline, beat), beat: Math.floor(beat) };
+      setPosition(p => (p?.step === next.step && p.beat === next.beat ? p : next));
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, timeline]);
+
+  // Playback belongs to the song on screen
+  useEffect(() => () => {
+    playbackRef.current?.stop();
+    playbackRef.current = null;
+  }, [currentIndex]);
+
+  // Start loading piano samples once chords are wanted; the synth covers until then
+  useEffect(() => {
+    if (withChords) getPianoPlayer().load();
+  }, [withChords]);
 
   // Keyboard navigation
   useEffect(() => {
@@ -72,6 +144,9 @@ export default function PerformPage({ params }: PageProps) {
 
   const currentSong = songs[currentIndex];
   const displayKey = currentSong.transposedKey || currentSong.key;
+  const capo = capoNote(displayKey, currentSong.capo);
+  const activeStep = rehearsing && position && position.step >= 0 ? timeline.steps[position.step] : null;
+  const beatInBar = position ? ((position.beat % signature.beats) + signature.beats) % signature.beats : -1;
 
   return (
     <div
@@ -96,31 +171,105 @@ export default function PerformPage({ params }: PageProps) {
           <div className="text-center">
             <div className="font-bold">{currentSong.title}</div>
             <div className="text-sm opacity-60">
-              Key: {displayKey} • Song {currentIndex + 1} of {songs.length}
+              Key: {displayKey}{capo && ` • ${capo}`} • Song {currentIndex + 1} of {songs.length}
             </div>
           </div>
 
-          <select
-            value={displayMode}
-            onChange={(e) => setDisplayMode(e.target.value as 'letters' | 'numerals')}
-            className="border rounded px-2 py-1 text-sm"
-          >
-            <option value="letters">Letters</option>
-            <option value="numerals">Numerals</option>
-          </select>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => {
+                if (rehearsing) stopPlayback();
+                setRehearsing(r => !r);
+              }}
+              className={`border rounded px-2 py-1 text-sm ${rehearsing ? 'bg-primary text-white' : ''}`}
+            >
+              Rehearse
+            </button>
+            <select
+              value={displayMode}
+              onChange={(e) => setDisplayMode(e.target.value as ChordDisplayMode)}
+              className="border rounded px-2 py-1 text-sm"
+            >
+              <option value="letters">Letters</option>
+              <option value="shapes">Capo shapes</option>
+              <option value="numerals">Numerals</option>
+              <option value="nashville">Nashville</option>
+            </select>
+          </div>
         </div>
       </div>
 
       {/* Main Content */}
       <div className="p-4 sm:p-8 pt-20 pb-24 max-w-4xl mx-auto">
         <ChordChart
-          sections={currentSong.sections}
+          sections={sections}
           songKey={currentSong.key}
           displayKey={displayKey}
           displayMode={displayMode}
+          timeSignature={currentSong.timeSignature}
+          capo={currentSong.capo}
+          activeChord={activeStep}
         />
       </div>
 
+      {/* Rehearsal panel (stays up while rehearsing) */}
+      {rehearsing && (
+        <div
+          className="fixed bottom-24 right-4 z-50 bg-white/95 backdrop-blur border rounded-lg shadow-lg p-3 flex flex-col gap-2 text-sm"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => (playing ? stopPlayback() : startPlayback())}
+              disabled={timeline.totalBeats === 0}
+              className="w-20 py-2 rounded-lg bg-primary text-white font-medium disabled:opacity-30"
+            >
+              {playing ? '■ Stop' : '▶ Play'}
+            </button>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => setTempos(t => ({ ...t, [currentSong._id]: Math.max(MIN_TEMPO, tempo - 2) }))}
+                disabled={playing}
+                className="w-7 h-7 rounded bg-primary/10 disabled:opacity-30"
+              >
+                −
+              </button>
+              <span className="w-16 text-center font-mono">{tempo} bpm</span>
+              <button
+                onClick={() => setTempos(t => ({ ...t, [currentSong._id]: Math.min(MAX_TEMPO, tempo + 2) }))}
+                disabled={playing}
+                className="w-7 h-7 rounded bg-primary/10 disabled:opacity-30"
+              >
+                +
+              </button>
+            </div>
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            {/* Beat lights: the downbeat is the larger one; count-in shows here too */}
+            <div className="flex items-center gap-1.5">
+              {Array.from({ length: signature.beats }, (_, i) => (
+                <span
+                  key={i}
+                  className={`rounded-full ${i === 0 ? 'w-3 h-3' : 'w-2 h-2'} ${
+                    i === beatInBar ? (position!.beat < 0 ? 'bg-amber-500' : 'bg-primary') : 'bg-primary/15'
+                  }`}
+                />
+              ))}
+              <span className="ml-1 opacity-50">{signature.beats}/{signature.unit}</span>
+            </div>
+            <label className="flex items-center gap-1.5 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={withChords}
+                disabled={playing}
+                onChange={(e) => setWithChords(e.target.checked)}
+              />
+              Play chords
+            </label>
+          </div>
+        </div>
+      )}
+
       {/* Bottom Navigation (shows on hover/tap) */}
       <div
         className={`fixed bottom-0 left-0 right-0 bg-white/95 backdrop-blur border-t z-50 transition-transform ${
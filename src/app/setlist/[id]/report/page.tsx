@@ -0,0 +1,123 @@
+'use client';
+
+import { use } from 'react';
+import Link from 'next/link';
+import { useQuery } from 'convex/react';
+import { api } from '../../../../../convex/_generated/api';
+import Logo from '@/components/Logo';
+import { type Id } from '@/lib/db';
+import { summarizeSession, type SessionLogEntry } from '../../../../../live-state/log';
+import { formatDuration } from '../../../../../live-state/stage';
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+const clock = (at: number) => new Date(at).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+// Post-service report: one card per time this setlist was run live (each push
+// is a run), rebuilt from the liveSessionLog entries.
+export default function SetlistReportPage({ params }: PageProps) {
+  const { id } = use(params);
+  const data = useQuery(api.setlists.getWithSongs, { id: id as Id<'setlists'> });
+  const log = useQuery(api.liveSessionLog.listForSetlist, { setlistId: id as Id<'setlists'> });
+
+  if (data === undefined || log === undefined) {
+    return (
+      <div className="setlist-page min-h-screen p-4 flex items-center justify-center">
+        <div className="opacity-60">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="setlist-page min-h-screen p-4 flex flex-col items-center justify-center">
+        <p className="opacity-60 mb-4">Setlist not found</p>
+        <Link href="/setlist" className="text-primary hover:underline">
+          Back to dashboard
+        </Link>
+      </div>
+    );
+  }
+
+  const planned = data.songs.map(s => s.title);
+  const runs = new Map<number, SessionLogEntry[]>();
+  for (const entry of log) {
+    const run = runs.get(entry.pushedAt) ?? [];
+    run.push(entry);
+    runs.set(entry.pushedAt, run);
+  }
+  const reports = [...runs.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([pushedAt, entries]) => ({ pushedAt, report: summarizeSession(entries, planned) }))
+    .filter(r => r.report !== null);
+
+  return (
+    <div className="setlist-page min-h-screen p-4 sm:p-6 max-w-4xl mx-auto pb-24">
+      <header className="flex items-center justify-between mb-6">
+        <Link href={`/setlist/${id}`} className="flex items-center gap-2">
+          <span className="text-xl">←</span>
+          <span className="font-medium">{data.setlist.name}</span>
+        </Link>
+        <Logo />
+      </header>
+
+      <h1 className="text-2xl font-bold mb-6">Service Report</h1>
+
+      {reports.length === 0 ? (
+        <div className="bg-primary/5 rounded-lg p-6 text-center opacity-60">
+          Nothing logged yet. Reports appear after this setlist has been run live.
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {reports.map(({ pushedAt, report }) => report && (
+            <section key={pushedAt} className="bg-primary/5 rounded-lg p-4">
+              <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+                <h2 className="font-semibold">
+                  {new Date(report.startedAt).toLocaleDateString()} · {clock(report.startedAt)}–{clock(report.endedAt)}
+                </h2>
+                <span className="text-sm opacity-60">Total run time {formatDuration(report.totalMs)}</span>
+              </div>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left opacity-60">
+                    <th className="font-medium pb-2 w-8">#</th>
+                    <th className="font-medium pb-2">Song</th>
+                    <th className="font-medium pb-2">Started</th>
+                    <th className="font-medium pb-2 text-right">Duration</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-primary/10">
+                  {report.songs.map((song, i) => (
+                    <tr key={i}>
+                      <td className="py-2 font-mono opacity-60">{i + 1}</td>
+                      <td className="py-2">
+                        <div className="font-medium">{song.title}</div>
+                        {song.repeated.length > 0 && (
+                          <div className="text-xs opacity-60">
+                            Repeated: {song.sections.filter(s => s.visits > 1).map(s => `${s.label} ×${s.visits}`).join(', ')}
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-2 opacity-60">{clock(song.startedAt)}</td>
+                      <td className="py-2 text-right font-mono">{formatDuration(song.durationMs)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {report.skipped.length > 0 && (
+                <p className="mt-4 text-sm">
+                  <span className="font-medium">Skipped:</span>{' '}
+                  <span className="opacity-60">{report.skipped.join(', ')}</span>
+                </p>
+              )}
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,7 +7,8 @@ import { useQuery, useMutation } from 'convex/react';
 import { api } from '../../../../convex/_generated/api';
 import Logo from '@/components/Logo';
 import { type SetlistSong, type Id } from '@/lib/db';
-import { ALL_KEYS } from '@/lib/chords/transposition';
+import KeySelect from '@/components/setlist/KeySelect';
+import CapoSelect from '@/components/setlist/CapoSelect';
 
 export default function CreateSetlistPage() {
   const router = useRouter();
@@ -48,6 +49,14 @@ export default function CreateSetlistPage() {
     );
   };
 
+  const updateSongCapo = (songId: Id<'songs'>, capo: number) => {
+    setSelectedSongs(
+      selectedSongs.map(s =>
+        s.songId === songId ? { ...s, capo } : s
+      )
+    );
+  };
+
   const moveSong = (fromIndex: number, toIndex: number) => {
     const newSongs = [...selectedSongs];
     const [removed] = newSongs.splice(fromIndex, 1);
@@ -198,17 +207,20 @@ export default function CreateSetlistPage() {
                   </div>
 
                   {/* Key Selector */}
-                  <select
+                  <KeySelect
                     value={setlistSong.transposedKey || song.key}
-                    onChange={(e) => updateSongKey(song._id, e.target.value)}
-                    className="bg-white border border-primary/20 rounded px-2 py-1 text-sm font-mono"
-                  >
-                    {ALL_KEYS.map(k => (
-                      <option key={k} value={k}>
-                        {k} {k === song.key && '(orig)'}
-                      </option>
-                    ))}
-                  </select>
+                    onChange={(key) => updateSongKey(song._id, key)}
+                    original={song.key}
+                    className="rounded px-2 py-1 text-sm"
+                  />
+
+                  {/* Capo Selector */}
+                  <CapoSelect
+                    value={setlistSong.capo ?? song.capo ?? 0}
+                    onChange={(capo) => updateSongCapo(song._id, capo)}
+                    soundingKey={setlistSong.transposedKey || song.key}
+                    className="rounded px-2 py-1 text-sm"
+                  />
 
                   {/* Remove */}
                   <button
@@ -18,6 +18,12 @@ export default function SetlistDashboard() {
           <Logo className="text-2xl" />
         </Link>
         <div className="flex items-center gap-4">
+          <Link
+            href="/setlist/themes"
+            className="text-sm opacity-60 hover:opacity-100 transition-opacity"
+          >
+            Projector Themes
+          </Link>
           <Link
             href="/harmony"
             className="text-sm opacity-60 hover:opacity-100 transition-opacity"
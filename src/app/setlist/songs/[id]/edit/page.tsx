@@ -5,10 +5,18 @@ import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import Logo from '@/components/Logo';
 import VisualChordEditor from '@/components/setlist/VisualChordEditor';
+import KeySelect from '@/components/setlist/KeySelect';
+import CapoSelect from '@/components/setlist/CapoSelect';
+import KeySuggestion from '@/components/setlist/KeySuggestion';
+import ArrangementEditor from '@/components/setlist/ArrangementEditor';
+import TranslationEditor from '@/components/setlist/TranslationEditor';
+import ChunkingPicker from '@/components/setlist/ChunkingPicker';
 import { useQuery, useMutation } from 'convex/react';
 import { api } from '../../../../../../convex/_generated/api';
 import { type Section, type Id } from '@/lib/db';
-import { ALL_KEYS } from '@/lib/chords/transposition';
+import type { Arrangement } from '../../../../../../live-state/arrangement';
+import type { SlideChunking } from '../../../../../../live-state/slides';
+import { TIME_SIGNATURES, MIN_TEMPO, MAX_TEMPO, parseTimeSignature, normalizeTempo } from '../../../../../../live-state/rehearsal';
 
 interface PageProps {
   params: Promise<{ id: string }>;
@@ -26,8 +34,14 @@ export default function EditSongPage({ params }: PageProps) {
   // Editable state
   const [title, setTitle] = useState('');
   const [artist, setArtist] = useState('');
+  const [ccli, setCcli] = useState('');
   const [songKey, setSongKey] = useState('C');
+  const [tempo, setTempo] = useState('');
+  const [timeSignature, setTimeSignature] = useState('4/4');
+  const [capo, setCapo] = useState(0);
   const [sections, setSections] = useState<Section[]>([]);
+  const [arrangements, setArrangements] = useState<Arrangement[]>([]);
+  const [chunking, setChunking] = useState<SlideChunking | undefined>(undefined);
   const [populated, setPopulated] = useState(false);
 
   const loading = song === undefined;
@@ -36,8 +50,14 @@ export default function EditSongPage({ params }: PageProps) {
     if (song && !populated) {
       setTitle(song.title);
       setArtist(song.artist);
+      setCcli(song.ccli ?? '');
       setSongKey(song.key);
+      setTempo(song.tempo ? String(song.tempo) : '');
+      setTimeSignature(song.timeSignature ?? '4/4');
+      setCapo(song.capo ?? 0);
       setSections(JSON.parse(JSON.stringify(song.sections))); // Deep copy
+      setArrangements(song.arrangements ?? []);
+      setChunking(song.chunking);
       setPopulated(true);
     }
   }, [song, populated]);
@@ -47,7 +67,14 @@ export default function EditSongPage({ params }: PageProps) {
     setSaving(true);
 
     try {
-      await updateSong({ id: song._id, title, artist, key: songKey, sections });
+      await updateSong({
+        id: song._id, title, artist, ccli: ccli.trim() || undefined, key: songKey, sections,
+        tempo: tempo.trim() ? normalizeTempo(Number(tempo)) : undefined,
+        timeSignature,
+        capo,
+        arrangements: arrangements.filter(a => a.name.trim()).map(a => ({ ...a, name: a.name.trim() })),
+        chunking: chunking ?? null,
+      });
       router.push(`/setlist/songs/${id}`);
     } catch (err) {
       console.error('Save error:', err);
@@ -115,17 +142,14 @@ export default function EditSongPage({ params }: PageProps) {
           </div>
           <div>
             <label className="block text-sm font-medium mb-1">Key</label>
-            <select
+            <KeySelect
               value={songKey}
-              onChange={(e) => setSongKey(e.target.value)}
-              className="w-full bg-white border border-primary/20 rounded-lg px-3 py-2"
-            >
-              {ALL_KEYS.map(k => (
-                <option key={k} value={k}>{k}</option>
-              ))}
-            </select>
+              onChange={setSongKey}
+              className="w-full rounded-lg px-3 py-2"
+            />
+            <KeySuggestion sections={sections} songKey={songKey} onUse={setSongKey} className="mt-1" />
           </div>
-          <div className="sm:col-span-3">
+          <div className="sm:col-span-2">
             <label className="block text-sm font-medium mb-1">Artist</label>
             <input
               type="text"
@@ -134,6 +158,54 @@ export default function EditSongPage({ params }: PageProps) {
               className="w-full bg-white border border-primary/20 rounded-lg px-3 py-2"
             />
           </div>
+          <div className="sm:col-span-3">
+            <label className="block text-sm font-medium mb-1">Projector Slides</label>
+            <ChunkingPicker value={chunking} onChange={setChunking} inheritLabel="Setlist default" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">CCLI #</label>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={ccli}
+              onChange={(e) => setCcli(e.target.value)}
+              placeholder="e.g., 4768151"
+              className="w-full bg-white border border-primary/20 rounded-lg px-3 py-2"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Tempo (BPM)</label>
+            <input
+              type="number"
+              min={MIN_TEMPO}
+              max={MAX_TEMPO}
+              value={tempo}
+              onChange={(e) => setTempo(e.target.value)}
+              placeholder="e.g., 72"
+              className="w-full bg-white border border-primary/20 rounded-lg px-3 py-2"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Time Signature</label>
+            <select
+              value={timeSignature}
+              onChange={(e) => setTimeSignature(e.target.value)}
+              className="w-full bg-white border border-primary/20 rounded-lg px-3 py-2"
+            >
+              {TIME_SIGNATURES.map(t => (
+                <option key={t} value={t}>{t}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Capo</label>
+            <CapoSelect
+              value={capo}
+              onChange={setCapo}
+              soundingKey={songKey}
+              className="w-full rounded-lg px-3 py-2"
+            />
+          </div>
         </div>
       </div>
 
@@ -143,10 +215,27 @@ export default function EditSongPage({ params }: PageProps) {
         <VisualChordEditor
           sections={sections}
           songKey={songKey}
+          beatsPerBar={parseTimeSignature(timeSignature).beats}
           onChange={setSections}
         />
       </div>
 
+      {/* Translations */}
+      <div className="mb-6">
+        <h2 className="text-lg font-semibold mb-4">Translations</h2>
+        <TranslationEditor sections={sections} onChange={setSections} />
+      </div>
+
+      {/* Arrangements */}
+      <div className="mb-6">
+        <h2 className="text-lg font-semibold mb-4">Arrangements</h2>
+        <ArrangementEditor
+          labels={sections.map(s => s.label)}
+          arrangements={arrangements}
+          onChange={setArrangements}
+        />
+      </div>
+
       {/* Danger Zone */}
       <div className="border border-red-200 rounded-lg p-4 mb-6">
         <h3 className="text-sm font-semibold text-red-600 mb-2">Danger Zone</h3>
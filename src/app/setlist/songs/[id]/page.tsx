@@ -3,12 +3,15 @@
 import { useState, useEffect, use } from 'react';
 import Link from 'next/link';
 import Logo from '@/components/Logo';
-import ChordChart from '@/components/setlist/ChordChart';
+import ChordChart, { type ChordDisplayMode } from '@/components/setlist/ChordChart';
 import SongExportModal from '@/components/setlist/SongExportModal';
+import KeySelect from '@/components/setlist/KeySelect';
+import CapoSelect from '@/components/setlist/CapoSelect';
 import { useQuery, useMutation } from 'convex/react';
 import { api } from '../../../../../convex/_generated/api';
 import type { Id } from '@/lib/db';
-import { ALL_KEYS, getTranspositionInterval } from '@/lib/chords/transposition';
+import { getTranspositionInterval } from '@/lib/chords/transposition';
+import { arrangedSections } from '../../../../../live-state/arrangement';
 
 interface PageProps {
   params: Promise<{ id: string }>;
@@ -19,13 +22,18 @@ export default function SongDetailPage({ params }: PageProps) {
   const song = useQuery(api.songs.get, { id: id as Id<'songs'> });
   const updateSong = useMutation(api.songs.update);
   const [displayKey, setDisplayKey] = useState<string>('');
-  const [displayMode, setDisplayMode] = useState<'letters' | 'numerals' | 'none'>('letters');
+  const [displayMode, setDisplayMode] = useState<ChordDisplayMode>('letters');
+  const [capo, setCapo] = useState(0);
   const [showExport, setShowExport] = useState(false);
+  const [arrangement, setArrangement] = useState('');
 
   const loading = song === undefined;
 
   useEffect(() => {
-    if (song) setDisplayKey(song.key);
+    if (song) {
+      setDisplayKey(song.key);
+      setCapo(song.capo ?? 0);
+    }
   }, [song]);
 
   const handleTranspose = (newKey: string) => {
@@ -37,6 +45,11 @@ export default function SongDetailPage({ params }: PageProps) {
     await updateSong({ id: song._id, key: displayKey });
   };
 
+  const handleSaveCapo = async () => {
+    if (!song || capo === (song.capo ?? 0)) return;
+    await updateSong({ id: song._id, capo });
+  };
+
   if (loading) {
     return (
       <div className="setlist-page min-h-screen p-4 flex items-center justify-center">
@@ -89,6 +102,7 @@ export default function SongDetailPage({ params }: PageProps) {
         <SongExportModal
           song={song}
           initialKey={displayKey || song.key}
+          initialCapo={capo}
           onClose={() => setShowExport(false)}
         />
       )}
@@ -104,17 +118,12 @@ export default function SongDetailPage({ params }: PageProps) {
         {/* Key / Transpose */}
         <div className="flex items-center gap-2">
           <label className="text-sm font-medium">Key:</label>
-          <select
+          <KeySelect
             value={displayKey}
-            onChange={(e) => handleTranspose(e.target.value)}
-            className="bg-white border border-primary/20 rounded px-2 py-1 font-mono"
-          >
-            {ALL_KEYS.map(k => (
-              <option key={k} value={k}>
-                {k} {k === song.key ? '(original)' : `(${getTranspositionInterval(song.key, k) > 6 ? getTranspositionInterval(song.key, k) - 12 : getTranspositionInterval(song.key, k) > 0 ? '+' + getTranspositionInterval(song.key, k) : getTranspositionInterval(song.key, k)})`}
-              </option>
-            ))}
-          </select>
+            onChange={handleTranspose}
+            original={song.key}
+            className="rounded px-2 py-1"
+          />
           {isTransposed && (
             <button
               onClick={handleSaveTransposition}
@@ -125,28 +134,68 @@ export default function SongDetailPage({ params }: PageProps) {
           )}
         </div>
 
+        {/* Capo */}
+        <div className="flex items-center gap-2">
+          <label className="text-sm font-medium">Capo:</label>
+          <CapoSelect
+            value={capo}
+            onChange={setCapo}
+            soundingKey={displayKey || song.key}
+            className="rounded px-2 py-1"
+          />
+          {capo !== (song.capo ?? 0) && (
+            <button
+              onClick={handleSaveCapo}
+              className="text-xs text-primary hover:underline"
+            >
+              Save as default
+            </button>
+          )}
+        </div>
+
         {/* Display Mode */}
         <div className="flex items-center gap-2">
           <label className="text-sm font-medium">Show:</label>
           <select
             value={displayMode}
-            onChange={(e) => setDisplayMode(e.target.value as 'letters' | 'numerals' | 'none')}
+            onChange={(e) => setDisplayMode(e.target.value as ChordDisplayMode)}
             className="bg-white border border-primary/20 rounded px-2 py-1"
           >
             <option value="letters">Letter Chords</option>
+            <option value="shapes">Capo Shapes</option>
             <option value="numerals">Roman Numerals</option>
+            <option value="nashville">Nashville Numbers</option>
             <option value="none">Lyrics Only</option>
           </select>
         </div>
+
+        {/* Arrangement */}
+        {(song.arrangements?.length ?? 0) > 0 && (
+          <div className="flex items-center gap-2">
+            <label className="text-sm font-medium">Arrangement:</label>
+            <select
+              value={arrangement}
+              onChange={(e) => setArrangement(e.target.value)}
+              className="bg-white border border-primary/20 rounded px-2 py-1"
+            >
+              <option value="">Section order</option>
+              {song.arrangements!.map(a => (
+                <option key={a.name} value={a.name}>{a.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
       </div>
 
       {/* Chord Chart */}
       <div className="bg-white rounded-lg p-4 sm:p-6 border border-primary/10 overflow-x-auto">
         <ChordChart
-          sections={song.sections}
+          sections={arrangedSections(song, arrangement)}
           songKey={song.key}
           displayKey={displayKey}
           displayMode={displayMode}
+          timeSignature={song.timeSignature}
+          capo={capo}
         />
       </div>
     </div>
@@ -5,11 +5,12 @@ import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import Logo from '@/components/Logo';
 import VisualChordEditor from '@/components/setlist/VisualChordEditor';
+import KeySelect from '@/components/setlist/KeySelect';
+import KeySuggestion from '@/components/setlist/KeySuggestion';
 import ChordChart from '@/components/setlist/ChordChart';
 import { useMutation } from 'convex/react';
 import { api } from '../../../../../convex/_generated/api';
 import type { Section, SectionType } from '@/lib/db';
-import { ALL_KEYS } from '@/lib/chords/transposition';
 import { parseLyricsToSections } from '@/lib/lyrics/parser';
 
 type Step = 'metadata' | 'lyrics' | 'sections' | 'chords' | 'preview';
@@ -27,6 +28,7 @@ export default function CreateSongPage() {
   // Form state
   const [title, setTitle] = useState('');
   const [artist, setArtist] = useState('');
+  const [ccli, setCcli] = useState('');
   const [songKey, setSongKey] = useState('G');
   const [rawLyrics, setRawLyrics] = useState('');
   const [sections, setSections] = useState<Section[]>([]);
@@ -70,6 +72,7 @@ export default function CreateSongPage() {
       const id = await createSong({
         title: title.trim(),
         artist: artist.trim(),
+        ccli: ccli.trim() || undefined,
         key: songKey,
         sections,
       });
@@ -160,17 +163,25 @@ export default function CreateSongPage() {
               />
             </div>
 
+            <div>
+              <label className="block text-sm font-medium mb-1">CCLI Song #</label>
+              <input
+                type="text"
+                inputMode="numeric"
+                value={ccli}
+                onChange={(e) => setCcli(e.target.value)}
+                placeholder="Optional, shown on the livestream overlay"
+                className="w-full bg-white border border-primary/20 rounded-lg px-3 py-2"
+              />
+            </div>
+
             <div>
               <label className="block text-sm font-medium mb-1">Key</label>
-              <select
+              <KeySelect
                 value={songKey}
-                onChange={(e) => setSongKey(e.target.value)}
-                className="w-full bg-white border border-primary/20 rounded-lg px-3 py-2"
-              >
-                {ALL_KEYS.map(k => (
-                  <option key={k} value={k}>{k}</option>
-                ))}
-              </select>
+                onChange={setSongKey}
+                className="w-full rounded-lg px-3 py-2"
+              />
             </div>
           </div>
 
@@ -364,6 +375,7 @@ My God my Savior has ransomed me`}
                 {songKey}
               </span>
             </div>
+            <KeySuggestion sections={sections} songKey={songKey} onUse={setSongKey} className="-mt-2 mb-4" />
 
             <ChordChart
               sections={sections}
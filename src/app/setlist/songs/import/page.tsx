@@ -10,6 +10,9 @@ import { useMutation } from 'convex/react';
 import { api } from '../../../../../convex/_generated/api';
 import type { NewSong } from '@/lib/db';
 import ChordChart from '@/components/setlist/ChordChart';
+import CapoSelect from '@/components/setlist/CapoSelect';
+import KeySelect from '@/components/setlist/KeySelect';
+import KeySuggestion from '@/components/setlist/KeySuggestion';
 
 type ParsedSong = NewSong;
 type ImportMode = 'url' | 'pdf';
@@ -30,6 +33,7 @@ export default function ImportSongPage() {
   const [title, setTitle] = useState('');
   const [artist, setArtist] = useState('');
   const [songKey, setSongKey] = useState('C');
+  const [capo, setCapo] = useState(0);
 
   // Handle URL import
   const handleUrlImport = useCallback(async () => {
@@ -61,13 +65,15 @@ export default function ImportSongPage() {
         tabData.content,
         tabData.title,
         tabData.artist,
-        tabData.key
+        tabData.key,
+        tabData.capo
       );
 
       console.log('Parsed result:', {
         title: result.title,
         artist: result.artist,
         key: result.key,
+        capo: result.capo,
         sectionsCount: result.sections.length,
       });
 
@@ -75,11 +81,13 @@ export default function ImportSongPage() {
         title: result.title,
         artist: result.artist,
         key: result.key,
+        capo: result.capo,
         sections: result.sections,
       });
       setTitle(result.title);
       setArtist(result.artist);
       setSongKey(result.key);
+      setCapo(result.capo);
     } catch (err) {
       console.error('URL import error:', err);
       setError(err instanceof Error ? err.message : 'Failed to import from URL');
@@ -117,6 +125,7 @@ export default function ImportSongPage() {
       setTitle(song.title);
       setArtist(song.artist);
       setSongKey(song.key);
+      setCapo(0);
     } catch (err) {
       console.error('Parse error:', err);
       setError('Failed to parse PDF. Please try a different file.');
@@ -150,6 +159,7 @@ export default function ImportSongPage() {
       title,
       artist,
       key: songKey,
+      capo: capo || undefined,
     };
 
     const id = await createSong(songToSave);
@@ -296,15 +306,21 @@ export default function ImportSongPage() {
               </div>
               <div>
                 <label className="block text-sm font-medium mb-1">Key</label>
-                <select
+                <KeySelect
                   value={songKey}
-                  onChange={(e) => setSongKey(e.target.value)}
-                  className="bg-white border border-primary/20 rounded-lg px-3 py-2"
-                >
-                  {['C', 'Db', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'].map(k => (
-                    <option key={k} value={k}>{k}</option>
-                  ))}
-                </select>
+                  onChange={setSongKey}
+                  className="rounded-lg px-3 py-2"
+                />
+                <KeySuggestion sections={parsedSong.sections} songKey={songKey} onUse={setSongKey} className="mt-1" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Capo</label>
+                <CapoSelect
+                  value={capo}
+                  onChange={setCapo}
+                  soundingKey={songKey}
+                  className="rounded-lg px-3 py-2"
+                />
               </div>
             </div>
           </div>
@@ -1,12 +1,13 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useQuery, useMutation } from 'convex/react';
 import { api } from '../../../../convex/_generated/api';
 import Logo from '@/components/Logo';
 import type { Id } from '@/lib/db';
+import { keyMismatch, type KeyEstimate } from '../../../../live-state/tonality';
 
 export default function SongsLibraryPage() {
   const router = useRouter();
@@ -18,6 +19,17 @@ export default function SongsLibraryPage() {
 
   const loading = songs === undefined;
 
+  // Stored keys the chords clearly disagree with, by song id. Scoring every
+  // key is too slow to redo on each keystroke in the search box.
+  const keyFlags = useMemo(() => {
+    const flags = new Map<Id<'songs'>, KeyEstimate>();
+    for (const song of songs ?? []) {
+      const suggested = keyMismatch(song.key, song.sections);
+      if (suggested) flags.set(song._id, suggested);
+    }
+    return flags;
+  }, [songs]);
+
   // Close menu on click outside
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -144,31 +156,37 @@ export default function SongsLibraryPage() {
         </div>
       ) : (
         <div className="grid gap-2">
-          {filteredSongs.map((song) => (
-            <div
-              key={song._id}
-              className="bg-primary/5 hover:bg-primary/10 rounded-lg p-4 transition-colors flex items-center justify-between group"
-            >
-              <Link
-                href={`/setlist/songs/${song._id}`}
-                className="flex-1"
+          {filteredSongs.map((song) => {
+            const suggested = keyFlags.get(song._id);
+            return (
+              <div
+                key={song._id}
+                className="bg-primary/5 hover:bg-primary/10 rounded-lg p-4 transition-colors flex items-center justify-between group"
               >
-                <div className="font-semibold">{song.title}</div>
-                <div className="text-sm opacity-60">{song.artist}</div>
-              </Link>
-              <div className="flex items-center gap-3">
-                <span className="text-sm font-mono bg-primary/10 px-2 py-0.5 rounded">
-                  {song.key}
-                </span>
-                <button
-                  onClick={() => handleDelete(song._id, song.title)}
-                  className="opacity-0 group-hover:opacity-60 hover:opacity-100 text-red-600 text-sm"
+                <Link
+                  href={`/setlist/songs/${song._id}`}
+                  className="flex-1"
                 >
-                  Delete
-                </button>
+                  <div className="font-semibold">{song.title}</div>
+                  <div className="text-sm opacity-60">{song.artist}</div>
+                </Link>
+                <div className="flex items-center gap-3">
+                  <span
+                    className={`text-sm font-mono px-2 py-0.5 rounded ${suggested ? 'bg-amber-100 text-amber-800' : 'bg-primary/10'}`}
+                    title={suggested ? `Chords suggest ${suggested.key} (${Math.round(suggested.confidence * 100)}% sure)` : undefined}
+                  >
+                    {song.key}{suggested && ' ?'}
+                  </span>
+                  <button
+                    onClick={() => handleDelete(song._id, song.title)}
+                    className="opacity-0 group-hover:opacity-60 hover:opacity-100 text-red-600 text-sm"
+                  >
+                    Delete
+                  </button>
+                </div>
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       )}
     </div>
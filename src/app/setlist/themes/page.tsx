@@ -0,0 +1,233 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../../../convex/_generated/api';
+import Logo from '@/components/Logo';
+import ThemedSlide from '@/components/setlist/ThemedSlide';
+import { type Id, type Theme } from '@/lib/db';
+import { toLiveTheme } from '@/lib/live/theme';
+import {
+  DEFAULT_THEME, THEME_FONTS, type LiveTheme, type ThemeBackground,
+} from '../../../../live-state/theme';
+
+const SAMPLE_LYRICS = 'Amazing grace how sweet the sound\nThat saved a wretch like me';
+
+// Switching background kind keeps whatever colour/url the user already typed.
+function backgroundOfKind(kind: ThemeBackground['kind'], prev: ThemeBackground): ThemeBackground {
+  const color = prev.kind === 'color' ? prev.color : prev.kind === 'gradient' ? prev.from : '#0a0a0a';
+  const url = prev.kind === 'image' || prev.kind === 'video' ? prev.url : '';
+  switch (kind) {
+    case 'color':    return { kind, color };
+    case 'gradient': return { kind, from: color, to: '#000000', angle: 180 };
+    case 'image':    return { kind, url, dim: 0.35 };
+    case 'video':    return { kind, url, dim: 0.35 };
+  }
+}
+
+export default function ThemesPage() {
+  const themes = useQuery(api.themes.list);
+  const createTheme = useMutation(api.themes.create);
+  const updateTheme = useMutation(api.themes.update);
+  const removeTheme = useMutation(api.themes.remove);
+
+  const [editingId, setEditingId] = useState<Id<'themes'> | null>(null);
+  const [draft, setDraft] = useState<LiveTheme>({ ...DEFAULT_THEME, name: 'New theme' });
+  const [saving, setSaving] = useState(false);
+
+  const set = <K extends keyof LiveTheme>(key: K, value: LiveTheme[K]) => setDraft({ ...draft, [key]: value });
+  const setBackground = (patch: Partial<ThemeBackground>) =>
+    setDraft({ ...draft, background: { ...draft.background, ...patch } as ThemeBackground });
+
+  const startNew = () => {
+    setEditingId(null);
+    setDraft({ ...DEFAULT_THEME, name: 'New theme' });
+  };
+
+  const startEdit = (theme: Theme) => {
+    setEditingId(theme._id);
+    setDraft(toLiveTheme(theme));
+  };
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) return;
+    setSaving(true);
+    try {
+      const theme = { ...draft, name: draft.name.trim() };
+      if (editingId) await updateTheme({ id: editingId, ...theme });
+      else setEditingId(await createTheme(theme));
+    } catch (err) {
+      console.error('Save error:', err);
+      alert('Failed to save theme');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!editingId || !confirm(`Delete "${draft.name}"? Setlists using it go back to the default.`)) return;
+    await removeTheme({ id: editingId });
+    startNew();
+  };
+
+  const bg = draft.background;
+  const input = 'w-full bg-white border border-primary/20 rounded-lg px-3 py-2';
+
+  return (
+    <div className="setlist-page min-h-screen p-4 sm:p-6 max-w-5xl mx-auto">
+      <header className="flex items-center justify-between mb-6">
+        <Link href="/setlist" className="flex items-center gap-2">
+          <span className="text-xl">←</span>
+          <span className="font-medium">Setlists</span>
+        </Link>
+        <Logo />
+      </header>
+
+      <h1 className="text-2xl font-bold mb-6">Projector Themes</h1>
+
+      <div className="grid gap-6 md:grid-cols-[220px_1fr]">
+        {/* Theme list */}
+        <aside className="grid gap-2 content-start">
+          <button
+            onClick={startNew}
+            className="bg-primary text-secondary p-3 rounded-lg font-semibold hover:opacity-90 transition-opacity"
+          >
+            + New Theme
+          </button>
+          {themes === undefined ? (
+            <div className="opacity-60 text-sm p-2">Loading...</div>
+          ) : themes.map(theme => (
+            <button
+              key={theme._id}
+              onClick={() => startEdit(theme)}
+              className={`text-left rounded-lg p-3 transition-colors ${
+                theme._id === editingId ? 'bg-primary/15' : 'bg-primary/5 hover:bg-primary/10'
+              }`}
+            >
+              <div className="font-medium">{theme.name}</div>
+              <div className="text-xs opacity-60">{theme.fontFamily} · {theme.layout === 'lowerThird' ? 'lower third' : 'centered'}</div>
+            </button>
+          ))}
+        </aside>
+
+        {/* Editor */}
+        <section className="grid gap-4">
+          <ThemedSlide
+            theme={draft}
+            title="Amazing Grace"
+            lyrics={SAMPLE_LYRICS}
+            preview
+            className="w-full aspect-video rounded-lg border border-primary/20"
+          />
+
+          <div className="bg-primary/5 rounded-lg p-4 grid gap-4 sm:grid-cols-2">
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium mb-1">Name *</label>
+              <input type="text" value={draft.name} onChange={(e) => set('name', e.target.value)} className={input} />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Background</label>
+              <select
+                value={bg.kind}
+                onChange={(e) => set('background', backgroundOfKind(e.target.value as ThemeBackground['kind'], bg))}
+                className={input}
+              >
+                <option value="color">Solid colour</option>
+                <option value="gradient">Gradient</option>
+                <option value="image">Image</option>
+                <option value="video">Looping video</option>
+              </select>
+            </div>
+
+            <div className="flex gap-2 items-end">
+              {bg.kind === 'color' && (
+                <input type="color" value={bg.color} onChange={(e) => setBackground({ color: e.target.value })} className="h-10 w-16" />
+              )}
+              {bg.kind === 'gradient' && (
+                <>
+                  <input type="color" value={bg.from} onChange={(e) => setBackground({ from: e.target.value })} className="h-10 w-12" />
+                  <input type="color" value={bg.to} onChange={(e) => setBackground({ to: e.target.value })} className="h-10 w-12" />
+                  <label className="flex-1 text-xs">
+                    Angle {bg.angle}°
+                    <input type="range" min={0} max={360} value={bg.angle} onChange={(e) => setBackground({ angle: +e.target.value })} className="w-full" />
+                  </label>
+                </>
+              )}
+              {(bg.kind === 'image' || bg.kind === 'video') && (
+                <input
+                  type="url"
+                  value={bg.url}
+                  onChange={(e) => setBackground({ url: e.target.value })}
+                  placeholder={bg.kind === 'image' ? 'https://…/background.jpg' : 'https://…/loop.mp4'}
+                  className={input}
+                />
+              )}
+            </div>
+
+            {(bg.kind === 'image' || bg.kind === 'video') && (
+              <label className="sm:col-span-2 text-sm">
+                Dim background {Math.round(bg.dim * 100)}%
+                <input type="range" min={0} max={0.9} step={0.05} value={bg.dim} onChange={(e) => setBackground({ dim: +e.target.value })} className="w-full" />
+              </label>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Font</label>
+              <select value={draft.fontFamily} onChange={(e) => set('fontFamily', e.target.value)} className={input}>
+                {THEME_FONTS.map(f => <option key={f} value={f}>{f}</option>)}
+              </select>
+            </div>
+
+            <div className="flex gap-3 items-end">
+              <label className="flex-1 text-sm">
+                Size {draft.fontSize}
+                <input type="range" min={2} max={10} step={0.5} value={draft.fontSize} onChange={(e) => set('fontSize', +e.target.value)} className="w-full" />
+              </label>
+              <input type="color" value={draft.textColor} onChange={(e) => set('textColor', e.target.value)} className="h-10 w-12" title="Text colour" />
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={draft.shadow} onChange={(e) => set('shadow', e.target.checked)} />
+              Text shadow
+            </label>
+
+            <label className="text-sm">
+              Outline {draft.outline}px
+              <input type="range" min={0} max={4} step={0.5} value={draft.outline} onChange={(e) => set('outline', +e.target.value)} className="w-full" />
+            </label>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Layout</label>
+              <select value={draft.layout} onChange={(e) => set('layout', e.target.value as LiveTheme['layout'])} className={input}>
+                <option value="centered">Centered</option>
+                <option value="lowerThird">Lower third</option>
+              </select>
+            </div>
+
+            <label className="text-sm">
+              Safe area {draft.safeArea}%
+              <input type="range" min={0} max={15} value={draft.safeArea} onChange={(e) => set('safeArea', +e.target.value)} className="w-full" />
+            </label>
+          </div>
+
+          <div className="flex gap-4">
+            {editingId && (
+              <button onClick={handleDelete} className="px-4 py-3 text-red-600 border border-red-600/30 rounded-lg hover:bg-red-50">
+                Delete
+              </button>
+            )}
+            <button
+              onClick={handleSave}
+              disabled={!draft.name.trim() || saving}
+              className="flex-1 bg-primary text-secondary py-3 rounded-lg font-semibold disabled:opacity-50 hover:opacity-90 transition-opacity"
+            >
+              {saving ? 'Saving...' : editingId ? 'Save Changes' : 'Create Theme'}
+            </button>
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+}
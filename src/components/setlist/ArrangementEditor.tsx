@@ -0,0 +1,92 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  formatRoadmap, parseRoadmap, sectionAbbrev, type Arrangement,
+} from '../../../live-state/arrangement';
+
+interface ArrangementEditorProps {
+  labels: string[];  // the song's section labels, in song order
+  arrangements: Arrangement[];
+  onChange: (arrangements: Arrangement[]) => void;
+}
+
+// One arrangement: its name plus a typed roadmap ("V1, C, V2, C x2, B").
+// The roadmap text stays as typed; the parsed steps are what gets saved.
+function ArrangementRow({ labels, arrangement, onChange, onRemove }: {
+  labels: string[];
+  arrangement: Arrangement;
+  onChange: (arrangement: Arrangement) => void;
+  onRemove: () => void;
+}) {
+  const [text, setText] = useState(() => formatRoadmap(arrangement.steps));
+  const { unknown } = parseRoadmap(text, labels);
+  const missing = arrangement.steps.filter(s => !labels.includes(s.section)).map(s => s.section);
+
+  return (
+    <div className="p-3 grid gap-2">
+      <div className="flex gap-2 items-center">
+        <input
+          type="text"
+          value={arrangement.name}
+          onChange={(e) => onChange({ ...arrangement, name: e.target.value })}
+          placeholder="Name, e.g. Sunday"
+          className="w-40 bg-white border border-primary/20 rounded px-2 py-1 text-sm font-medium"
+        />
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            onChange({ ...arrangement, steps: parseRoadmap(e.target.value, labels).steps });
+          }}
+          placeholder="V1, C, V2, C, B, C x2"
+          className="flex-1 bg-white border border-primary/20 rounded px-2 py-1 text-sm font-mono"
+        />
+        <button onClick={onRemove} className="text-red-600 opacity-60 hover:opacity-100">×</button>
+      </div>
+      {(unknown.length > 0 || missing.length > 0) && (
+        <p className="text-xs text-red-600">
+          No section called {[...unknown, ...missing].map(t => `“${t}”`).join(', ')} — it will be skipped.
+        </p>
+      )}
+    </div>
+  );
+}
+
+// Named roadmaps over the song's unique sections. A setlist entry picks one;
+// without a pick the song runs in section order.
+export default function ArrangementEditor({ labels, arrangements, onChange }: ArrangementEditorProps) {
+  const unique = [...new Set(labels)];
+
+  const update = (index: number, arrangement: Arrangement) =>
+    onChange(arrangements.map((a, i) => (i === index ? arrangement : a)));
+
+  const add = () =>
+    onChange([...arrangements, { name: arrangements.length ? '' : 'Default', steps: unique.map(section => ({ section })) }]);
+
+  return (
+    <div>
+      <p className="text-xs opacity-60 mb-2">
+        Sections: {unique.map(l => `${l} (${sectionAbbrev(l)})`).join(' · ') || 'none yet'}
+      </p>
+      {arrangements.length > 0 && (
+        <div className="bg-primary/5 rounded-lg divide-y divide-primary/10 mb-2">
+          {arrangements.map((arrangement, i) => (
+            <ArrangementRow
+              // Remount rows when one is added or removed so each keeps its own roadmap text.
+              key={`${i}/${arrangements.length}`}
+              labels={unique}
+              arrangement={arrangement}
+              onChange={(a) => update(i, a)}
+              onRemove={() => onChange(arrangements.filter((_, j) => j !== i))}
+            />
+          ))}
+        </div>
+      )}
+      <button onClick={add} className="text-sm px-2 py-1 border border-primary/20 rounded hover:bg-primary/5">
+        + Arrangement
+      </button>
+    </div>
+  );
+}
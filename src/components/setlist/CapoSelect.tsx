@@ -0,0 +1,29 @@
+'use client';
+
+import { MAX_CAPO, capoShapeKey } from '../../../live-state/capo';
+
+interface CapoSelectProps {
+  value: number;
+  onChange: (capo: number) => void;
+  // The key the song sounds in, for naming the shapes each fret leaves
+  soundingKey: string;
+  className?: string;
+}
+
+// Capo picker: no capo, or a fret with the shapes it's played with ("Capo 2 (G shapes)").
+export default function CapoSelect({ value, onChange, soundingKey, className = '' }: CapoSelectProps) {
+  const frets = Array.from({ length: MAX_CAPO }, (_, i) => i + 1);
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className={`bg-white border border-primary/20 ${className}`}
+    >
+      <option value={0}>No capo</option>
+      {frets.map(fret => (
+        <option key={fret} value={fret}>Capo {fret} ({capoShapeKey(soundingKey, fret)} shapes)</option>
+      ))}
+    </select>
+  );
+}
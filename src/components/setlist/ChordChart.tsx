@@ -1,14 +1,27 @@
 'use client';
 
+import { Fragment, useEffect, useRef, useState } from 'react';
 import { type Section, type ChordLine } from '@/lib/db';
 import { transposeChordToKey } from '@/lib/chords/transposition';
-import { chordToRomanNumeral } from '@/lib/chords/nashville';
+import { chordToRomanNumeral, numberChart, barChords } from '@/lib/chords/nashville';
+import { parseTimeSignature } from '../../../live-state/rehearsal';
+import { capoShapeKey, capoNote } from '../../../live-state/capo';
+import { DIAGRAM_INSTRUMENTS, type DiagramInstrument } from '@/lib/chords/diagrams';
+import ChordDiagram from './ChordDiagram';
+
+// Letters, capo shapes and Roman numerals sit over the lyrics; Nashville is a number chart
+export type ChordDisplayMode = 'letters' | 'shapes' | 'numerals' | 'nashville' | 'none';
 
 interface ChordChartProps {
   sections: Section[];
   songKey: string;
   displayKey?: string; // If transposing
-  displayMode?: 'letters' | 'numerals' | 'none';
+  displayMode?: ChordDisplayMode;
+  timeSignature?: string; // bar length for the Nashville chart
+  capo?: number; // fret for the shapes mode; the key shown stays the sounding one
+  // Rehearsal playback position: the line kept in view and the chord lit on it
+  // (chord is an index into the line's chords, -1 while the line has none).
+  activeChord?: { section: number; line: number; chord: number } | null;
 }
 
 export default function ChordChart({
@@ -16,9 +29,19 @@ export default function ChordChart({
   songKey,
   displayKey,
   displayMode = 'letters',
+  timeSignature,
+  capo,
+  activeChord = null,
 }: ChordChartProps) {
-  const effectiveKey = displayKey || songKey;
-  const shouldTranspose = displayKey && displayKey !== songKey;
+  const activeRef = useRef<HTMLDivElement>(null);
+  // Chord diagrams: shown while hovering a chord, or held open by tapping it
+  const [instrument, setInstrument] = useState<DiagramInstrument>('guitar');
+  const [pinnedChord, setPinnedChord] = useState<{ section: number; line: number; chord: number } | null>(null);
+  const soundingKey = displayKey || songKey;
+  // Shapes are the sounding chords moved down by the capo
+  const effectiveKey = displayMode === 'shapes' ? capoShapeKey(soundingKey, capo) : soundingKey;
+  const shouldTranspose = effectiveKey !== songKey;
+  const shapesNote = displayMode === 'shapes' ? capoNote(soundingKey, capo) : '';
 
   // Get display chord based on mode and transposition
   const getDisplayChord = (chord: string): string => {
@@ -37,8 +60,27 @@ export default function ChordChart({
     return displayChord;
   };
 
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [activeChord?.section, activeChord?.line]);
+
+  if (displayMode === 'nashville') {
+    return (
+      <NumberChart
+        sections={sections}
+        songKey={songKey}
+        timeSignature={timeSignature}
+        activeChord={activeChord}
+        activeRef={activeRef}
+      />
+    );
+  }
+
   return (
     <div className="font-mono text-sm sm:text-base leading-relaxed">
+      {shapesNote && (
+        <div className="font-bold text-primary/60 mb-4">{shapesNote}</div>
+      )}
       {sections.map((section, sIdx) => (
         <div key={sIdx} className="mb-6">
           {/* Section Label */}
@@ -47,42 +89,137 @@ export default function ChordChart({
           </div>
 
           {/* Lines */}
-          {section.lines.map((line, lIdx) => (
-            <ChordLineDisplay
-              key={lIdx}
-              line={line}
-              getDisplayChord={displayMode === 'none' ? undefined : getDisplayChord}
-            />
-          ))}
+          {section.lines.map((line, lIdx) => {
+            const isActive = activeChord?.section === sIdx && activeChord.line === lIdx;
+            return (
+              <ChordLineDisplay
+                key={lIdx}
+                ref={isActive ? activeRef : undefined}
+                line={line}
+                getDisplayChord={displayMode === 'none' ? undefined : getDisplayChord}
+                activeChord={isActive ? activeChord.chord : undefined}
+                diagrams={displayMode === 'letters' || displayMode === 'shapes' ? {
+                  instrument,
+                  onInstrument: setInstrument,
+                  pinned: pinnedChord?.section === sIdx && pinnedChord.line === lIdx ? pinnedChord.chord : null,
+                  onPin: (chord) => setPinnedChord(chord === null ? null : { section: sIdx, line: lIdx, chord }),
+                } : undefined}
+              />
+            );
+          })}
         </div>
       ))}
     </div>
   );
 }
 
+interface NumberChartProps {
+  sections: Section[];
+  songKey: string;
+  timeSignature?: string;
+  activeChord: ChordChartProps['activeChord'];
+  activeRef: React.Ref<HTMLDivElement>;
+}
+
+// Nashville number chart: each section as rows of four bars. Numbers are
+// relative to the key, so the chart reads the same whatever key it's played in.
+function NumberChart({ sections, songKey, timeSignature, activeChord, activeRef }: NumberChartProps) {
+  const signature = parseTimeSignature(timeSignature);
+  const chart = numberChart(sections, songKey, signature);
+
+  return (
+    <div className="font-mono text-sm sm:text-base leading-relaxed">
+      {chart.map((section, sIdx) => {
+        const isLit = (line: number, chord: number) =>
+          activeChord?.section === sIdx && activeChord.line === line && activeChord.chord === chord;
+        return (
+          <div key={sIdx} className="mb-6">
+            {/* Section Label */}
+            <div className="font-bold text-primary/60 mb-2">
+              [{section.label}]
+            </div>
+
+            {/* Rows of bars */}
+            {section.rows.map((row, rIdx) => {
+              const isActive = row.some(bar => bar.chords.some(c => isLit(c.line, c.chord)));
+              return (
+                <div
+                  key={rIdx}
+                  ref={isActive ? activeRef : undefined}
+                  className={`grid grid-cols-4 gap-x-4 mb-1 text-primary font-bold ${isActive ? '-mx-2 px-2 rounded bg-primary/10 transition-colors' : ''}`}
+                >
+                  {row.map((bar, bIdx) => (
+                    // A split bar is underlined, as on a written chart
+                    <span key={bIdx} className={`whitespace-pre ${bar.chords.length > 1 ? 'underline underline-offset-4' : ''}`}>
+                      {barChords(bar, signature.beats).map((text, cIdx) => (
+                        <Fragment key={cIdx}>
+                          {cIdx > 0 && ' '}
+                          {isLit(bar.chords[cIdx].line, bar.chords[cIdx].chord)
+                            ? <span className="bg-primary text-white rounded-sm">{text}</span>
+                            : text}
+                        </Fragment>
+                      ))}
+                    </span>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+interface DiagramControls {
+  instrument: DiagramInstrument;
+  onInstrument: (instrument: DiagramInstrument) => void;
+  pinned: number | null; // the chord on this line whose diagram is held open
+  onPin: (index: number | null) => void;
+}
+
 interface ChordLineDisplayProps {
+  ref?: React.Ref<HTMLDivElement>;
   line: ChordLine;
   getDisplayChord?: (chord: string) => string;
+  activeChord?: number; // set on the line rehearsal playback is on
+  diagrams?: DiagramControls; // set when the chords shown are letters a player can look up
 }
 
-function ChordLineDisplay({ line, getDisplayChord }: ChordLineDisplayProps) {
+function ChordLineDisplay({ ref, line, getDisplayChord, activeChord, diagrams }: ChordLineDisplayProps) {
+  const lineClass = activeChord === undefined ? 'mb-1' : 'mb-1 -mx-2 px-2 rounded bg-primary/10 transition-colors';
+
   // If no chords or hiding chords, just show lyrics
   if (!getDisplayChord || line.chords.length === 0) {
     return (
-      <div className="mb-1">
+      <div ref={ref} className={lineClass}>
         {line.lyrics || '\u00A0'}
       </div>
     );
   }
 
-  // Build chord line with proper spacing
-  const chordLine = buildChordLine(line.chords, line.lyrics.length, getDisplayChord);
+  // Chords spaced out along the lyric
+  const placements = placeChords(line.chords, line.lyrics.length, getDisplayChord);
 
   return (
-    <div className="mb-1">
+    <div ref={ref} className={lineClass}>
       {/* Chord line */}
       <div className="text-primary font-bold whitespace-pre">
-        {chordLine}
+        {placements.map(({ chord, position, index }, i) => {
+          const prev = placements[i - 1];
+          const gap = ' '.repeat(position - (prev ? prev.position + prev.chord.length : 0));
+          const lit = index === activeChord;
+          return (
+            <Fragment key={index}>
+              {gap}
+              {diagrams ? (
+                <ChordWithDiagram chord={chord} lit={lit} index={index} diagrams={diagrams} />
+              ) : (
+                <span className={lit ? 'bg-primary text-white rounded-sm' : undefined}>{chord}</span>
+              )}
+            </Fragment>
+          );
+        })}
       </div>
       {/* Lyric line */}
       <div className="whitespace-pre">
@@ -92,29 +229,69 @@ function ChordLineDisplay({ line, getDisplayChord }: ChordLineDisplayProps) {
   );
 }
 
-// Build a chord line string with proper spacing, preventing overlaps
+interface ChordWithDiagramProps {
+  chord: string;
+  lit: boolean;
+  index: number;
+  diagrams: DiagramControls;
+}
+
+// A chord on the chord line with its diagram underneath: on hover, or held
+// open by a tap (for touch screens) until tapped again.
+function ChordWithDiagram({ chord, lit, index, diagrams }: ChordWithDiagramProps) {
+  const { instrument, onInstrument, pinned, onPin } = diagrams;
+  const isPinned = pinned === index;
+
+  return (
+    <span className="relative group cursor-pointer" onClick={() => onPin(isPinned ? null : index)}>
+      <span className={lit ? 'bg-primary text-white rounded-sm' : 'group-hover:underline'}>{chord}</span>
+      <span
+        className={`absolute left-0 top-full z-20 mt-1 flex-col items-center gap-1 rounded-lg border border-primary/20 bg-white p-2 shadow-lg font-sans font-normal ${
+          isPinned ? 'flex' : 'hidden group-hover:flex'
+        }`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <span className="font-bold">{chord}</span>
+        <ChordDiagram chord={chord} instrument={instrument} />
+        <span className="flex gap-1 text-xs">
+          {DIAGRAM_INSTRUMENTS.map(({ id, label }) => (
+            <button
+              key={id}
+              onClick={() => onInstrument(id)}
+              className={`px-1.5 rounded ${id === instrument ? 'bg-primary text-white' : 'opacity-60 hover:opacity-100'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </span>
+      </span>
+    </span>
+  );
+}
+
+// Place chords along the lyric, preventing overlaps
 // If chord positions are beyond lyrics length, redistribute them proportionally
-function buildChordLine(
+function placeChords(
   chords: { chord: string; position: number }[],
   lyricLength: number,
   getDisplayChord: (chord: string) => string
-): string {
-  if (chords.length === 0) return '';
+): { chord: string; position: number; index: number }[] {
+  if (chords.length === 0) return [];
 
-  // Sort chords by position
-  const sortedChords = [...chords].sort((a, b) => a.position - b.position);
+  // Sort chords by position, remembering where each came from
+  const sortedChords = chords.map((c, index) => ({ ...c, index })).sort((a, b) => a.position - b.position);
 
   // Check if any chord position is beyond lyrics length - if so, redistribute
   const maxStoredPos = Math.max(...sortedChords.map(c => c.position));
   const needsRedistribution = maxStoredPos >= lyricLength && lyricLength > 0;
 
   // Build chord placements, pushing right if overlap would occur
-  const placements: { chord: string; position: number }[] = [];
+  const placements: { chord: string; position: number; index: number }[] = [];
   let nextAvailablePosition = 0;
   const MIN_GAP = 1; // Minimum space between chords
 
   for (let i = 0; i < sortedChords.length; i++) {
-    const { chord, position } = sortedChords[i];
+    const { chord, position, index } = sortedChords[i];
     const displayChord = getDisplayChord(chord);
 
     let targetPosition: number;
@@ -133,26 +310,11 @@ function buildChordLine(
     // Determine actual position (push right if would overlap)
     const actualPosition = Math.max(targetPosition, nextAvailablePosition);
 
-    placements.push({ chord: displayChord, position: actualPosition });
+    placements.push({ chord: displayChord, position: actualPosition, index });
 
     // Update next available position (after this chord + gap)
     nextAvailablePosition = actualPosition + displayChord.length + MIN_GAP;
   }
 
-  // Calculate required length
-  const lastPlacement = placements[placements.length - 1];
-  const requiredLength = lastPlacement.position + lastPlacement.chord.length;
-  const maxLength = Math.max(lyricLength, requiredLength, 40);
-
-  // Build the chord line
-  const chars: string[] = new Array(maxLength).fill(' ');
-
-  for (const { chord, position } of placements) {
-    for (let i = 0; i < chord.length && position + i < maxLength; i++) {
-      chars[position + i] = chord[i];
-    }
-  }
-
-  // Trim trailing spaces
-  return chars.join('').trimEnd();
+  return placements;
 }
@@ -0,0 +1,99 @@
+'use client';
+
+import {
+  chordVoicing, isBlackKey, keyboardRange, type DiagramInstrument, type FretVoicing,
+} from '@/lib/chords/diagrams';
+
+interface ChordDiagramProps {
+  chord: string;
+  instrument: DiagramInstrument;
+}
+
+// A chord drawn for one instrument: a fretboard box for guitar and ukulele,
+// a keyboard for piano.
+export default function ChordDiagram({ chord, instrument }: ChordDiagramProps) {
+  const voicing = chordVoicing(chord, instrument);
+
+  if (!voicing) {
+    return <div className="text-xs opacity-60 px-1 py-2">No {instrument} shape for {chord}</div>;
+  }
+  return voicing.kind === 'frets'
+    ? <FretDiagram voicing={voicing.voicing} />
+    : <KeyboardDiagram notes={voicing.notes} />;
+}
+
+const FRETS_SHOWN = 4;
+const STRING_GAP = 12;
+const FRET_GAP = 14;
+const LEFT = 16; // room for the fret number
+const TOP = 14;  // room for the open and unplayed marks
+
+function FretDiagram({ voicing }: { voicing: FretVoicing }) {
+  const { frets, baseFret } = voicing;
+  const width = LEFT + (frets.length - 1) * STRING_GAP + 8;
+  const height = TOP + FRETS_SHOWN * FRET_GAP + 4;
+  const x = (string: number) => LEFT + string * STRING_GAP;
+  const bottom = TOP + FRETS_SHOWN * FRET_GAP;
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="text-primary">
+      {/* Nut, or the fret the diagram starts at */}
+      {baseFret === 1
+        ? <line x1={x(0)} y1={TOP} x2={x(frets.length - 1)} y2={TOP} stroke="currentColor" strokeWidth={3} />
+        : <text x={2} y={TOP + FRET_GAP * 0.7} fontSize={9} fill="currentColor">{baseFret}</text>}
+      {Array.from({ length: FRETS_SHOWN + 1 }, (_, i) => (
+        <line key={i} x1={x(0)} y1={TOP + i * FRET_GAP} x2={x(frets.length - 1)} y2={TOP + i * FRET_GAP} stroke="currentColor" strokeWidth={0.75} />
+      ))}
+      {frets.map((_, s) => (
+        <line key={s} x1={x(s)} y1={TOP} x2={x(s)} y2={bottom} stroke="currentColor" strokeWidth={0.75} />
+      ))}
+      {frets.map((fret, s) => fret <= 0 ? (
+        <text key={s} x={x(s)} y={TOP - 4} fontSize={9} textAnchor="middle" fill="currentColor">
+          {fret === 0 ? 'o' : '×'}
+        </text>
+      ) : (
+        <circle key={s} cx={x(s)} cy={TOP + (fret - baseFret + 0.5) * FRET_GAP} r={4.5} fill="currentColor" />
+      ))}
+    </svg>
+  );
+}
+
+const WHITE_WIDTH = 10;
+const WHITE_HEIGHT = 40;
+const BLACK_WIDTH = 6;
+const BLACK_HEIGHT = 25;
+
+function KeyboardDiagram({ notes }: { notes: number[] }) {
+  const { low, high } = keyboardRange(notes);
+  const keys = Array.from({ length: high - low + 1 }, (_, i) => low + i);
+  const whites = keys.filter(k => !isBlackKey(k));
+  // A black key sits over the line between the white keys either side of it
+  const left = (key: number) => isBlackKey(key)
+    ? whites.indexOf(key + 1) * WHITE_WIDTH - BLACK_WIDTH / 2
+    : whites.indexOf(key) * WHITE_WIDTH;
+
+  return (
+    <svg
+      width={whites.length * WHITE_WIDTH + 1}
+      height={WHITE_HEIGHT + 1}
+      viewBox={`0 0 ${whites.length * WHITE_WIDTH + 1} ${WHITE_HEIGHT + 1}`}
+      className="text-primary"
+    >
+      {whites.map(key => (
+        <rect key={key} x={left(key) + 0.5} y={0.5} width={WHITE_WIDTH} height={WHITE_HEIGHT} fill="white" stroke="currentColor" strokeWidth={0.75} />
+      ))}
+      {keys.filter(isBlackKey).map(key => (
+        <rect key={key} x={left(key) + 0.5} y={0.5} width={BLACK_WIDTH} height={BLACK_HEIGHT} fill="currentColor" />
+      ))}
+      {notes.map(note => (
+        <circle
+          key={note}
+          cx={left(note) + 0.5 + (isBlackKey(note) ? BLACK_WIDTH : WHITE_WIDTH) / 2}
+          cy={isBlackKey(note) ? BLACK_HEIGHT - 5 : WHITE_HEIGHT - 7}
+          r={isBlackKey(note) ? 2.5 : 3.5}
+          className={isBlackKey(note) ? 'fill-white' : 'fill-current'}
+        />
+      ))}
+    </svg>
+  );
+}
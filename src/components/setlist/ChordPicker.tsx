@@ -1,45 +1,54 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { ALL_KEYS, isChord } from '@/lib/chords/transposition';
+import { isChord, parseChord } from '@/lib/chords/transposition';
+import { diatonicChords } from '../../../live-state/keys';
 
 interface ChordPickerProps {
   songKey: string;
   currentChord: string | null;
   recentChords: string[];
   position: { x: number; y: number };
+  beats?: number; // rehearsal beat count of the current chord, unset = a bar
+  beatsPerBar?: number;
+  onBeatsChange?: (beats: number | undefined) => void;
+  mark?: 'diamond' | 'push'; // rhythm mark shown on number charts
+  onMarkChange?: (mark: 'diamond' | 'push' | undefined) => void;
   onSelect: (chord: string) => void;
   onRemove: () => void;
   onClose: () => void;
 }
 
-// Generate diatonic chords for a given key
+// Diatonic chords for a given key, in its own mode (Em: Em F#dim G Am Bm C D)
 function getDiatonicChords(key: string): string[] {
-  // Semitone offsets for major scale degrees
-  const majorScaleOffsets = [0, 2, 4, 5, 7, 9, 11];
-  // Chord qualities for each degree: I, ii, iii, IV, V, vi, vii°
-  const qualities = ['', 'm', 'm', '', '', 'm', 'dim'];
-
-  const keyIndex = ALL_KEYS.indexOf(key);
-  if (keyIndex === -1) {
-    // Fallback to C major
-    return ['C', 'Dm', 'Em', 'F', 'G', 'Am', 'Bdim'];
-  }
-
-  return majorScaleOffsets.map((offset, i) => {
-    const noteIndex = (keyIndex + offset) % 12;
-    return ALL_KEYS[noteIndex] + qualities[i];
-  });
+  const chords = diatonicChords(key);
+  // Fallback to C major
+  return chords.length ? chords : diatonicChords('C');
 }
 
 // Common chord extensions to suggest
 const COMMON_EXTENSIONS = ['7', 'maj7', 'sus4', 'sus2', 'add9', '2'];
 
+// Add an extension to a diatonic chord. A suspension replaces the third, so
+// Dm + sus4 is Dsus4; anything the chord grammar can't read comes back null.
+function withExtension(baseChord: string, extension: string): string | null {
+  const base = parseChord(baseChord);
+  if (!base) return null;
+  const suspended = extension.startsWith('sus') || extension === '2';
+  const chord = suspended ? base.root + extension : baseChord + extension;
+  return isChord(chord) ? chord : null;
+}
+
 export default function ChordPicker({
   songKey,
   currentChord,
   recentChords,
   position,
+  beats,
+  beatsPerBar = 4,
+  onBeatsChange,
+  mark,
+  onMarkChange,
   onSelect,
   onRemove,
   onClose,
@@ -116,10 +125,8 @@ export default function ChordPicker({
   };
 
   const handleExtensionClick = (baseChord: string, extension: string) => {
-    // Remove existing quality suffix before adding extension
-    const root = baseChord.replace(/(m|dim|aug)$/, '');
-    const quality = baseChord.match(/(m|dim|aug)$/)?.[0] || '';
-    onSelect(root + quality + extension);
+    const chord = withExtension(baseChord, extension);
+    if (chord) onSelect(chord);
   };
 
   const handleCustomSubmit = (e: React.FormEvent) => {
@@ -144,6 +151,56 @@ export default function ChordPicker({
         </div>
       )}
 
+      {/* Beats held in rehearsal playback */}
+      {currentChord && onBeatsChange && (
+        <div className="flex items-center justify-between mb-3 pb-2 border-b border-primary/10">
+          <span className="text-sm text-primary/60">Beats:</span>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => onBeatsChange(Math.max(1, (beats ?? beatsPerBar) - 1))}
+              className="w-7 h-7 rounded bg-primary/10 hover:bg-primary/20 text-primary"
+            >
+              −
+            </button>
+            <span className="min-w-[3.5rem] text-center text-sm">
+              {beats ?? `${beatsPerBar} (bar)`}
+            </span>
+            <button
+              onClick={() => onBeatsChange((beats ?? beatsPerBar) + 1)}
+              className="w-7 h-7 rounded bg-primary/10 hover:bg-primary/20 text-primary"
+            >
+              +
+            </button>
+            {beats !== undefined && (
+              <button onClick={() => onBeatsChange(undefined)} className="ml-1 text-xs text-primary/50 hover:underline">
+                Reset
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Rhythm mark on number charts: <4> rings for the bar, ^4 is pushed */}
+      {currentChord && onMarkChange && (
+        <div className="flex items-center justify-between mb-3 pb-2 border-b border-primary/10">
+          <span className="text-sm text-primary/60">Mark:</span>
+          <div className="flex items-center gap-1">
+            {([['diamond', '◇ Diamond'], ['push', '^ Push']] as const).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => onMarkChange(mark === value ? undefined : value)}
+                className={`px-2 h-7 rounded text-sm ${mark === value
+                  ? 'bg-primary text-white'
+                  : 'bg-primary/10 hover:bg-primary/20 text-primary'
+                  }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Diatonic chords for current key */}
       <div className="mb-3">
         <div className="text-xs text-primary/50 mb-1.5">Key of {songKey}</div>
@@ -167,7 +224,7 @@ export default function ChordPicker({
               {/* Extensions popup */}
               {showExtensions === chord && (
                 <div className="absolute top-full left-0 mt-1 bg-white border border-primary/20 rounded shadow-lg p-1 z-10 flex gap-1">
-                  {COMMON_EXTENSIONS.map(ext => (
+                  {COMMON_EXTENSIONS.filter(ext => withExtension(chord, ext)).map(ext => (
                     <button
                       key={ext}
                       onClick={() => {
@@ -0,0 +1,49 @@
+'use client';
+
+import type { SlideChunking } from '../../../live-state/slides';
+
+interface ChunkingPickerProps {
+  value: SlideChunking | undefined;
+  onChange: (value: SlideChunking | undefined) => void;
+  // Label for "no setting of its own" (songs inherit the setlist's choice);
+  // without it, no setting means by word count.
+  inheritLabel?: string;
+}
+
+// How lyrics split into projector slides: by word count, or fitted to the
+// projector font and screen with an optional lines-per-slide cap.
+export default function ChunkingPicker({ value, onChange, inheritLabel }: ChunkingPickerProps) {
+  return (
+    <div className="flex flex-wrap gap-3 items-center">
+      <select
+        value={value?.strategy ?? (inheritLabel ? '' : 'words')}
+        onChange={(e) => {
+          const strategy = e.target.value;
+          onChange(strategy === 'words' || strategy === 'layout' ? { ...value, strategy } : undefined);
+        }}
+        className="bg-white border border-primary/20 rounded-lg px-3 py-2"
+      >
+        {inheritLabel && <option value="">{inheritLabel}</option>}
+        <option value="words">By word count</option>
+        <option value="layout">Fit to projector</option>
+      </select>
+      {value?.strategy === 'layout' && (
+        <label className="flex items-center gap-2 text-sm">
+          Max lines per slide
+          <input
+            type="number"
+            min={1}
+            max={12}
+            value={value.maxLines ?? ''}
+            onChange={(e) => {
+              const n = Math.floor(Number(e.target.value));
+              onChange({ strategy: 'layout', ...(n > 0 ? { maxLines: n } : {}) });
+            }}
+            placeholder="any"
+            className="w-20 bg-white border border-primary/20 rounded px-2 py-1"
+          />
+        </label>
+      )}
+    </div>
+  );
+}
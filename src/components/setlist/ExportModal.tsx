@@ -4,11 +4,18 @@ import { useState } from 'react';
 import { jsPDF } from 'jspdf';
 import type { Song, Setlist } from '@/lib/db';
 import { transposeChordToKey } from '@/lib/chords/transposition';
-import { chordToRomanNumeral } from '@/lib/chords/nashville';
+import { chordToRomanNumeral, numberChart } from '@/lib/chords/nashville';
+import { drawChartRow } from '@/lib/pdf/numberChart';
+import { drawChordLegend } from '@/lib/pdf/chordDiagrams';
+import { chordsUsed, DIAGRAM_INSTRUMENTS, type DiagramInstrument } from '@/lib/chords/diagrams';
+import { arrangedSections } from '../../../live-state/arrangement';
+import { parseTimeSignature } from '../../../live-state/rehearsal';
+import { capoShapeKey, capoNote } from '../../../live-state/capo';
+import KeySelect from './KeySelect';
 
 interface ExportModalProps {
   setlist: Setlist;
-  songs: (Song & { transposedKey?: string })[];
+  songs: (Song & { transposedKey?: string; arrangement?: string })[];
   onClose: () => void;
 }
 
@@ -24,7 +31,9 @@ interface ExportOption {
 const EXPORT_OPTIONS: ExportOption[] = [
   { id: 'lyrics', label: 'Lyrics Only', desc: 'For congregation', hasPageBreaks: true, hasPamphlet: true },
   { id: 'letters', label: 'Letter Chords', desc: 'G, C, Em7', hasPageBreaks: true, hasShowKey: true },
+  { id: 'shapes', label: 'Capo Shapes', desc: 'Chords as fingered behind the capo', hasPageBreaks: true, hasShowKey: true },
   { id: 'numerals', label: 'Roman Numerals', desc: 'I, IV, vi, V', hasPageBreaks: true, hasShowKey: true },
+  { id: 'nashville', label: 'Nashville Numbers', desc: 'Bar charts: 1, 4, 6m, 5/7', hasPageBreaks: true, hasShowKey: true },
   { id: 'infographic', label: 'Worship Night Flyer', desc: 'WM&A branded' },
 ];
 
@@ -35,13 +44,24 @@ interface FormatSettings {
   flipAlternatePages: boolean;
 }
 
-export default function ExportModal({ setlist, songs, onClose }: ExportModalProps) {
+export default function ExportModal({ setlist, songs: setlistSongs, onClose }: ExportModalProps) {
+  // Per-song export keys; unset keeps the key the setlist plays it in.
+  const [exportKeys, setExportKeys] = useState<Record<string, string>>({});
+  // Charts print each song in the arrangement its setlist entry picked.
+  const songs = setlistSongs.map(song => ({
+    ...song,
+    sections: arrangedSections(song, song.arrangement),
+    transposedKey: exportKeys[song._id] ?? song.transposedKey,
+  }));
   const [selectedFormats, setSelectedFormats] = useState<Set<string>>(new Set(['letters']));
   const [formatSettings, setFormatSettings] = useState<Record<string, FormatSettings>>({
     lyrics: { pageBreaks: true, showKey: true, pamphletMode: false, flipAlternatePages: false },
     letters: { pageBreaks: true, showKey: true, pamphletMode: false, flipAlternatePages: false },
+    shapes: { pageBreaks: true, showKey: true, pamphletMode: false, flipAlternatePages: false },
     numerals: { pageBreaks: true, showKey: true, pamphletMode: false, flipAlternatePages: false },
+    nashville: { pageBreaks: true, showKey: true, pamphletMode: false, flipAlternatePages: false },
   });
+  const [legend, setLegend] = useState<DiagramInstrument | ''>('');
   const [exporting, setExporting] = useState(false);
 
   const toggleFormat = (id: string) => {
@@ -79,7 +99,7 @@ export default function ExportModal({ setlist, songs, onClose }: ExportModalProp
           if (fmt === 'lyrics' && settings.pamphletMode) {
             await exportPamphlet(settings.flipAlternatePages);
           } else {
-            exportSingleFormat(fmt as 'lyrics' | 'letters' | 'numerals', settings);
+            exportSingleFormat(fmt as 'lyrics' | 'letters' | 'shapes' | 'numerals' | 'nashville', settings);
           }
         }
         // Small delay between exports
@@ -190,7 +210,7 @@ export default function ExportModal({ setlist, songs, onClose }: ExportModalProp
     doc.save(`${setlist.name || 'worship-night'}-infographic.pdf`);
   };
 
-  const exportSingleFormat = (fmt: 'lyrics' | 'letters' | 'numerals', settings: FormatSettings) => {
+  const exportSingleFormat = (fmt: 'lyrics' | 'letters' | 'shapes' | 'numerals' | 'nashville', settings: FormatSettings) => {
     const doc = new jsPDF({
       orientation: 'portrait',
       unit: 'pt',
@@ -211,7 +231,10 @@ export default function ExportModal({ setlist, songs, onClose }: ExportModalProp
       }
 
       const displayKey = song.transposedKey || song.key;
-      const shouldTranspose = song.transposedKey && song.transposedKey !== song.key;
+      // Capo shapes are written in the key the shapes come from
+      const chordKey = fmt === 'shapes' ? capoShapeKey(displayKey, song.capo) : displayKey;
+      const shouldTranspose = chordKey !== song.key;
+      const signature = parseTimeSignature(song.timeSignature);
 
       // Song title
       doc.setFontSize(18);
@@ -223,7 +246,11 @@ export default function ExportModal({ setlist, songs, onClose }: ExportModalProp
       if (settings.showKey && fmt !== 'lyrics') {
         doc.setFontSize(12);
         doc.setFont('courier', 'normal');
-        doc.text(`Key: ${displayKey}`, margin, y);
+        // Number charts also need the feel: time signature and tempo
+        const keyLine = fmt === 'nashville'
+          ? [`Key: ${displayKey}`, `${signature.beats}/${signature.unit}`, song.tempo && `${song.tempo} bpm`].filter(Boolean).join('   ')
+          : [`Key: ${displayKey}`, capoNote(displayKey, song.capo)].filter(Boolean).join('   ');
+        doc.text(keyLine, margin, y);
         y += 20;
       }
 
@@ -232,6 +259,34 @@ export default function ExportModal({ setlist, songs, onClose }: ExportModalProp
       // Sections
       doc.setFontSize(11);
 
+      // Nashville: each section as rows of bars instead of chords over lyrics
+      if (fmt === 'nashville') {
+        numberChart(song.sections, song.key, signature).forEach((section) => {
+          if (y > pageHeight - margin - 60) {
+            doc.addPage();
+            y = margin;
+          }
+
+          doc.setFont('courier', 'bold');
+          doc.text(`[${section.label}]`, margin, y);
+          y += 16;
+
+          section.rows.forEach((row) => {
+            if (y > pageHeight - margin - 30) {
+              doc.addPage();
+              y = margin;
+            }
+            drawChartRow(doc, row, signature.beats, margin, y, maxWidth);
+            y += 18;
+          });
+
+          y += 8;
+        });
+
+        y += 20;
+        return;
+      }
+
       song.sections.forEach((section) => {
         // Check for page break
         if (y > pageHeight - margin - 60) {
@@ -260,7 +315,7 @@ export default function ExportModal({ setlist, songs, onClose }: ExportModalProp
               (chord) => {
                 let c = chord;
                 if (shouldTranspose) {
-                  c = transposeChordToKey(c, song.key, displayKey);
+                  c = transposeChordToKey(c, song.key, chordKey);
                 }
                 if (fmt === 'numerals') {
                   c = chordToRomanNumeral(c, displayKey);
@@ -282,13 +337,21 @@ export default function ExportModal({ setlist, songs, onClose }: ExportModalProp
         y += 8;
       });
 
+      // Letter charts end each song with a diagram of each chord it uses
+      if (legend && (fmt === 'letters' || fmt === 'shapes')) {
+        const spell = (chord: string) => shouldTranspose ? transposeChordToKey(chord, song.key, chordKey) : chord;
+        y = drawChordLegend(doc, chordsUsed(song.sections, spell), legend, y + 8, margin);
+      }
+
       y += 20;
     });
 
     const formatNames = {
       lyrics: 'lyrics',
       letters: 'chords',
+      shapes: 'capo',
       numerals: 'numerals',
+      nashville: 'nashville',
     };
 
     doc.save(`${setlist.name || 'setlist'}-${formatNames[fmt]}.pdf`);
@@ -797,6 +860,43 @@ export default function ExportModal({ setlist, songs, onClose }: ExportModalProp
           </div>
         </div>
 
+        {/* Keys for the chord charts */}
+        {(selectedFormats.has('letters') || selectedFormats.has('shapes') || selectedFormats.has('numerals') || selectedFormats.has('nashville')) && (
+          <div className="mb-6">
+            <label className="block text-sm font-medium mb-2">Keys</label>
+            <div className="space-y-1.5 max-h-48 overflow-y-auto">
+              {songs.map(song => (
+                <div key={song._id} className="flex items-center gap-2 text-sm">
+                  <span className="flex-1 truncate">{song.title}</span>
+                  <KeySelect
+                    value={song.transposedKey || song.key}
+                    onChange={(key) => setExportKeys(prev => ({ ...prev, [song._id]: key }))}
+                    original={song.key}
+                    className="rounded px-2 py-1 text-sm"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Chord legend for the letter charts */}
+        {(selectedFormats.has('letters') || selectedFormats.has('shapes')) && (
+          <div className="mb-6">
+            <label className="block text-sm font-medium mb-2">Chord diagrams</label>
+            <select
+              value={legend}
+              onChange={(e) => setLegend(e.target.value as DiagramInstrument | '')}
+              className="bg-white border border-primary/20 rounded px-2 py-1 text-sm"
+            >
+              <option value="">None</option>
+              {DIAGRAM_INSTRUMENTS.map(({ id, label }) => (
+                <option key={id} value={id}>{label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
         {/* Actions */}
         <div className="flex gap-3">
           <button
@@ -0,0 +1,44 @@
+'use client';
+
+import { KEY_MODES, keyChoices, keysInMode } from '../../../live-state/keys';
+import { getTranspositionInterval } from '@/lib/chords/transposition';
+
+interface KeySelectProps {
+  value: string;
+  onChange: (key: string) => void;
+  // The song's own key when picking a key to play it in: the choices stay in
+  // its mode (Em moves to F#m, not F#) and show the shift from it.
+  original?: string;
+  className?: string;
+}
+
+// Key picker. Without an original it offers every key, grouped by mode, for
+// setting a song's key; with one it offers the transpositions of that key.
+export default function KeySelect({ value, onChange, original, className = '' }: KeySelectProps) {
+  const label = (k: string) => {
+    if (!original) return k;
+    if (k === original) return `${k} (original)`;
+    const interval = getTranspositionInterval(original, k);
+    return `${k} (${interval > 6 ? interval - 12 : interval > 0 ? '+' + interval : interval})`;
+  };
+  const choices = original ? keyChoices(original) : KEY_MODES.flatMap(m => keysInMode(m.mode));
+  // Keep a stored key that isn't spelled like any choice (e.g. D#m) selectable
+  const extra = value && !choices.includes(value) ? value : null;
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className={`bg-white border border-primary/20 font-mono ${className}`}
+    >
+      {extra && <option value={extra}>{label(extra)}</option>}
+      {original
+        ? choices.map(k => <option key={k} value={k}>{label(k)}</option>)
+        : KEY_MODES.map(({ mode, name }) => (
+          <optgroup key={mode} label={name}>
+            {keysInMode(mode).map(k => <option key={k} value={k}>{k}</option>)}
+          </optgroup>
+        ))}
+    </select>
+  );
+}
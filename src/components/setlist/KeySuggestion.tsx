@@ -0,0 +1,31 @@
+'use client';
+
+import type { Section } from '@/lib/db';
+import { estimateKey, sameKey } from '../../../live-state/tonality';
+
+interface KeySuggestionProps {
+  sections: Section[];
+  songKey: string;
+  onUse: (key: string) => void;
+  className?: string;
+}
+
+// The key the chords point at, next to a key picker: a quiet note when it
+// agrees with the key chosen, otherwise the suggestion and a button to take it.
+export default function KeySuggestion({ sections, songKey, onUse, className = '' }: KeySuggestionProps) {
+  const [best] = estimateKey(sections);
+  if (!best) return null;
+  const sure = `${Math.round(best.confidence * 100)}% sure`;
+
+  if (sameKey(best.key, songKey)) {
+    return <p className={`text-xs opacity-50 ${className}`}>Matches the chords ({sure})</p>;
+  }
+  return (
+    <p className={`text-xs ${className}`}>
+      <span className="opacity-70">Chords suggest <span className="font-mono font-semibold">{best.key}</span> ({sure})</span>{' '}
+      <button type="button" onClick={() => onUse(best.key)} className="text-primary font-semibold hover:underline">
+        Use {best.key}
+      </button>
+    </p>
+  );
+}
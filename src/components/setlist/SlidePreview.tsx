@@ -2,9 +2,13 @@
 
 import { type Section } from '@/lib/db';
 import { sectionSlideGroups } from '@/lib/live/slides';
+import type { ChunkLayout } from '../../../live-state/slides';
+import type { SlideLanguages } from '../../../live-state/languages';
 
 interface SlidePreviewProps {
   sections: Section[];
+  chunking?: number | ChunkLayout;  // as the song will be pushed; default by words
+  languages?: SlideLanguages;       // likewise, for a stacked second language
   // Called when the user toggles a page break between lines within a section.
   // lineIndex is the 1-based index of the line that should begin a new slide.
   onToggleBreak: (sectionIndex: number, lineIndex: number) => void;
@@ -12,11 +16,11 @@ interface SlidePreviewProps {
 
 // Visual editor: shows how each section will paginate into projector slides,
 // with clickable dividers between lines to split/merge pages.
-export default function SlidePreview({ sections, onToggleBreak }: SlidePreviewProps) {
+export default function SlidePreview({ sections, chunking, languages, onToggleBreak }: SlidePreviewProps) {
   return (
     <div className="space-y-5">
       {sections.map((section, sIdx) => {
-        const groups = sectionSlideGroups(section);
+        const groups = sectionSlideGroups(section, chunking, languages);
         // Map each line index → the index of the slide it belongs to.
         const slideOfLine = new Map<number, number>();
         groups.forEach((g, gi) => g.forEach(li => slideOfLine.set(li, gi)));
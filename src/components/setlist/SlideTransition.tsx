@@ -0,0 +1,58 @@
+'use client';
+
+import { useEffect, useRef, useState, type ReactNode } from 'react';
+import type { SlideTransition as Transition } from '../../../live-state/transition';
+
+interface SlideTransitionProps {
+  slideKey: string;  // changes whenever a different slide goes up
+  transition: Transition;
+  children: ReactNode;
+  className?: string;
+}
+
+type Shown = { key: string; node: ReactNode };
+
+// Animates slide changes like the projector windows do: the outgoing slide
+// fades out over the new one (crossfade) or the screen dips to black on the
+// way (fade through black). A cut just swaps.
+export default function SlideTransition({ slideKey, transition, children, className = '' }: SlideTransitionProps) {
+  const [shown, setShown] = useState<Shown>({ key: slideKey, node: children });
+  const [outgoing, setOutgoing] = useState<Shown | null>(null);
+  const incomingRef = useRef<HTMLDivElement>(null);
+  const outgoingRef = useRef<HTMLDivElement>(null);
+  const veilRef = useRef<HTMLDivElement>(null);
+  const { kind, ms } = transition;
+
+  if (slideKey !== shown.key) {
+    setOutgoing(kind === 'cut' || !ms ? null : shown);
+    setShown({ key: slideKey, node: children });
+  }
+
+  useEffect(() => {
+    if (!outgoing) return;
+    if (kind === 'fadeBlack') {
+      veilRef.current?.animate([{ opacity: 0 }, { opacity: 1, offset: 0.5 }, { opacity: 0 }], { duration: ms });
+      outgoingRef.current?.animate(
+        [{ opacity: 1 }, { opacity: 1, offset: 0.5 }, { opacity: 0, offset: 0.5 }, { opacity: 0 }],
+        { duration: ms, fill: 'forwards' },
+      );
+    } else {
+      outgoingRef.current?.animate([{ opacity: 1 }, { opacity: 0 }], { duration: ms, fill: 'forwards' });
+      incomingRef.current?.animate([{ opacity: 0 }, { opacity: 1 }], { duration: ms });
+    }
+    const done = setTimeout(() => setOutgoing(null), ms);
+    return () => clearTimeout(done);
+  }, [outgoing, kind, ms]);
+
+  return (
+    <div className={`relative ${className}`}>
+      <div ref={incomingRef}>{children}</div>
+      {outgoing && (
+        <div key={outgoing.key} ref={outgoingRef} className="absolute inset-0 pointer-events-none">
+          {outgoing.node}
+        </div>
+      )}
+      <div ref={veilRef} className="absolute inset-0 bg-black opacity-0 pointer-events-none" />
+    </div>
+  );
+}
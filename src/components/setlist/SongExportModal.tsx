@@ -3,29 +3,41 @@
 import { useState } from 'react';
 import { jsPDF } from 'jspdf';
 import type { Song } from '@/lib/db';
-import { transposeChordToKey, ALL_KEYS, getTranspositionInterval } from '@/lib/chords/transposition';
-import { chordToRomanNumeral } from '@/lib/chords/nashville';
+import { transposeChordToKey } from '@/lib/chords/transposition';
+import { chordToRomanNumeral, numberChart } from '@/lib/chords/nashville';
+import { drawChartRow } from '@/lib/pdf/numberChart';
+import { drawChordLegend } from '@/lib/pdf/chordDiagrams';
+import { chordsUsed, DIAGRAM_INSTRUMENTS, type DiagramInstrument } from '@/lib/chords/diagrams';
+import KeySelect from './KeySelect';
+import CapoSelect from './CapoSelect';
 import { exportToChordPro } from '@/lib/chordpro/parser';
+import { parseTimeSignature } from '../../../live-state/rehearsal';
+import { capoShapeKey, capoNote } from '../../../live-state/capo';
 
 interface SongExportModalProps {
     song: Song;
     initialKey?: string; // currently displayed key (may be transposed)
+    initialCapo?: number; // currently displayed capo
     onClose: () => void;
 }
 
-type PdfFormat = 'letters' | 'numerals' | 'lyrics';
+type PdfFormat = 'letters' | 'shapes' | 'numerals' | 'nashville' | 'lyrics';
 
 const PDF_FORMATS: { id: PdfFormat; label: string; desc: string }[] = [
     { id: 'letters', label: 'Letter Chords', desc: 'G, Am, C/E above lyrics' },
-    { id: 'numerals', label: 'Roman Numerals', desc: 'Nashville / I–IV–V style' },
+    { id: 'shapes', label: 'Capo Shapes', desc: 'Chords as fingered behind the capo' },
+    { id: 'numerals', label: 'Roman Numerals', desc: 'I–IV–V style above lyrics' },
+    { id: 'nashville', label: 'Nashville Numbers', desc: 'Bar chart of 1, 4, 6m, 5/7' },
     { id: 'lyrics', label: 'Lyrics Only', desc: 'Clean sheet for congregation' },
 ];
 
-export default function SongExportModal({ song, initialKey, onClose }: SongExportModalProps) {
+export default function SongExportModal({ song, initialKey, initialCapo, onClose }: SongExportModalProps) {
     const [exportKey, setExportKey] = useState(initialKey || song.key);
+    const [capo, setCapo] = useState(initialCapo ?? song.capo ?? 0);
     const [selectedPdf, setSelectedPdf] = useState<Set<PdfFormat>>(new Set(['letters']));
     const [chordProEnabled, setChordProEnabled] = useState(false);
     const [showKey, setShowKey] = useState(true);
+    const [legend, setLegend] = useState<DiagramInstrument | ''>('');
     const [exporting, setExporting] = useState(false);
 
     const togglePdf = (id: PdfFormat) => {
@@ -76,7 +88,7 @@ export default function SongExportModal({ song, initialKey, onClose }: SongExpor
             }))
             : song.sections;
 
-        const content = exportToChordPro(song.title, song.artist, exportKey, transposedSections);
+        const content = exportToChordPro(song.title, song.artist, exportKey, transposedSections, capo);
         const sanitized = song.title.replace(/[^a-z0-9]/gi, '-').toLowerCase();
         downloadText(content, `${sanitized}.cho`);
     };
@@ -91,10 +103,13 @@ export default function SongExportModal({ song, initialKey, onClose }: SongExpor
         const maxWidth = pageWidth - margin * 2;
         let y = margin;
 
-        const shouldTranspose = exportKey !== song.key;
+        // Capo shapes are written in the key the shapes come from
+        const chordKey = fmt === 'shapes' ? capoShapeKey(exportKey, capo) : exportKey;
+        const shouldTranspose = chordKey !== song.key;
+        const signature = parseTimeSignature(song.timeSignature);
 
         const transformChord = (chord: string): string => {
-            let c = shouldTranspose ? transposeChordToKey(chord, song.key, exportKey) : chord;
+            let c = shouldTranspose ? transposeChordToKey(chord, song.key, chordKey) : chord;
             if (fmt === 'numerals') c = chordToRomanNumeral(c, exportKey);
             return c;
         };
@@ -116,7 +131,9 @@ export default function SongExportModal({ song, initialKey, onClose }: SongExpor
             doc.setFontSize(11);
             doc.setFont('courier', 'normal');
             doc.setTextColor(0, 48, 73);
-            const keyLabel = fmt === 'numerals' ? `Key: ${exportKey} (Roman numerals)` : `Key: ${exportKey}`;
+            const keyLabel = fmt === 'numerals' ? `Key: ${exportKey} (Roman numerals)`
+                : fmt === 'nashville' ? [`Key: ${exportKey}`, `${signature.beats}/${signature.unit}`, song.tempo && `${song.tempo} bpm`].filter(Boolean).join('   ')
+                : [`Key: ${exportKey}`, capoNote(exportKey, capo)].filter(Boolean).join('   ');
             doc.text(keyLabel, margin, y);
             y += 18;
         }
@@ -131,56 +148,92 @@ export default function SongExportModal({ song, initialKey, onClose }: SongExpor
         doc.setFontSize(11);
         doc.setTextColor(0, 0, 0);
 
-        for (const section of song.sections) {
-            // Page-overflow check before section header
-            if (y > pageHeight - margin - 60) {
-                doc.addPage();
-                y = margin;
-            }
+        // Nashville: each section as rows of bars instead of chords over lyrics
+        if (fmt === 'nashville') {
+            for (const section of numberChart(song.sections, song.key, signature)) {
+                if (y > pageHeight - margin - 60) {
+                    doc.addPage();
+                    y = margin;
+                }
 
-            // Section label
-            doc.setFont('courier', 'bold');
-            doc.setTextColor(0, 48, 73);
-            doc.text(`[${section.label}]`, margin, y);
-            y += 16;
-            doc.setFont('courier', 'normal');
-            doc.setTextColor(30, 30, 30);
+                doc.setFont('courier', 'bold');
+                doc.setTextColor(0, 48, 73);
+                doc.text(`[${section.label}]`, margin, y);
+                y += 16;
+
+                doc.setDrawColor(0, 48, 73);
+                for (const row of section.rows) {
+                    if (y > pageHeight - margin - 30) {
+                        doc.addPage();
+                        y = margin;
+                    }
+                    drawChartRow(doc, row, signature.beats, margin, y, maxWidth);
+                    y += 18;
+                }
 
-            for (const line of section.lines) {
-                if (y > pageHeight - margin - 30) {
+                y += 10; // gap between sections
+            }
+        } else {
+            for (const section of song.sections) {
+                // Page-overflow check before section header
+                if (y > pageHeight - margin - 60) {
                     doc.addPage();
                     y = margin;
                 }
 
-                // Chord line
-                if (fmt !== 'lyrics' && line.chords.length > 0) {
-                    const chordLine = buildChordLine(line.chords, line.lyrics.length, transformChord);
-                    doc.setFont('courier', 'bold');
-                    doc.setTextColor(0, 48, 73);
-                    // Wrap chord line if too long
-                    const chordLines = doc.splitTextToSize(chordLine, maxWidth);
-                    chordLines.forEach((cl: string) => {
-                        doc.text(cl, margin, y);
-                        y += 12;
+                // Section label
+                doc.setFont('courier', 'bold');
+                doc.setTextColor(0, 48, 73);
+                doc.text(`[${section.label}]`, margin, y);
+                y += 16;
+                doc.setFont('courier', 'normal');
+                doc.setTextColor(30, 30, 30);
+
+                for (const line of section.lines) {
+                    if (y > pageHeight - margin - 30) {
+                        doc.addPage();
+                        y = margin;
+                    }
+
+                    // Chord line
+                    if (fmt !== 'lyrics' && line.chords.length > 0) {
+                        const chordLine = buildChordLine(line.chords, line.lyrics.length, transformChord);
+                        doc.setFont('courier', 'bold');
+                        doc.setTextColor(0, 48, 73);
+                        // Wrap chord line if too long
+                        const chordLines = doc.splitTextToSize(chordLine, maxWidth);
+                        chordLines.forEach((cl: string) => {
+                            doc.text(cl, margin, y);
+                            y += 12;
+                        });
+                    }
+
+                    // Lyric line
+                    doc.setFont('courier', 'normal');
+                    doc.setTextColor(30, 30, 30);
+                    const lyricLines = doc.splitTextToSize(line.lyrics || ' ', maxWidth);
+                    lyricLines.forEach((ll: string) => {
+                        doc.text(ll, margin, y);
+                        y += 14;
                     });
                 }
 
-                // Lyric line
-                doc.setFont('courier', 'normal');
-                doc.setTextColor(30, 30, 30);
-                const lyricLines = doc.splitTextToSize(line.lyrics || ' ', maxWidth);
-                lyricLines.forEach((ll: string) => {
-                    doc.text(ll, margin, y);
-                    y += 14;
-                });
+                y += 10; // gap between sections
             }
+        }
 
-            y += 10; // gap between sections
+        // Letter charts end with a diagram of each chord used
+        if (legend && (fmt === 'letters' || fmt === 'shapes')) {
+            doc.setDrawColor(0, 48, 73);
+            doc.setTextColor(0, 48, 73);
+            drawChordLegend(doc, chordsUsed(song.sections, transformChord), legend, y + 8, margin);
         }
 
         const suffixMap: Record<PdfFormat, string> = {
             letters: 'chords',
+            shapes: 'capo',
             numerals: 'numerals',
+            nashville: 'nashville',
             lyrics: 'lyrics',
         };
         const sanitized = song.title.replace(/[^a-z0-9]/gi, '-').toLowerCase();
@@ -202,20 +255,18 @@ export default function SongExportModal({ song, initialKey, onClose }: SongExpor
                 <div className="mb-5">
                     <label className="block text-sm font-medium mb-2">Export in key</label>
                     <div className="flex items-center gap-2">
-                        <select
+                        <KeySelect
                             value={exportKey}
-                            onChange={e => setExportKey(e.target.value)}
-                            className="bg-white border border-primary/20 rounded px-2 py-1.5 font-mono text-sm flex-1"
-                        >
-                            {ALL_KEYS.map(k => {
-                                const interval = getTranspositionInterval(song.key, k);
-                                const display =
-                                    k === song.key
-                                        ? `${k} (original)`
-                                        : `${k} (${interval > 6 ? interval - 12 : interval > 0 ? '+' + interval : interval})`;
-                                return <option key={k} value={k}>{display}</option>;
-                            })}
-                        </select>
+                            onChange={setExportKey}
+                            original={song.key}
+                            className="rounded px-2 py-1.5 text-sm flex-1"
+                        />
+                        <CapoSelect
+                            value={capo}
+                            onChange={setCapo}
+                            soundingKey={exportKey}
+                            className="rounded px-2 py-1.5 text-sm flex-1"
+                        />
                     </div>
                 </div>
 
@@ -248,7 +299,7 @@ export default function SongExportModal({ song, initialKey, onClose }: SongExpor
                 </div>
 
                 {/* Show key toggle (only relevant for chord formats) */}
-                {(selectedPdf.has('letters') || selectedPdf.has('numerals')) && (
+                {(selectedPdf.has('letters') || selectedPdf.has('shapes') || selectedPdf.has('numerals') || selectedPdf.has('nashville')) && (
                     <label className="flex items-center gap-2 text-sm mb-4 ml-1">
                         <input
                             type="checkbox"
@@ -260,6 +311,23 @@ export default function SongExportModal({ song, initialKey, onClose }: SongExpor
                     </label>
                 )}
 
+                {/* Chord legend (letter formats only) */}
+                {(selectedPdf.has('letters') || selectedPdf.has('shapes')) && (
+                    <label className="flex items-center gap-2 text-sm mb-4 ml-1">
+                        Chord diagrams
+                        <select
+                            value={legend}
+                            onChange={e => setLegend(e.target.value as DiagramInstrument | '')}
+                            className="bg-white border border-primary/20 rounded px-2 py-1 text-sm"
+                        >
+                            <option value="">None</option>
+                            {DIAGRAM_INSTRUMENTS.map(({ id, label }) => (
+                                <option key={id} value={id}>{label}</option>
+                            ))}
+                        </select>
+                    </label>
+                )}
+
                 {/* ChordPro */}
                 <div className="mb-6">
                     <label className="block text-sm font-medium mb-2">Text formats</label>
@@ -0,0 +1,81 @@
+'use client';
+
+import type { CSSProperties } from 'react';
+import { themeVars, fontUrl, type LiveTheme } from '../../../live-state/theme';
+import type { LanguageLayout } from '../../../live-state/languages';
+
+interface ThemedSlideProps {
+  theme: LiveTheme;
+  title?: string;
+  lyrics: string;
+  imageUrl?: string;  // announcement image, drawn above the text
+  secondary?: string;  // second-language lyrics
+  languageLayout?: LanguageLayout;
+  // Scale to the parent box (theme editor preview) instead of the viewport.
+  preview?: boolean;
+  className?: string;
+}
+
+// One projector slide drawn with a theme. /live uses it full-screen; the theme
+// editor uses it as a 16:9 preview.
+export default function ThemedSlide({
+  theme, title, lyrics, imageUrl, secondary, languageLayout = 'stacked', preview = false, className = '',
+}: ThemedSlideProps) {
+  const vars = themeVars(theme, preview ? { x: 'cqw', y: 'cqh' } : undefined) as CSSProperties;
+  const lowerThird = theme.layout === 'lowerThird';
+  const bg = theme.background;
+
+  return (
+    <div
+      className={`relative overflow-hidden flex justify-center ${lowerThird ? 'items-end' : 'items-center'} ${className}`}
+      style={{ ...vars, background: 'var(--theme-bg)', containerType: preview ? 'size' : undefined }}
+    >
+      <link rel="stylesheet" href={fontUrl(theme.fontFamily)} precedence="default" />
+      {bg.kind === 'video' && (
+        <>
+          <video key={bg.url} src={bg.url} autoPlay loop muted playsInline className="absolute inset-0 w-full h-full object-cover" />
+          <div className="absolute inset-0 bg-black" style={{ opacity: 'var(--theme-bg-dim)' }} />
+        </>
+      )}
+      <div
+        className={`relative text-center w-full ${lowerThird ? 'bg-black/55 rounded-[0.4em]' : ''}`}
+        style={{
+          margin: 'var(--theme-safe-y) var(--theme-safe-x)',
+          padding: lowerThird ? '0.4em 1em' : undefined,
+          color: 'var(--theme-color)',
+          fontFamily: 'var(--theme-font)',
+          textShadow: 'var(--theme-shadow)',
+          WebkitTextStroke: 'var(--theme-stroke)',
+          paintOrder: 'stroke fill',
+        }}
+      >
+        {title && !lowerThird && (
+          <p className="uppercase tracking-[0.25em] font-light opacity-40 mb-[0.8em]" style={{ fontSize: 'calc(var(--theme-size) * 0.3)' }}>
+            {title}
+          </p>
+        )}
+        {imageUrl && (
+          // eslint-disable-next-line @next/next/no-img-element -- arbitrary operator-supplied URLs
+          <img src={imageUrl} alt="" className="mx-auto mb-[0.6em] max-h-[50vh] max-w-full object-contain" />
+        )}
+        {lyrics && secondary ? (
+          <div className={languageLayout === 'sideBySide' ? 'grid grid-cols-2 gap-[1em]' : ''}>
+            <p className="font-light leading-[1.4] whitespace-pre-line" style={{ fontSize: 'calc(var(--theme-size) * 0.8)' }}>
+              {lyrics}
+            </p>
+            <p
+              className={`font-light italic leading-[1.4] whitespace-pre-line opacity-75 ${languageLayout === 'sideBySide' ? '' : 'mt-[0.5em]'}`}
+              style={{ fontSize: `calc(var(--theme-size) * ${languageLayout === 'sideBySide' ? 0.8 : 0.6})` }}
+            >
+              {secondary}
+            </p>
+          </div>
+        ) : lyrics && (
+          <p className="font-light leading-[1.4] whitespace-pre-line" style={{ fontSize: 'var(--theme-size)' }}>
+            {lyrics}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import { useState } from 'react';
+import type { Section } from '@/lib/db';
+import {
+  availableLanguages, languageName, normalizeLanguage, setSectionTranslation,
+} from '../../../live-state/languages';
+
+interface TranslationEditorProps {
+  sections: Section[];
+  onChange: (sections: Section[]) => void;
+}
+
+// Parallel translation lines per section, one language at a time. Each lyric
+// line gets exactly one translated line so slides can pair them up.
+export default function TranslationEditor({ sections, onChange }: TranslationEditorProps) {
+  const languages = availableLanguages(sections);
+  const [language, setLanguage] = useState(languages[0] ?? '');
+  const [newLanguage, setNewLanguage] = useState('');
+
+  const addLanguage = () => {
+    const code = normalizeLanguage(newLanguage);
+    if (!code) return;
+    setLanguage(code);
+    setNewLanguage('');
+  };
+
+  const updateSection = (index: number, text: string) => {
+    onChange(sections.map((s, i) =>
+      i === index ? { ...s, translations: setSectionTranslation(s.translations, language, text) } : s
+    ));
+  };
+
+  const tabs = language && !languages.includes(language) ? [...languages, language] : languages;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        {tabs.map(code => (
+          <button
+            key={code}
+            onClick={() => setLanguage(code)}
+            className={`px-3 py-1 rounded-full text-sm font-semibold transition-colors ${
+              code === language ? 'bg-primary text-secondary' : 'border border-primary/20 hover:bg-primary/5'
+            }`}
+          >
+            {languageName(code)}
+          </button>
+        ))}
+        <input
+          type="text"
+          value={newLanguage}
+          onChange={(e) => setNewLanguage(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addLanguage()}
+          placeholder="Add language (es, pt…)"
+          className="w-44 bg-white border border-primary/20 rounded px-2 py-1 text-sm"
+        />
+        <button onClick={addLanguage} className="text-sm text-primary hover:underline">Add</button>
+      </div>
+
+      {!language ? (
+        <div className="bg-primary/5 rounded-lg p-6 text-center opacity-60">
+          No translations yet. Add a language to start.
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {sections.map((section, sIdx) => {
+            const lines = section.translations?.find(t => t.language === language)?.lines ?? [];
+            return (
+              <div key={sIdx}>
+                <div className="text-xs font-bold uppercase tracking-wide text-primary/60 mb-1">{section.label}</div>
+                <div className="grid grid-cols-2 gap-2">
+                  <pre className="bg-primary/5 rounded px-2 py-1 text-sm whitespace-pre-wrap font-sans leading-6">
+                    {section.lines.map(l => l.lyrics).join('\n')}
+                  </pre>
+                  <textarea
+                    value={lines.join('\n')}
+                    onChange={(e) => updateSection(sIdx, e.target.value)}
+                    rows={Math.max(section.lines.length, 1)}
+                    placeholder={`${languageName(language)}, one line per lyric line`}
+                    className={`bg-white border rounded px-2 py-1 text-sm leading-6 resize-none ${
+                      lines.length > section.lines.length ? 'border-red-400' : 'border-primary/20'
+                    }`}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useCallback, useMemo } from 'react';
-import type { Section } from '@/lib/db';
+import type { Section, ChordPosition } from '@/lib/db';
 import { mergeChordAtPosition } from '@/lib/lyrics/parser';
 import EditableLyricsLine from './EditableLyricsLine';
 import ChordPicker from './ChordPicker';
@@ -13,6 +13,7 @@ const SECTION_TYPES: Section['type'][] = [
 interface VisualChordEditorProps {
   sections: Section[];
   songKey: string;
+  beatsPerBar?: number; // from the song's time signature
   onChange: (sections: Section[]) => void;
 }
 
@@ -26,6 +27,7 @@ interface ActiveChord {
 export default function VisualChordEditor({
   sections,
   songKey,
+  beatsPerBar = 4,
   onChange,
 }: VisualChordEditorProps) {
   const [activeChord, setActiveChord] = useState<ActiveChord | null>(null);
@@ -44,7 +46,7 @@ export default function VisualChordEditor({
   }, [sections]);
 
   // Get current chord at active position
-  const getCurrentChord = useCallback((): string | null => {
+  const getCurrentChord = useCallback((): ChordPosition | null => {
     if (!activeChord) return null;
 
     const section = sections[activeChord.sectionIndex];
@@ -53,8 +55,7 @@ export default function VisualChordEditor({
     const line = section.lines[activeChord.lineIndex];
     if (!line) return null;
 
-    const chord = line.chords.find(c => c.position === activeChord.position);
-    return chord?.chord || null;
+    return line.chords.find(c => c.position === activeChord.position) ?? null;
   }, [activeChord, sections]);
 
   // Handle click on lyrics/chord line - open chord picker
@@ -95,6 +96,36 @@ export default function VisualChordEditor({
     setActiveChord(null);
   }, [activeChord, sections, onChange]);
 
+  // Set how many beats the active chord is held for in rehearsal (undefined = a bar)
+  const handleBeatsChange = useCallback((beats: number | undefined) => {
+    if (!activeChord) return;
+
+    const newSections = [...sections];
+    const line = newSections[activeChord.sectionIndex].lines[activeChord.lineIndex];
+
+    line.chords = line.chords.map(c =>
+      c.position !== activeChord.position ? c
+        : beats ? { ...c, beats } : { chord: c.chord, position: c.position, ...(c.mark && { mark: c.mark }) }
+    );
+
+    onChange(newSections);
+  }, [activeChord, sections, onChange]);
+
+  // Set or clear the active chord's rhythm mark (diamond or push) for number charts
+  const handleMarkChange = useCallback((mark: ChordPosition['mark']) => {
+    if (!activeChord) return;
+
+    const newSections = [...sections];
+    const line = newSections[activeChord.sectionIndex].lines[activeChord.lineIndex];
+
+    line.chords = line.chords.map(c =>
+      c.position !== activeChord.position ? c
+        : mark ? { ...c, mark } : { chord: c.chord, position: c.position, ...(c.beats && { beats: c.beats }) }
+    );
+
+    onChange(newSections);
+  }, [activeChord, sections, onChange]);
+
   // Close chord picker
   const handleClosePicker = useCallback(() => {
     setActiveChord(null);
@@ -153,7 +184,10 @@ export default function VisualChordEditor({
 
   const removeLine = (sectionIndex: number, lineIndex: number) => {
     const newSections = [...sections];
-    newSections[sectionIndex].lines = newSections[sectionIndex].lines.filter((_, i) => i !== lineIndex);
+    const section = newSections[sectionIndex];
+    section.lines = section.lines.filter((_, i) => i !== lineIndex);
+    // Translations are line-for-line with the lyrics; drop the matching line.
+    section.translations = section.translations?.map(t => ({ ...t, lines: t.lines.filter((_, i) => i !== lineIndex) }));
     onChange(newSections);
   };
 
@@ -237,6 +271,8 @@ export default function VisualChordEditor({
                             : null
                         }
                         isInstrumental={showBeatMarkers}
+                        beatsPerBar={beatsPerBar}
+                        totalBeats={beatsPerBar * 2}
                       />
 
                       {/* Editable lyrics input - hidden for instrumental beat lines */}
@@ -296,7 +332,12 @@ export default function VisualChordEditor({
       {activeChord && (
         <ChordPicker
           songKey={songKey}
-          currentChord={getCurrentChord()}
+          currentChord={getCurrentChord()?.chord ?? null}
+          beats={getCurrentChord()?.beats}
+          beatsPerBar={beatsPerBar}
+          onBeatsChange={handleBeatsChange}
+          mark={getCurrentChord()?.mark}
+          onMarkChange={handleMarkChange}
           recentChords={recentChords}
           position={activeChord.screenPosition}
           onSelect={handleChordSelect}
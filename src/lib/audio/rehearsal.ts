@@ -0,0 +1,67 @@
+// Rehearsal playback for the perform page: a click on every beat (accented on
+// the downbeat) after a one-bar count-in, and optionally the chart's chords on
+// the piano. Everything is scheduled on the audio clock up front, so the page
+// asks where playback is rather than keeping its own timers.
+import { getAudioContext, getPianoPlayer, resumeAudioContext } from './piano';
+import { type Note } from '../music/melodyGenerator';
+import { chordMidi, type RehearsalTimeline } from '../../../live-state/rehearsal';
+import { parseChord } from '../../../live-state/chords';
+
+export interface RehearsalPlayback {
+  beat(): number; // beats since the top of the song; negative during the count-in
+  stop(): void;
+}
+
+export interface RehearsalOptions {
+  tempo: number;
+  withChords: boolean;
+  spell?: (chord: string) => string; // e.g. transpose to the key on screen
+}
+
+export async function startRehearsal(
+  timeline: RehearsalTimeline,
+  { tempo, withChords, spell = c => c }: RehearsalOptions,
+): Promise<RehearsalPlayback> {
+  await resumeAudioContext();
+  const ctx = getAudioContext();
+  const bar = timeline.beatsPerBar;
+  const secondsPerBeat = 60 / tempo;
+  const top = ctx.currentTime + 0.1 + bar * secondsPerBeat;
+
+  // All clicks go through one gain node, so stopping is a single disconnect
+  const clicks = ctx.createGain();
+  clicks.connect(ctx.destination);
+  for (let beat = -bar; beat < timeline.totalBeats; beat++) {
+    const time = top + beat * secondsPerBeat;
+    const accent = ((beat % bar) + bar) % bar === 0;
+
+    const osc = ctx.createOscillator();
+    osc.frequency.value = accent ? 1600 : 1000;
+    const envelope = ctx.createGain();
+    envelope.gain.value = 0;
+    envelope.gain.setValueAtTime(0, time);
+    envelope.gain.linearRampToValueAtTime(accent ? 0.5 : 0.3, time + 0.002);
+    envelope.gain.exponentialRampToValueAtTime(0.001, time + 0.05);
+
+    osc.connect(envelope).connect(clicks);
+    osc.start(time);
+    osc.stop(time + 0.06);
+  }
+
+  const piano = getPianoPlayer();
+  if (withChords) {
+    const notes: Note[] = timeline.steps.flatMap(step => {
+      const chord = step.symbol ? parseChord(spell(step.symbol)) : null;
+      return chord ? chordMidi(chord).map(midi => ({ midi, startBeat: step.start, duration: step.beats })) : [];
+    });
+    piano.scheduleNotes(notes, tempo, top, false);
+  }
+
+  return {
+    beat: () => (ctx.currentTime - top) / secondsPerBeat,
+    stop: () => {
+      clicks.disconnect();
+      if (withChords) piano.stop();
+    },
+  };
+}
@@ -268,7 +268,8 @@ export function exportToChordPro(
   title: string,
   artist: string,
   key: string,
-  sections: Section[]
+  sections: Section[],
+  capo?: number
 ): string {
   const lines: string[] = [];
 
@@ -276,6 +277,7 @@ export function exportToChordPro(
   lines.push(`{title: ${title}}`);
   lines.push(`{artist: ${artist}}`);
   lines.push(`{key: ${key}}`);
+  if (capo) lines.push(`{capo: ${capo}}`);
   lines.push('');
 
   // Sections
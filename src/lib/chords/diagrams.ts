@@ -0,0 +1,61 @@
+import { parseChord } from './transposition';
+import type { Section } from '../db';
+import {
+  fretVoicing, pianoVoicing, GUITAR, UKULELE, type FretVoicing, type Instrument,
+} from '../../../live-state/voicings';
+
+// Chord diagrams for charts and exports; the voicings themselves are worked
+// out in live-state/voicings.ts.
+export type { FretVoicing };
+
+export type DiagramInstrument = 'guitar' | 'ukulele' | 'piano';
+
+export const DIAGRAM_INSTRUMENTS: { id: DiagramInstrument; label: string }[] = [
+  { id: 'guitar', label: 'Guitar' },
+  { id: 'ukulele', label: 'Ukulele' },
+  { id: 'piano', label: 'Piano' },
+];
+
+const FRETTED: Record<Exclude<DiagramInstrument, 'piano'>, Instrument> = { guitar: GUITAR, ukulele: UKULELE };
+
+export type ChordVoicing =
+  | { kind: 'frets'; voicing: FretVoicing }
+  | { kind: 'keys'; notes: number[] }; // MIDI notes
+
+// How to play a chord symbol on an instrument; null when it isn't a chord or
+// no shape within reach sounds it.
+export function chordVoicing(chord: string, instrument: DiagramInstrument): ChordVoicing | null {
+  const parsed = parseChord(chord);
+  if (!parsed) return null;
+  if (instrument === 'piano') return { kind: 'keys', notes: pianoVoicing(parsed) };
+  const voicing = fretVoicing(parsed, FRETTED[instrument]);
+  return voicing && { kind: 'frets', voicing };
+}
+
+// Each chord a song uses, once, in the order it first comes up, as `spell`
+// writes it (e.g. transposed to the key being printed).
+export function chordsUsed(sections: Section[], spell: (chord: string) => string = c => c): string[] {
+  const seen = new Set<string>();
+  for (const section of sections) {
+    for (const line of section.lines) {
+      for (const { chord } of line.chords) {
+        if (parseChord(chord)) seen.add(spell(chord));
+      }
+    }
+  }
+  return [...seen];
+}
+
+const BLACK_KEYS = new Set([1, 3, 6, 8, 10]);
+
+export function isBlackKey(midi: number): boolean {
+  return BLACK_KEYS.has(midi % 12);
+}
+
+// The white keys a keyboard diagram needs to show the notes: whole octaves,
+// from the C at or below the lowest note to the B at or above the highest.
+export function keyboardRange(notes: number[]): { low: number; high: number } {
+  const low = Math.min(...notes);
+  const high = Math.max(...notes);
+  return { low: low - (low % 12), high: high - (high % 12) + 11 };
+}
@@ -11,6 +11,8 @@ export type SectionType =
 export interface ChordPosition {
   chord: string;
   position: number; // character index in lyrics
+  beats?: number; // how long it's held in rehearsal playback; unset = a bar
+  mark?: 'diamond' | 'push'; // rhythm mark on number charts, see live-state/numbers.ts
 }
 
 export interface ChordLine {
@@ -23,25 +25,38 @@ export interface Section {
   label: string;
   lines: ChordLine[];
   slideBreaks?: number[];
+  translations?: { language: string; lines: string[] }[];  // parallel to `lines`, see live-state/languages.ts
 }
 
 export type Song = Doc<'songs'>;
 export type Setlist = Doc<'setlists'>;
+export type Theme = Doc<'themes'>;
 
 // Shape for creating a song (matches api.songs.create args).
 export type NewSong = {
   title: string;
   artist: string;
   key: string;
+  ccli?: string;
+  capo?: number;
   sections: Section[];
 };
 
-// A song as it appears inside a setlist (with the per-setlist key override merged in).
-export type SongWithKey = Song & { transposedKey?: string };
+// A song as it appears inside a setlist (with the per-setlist key, theme and arrangement merged in;
+// its capo is the setlist's when set).
+export type SongWithKey = Song & { transposedKey?: string; themeId?: Id<'themes'>; notes?: string; arrangement?: string };
 
 // One entry in a setlist's song list.
 export type SetlistSong = {
   songId: Id<'songs'>;
   transposedKey?: string;
+  themeId?: Id<'themes'>;
+  notes?: string;  // band notes shown on the stage monitor
+  arrangement?: string;  // name of one of the song's arrangements; unset = section order
+  capo?: number;  // overrides the song's capo for this setlist
   order: number;
 };
+
+// A reading, announcement or countdown placed before song `before` in the
+// running order (matches the `items` entries in convex/schema.ts).
+export type ServiceItemEntry = NonNullable<Setlist['items']>[number];
@@ -0,0 +1,6 @@
+export type SearchParams = Promise<Record<string, string | string[]>>
+
+// A page's search params as URLSearchParams, first value of a repeated key.
+export function toSearchParams(params: Record<string, string | string[]>): URLSearchParams {
+  return new URLSearchParams(Object.entries(params).map(([k, v]) => [k, Array.isArray(v) ? v[0] : v]))
+}
@@ -1,57 +1,16 @@
 import type { Section, ChordLine } from '@/lib/db'
 import { transposeChordToKey } from '@/lib/chords/transposition'
 import { chordLineToChordPro } from './convert'
+import {
+  chunkLineIndices, resolveChunking, DEFAULT_TARGET_WORDS, type ChunkLayout, type ScreenSize, type SlideChunking,
+} from '../../../live-state/slides'
+import type { LiveSlide } from '../../../live-state/state'
+import type { LiveTheme } from '../../../live-state/theme'
+import { arrangedSections, type Arrangement } from '../../../live-state/arrangement'
+import { sectionLanguageLines, type SlideLanguages } from '../../../live-state/languages'
 
-export const DEFAULT_TARGET_WORDS = 10
-
-export interface BuiltSlide {
-  type:              string
-  label:             string
-  lyrics:            string
-  chords:            string
-  isSectionStart:    boolean
-  slideInSection:    number
-  sectionSlideCount: number
-}
-
-function wordCount(line: string): number {
-  const t = line.trim()
-  return t ? t.split(/\s+/).length : 0
-}
-
-// Mirror of bridge/slides.ts chunkLineIndices — keep in sync.
-export function chunkLineIndices(
-  lines: string[],
-  breaks?: number[],
-  targetWords: number = DEFAULT_TARGET_WORDS,
-): number[][] {
-  if (lines.length === 0) return []
-
-  if (breaks && breaks.length) {
-    const breakSet = new Set(breaks.filter(b => b > 0 && b < lines.length))
-    const groups: number[][] = []
-    let cur: number[] = []
-    for (let i = 0; i < lines.length; i++) {
-      if (breakSet.has(i) && cur.length) { groups.push(cur); cur = [] }
-      cur.push(i)
-    }
-    if (cur.length) groups.push(cur)
-    return groups
-  }
-
-  const groups: number[][] = []
-  let cur: number[] = []
-  let curWords = 0
-  for (let i = 0; i < lines.length; i++) {
-    const w = wordCount(lines[i])
-    if (cur.length && curWords + w > targetWords) {
-      groups.push(cur); cur = []; curWords = 0
-    }
-    cur.push(i); curWords += w
-  }
-  if (cur.length) groups.push(cur)
-  return groups
-}
+// Chunking and the slide/setlist types come from live-state/, shared with the
+// bridge and the desktop app.
 
 function transposeLine(line: ChordLine, songKey: string, displayKey: string): ChordLine {
   if (displayKey === songKey || !line.chords.length) return line
@@ -61,27 +20,52 @@ function transposeLine(line: ChordLine, songKey: string, displayKey: string): Ch
   }
 }
 
-// Compute the slide preview groups for one section (line-index groups).
-export function sectionSlideGroups(section: Section, targetWords = DEFAULT_TARGET_WORDS): number[][] {
-  return chunkLineIndices(section.lines.map(l => l.lyrics), section.slideBreaks, targetWords)
+// The lines a section projects in each language: primary falls back to the
+// original lyrics, secondary is null when absent or the same as the primary.
+function projectedLines(section: Section, languages: SlideLanguages): { primary: string[]; secondary: string[] | null } {
+  return {
+    primary: sectionLanguageLines(section, languages.primary) ?? section.lines.map(l => l.lyrics),
+    secondary: languages.secondary !== undefined && languages.secondary !== languages.primary
+      ? sectionLanguageLines(section, languages.secondary)
+      : null,
+  }
+}
+
+// Compute the slide preview groups for one section (line-index groups). With
+// a stacked second language, its lines share the height the slide is fitted to.
+export function sectionSlideGroups(
+  section: Section,
+  chunking: number | ChunkLayout = DEFAULT_TARGET_WORDS,
+  languages: SlideLanguages = {},
+): number[][] {
+  const { primary, secondary } = projectedLines(section, languages)
+  const stacked = secondary && (languages.layout ?? 'stacked') === 'stacked' ? secondary : undefined
+  return chunkLineIndices(primary, section.slideBreaks, chunking, stacked)
 }
 
 // Flatten a song's sections into projector-ready slides, transposing chords to displayKey.
+// With languages set, slides carry the primary language as lyrics and the
+// secondary one alongside; sections missing a translation fall back to the
+// original lyrics (primary) or go without (secondary).
 export function songToSlides(
   sections: Section[],
   songKey: string,
   displayKey: string,
-  targetWords = DEFAULT_TARGET_WORDS,
-): BuiltSlide[] {
-  const out: BuiltSlide[] = []
+  chunking: number | ChunkLayout = DEFAULT_TARGET_WORDS,  // see resolveChunking
+  languages: SlideLanguages = {},
+): LiveSlide[] {
+  const out: LiveSlide[] = []
   for (const section of sections) {
-    const groups = sectionSlideGroups(section, targetWords)
+    const { primary, secondary } = projectedLines(section, languages)
+    const groups = sectionSlideGroups(section, chunking, languages)
     groups.forEach((group, gi) => {
       const groupLines = group.map(i => section.lines[i])
+      const second = secondary ? group.map(i => secondary[i]).join('\n') : ''
       out.push({
         type:  section.type,
         label: section.label,
-        lyrics: groupLines.map(l => l.lyrics).join('\n'),
+        lyrics: group.map(i => primary[i]).join('\n'),
+        ...(second.trim() ? { secondary: second } : {}),
         chords: groupLines.map(l => chordLineToChordPro(transposeLine(l, songKey, displayKey))).join('\n'),
         isSectionStart:    gi === 0,
         slideInSection:    gi,
@@ -91,3 +75,21 @@ export function songToSlides(
   }
   return out
 }
+
+// Slides for a song as a setlist projects it: in the entry's arrangement and
+// key, chunked by the song's own setting over the setlist's (measured for the
+// theme it shows with), in the setlist's languages. Pushing a setlist, the
+// desktop cache and live inserts all build through here, so a song breaks the
+// same way however it got into the running order.
+export function setlistSongSlides(
+  song: { sections: Section[]; key: string; chunking?: SlideChunking; arrangements?: Arrangement[] },
+  entry: { displayKey: string; arrangement?: string },
+  setlist: { chunking?: SlideChunking; languages?: SlideLanguages } | null | undefined,
+  theme: LiveTheme,
+  screen?: ScreenSize,
+): LiveSlide[] {
+  return songToSlides(
+    arrangedSections(song, entry.arrangement), song.key, entry.displayKey,
+    resolveChunking(song.chunking ?? setlist?.chunking, theme, screen), setlist?.languages,
+  )
+}
@@ -0,0 +1,22 @@
+import type { Id, Theme } from '@/lib/db'
+import type { LiveTheme } from '../../../live-state/theme'
+
+// Strip a stored theme down to what the live setlist carries.
+export function toLiveTheme(theme: Theme): LiveTheme {
+  return {
+    name:       theme.name,
+    background: theme.background,
+    fontFamily: theme.fontFamily,
+    fontSize:   theme.fontSize,
+    textColor:  theme.textColor,
+    shadow:     theme.shadow,
+    outline:    theme.outline,
+    layout:     theme.layout,
+    safeArea:   theme.safeArea,
+  }
+}
+
+export function findLiveTheme(themes: Theme[], id: Id<'themes'> | undefined): LiveTheme | undefined {
+  const theme = id ? themes.find(t => t._id === id) : undefined
+  return theme ? toLiveTheme(theme) : undefined
+}
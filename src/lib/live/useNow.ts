@@ -0,0 +1,11 @@
+import { useEffect, useState } from 'react'
+
+// Wall-clock time that re-renders the caller once a second (clocks, countdowns).
+export function useNow(): number {
+  const [now, setNow] = useState(() => Date.now())
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(id)
+  }, [])
+  return now
+}
@@ -0,0 +1,27 @@
+import { useCallback, useSyncExternalStore } from 'react'
+
+const listeners = new Set<() => void>()
+
+function subscribe(onChange: () => void) {
+  listeners.add(onChange)
+  window.addEventListener('storage', onChange)
+  return () => {
+    listeners.delete(onChange)
+    window.removeEventListener('storage', onChange)
+  }
+}
+
+// A number kept in localStorage, e.g. a reader's chosen text size. Renders the
+// fallback on the server and until hydration, so the markup always matches.
+export function useStoredNumber(key: string, fallback: number): [number, (value: number) => void] {
+  const read = () => {
+    const n = Number(localStorage.getItem(key) ?? NaN)
+    return Number.isFinite(n) ? n : fallback
+  }
+  const value = useSyncExternalStore(subscribe, read, () => fallback)
+  const set = useCallback((next: number) => {
+    localStorage.setItem(key, String(next))
+    listeners.forEach(l => l())
+  }, [key])
+  return [value, set]
+}
@@ -1,4 +1,4 @@
-import type { Section, ChordLine } from '../db';
+import type { Section, ChordLine, ChordPosition } from '../db';
 
 // Word boundary information for chord placement
 export interface WordBoundary {
@@ -198,18 +198,24 @@ export function parseLyricsToSections(text: string): Section[] {
 
 /**
  * Merge a chord into a line's chord array.
- * If a chord already exists at the same position, update it.
+ * If a chord already exists at the same position, update it (keeping its beats and rhythm mark).
  * If chord is empty string, remove the chord at that position.
  */
 export function mergeChordAtPosition(
-  existingChords: { chord: string; position: number }[],
+  existingChords: ChordPosition[],
   chord: string,
   position: number
-): { chord: string; position: number }[] {
+): ChordPosition[] {
+  const previous = existingChords.find(c => c.position === position);
   const chords = existingChords.filter(c => c.position !== position);
 
   if (chord.trim()) {
-    chords.push({ chord: chord.trim(), position });
+    chords.push({
+      chord: chord.trim(),
+      position,
+      ...(previous?.beats && { beats: previous.beats }),
+      ...(previous?.mark && { mark: previous.mark }),
+    });
     chords.sort((a, b) => a.position - b.position);
   }
 
@@ -0,0 +1,103 @@
+import type { jsPDF } from 'jspdf';
+import {
+  chordVoicing, isBlackKey, keyboardRange, type DiagramInstrument, type FretVoicing,
+} from '../chords/diagrams';
+
+const FRETS_SHOWN = 4;
+const STRING_GAP = 8;
+const FRET_GAP = 10;
+const WHITE_WIDTH = 4;
+const WHITE_HEIGHT = 28;
+const BLACK_WIDTH = 2.6;
+const BLACK_HEIGHT = 17;
+const CELL_HEIGHT = 80;
+
+// The "chords used in this song" legend: a heading, then each chord's diagram
+// in rows across the page, starting a new page when a row won't fit. Lines
+// and dots take the document's current draw colour. Returns the y below it.
+export function drawChordLegend(
+  doc: jsPDF,
+  chords: string[],
+  instrument: DiagramInstrument,
+  y: number,
+  margin: number
+): number {
+  if (chords.length === 0) return y;
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const cellWidth = instrument === 'piano' ? 90 : instrument === 'guitar' ? 64 : 52;
+  const perRow = Math.max(1, Math.floor((pageWidth - margin * 2) / cellWidth));
+
+  if (y > pageHeight - margin - CELL_HEIGHT - 20) {
+    doc.addPage();
+    y = margin;
+  }
+  doc.setFont('courier', 'bold');
+  doc.setFontSize(11);
+  doc.text('Chords', margin, y);
+  y += 16;
+
+  chords.forEach((chord, i) => {
+    const column = i % perRow;
+    if (column === 0 && i > 0) y += CELL_HEIGHT;
+    if (column === 0 && y > pageHeight - margin - CELL_HEIGHT) {
+      doc.addPage();
+      y = margin;
+    }
+    const x = margin + column * cellWidth;
+    doc.setFont('courier', 'bold');
+    doc.setFontSize(10);
+    doc.text(chord, x, y);
+
+    const voicing = chordVoicing(chord, instrument);
+    doc.setFont('courier', 'normal');
+    doc.setFontSize(7);
+    if (!voicing) doc.text('no shape', x, y + 14);
+    else if (voicing.kind === 'frets') drawFrets(doc, voicing.voicing, x + 8, y + 16);
+    else drawKeys(doc, voicing.notes, x, y + 8);
+  });
+
+  return y + CELL_HEIGHT;
+}
+
+function drawFrets(doc: jsPDF, { frets, baseFret }: FretVoicing, x: number, y: number): void {
+  const ink = doc.getDrawColor();
+  const right = x + (frets.length - 1) * STRING_GAP;
+  const bottom = y + FRETS_SHOWN * FRET_GAP;
+
+  if (baseFret === 1) {
+    doc.setLineWidth(2);
+    doc.line(x, y, right, y);
+  } else {
+    doc.text(String(baseFret), x - 7, y + FRET_GAP * 0.7);
+  }
+  doc.setLineWidth(0.5);
+  for (let f = 0; f <= FRETS_SHOWN; f++) doc.line(x, y + f * FRET_GAP, right, y + f * FRET_GAP);
+  doc.setFillColor(ink);
+  frets.forEach((fret, s) => {
+    const sx = x + s * STRING_GAP;
+    doc.line(sx, y, sx, bottom);
+    if (fret <= 0) doc.text(fret === 0 ? 'o' : 'x', sx, y - 3, { align: 'center' });
+    else doc.circle(sx, y + (fret - baseFret + 0.5) * FRET_GAP, 3, 'F');
+  });
+}
+
+function drawKeys(doc: jsPDF, notes: number[], x: number, y: number): void {
+  const ink = doc.getDrawColor();
+  const { low, high } = keyboardRange(notes);
+  const keys = Array.from({ length: high - low + 1 }, (_, i) => low + i);
+  const whites = keys.filter(k => !isBlackKey(k));
+  const left = (key: number) => x + (isBlackKey(key)
+    ? whites.indexOf(key + 1) * WHITE_WIDTH - BLACK_WIDTH / 2
+    : whites.indexOf(key) * WHITE_WIDTH);
+
+  doc.setLineWidth(0.5);
+  whites.forEach(key => doc.rect(left(key), y, WHITE_WIDTH, WHITE_HEIGHT));
+  doc.setFillColor(ink);
+  keys.filter(isBlackKey).forEach(key => doc.rect(left(key), y, BLACK_WIDTH, BLACK_HEIGHT, 'F'));
+  for (const note of notes) {
+    const black = isBlackKey(note);
+    doc.setFillColor(black ? '#ffffff' : ink);
+    doc.circle(left(note) + (black ? BLACK_WIDTH : WHITE_WIDTH) / 2, y + (black ? BLACK_HEIGHT - 4 : WHITE_HEIGHT - 5), black ? 1.2 : 1.8, 'F');
+  }
+}
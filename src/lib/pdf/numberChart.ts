@@ -0,0 +1,25 @@
+import type { jsPDF } from 'jspdf';
+import { barText, BARS_PER_ROW, type ChartSection } from '../chords/nashville';
+
+// Draw one row of a Nashville number chart at y: its bars in even columns
+// across the width, split bars underlined. Uses the document's current font
+// and colours, so callers style it like the rest of their page.
+export function drawChartRow(
+  doc: jsPDF,
+  row: ChartSection['rows'][number],
+  beatsPerBar: number,
+  x: number,
+  y: number,
+  width: number
+): void {
+  const column = width / BARS_PER_ROW;
+  doc.setLineWidth(0.5);
+  row.forEach((bar, i) => {
+    const text = barText(bar, beatsPerBar);
+    const left = x + i * column;
+    doc.text(text, left, y);
+    if (bar.chords.length > 1) {
+      doc.line(left, y + 2, left + doc.getTextWidth(text), y + 2);
+    }
+  });
+}
@@ -1,5 +1,6 @@
 import type { Section, ChordLine, ChordPosition, NewSong } from '../db';
-import { isChord } from '../chords/transposition';
+import { isChord, isChordLine } from '../chords/transposition';
+import { estimateKey } from '../../../live-state/tonality';
 
 // Dynamic import for PDF.js (browser only)
 async function getPdfjs() {
@@ -133,14 +134,6 @@ function parseSectionType(label: string): Section['type'] {
   return 'verse'; // default
 }
 
-// Check if line is all chords
-function isChordLine(text: string): boolean {
-  const tokens = text.trim().split(/\s+/).filter(Boolean);
-  if (tokens.length === 0) return false;
-  const chordCount = tokens.filter(t => isChord(t)).length;
-  return chordCount > 0 && chordCount / tokens.length >= 0.5;
-}
-
 // Extract chord positions from a chord line relative to a lyric line
 function extractChordPositions(chordLine: TextItem[], lyricLine: TextItem[]): ChordPosition[] {
   const chords: ChordPosition[] = [];
@@ -255,7 +248,7 @@ export async function parsePdf(file: File): Promise<ParsedPdfResult> {
   // Extract metadata from first page header
   let title = '';
   let artist = '';
-  let key = 'C';
+  let key = ''; // from a "Key:" line, else worked out from the chords
   let headerEndIdx = 0;
 
   // Look for title/artist in first few lines
@@ -422,7 +415,7 @@ export async function parsePdf(file: File): Promise<ParsedPdfResult> {
   return {
     title: title || 'Untitled',
     artist: artist || 'Unknown Artist',
-    key,
+    key: key || (estimateKey(sections)[0]?.key ?? 'C'),
     sections,
   };
 }
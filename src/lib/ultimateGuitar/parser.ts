@@ -1,9 +1,13 @@
 import type { Section, ChordLine, ChordPosition } from '../db';
+import { transposeChordToKey } from '../chords/transposition';
+import { capoSoundingKey, normalizeCapo } from '../../../live-state/capo';
+import { estimateKey } from '../../../live-state/tonality';
 
 interface UGParseResult {
   title: string;
   artist: string;
   key: string;
+  capo: number;
   sections: Section[];
 }
 
@@ -71,12 +75,16 @@ function isSectionLabel(line: string): RegExpMatchArray | null {
 }
 
 // Parse Ultimate Guitar content format
-// UG uses [ch]G[/ch] for chords and plain text for lyrics
+// UG uses [ch]G[/ch] for chords and plain text for lyrics. A tab without a
+// key gets the one its chords point at. A capoed tab is written in the shapes
+// played, so its key and chords are moved up to the sounding pitch songs are
+// stored at, and the capo kept alongside.
 export function parseUGContent(
   content: string,
   title: string,
   artist: string,
-  key: string
+  key: string,
+  capo = 0
 ): UGParseResult {
   // Remove [tab] wrappers and decode HTML entities
   let text = content.replace(/\[tab\]/g, '').replace(/\[\/tab\]/g, '');
@@ -188,10 +196,22 @@ export function parseUGContent(
     sections.push(currentSection);
   }
 
+  const shapeKey = key || (estimateKey(sections)[0]?.key ?? 'C');
+  const fret = normalizeCapo(capo);
+  const soundingKey = capoSoundingKey(shapeKey, fret);
+  if (fret) {
+    for (const section of sections) {
+      for (const line of section.lines) {
+        line.chords = line.chords.map(c => ({ ...c, chord: transposeChordToKey(c.chord, shapeKey, soundingKey) }));
+      }
+    }
+  }
+
   return {
     title,
     artist,
-    key,
+    key: soundingKey,
+    capo: fret,
     sections,
   };
 }